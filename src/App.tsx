@@ -12,13 +12,23 @@ import Applications from "./pages/Applications";
 import Financial from "./pages/Financial";
 import Medications from "./pages/Medications";
 import Questions from "./pages/Questions";
+import Anamnesis from "./pages/Anamnesis";
 import Profile from "./pages/Profile";
 import NotFound from "./pages/NotFound";
 import AdminDashboard from "./pages/admin/AdminDashboard";
 import AdminPatients from "./pages/admin/AdminPatients";
+import AdminPatientDetail from "./pages/admin/AdminPatientDetail";
+import AdminTreatmentPlans from "./pages/admin/AdminTreatmentPlans";
+import AdminAnamnesis from "./pages/admin/AdminAnamnesis";
 import AdminApplications from "./pages/admin/AdminApplications";
+import AdminAgenda from "./pages/admin/AdminAgenda";
+import AdminStaff from "./pages/admin/AdminStaff";
 import AdminFinancial from "./pages/admin/AdminFinancial";
+import AdminReconciliation from "./pages/admin/AdminReconciliation";
+import AdminFinancialReports from "./pages/admin/AdminFinancialReports";
 import AdminMedications from "./pages/admin/AdminMedications";
+import AdminMedicationCatalog from "./pages/admin/AdminMedicationCatalog";
+import AdminDrugInteractions from "./pages/admin/AdminDrugInteractions";
 import AdminEvaluations from "./pages/admin/AdminEvaluations";
 import AdminQuestions from "./pages/admin/AdminQuestions";
 
@@ -40,12 +50,22 @@ const App = () => (
             <Route path="/financial" element={<Financial />} />
             <Route path="/medications" element={<Medications />} />
             <Route path="/questions" element={<Questions />} />
+            <Route path="/anamnesis" element={<Anamnesis />} />
             <Route path="/profile" element={<Profile />} />
             <Route path="/admin" element={<AdminDashboard />} />
             <Route path="/admin/patients" element={<AdminPatients />} />
+            <Route path="/admin/patients/plans" element={<AdminTreatmentPlans />} />
+            <Route path="/admin/patients/anamnesis" element={<AdminAnamnesis />} />
+            <Route path="/admin/patients/:userId" element={<AdminPatientDetail />} />
             <Route path="/admin/applications" element={<AdminApplications />} />
+            <Route path="/admin/agenda" element={<AdminAgenda />} />
+            <Route path="/admin/agenda/staff" element={<AdminStaff />} />
             <Route path="/admin/financial" element={<AdminFinancial />} />
+            <Route path="/admin/financial/reconciliation" element={<AdminReconciliation />} />
+            <Route path="/admin/financial/reports" element={<AdminFinancialReports />} />
             <Route path="/admin/medications" element={<AdminMedications />} />
+            <Route path="/admin/medications/catalog" element={<AdminMedicationCatalog />} />
+            <Route path="/admin/medications/interactions" element={<AdminDrugInteractions />} />
             <Route path="/admin/evaluations" element={<AdminEvaluations />} />
             <Route path="/admin/questions" element={<AdminQuestions />} />
             <Route path="*" element={<NotFound />} />
@@ -5,6 +5,7 @@ import { useAuth } from '@/hooks/useAuth';
 import { 
   Users, 
   Calendar, 
+  CalendarDays,
   CreditCard, 
   Pill, 
   MessageCircle, 
@@ -25,6 +26,7 @@ const allNavItems = [
   { icon: LayoutDashboard, label: 'Dashboard', path: '/admin', requiresFinancial: false },
   { icon: Users, label: 'Pacientes', path: '/admin/patients', requiresFinancial: false },
   { icon: Calendar, label: 'Aplicações', path: '/admin/applications', requiresFinancial: false },
+  { icon: CalendarDays, label: 'Agenda', path: '/admin/agenda', requiresFinancial: false },
   { icon: CreditCard, label: 'Financeiro', path: '/admin/financial', requiresFinancial: true },
   { icon: Pill, label: 'Medicações', path: '/admin/medications', requiresFinancial: false },
   { icon: Stethoscope, label: 'Avaliações', path: '/admin/evaluations', requiresFinancial: false },
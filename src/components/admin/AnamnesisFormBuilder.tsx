@@ -0,0 +1,214 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ArrowDown, ArrowUp, Plus, Trash2, X } from 'lucide-react';
+import {
+  AnamnesisQuestion,
+  AnamnesisSection,
+  QUESTION_TYPE_LABELS,
+  QuestionType,
+  hasOptions,
+  newQuestion,
+  newSection,
+} from '@/lib/anamnesis';
+
+interface AnamnesisFormBuilderProps {
+  sections: AnamnesisSection[];
+  onChange: (sections: AnamnesisSection[]) => void;
+}
+
+function move<T>(items: T[], index: number, offset: number): T[] {
+  const target = index + offset;
+  if (target < 0 || target >= items.length) return items;
+  const next = [...items];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+}
+
+export function AnamnesisFormBuilder({ sections, onChange }: AnamnesisFormBuilderProps) {
+  const updateSection = (sectionIndex: number, changes: Partial<AnamnesisSection>) =>
+    onChange(sections.map((section, i) => (i === sectionIndex ? { ...section, ...changes } : section)));
+
+  const updateQuestion = (sectionIndex: number, questionIndex: number, changes: Partial<AnamnesisQuestion>) =>
+    updateSection(sectionIndex, {
+      questions: sections[sectionIndex].questions.map((question, i) =>
+        i === questionIndex ? { ...question, ...changes } : question
+      ),
+    });
+
+  return (
+    <div className="space-y-4">
+      {sections.map((section, sectionIndex) => (
+        <div key={section.id} className="rounded-lg border border-border p-3 space-y-3">
+          <div className="flex items-center gap-2">
+            <Input
+              value={section.title}
+              onChange={(e) => updateSection(sectionIndex, { title: e.target.value })}
+              placeholder={`Seção ${sectionIndex + 1} (ex: Histórico clínico)`}
+              className="font-medium"
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 shrink-0"
+              onClick={() => onChange(move(sections, sectionIndex, -1))}
+              disabled={sectionIndex === 0}
+            >
+              <ArrowUp className="w-4 h-4" />
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 shrink-0"
+              onClick={() => onChange(move(sections, sectionIndex, 1))}
+              disabled={sectionIndex === sections.length - 1}
+            >
+              <ArrowDown className="w-4 h-4" />
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 shrink-0 text-destructive hover:text-destructive"
+              onClick={() => onChange(sections.filter((_, i) => i !== sectionIndex))}
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+
+          {section.questions.map((question, questionIndex) => (
+            <div key={question.id} className="rounded-md bg-secondary/50 p-3 space-y-2">
+              <div className="flex items-center gap-2">
+                <Input
+                  value={question.label}
+                  onChange={(e) => updateQuestion(sectionIndex, questionIndex, { label: e.target.value })}
+                  placeholder="Pergunta"
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 shrink-0"
+                  onClick={() => updateSection(sectionIndex, { questions: move(section.questions, questionIndex, -1) })}
+                  disabled={questionIndex === 0}
+                >
+                  <ArrowUp className="w-4 h-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 shrink-0"
+                  onClick={() => updateSection(sectionIndex, { questions: move(section.questions, questionIndex, 1) })}
+                  disabled={questionIndex === section.questions.length - 1}
+                >
+                  <ArrowDown className="w-4 h-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 shrink-0 text-destructive hover:text-destructive"
+                  onClick={() =>
+                    updateSection(sectionIndex, { questions: section.questions.filter((_, i) => i !== questionIndex) })
+                  }
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+              <div className="flex items-center justify-between gap-4">
+                <Select
+                  value={question.type}
+                  onValueChange={(value) => updateQuestion(sectionIndex, questionIndex, { type: value as QuestionType })}
+                >
+                  <SelectTrigger className="w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(QUESTION_TYPE_LABELS) as QuestionType[]).map((type) => (
+                      <SelectItem key={type} value={type}>{QUESTION_TYPE_LABELS[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <div className="flex items-center gap-2">
+                  <Label htmlFor={`required-${question.id}`} className="text-sm font-normal">Obrigatória</Label>
+                  <Switch
+                    id={`required-${question.id}`}
+                    checked={question.required}
+                    onCheckedChange={(required) => updateQuestion(sectionIndex, questionIndex, { required })}
+                  />
+                </div>
+              </div>
+              {hasOptions(question.type) && (
+                <div className="space-y-2">
+                  {question.options.map((option, optionIndex) => (
+                    <div key={optionIndex} className="flex items-center gap-2">
+                      <Input
+                        value={option}
+                        onChange={(e) =>
+                          updateQuestion(sectionIndex, questionIndex, {
+                            options: question.options.map((item, i) => (i === optionIndex ? e.target.value : item)),
+                          })
+                        }
+                        placeholder={`Opção ${optionIndex + 1}`}
+                      />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 shrink-0"
+                        onClick={() =>
+                          updateQuestion(sectionIndex, questionIndex, {
+                            options: question.options.filter((_, i) => i !== optionIndex),
+                          })
+                        }
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  ))}
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    className="gap-1"
+                    onClick={() => updateQuestion(sectionIndex, questionIndex, { options: [...question.options, ''] })}
+                  >
+                    <Plus className="w-4 h-4" />
+                    Opção
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            className="gap-1"
+            onClick={() => updateSection(sectionIndex, { questions: [...section.questions, newQuestion()] })}
+          >
+            <Plus className="w-4 h-4" />
+            Pergunta
+          </Button>
+        </div>
+      ))}
+
+      <Button type="button" variant="outline" className="w-full gap-2" onClick={() => onChange([...sections, newSection()])}>
+        <Plus className="w-4 h-4" />
+        Adicionar Seção
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { AnamnesisFormBuilder } from '@/components/admin/AnamnesisFormBuilder';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { AnamnesisSection, cleanSections, hasOptions, newSection, parseSections } from '@/lib/anamnesis';
+import type { Json } from '@/integrations/supabase/types';
+
+export interface AnamnesisForm {
+  id: string;
+  title: string;
+  description: string | null;
+  sections: Json;
+  is_active: boolean;
+}
+
+interface AnamnesisFormDialogProps {
+  // null creates a new form
+  form: AnamnesisForm | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess: () => void;
+}
+
+export function AnamnesisFormDialog({ form, open, onOpenChange, onSuccess }: AnamnesisFormDialogProps) {
+  const { toast } = useToast();
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [sections, setSections] = useState<AnamnesisSection[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setTitle(form?.title || '');
+      setDescription(form?.description || '');
+      setSections(form ? parseSections(form.sections) : [newSection()]);
+    }
+  }, [form, open]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!title.trim()) return;
+
+    const cleaned = cleanSections(sections);
+    if (cleaned.length === 0) {
+      toast({ title: 'Adicione ao menos uma pergunta', variant: 'destructive' });
+      return;
+    }
+    const emptyChoice = cleaned
+      .flatMap(section => section.questions)
+      .find(question => hasOptions(question.type) && question.options.length < 2);
+    if (emptyChoice) {
+      toast({ title: `Informe ao menos duas opções em "${emptyChoice.label}"`, variant: 'destructive' });
+      return;
+    }
+
+    const values = {
+      title: title.trim(),
+      description: description.trim() || null,
+      sections: cleaned,
+    };
+
+    setSaving(true);
+    try {
+      const { error } = form
+        ? await supabase.from('anamnesis_forms').update(values).eq('id', form.id)
+        : await supabase.from('anamnesis_forms').insert(values);
+
+      if (error) throw error;
+
+      toast({ title: form ? 'Questionário atualizado!' : 'Questionário criado!' });
+      onOpenChange(false);
+      onSuccess();
+    } catch (error) {
+      console.error('Error saving anamnesis form:', error);
+      toast({ title: 'Erro ao salvar questionário', variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{form ? 'Editar Questionário' : 'Novo Questionário'}</DialogTitle>
+          <DialogDescription>
+            Respostas já enviadas guardam a versão do questionário que o paciente respondeu.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label>Título</Label>
+            <Input
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="Ex: Anamnese inicial"
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Descrição (opcional)</Label>
+            <Textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Orientações exibidas ao paciente antes das perguntas..."
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Seções e perguntas</Label>
+            <AnamnesisFormBuilder sections={sections} onChange={setSections} />
+          </div>
+          <Button type="submit" className="w-full gradient-primary" disabled={saving}>
+            {saving ? 'Salvando...' : form ? 'Salvar Alterações' : 'Criar Questionário'}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,138 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ClipboardCheck } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { AnamnesisAnswers, AnamnesisSection, formatAnswer, parseAnswers, parseSections } from '@/lib/anamnesis';
+
+interface AnamnesisResponse {
+  id: string;
+  form_id: string | null;
+  version: number;
+  form_title: string;
+  form_sections: AnamnesisSection[];
+  answers: AnamnesisAnswers;
+  submitted_at: string;
+}
+
+interface AnamnesisResponsesProps {
+  patientId: string;
+}
+
+export function AnamnesisResponses({ patientId }: AnamnesisResponsesProps) {
+  const [groups, setGroups] = useState<AnamnesisResponse[][]>([]);
+  // Selected response per group, defaults to the latest version
+  const [selected, setSelected] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+
+  const fetchResponses = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('anamnesis_responses')
+        .select('id, form_id, version, form_title, form_sections, answers, submitted_at')
+        .eq('user_id', patientId)
+        .order('version', { ascending: false });
+
+      if (error) throw error;
+
+      // Responses to a deleted form no longer share a form_id, so each stands alone
+      const byForm = new Map<string, AnamnesisResponse[]>();
+      (data || []).forEach(row => {
+        const response = {
+          ...row,
+          form_sections: parseSections(row.form_sections),
+          answers: parseAnswers(row.answers),
+        };
+        const key = response.form_id || response.id;
+        byForm.set(key, [...(byForm.get(key) || []), response]);
+      });
+
+      setGroups([...byForm.values()]);
+    } catch (error) {
+      console.error('Error fetching anamnesis responses:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [patientId]);
+
+  useEffect(() => {
+    if (patientId) {
+      fetchResponses();
+    }
+  }, [patientId, fetchResponses]);
+
+  if (loading) {
+    return <p className="text-sm text-muted-foreground text-center py-4">Carregando...</p>;
+  }
+
+  if (groups.length === 0) {
+    return (
+      <div className="text-center py-6 text-muted-foreground">
+        <ClipboardCheck className="w-10 h-10 mx-auto mb-2" />
+        <p className="text-sm">Nenhuma anamnese respondida</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {groups.map((versions) => {
+        const groupKey = versions[0].form_id || versions[0].id;
+        const response = versions.find(item => item.id === selected[groupKey]) || versions[0];
+
+        return (
+          <div key={groupKey} className="space-y-3">
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <p className="font-semibold text-primary">{response.form_title}</p>
+                <p className="text-xs text-muted-foreground">
+                  Enviada em {format(parseISO(response.submitted_at), 'dd/MM/yyyy HH:mm')}
+                  {!response.form_id && ' • questionário excluído'}
+                </p>
+              </div>
+              {versions.length > 1 && (
+                <Select
+                  value={response.id}
+                  onValueChange={(id) => setSelected({ ...selected, [groupKey]: id })}
+                >
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {versions.map((version, index) => (
+                      <SelectItem key={version.id} value={version.id}>
+                        Versão {version.version}{index === 0 ? ' (atual)' : ''}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+
+            {response.form_sections.map((section) => (
+              <div key={section.id} className="space-y-2">
+                {section.title && (
+                  <p className="text-sm font-medium text-muted-foreground">{section.title}</p>
+                )}
+                <div className="rounded-lg bg-secondary/50 divide-y divide-border">
+                  {section.questions.map((question) => (
+                    <div key={question.id} className="p-3 text-sm">
+                      <p className="text-muted-foreground">{question.label}</p>
+                      <p className="whitespace-pre-wrap">{formatAnswer(question, response.answers[question.id])}</p>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
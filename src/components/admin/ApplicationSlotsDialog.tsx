@@ -0,0 +1,160 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { Clock, Plus, Trash2 } from 'lucide-react';
+import { ApplicationSlot, DEFAULT_SLOT_CAPACITY, formatTime } from '@/lib/applicationSlots';
+
+export function ApplicationSlotsDialog() {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [slots, setSlots] = useState<ApplicationSlot[]>([]);
+  const [startTime, setStartTime] = useState('');
+  const [capacity, setCapacity] = useState(String(DEFAULT_SLOT_CAPACITY));
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      fetchSlots();
+    }
+  }, [open]);
+
+  const fetchSlots = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('application_slots')
+        .select('id, start_time, capacity')
+        .order('start_time');
+
+      if (error) throw error;
+      setSlots(data || []);
+    } catch (error) {
+      console.error('Error fetching application slots:', error);
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!startTime) return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('application_slots')
+        .upsert({ start_time: startTime, capacity: Math.max(1, parseInt(capacity) || 1) }, { onConflict: 'start_time' });
+
+      if (error) throw error;
+
+      toast({ title: 'Horário salvo!' });
+      setStartTime('');
+      setCapacity(String(DEFAULT_SLOT_CAPACITY));
+      fetchSlots();
+    } catch (error) {
+      console.error('Error saving application slot:', error);
+      toast({ title: 'Erro ao salvar horário', variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCapacityChange = async (slot: ApplicationSlot, value: string) => {
+    const newCapacity = parseInt(value);
+    if (!newCapacity || newCapacity < 1 || newCapacity === slot.capacity) return;
+
+    try {
+      const { error } = await supabase
+        .from('application_slots')
+        .update({ capacity: newCapacity })
+        .eq('id', slot.id);
+
+      if (error) throw error;
+      fetchSlots();
+    } catch (error) {
+      console.error('Error updating application slot:', error);
+      toast({ title: 'Erro ao atualizar capacidade', variant: 'destructive' });
+    }
+  };
+
+  const handleDelete = async (slot: ApplicationSlot) => {
+    try {
+      const { error } = await supabase.from('application_slots').delete().eq('id', slot.id);
+      if (error) throw error;
+      fetchSlots();
+    } catch (error) {
+      console.error('Error deleting application slot:', error);
+      toast({ title: 'Erro ao excluir horário', variant: 'destructive' });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          <Clock className="w-4 h-4" />
+          Horários
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Capacidade por Horário</DialogTitle>
+          <DialogDescription>
+            Quantas aplicações simultâneas cada horário comporta. A capacidade vale até o próximo horário
+            cadastrado; sem horários, é atendida uma aplicação por vez.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {slots.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-2">Nenhum horário cadastrado</p>
+          ) : (
+            slots.map((slot) => (
+              <div key={slot.id} className="flex items-center gap-3 rounded-lg bg-secondary/50 p-2">
+                <span className="font-medium w-16">{formatTime(slot.start_time)}</span>
+                <Input
+                  type="number"
+                  min="1"
+                  defaultValue={slot.capacity}
+                  onBlur={(e) => handleCapacityChange(slot, e.target.value)}
+                  className="w-20 h-8"
+                />
+                <span className="text-sm text-muted-foreground flex-1">vaga(s)</span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 text-destructive hover:text-destructive"
+                  onClick={() => handleDelete(slot)}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+
+        <form onSubmit={handleAdd} className="flex items-end gap-2">
+          <div className="space-y-2 flex-1">
+            <Label>Início</Label>
+            <Input type="time" value={startTime} onChange={(e) => setStartTime(e.target.value)} required />
+          </div>
+          <div className="space-y-2 w-24">
+            <Label>Vagas</Label>
+            <Input type="number" min="1" value={capacity} onChange={(e) => setCapacity(e.target.value)} required />
+          </div>
+          <Button type="submit" size="icon" className="gradient-primary" disabled={saving}>
+            <Plus className="w-5 h-5" />
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
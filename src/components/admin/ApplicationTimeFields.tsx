@@ -0,0 +1,51 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { DURATION_OPTIONS } from '@/lib/applicationSlots';
+
+interface ApplicationTimeFieldsProps {
+  startTime: string;
+  durationMinutes: number;
+  onStartTimeChange: (startTime: string) => void;
+  onDurationChange: (durationMinutes: number) => void;
+}
+
+export function ApplicationTimeFields({
+  startTime,
+  durationMinutes,
+  onStartTimeChange,
+  onDurationChange,
+}: ApplicationTimeFieldsProps) {
+  return (
+    <div className="grid grid-cols-2 gap-4">
+      <div className="space-y-2">
+        <Label>Horário</Label>
+        <Input
+          type="time"
+          step={300}
+          value={startTime}
+          onChange={(e) => onStartTimeChange(e.target.value)}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label>Duração</Label>
+        <Select value={String(durationMinutes)} onValueChange={(value) => onDurationChange(Number(value))}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {[...new Set([...DURATION_OPTIONS, durationMinutes])].sort((a, b) => a - b).map((minutes) => (
+              <SelectItem key={minutes} value={String(minutes)}>{minutes} min</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+}
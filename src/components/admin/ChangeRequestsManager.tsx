@@ -0,0 +1,220 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Check, Inbox, X } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { format, parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { describeConflict, findConflict, formatTime } from '@/lib/applicationSlots';
+import {
+  CHANGE_REQUEST_KIND_LABELS,
+  CHANGE_REQUEST_STATUS_CONFIG,
+  ChangeRequest,
+} from '@/lib/changeRequests';
+
+interface RequestedApplication {
+  id: string;
+  user_id: string;
+  application_date: string;
+  start_time: string | null;
+  duration_minutes: number;
+}
+
+interface ChangeRequestsManagerProps {
+  // Called after a request is answered, since approving changes the application
+  onResolved: () => void;
+}
+
+// Resolved requests kept visible below the queue
+const RECENT_LIMIT = 5;
+
+export function ChangeRequestsManager({ onResolved }: ChangeRequestsManagerProps) {
+  const { toast } = useToast();
+  const [requests, setRequests] = useState<ChangeRequest[]>([]);
+  const [applications, setApplications] = useState<Map<string, RequestedApplication>>(new Map());
+  const [names, setNames] = useState<Map<string, string>>(new Map());
+
+  useEffect(() => {
+    fetchRequests();
+  }, []);
+
+  const fetchRequests = async () => {
+    try {
+      const { data: requestsData, error } = await supabase
+        .from('application_change_requests')
+        .select('*')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      const applicationIds = [...new Set((requestsData || []).map(request => request.application_id))];
+      const userIds = [...new Set((requestsData || []).map(request => request.user_id))];
+      const [appsRes, profilesRes] = await Promise.all([
+        applicationIds.length > 0
+          ? supabase
+              .from('applications')
+              .select('id, user_id, application_date, start_time, duration_minutes')
+              .in('id', applicationIds)
+          : Promise.resolve({ data: [], error: null }),
+        userIds.length > 0
+          ? supabase.from('profiles').select('user_id, full_name').in('user_id', userIds)
+          : Promise.resolve({ data: [], error: null }),
+      ]);
+
+      if (appsRes.error) throw appsRes.error;
+      if (profilesRes.error) throw profilesRes.error;
+
+      setRequests((requestsData as ChangeRequest[]) || []);
+      setApplications(new Map((appsRes.data || []).map(app => [app.id, app])));
+      setNames(new Map((profilesRes.data || []).map(profile => [profile.user_id, profile.full_name])));
+    } catch (error) {
+      console.error('Error fetching change requests:', error);
+    }
+  };
+
+  // Approving a reschedule books the new time, so it goes through the same capacity check
+  const checkConflict = async (request: ChangeRequest, app: RequestedApplication): Promise<boolean> => {
+    if (request.kind !== 'reschedule' || !request.requested_date) return true;
+
+    const [dayRes, slotsRes] = await Promise.all([
+      supabase
+        .from('applications')
+        .select('id, user_id, application_date, start_time, duration_minutes, status')
+        .eq('application_date', request.requested_date),
+      supabase.from('application_slots').select('start_time, capacity'),
+    ]);
+
+    if (dayRes.error) throw dayRes.error;
+    if (slotsRes.error) throw slotsRes.error;
+
+    const conflict = findConflict(
+      {
+        id: app.id,
+        user_id: app.user_id,
+        application_date: request.requested_date,
+        start_time: request.requested_time || app.start_time,
+        duration_minutes: app.duration_minutes,
+      },
+      (dayRes.data || []).map(booked => ({ ...booked, patient_name: names.get(booked.user_id) })),
+      slotsRes.data || []
+    );
+
+    return !conflict || confirm(`${describeConflict(conflict)}. Aprovar mesmo assim?`);
+  };
+
+  const handleRespond = async (request: ChangeRequest, status: 'approved' | 'rejected') => {
+    const app = applications.get(request.application_id);
+    let responseNotes: string | null = null;
+
+    if (status === 'rejected') {
+      const notes = prompt('Motivo da recusa (visível para o paciente):');
+      if (notes === null) return;
+      responseNotes = notes.trim() || null;
+    }
+
+    try {
+      if (status === 'approved' && app && !(await checkConflict(request, app))) return;
+
+      const { error } = await supabase
+        .from('application_change_requests')
+        .update({ status, response_notes: responseNotes })
+        .eq('id', request.id);
+
+      if (error) throw error;
+
+      toast({ title: status === 'approved' ? 'Solicitação aprovada!' : 'Solicitação recusada' });
+      fetchRequests();
+      onResolved();
+    } catch (error) {
+      console.error('Error responding to change request:', error);
+      toast({
+        title: 'Erro ao responder solicitação',
+        description: (error as { message?: string }).message,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const describeWhen = (date: string, time: string | null) =>
+    `${format(parseISO(date), "dd 'de' MMM", { locale: ptBR })}${time ? ` às ${formatTime(time)}` : ''}`;
+
+  const pendingRequests = requests.filter(request => request.status === 'pending');
+  const recentRequests = requests.filter(request => request.status !== 'pending').slice(0, RECENT_LIMIT);
+
+  if (requests.length === 0) return null;
+
+  return (
+    <Card className="card-elevated">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg font-display flex items-center gap-2">
+          <Inbox className="w-5 h-5 text-primary" />
+          Solicitações dos pacientes ({pendingRequests.length})
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {pendingRequests.length === 0 && (
+          <p className="text-sm text-muted-foreground text-center py-2">Nenhuma solicitação pendente</p>
+        )}
+        {pendingRequests.map((request) => {
+          const app = applications.get(request.application_id);
+
+          return (
+            <div key={request.id} className="p-3 rounded-lg bg-secondary/50 border border-border space-y-2">
+              <div className="flex items-start justify-between gap-3">
+                <div className="text-sm">
+                  <p className="font-medium">
+                    {names.get(request.user_id) || 'Paciente'} • {CHANGE_REQUEST_KIND_LABELS[request.kind]}
+                  </p>
+                  {app && (
+                    <p className="text-muted-foreground">
+                      {describeWhen(app.application_date, app.start_time)}
+                      {request.requested_date && ` → ${describeWhen(request.requested_date, request.requested_time)}`}
+                    </p>
+                  )}
+                  <p className="text-xs text-muted-foreground">
+                    Solicitado em {format(parseISO(request.created_at), 'dd/MM/yyyy HH:mm')}
+                  </p>
+                </div>
+                <div className="flex gap-1 shrink-0">
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-8 w-8 text-success hover:text-success"
+                    onClick={() => handleRespond(request, 'approved')}
+                  >
+                    <Check className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-8 w-8 text-destructive hover:text-destructive"
+                    onClick={() => handleRespond(request, 'rejected')}
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+              <p className="text-sm whitespace-pre-wrap">{request.reason}</p>
+            </div>
+          );
+        })}
+        {recentRequests.length > 0 && (
+          <div className="space-y-1 pt-2 border-t border-border">
+            <p className="text-xs font-medium text-muted-foreground">Recentes</p>
+            {recentRequests.map((request) => (
+              <div key={request.id} className="flex items-center justify-between gap-3 text-sm">
+                <span className="truncate">
+                  {names.get(request.user_id) || 'Paciente'} • {CHANGE_REQUEST_KIND_LABELS[request.kind]}
+                </span>
+                <span className={CHANGE_REQUEST_STATUS_CONFIG[request.status].className}>
+                  {CHANGE_REQUEST_STATUS_CONFIG[request.status].label}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
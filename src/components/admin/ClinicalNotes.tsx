@@ -0,0 +1,223 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { FilePenLine, NotebookPen } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import {
+  ClinicalNote,
+  Visit,
+  VisitKind,
+  noteVisit,
+  threadClinicalNotes,
+  visitKey,
+  visitLabel,
+} from '@/lib/clinicalNotes';
+
+interface ClinicalNotesProps {
+  patientId: string;
+  // Applications and evaluations the notes can be attached to, most recent first
+  visits: Visit[];
+}
+
+export function ClinicalNotes({ patientId, visits }: ClinicalNotesProps) {
+  const { toast } = useToast();
+  const [notes, setNotes] = useState<ClinicalNote[]>([]);
+  const [authors, setAuthors] = useState<Map<string, string>>(new Map());
+  const [loading, setLoading] = useState(true);
+  const [visit, setVisit] = useState('');
+  const [content, setContent] = useState('');
+  const [amendingId, setAmendingId] = useState<string | null>(null);
+  const [amendment, setAmendment] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const fetchNotes = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('clinical_notes')
+        .select('*')
+        .eq('user_id', patientId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      const authorIds = [...new Set((data || []).map(note => note.author_id))];
+      const { data: profilesData, error: profilesError } = authorIds.length > 0
+        ? await supabase.from('profiles').select('user_id, full_name').in('user_id', authorIds)
+        : { data: [], error: null };
+
+      if (profilesError) throw profilesError;
+
+      setNotes(data || []);
+      setAuthors(new Map((profilesData || []).map(profile => [profile.user_id, profile.full_name])));
+    } catch (error) {
+      console.error('Error fetching clinical notes:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [patientId]);
+
+  useEffect(() => {
+    if (patientId) {
+      fetchNotes();
+    }
+  }, [patientId, fetchNotes]);
+
+  const insertNote = async (note: { content: string; amends_id?: string; application_id?: string; evaluation_id?: string }) => {
+    setSaving(true);
+    try {
+      const { error } = await supabase.from('clinical_notes').insert({ user_id: patientId, ...note });
+      if (error) throw error;
+
+      toast({ title: note.amends_id ? 'Adendo registrado!' : 'Evolução registrada!' });
+      fetchNotes();
+      return true;
+    } catch (error) {
+      console.error('Error saving clinical note:', error);
+      toast({ title: 'Erro ao registrar no prontuário', variant: 'destructive' });
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!visit || !content.trim()) return;
+
+    const [kind, id] = visit.split(':') as [VisitKind, string];
+    const saved = await insertNote({
+      content: content.trim(),
+      ...(kind === 'application' ? { application_id: id } : { evaluation_id: id }),
+    });
+    if (saved) setContent('');
+  };
+
+  const handleAmend = async (noteId: string) => {
+    if (!amendment.trim()) return;
+
+    const saved = await insertNote({ content: amendment.trim(), amends_id: noteId });
+    if (saved) {
+      setAmendingId(null);
+      setAmendment('');
+    }
+  };
+
+  const authorName = (note: ClinicalNote) => authors.get(note.author_id) || 'Profissional';
+  const threads = threadClinicalNotes(notes);
+
+  return (
+    <div className="space-y-4">
+      <form onSubmit={handleSubmit} className="space-y-3">
+        <div className="space-y-2">
+          <Label>Atendimento</Label>
+          <Select value={visit} onValueChange={setVisit}>
+            <SelectTrigger>
+              <SelectValue placeholder="Selecione a aplicação ou avaliação" />
+            </SelectTrigger>
+            <SelectContent>
+              {visits.map((item) => (
+                <SelectItem key={visitKey(item.kind, item.id)} value={visitKey(item.kind, item.id)}>
+                  {visitLabel(item)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Textarea
+          value={content}
+          onChange={(e) => setContent(e.target.value)}
+          placeholder="Evolução clínica do atendimento..."
+          rows={4}
+        />
+        <Button type="submit" className="w-full gradient-primary" disabled={saving || !visit || !content.trim()}>
+          {saving ? 'Salvando...' : 'Registrar Evolução'}
+        </Button>
+      </form>
+
+      {loading ? (
+        <p className="text-sm text-muted-foreground">Carregando...</p>
+      ) : threads.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Nenhuma evolução registrada</p>
+      ) : (
+        <div className="space-y-3">
+          {threads.map(({ note, amendments }) => {
+            const attachedVisit = noteVisit(note, visits);
+
+            return (
+              <div key={note.id} className="p-3 rounded-lg bg-secondary/50 border border-border space-y-2">
+                <div className="flex items-start gap-2">
+                  <NotebookPen className="w-4 h-4 text-primary shrink-0 mt-0.5" />
+                  <div className="min-w-0 flex-1">
+                    <p className="text-xs text-muted-foreground">
+                      {format(parseISO(note.created_at), "dd/MM/yyyy 'às' HH:mm")} • {authorName(note)}
+                      {attachedVisit && ` • ${visitLabel(attachedVisit)}`}
+                    </p>
+                    <p className="text-sm whitespace-pre-wrap">{note.content}</p>
+                  </div>
+                </div>
+
+                {amendments.map((item) => (
+                  <div key={item.id} className="ml-6 pl-3 border-l-2 border-warning/50">
+                    <p className="text-xs text-muted-foreground">
+                      Adendo • {format(parseISO(item.created_at), "dd/MM/yyyy 'às' HH:mm")} • {authorName(item)}
+                    </p>
+                    <p className="text-sm whitespace-pre-wrap">{item.content}</p>
+                  </div>
+                ))}
+
+                {amendingId === note.id ? (
+                  <div className="ml-6 space-y-2">
+                    <Textarea
+                      value={amendment}
+                      onChange={(e) => setAmendment(e.target.value)}
+                      placeholder="Correção ou complemento da nota..."
+                    />
+                    <div className="flex justify-end gap-2">
+                      <Button type="button" variant="ghost" size="sm" onClick={() => setAmendingId(null)}>
+                        Cancelar
+                      </Button>
+                      <Button
+                        type="button"
+                        size="sm"
+                        disabled={saving || !amendment.trim()}
+                        onClick={() => handleAmend(note.id)}
+                      >
+                        Salvar Adendo
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex justify-end">
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="gap-1"
+                      onClick={() => {
+                        setAmendingId(note.id);
+                        setAmendment('');
+                      }}
+                    >
+                      <FilePenLine className="w-4 h-4" />
+                      Adendo
+                    </Button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
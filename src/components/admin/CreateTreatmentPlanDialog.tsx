@@ -0,0 +1,300 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { PatientSelector } from '@/components/admin/PatientSelector';
+import { RecurrenceFields } from '@/components/admin/RecurrenceFields';
+import { useAdmin } from '@/hooks/useAdmin';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { ClipboardList, Plus, Trash2 } from 'lucide-react';
+import { addMonths, format, parseISO } from 'date-fns';
+import {
+  RecurrenceRule,
+  defaultRecurrenceRule,
+  generateOccurrences,
+  toSeriesRow,
+} from '@/lib/recurrence';
+
+interface PlanMedication {
+  medication_name: string;
+  dosage: string;
+  frequency: string;
+}
+
+interface CreateTreatmentPlanDialogProps {
+  defaultPatientId?: string;
+  onPlanCreated: () => void;
+}
+
+const emptyMedication: PlanMedication = { medication_name: '', dosage: '', frequency: '' };
+
+// Splits the plan price into installments, leaving the rounding remainder on the last one
+function splitInstallments(total: number, count: number): number[] {
+  const base = Math.floor((total / count) * 100) / 100;
+  const values = Array.from({ length: count }, () => base);
+  values[count - 1] = Math.round((total - base * (count - 1)) * 100) / 100;
+  return values;
+}
+
+export function CreateTreatmentPlanDialog({ defaultPatientId, onPlanCreated }: CreateTreatmentPlanDialogProps) {
+  const { toast } = useToast();
+  const { hasFinancialAccess } = useAdmin();
+  const [open, setOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [selectedPatient, setSelectedPatient] = useState(defaultPatientId || '');
+  const [protocol, setProtocol] = useState('Método 3C');
+  const [totalSessions, setTotalSessions] = useState('12');
+  const [startDate, setStartDate] = useState('');
+  const [sessionRule, setSessionRule] = useState<RecurrenceRule>({ ...defaultRecurrenceRule(), count: 12 });
+  const [totalPrice, setTotalPrice] = useState('');
+  const [installments, setInstallments] = useState('1');
+  const [firstDueDate, setFirstDueDate] = useState('');
+  const [medications, setMedications] = useState<PlanMedication[]>([]);
+  const [notes, setNotes] = useState('');
+
+  // The number of sessions drives the length of the application series
+  useEffect(() => {
+    const sessions = parseInt(totalSessions) || 0;
+    setSessionRule(prev => ({ ...prev, count: sessions > 0 ? sessions : null, until: null }));
+  }, [totalSessions]);
+
+  useEffect(() => {
+    if (startDate) {
+      setSessionRule(prev => ({ ...prev, weekdays: defaultRecurrenceRule(startDate).weekdays }));
+    }
+  }, [startDate]);
+
+  const resetForm = () => {
+    setSelectedPatient(defaultPatientId || '');
+    setProtocol('Método 3C');
+    setTotalSessions('12');
+    setStartDate('');
+    setSessionRule({ ...defaultRecurrenceRule(), count: 12 });
+    setTotalPrice('');
+    setInstallments('1');
+    setFirstDueDate('');
+    setMedications([]);
+    setNotes('');
+  };
+
+  const updateMedication = (index: number, changes: Partial<PlanMedication>) => {
+    setMedications(prev => prev.map((med, i) => (i === index ? { ...med, ...changes } : med)));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const sessions = parseInt(totalSessions);
+    const installmentCount = parseInt(installments) || 1;
+    const price = parseFloat(totalPrice) || 0;
+    if (!selectedPatient || !startDate || !sessions) return;
+
+    const sessionDates = generateOccurrences(startDate, { ...sessionRule, count: sessions, until: null });
+    const planMedications = medications.filter(m => m.medication_name && m.dosage && m.frequency);
+    const generatePayments = hasFinancialAccess && price > 0;
+
+    setSaving(true);
+    try {
+      const firstDue = parseISO(firstDueDate || startDate);
+      // Plan, series, applications, installments and medications are created in one transaction
+      const { error } = await supabase.rpc('create_treatment_plan', {
+        _plan: {
+          user_id: selectedPatient,
+          protocol,
+          total_sessions: sessions,
+          total_price: price,
+          installments: installmentCount,
+          start_date: startDate,
+          notes: notes || null,
+        },
+        _series: toSeriesRow({ ...sessionRule, count: sessions, until: null }, 'application', selectedPatient, startDate),
+        _application_dates: sessionDates.map(date => format(date, 'yyyy-MM-dd')),
+        _payments: generatePayments
+          ? splitInstallments(price, installmentCount).map((amount, index) => ({
+              amount,
+              due_date: format(addMonths(firstDue, index), 'yyyy-MM-dd'),
+              description: `${protocol} - parcela ${index + 1}/${installmentCount}`,
+            }))
+          : [],
+        _medications: planMedications.map(({ medication_name, dosage, frequency }) => ({ medication_name, dosage, frequency })),
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: 'Plano de tratamento criado!',
+        description: `${sessionDates.length} aplicações${generatePayments ? `, ${installmentCount} parcela(s)` : ''} e ${planMedications.length} medicação(ões) geradas.`,
+      });
+
+      resetForm();
+      setOpen(false);
+      onPlanCreated();
+    } catch (error) {
+      console.error('Error creating treatment plan:', error);
+      toast({ title: 'Erro ao criar plano de tratamento', variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button className="gap-2">
+          <ClipboardList className="w-4 h-4" />
+          Novo Plano
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Novo Plano de Tratamento</DialogTitle>
+          <DialogDescription>
+            As aplicações, parcelas e medicações do plano serão geradas automaticamente.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label>Paciente</Label>
+            <PatientSelector value={selectedPatient} onValueChange={setSelectedPatient} />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Protocolo</Label>
+              <Input
+                value={protocol}
+                onChange={(e) => setProtocol(e.target.value)}
+                placeholder="Ex: Método 3C"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Nº de Sessões</Label>
+              <Input
+                type="number"
+                min={1}
+                value={totalSessions}
+                onChange={(e) => setTotalSessions(e.target.value)}
+                required
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Primeira Aplicação</Label>
+            <Input
+              type="date"
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+              required
+            />
+          </div>
+          <RecurrenceFields rule={sessionRule} onChange={setSessionRule} startDate={startDate} showEnd={false} />
+
+          {hasFinancialAccess && (
+            <div className="space-y-4 pt-4 border-t border-border">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Valor do Pacote (R$)</Label>
+                  <Input
+                    type="number"
+                    step="0.01"
+                    value={totalPrice}
+                    onChange={(e) => setTotalPrice(e.target.value)}
+                    placeholder="0,00"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Parcelas</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={installments}
+                    onChange={(e) => setInstallments(e.target.value)}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>Vencimento da 1ª Parcela</Label>
+                <Input
+                  type="date"
+                  value={firstDueDate}
+                  onChange={(e) => setFirstDueDate(e.target.value)}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Demais parcelas vencem mensalmente. Se vazio, usa a data da primeira aplicação.
+                </p>
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-3 pt-4 border-t border-border">
+            <div className="flex items-center justify-between">
+              <Label>Medicações do Plano</Label>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setMedications(prev => [...prev, { ...emptyMedication }])}
+              >
+                <Plus className="w-4 h-4 mr-1" />
+                Adicionar
+              </Button>
+            </div>
+            {medications.map((med, index) => (
+              <div key={index} className="grid grid-cols-[1fr_auto] gap-2 p-3 rounded-lg bg-secondary/50 border border-border">
+                <div className="space-y-2">
+                  <Input
+                    value={med.medication_name}
+                    onChange={(e) => updateMedication(index, { medication_name: e.target.value })}
+                    placeholder="Nome da medicação"
+                  />
+                  <div className="grid grid-cols-2 gap-2">
+                    <Input
+                      value={med.dosage}
+                      onChange={(e) => updateMedication(index, { dosage: e.target.value })}
+                      placeholder="Dosagem"
+                    />
+                    <Input
+                      value={med.frequency}
+                      onChange={(e) => updateMedication(index, { frequency: e.target.value })}
+                      placeholder="Frequência"
+                    />
+                  </div>
+                </div>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="text-destructive hover:text-destructive"
+                  onClick={() => setMedications(prev => prev.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Observações (opcional)</Label>
+            <Textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Observações sobre o plano..."
+            />
+          </div>
+          <Button type="submit" className="w-full gradient-primary" disabled={saving}>
+            {saving ? 'Salvando...' : 'Criar Plano'}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
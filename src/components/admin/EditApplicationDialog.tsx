@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -18,17 +18,26 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { PatientSelector } from '@/components/admin/PatientSelector';
+import { ApplicationTimeFields } from '@/components/admin/ApplicationTimeFields';
+import { ProfessionalSelector } from '@/components/admin/ProfessionalSelector';
+import { SlotConflictWarnings } from '@/components/admin/SlotConflictWarnings';
+import { StatusHistory } from '@/components/admin/StatusHistory';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { parseISO, differenceInDays, addDays, format, isAfter } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
+import { DEFAULT_DURATION_MINUTES, formatTime, occupiesSlot } from '@/lib/applicationSlots';
 
 interface Application {
   id: string;
   user_id: string;
   application_date: string;
+  start_time: string | null;
+  duration_minutes: number;
   status: string;
   notes: string | null;
+  series_id?: string | null;
+  professional_id?: string | null;
 }
 
 interface EditApplicationDialogProps {
@@ -49,6 +58,10 @@ export function EditApplicationDialog({
   const { toast } = useToast();
   const [selectedPatient, setSelectedPatient] = useState('');
   const [applicationDate, setApplicationDate] = useState('');
+  const [startTime, setStartTime] = useState('');
+  const [durationMinutes, setDurationMinutes] = useState(DEFAULT_DURATION_MINUTES);
+  const [professionalId, setProfessionalId] = useState<string | null>(null);
+  const [conflictCount, setConflictCount] = useState(0);
   const [status, setStatus] = useState('scheduled');
   const [notes, setNotes] = useState('');
   const [saving, setSaving] = useState(false);
@@ -59,15 +72,20 @@ export function EditApplicationDialog({
     if (application) {
       setSelectedPatient(application.user_id);
       setApplicationDate(application.application_date);
+      setStartTime(application.start_time ? formatTime(application.start_time) : '');
+      setDurationMinutes(application.duration_minutes);
+      setProfessionalId(application.professional_id || null);
       setStatus(application.status);
       setNotes(application.notes || '');
       setUpdateSubsequent(false);
       
-      // Find subsequent applications for the same patient
+      // Find subsequent applications of the same series (or the same patient for standalone rows)
       const currentDate = parseISO(application.application_date);
       const subsequent = allApplications
         .filter(app => 
-          app.user_id === application.user_id && 
+          (application.series_id
+            ? app.series_id === application.series_id
+            : app.user_id === application.user_id) &&
           app.id !== application.id &&
           isAfter(parseISO(app.application_date), currentDate) &&
           app.status === 'scheduled'
@@ -89,6 +107,7 @@ export function EditApplicationDialog({
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!application || !selectedPatient || !applicationDate) return;
+    if (conflictCount > 0 && !confirm('Há conflitos de horário na agenda. Salvar mesmo assim?')) return;
 
     setSaving(true);
     try {
@@ -98,6 +117,9 @@ export function EditApplicationDialog({
         .update({
           user_id: selectedPatient,
           application_date: applicationDate,
+          start_time: startTime || null,
+          duration_minutes: durationMinutes,
+          professional_id: professionalId,
           status,
           notes: notes || null,
         })
@@ -139,9 +161,35 @@ export function EditApplicationDialog({
   const dateDiff = calculateDateDifference();
   const showSubsequentOption = subsequentApps.length > 0 && dateDiff !== 0;
 
+  // The edited application plus, when shifting the series, its subsequent dates at their own times.
+  // A cancelled or missed application frees its chair, so it can't conflict
+  const bookings = useMemo(() => {
+    if (!application || !applicationDate || !selectedPatient) return [];
+    const current = occupiesSlot(status)
+      ? [{
+          id: application.id,
+          user_id: selectedPatient,
+          application_date: applicationDate,
+          start_time: startTime || null,
+          duration_minutes: durationMinutes,
+        }]
+      : [];
+    if (!updateSubsequent || !showSubsequentOption) return current;
+    return [
+      ...current,
+      ...subsequentApps.map(app => ({
+        id: app.id,
+        user_id: app.user_id,
+        application_date: format(addDays(parseISO(app.application_date), dateDiff), 'yyyy-MM-dd'),
+        start_time: app.start_time,
+        duration_minutes: app.duration_minutes,
+      })),
+    ];
+  }, [application, applicationDate, selectedPatient, startTime, durationMinutes, status, updateSubsequent, showSubsequentOption, subsequentApps, dateDiff]);
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Editar Aplicação</DialogTitle>
         </DialogHeader>
@@ -159,6 +207,19 @@ export function EditApplicationDialog({
               required
             />
           </div>
+          <ApplicationTimeFields
+            startTime={startTime}
+            durationMinutes={durationMinutes}
+            onStartTimeChange={setStartTime}
+            onDurationChange={setDurationMinutes}
+          />
+          <ProfessionalSelector
+            value={professionalId}
+            onValueChange={setProfessionalId}
+            date={applicationDate}
+            time={startTime}
+            durationMinutes={durationMinutes}
+          />
           
           {showSubsequentOption && (
             <div className="rounded-md border bg-muted/50 p-3 space-y-3">
@@ -216,10 +277,12 @@ export function EditApplicationDialog({
               placeholder="Adicione observações..."
             />
           </div>
+          <SlotConflictWarnings bookings={bookings} onConflictsChange={setConflictCount} />
           <Button type="submit" className="w-full gradient-primary" disabled={saving}>
             {saving ? 'Salvando...' : 'Salvar Alterações'}
           </Button>
         </form>
+        {application && <StatusHistory entityType="application" entityId={application.id} />}
       </DialogContent>
     </Dialog>
   );
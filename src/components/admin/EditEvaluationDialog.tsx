@@ -0,0 +1,192 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { PatientSelector } from '@/components/admin/PatientSelector';
+import { ProfessionalSelector } from '@/components/admin/ProfessionalSelector';
+import { StatusHistory } from '@/components/admin/StatusHistory';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import {
+  EVALUATION_STATUS_LABELS,
+  EvaluationStatus,
+  SELECTABLE_EVALUATION_STATUSES,
+  requiresStatusReason,
+  statusAfterReschedule,
+} from '@/lib/evaluationStatus';
+
+interface Evaluation {
+  id: string;
+  user_id: string;
+  evaluation_date: string;
+  evaluation_time: string;
+  status: string;
+  notes: string | null;
+  professional_id?: string | null;
+  status_reason?: string | null;
+}
+
+interface EditEvaluationDialogProps {
+  evaluation: Evaluation | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess: () => void;
+}
+
+export function EditEvaluationDialog({ evaluation, open, onOpenChange, onSuccess }: EditEvaluationDialogProps) {
+  const { toast } = useToast();
+  const [selectedPatient, setSelectedPatient] = useState('');
+  const [evaluationDate, setEvaluationDate] = useState('');
+  const [evaluationTime, setEvaluationTime] = useState('');
+  const [professionalId, setProfessionalId] = useState<string | null>(null);
+  const [status, setStatus] = useState('scheduled');
+  const [statusReason, setStatusReason] = useState('');
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (evaluation) {
+      setSelectedPatient(evaluation.user_id);
+      setEvaluationDate(evaluation.evaluation_date);
+      setEvaluationTime(evaluation.evaluation_time.slice(0, 5));
+      setProfessionalId(evaluation.professional_id || null);
+      setStatus(evaluation.status);
+      setStatusReason(evaluation.status_reason || '');
+      setNotes(evaluation.notes || '');
+    }
+  }, [evaluation]);
+
+  const moved = !!evaluation &&
+    (evaluationDate !== evaluation.evaluation_date || evaluationTime !== evaluation.evaluation_time.slice(0, 5));
+  // Moving an upcoming evaluation without picking another status marks it rescheduled
+  const savedStatus = moved && status === evaluation?.status ? statusAfterReschedule(status) : status;
+  const statusOptions = [...new Set([...SELECTABLE_EVALUATION_STATUSES, status as EvaluationStatus])];
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!evaluation || !selectedPatient || !evaluationDate || !evaluationTime) return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('medical_evaluations')
+        .update({
+          user_id: selectedPatient,
+          evaluation_date: evaluationDate,
+          evaluation_time: evaluationTime,
+          professional_id: professionalId,
+          status: savedStatus,
+          status_reason: requiresStatusReason(savedStatus) ? statusReason.trim() || null : null,
+          notes: notes || null,
+        })
+        .eq('id', evaluation.id);
+
+      if (error) throw error;
+
+      toast({ title: 'Avaliação atualizada com sucesso!' });
+      onOpenChange(false);
+      onSuccess();
+    } catch (error) {
+      console.error('Error updating evaluation:', error);
+      toast({ title: 'Erro ao atualizar avaliação', variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Editar Avaliação</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label>Paciente</Label>
+            <PatientSelector value={selectedPatient} onValueChange={setSelectedPatient} />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Data</Label>
+              <Input
+                type="date"
+                value={evaluationDate}
+                onChange={(e) => setEvaluationDate(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Horário</Label>
+              <Input
+                type="time"
+                value={evaluationTime}
+                onChange={(e) => setEvaluationTime(e.target.value)}
+                required
+              />
+            </div>
+          </div>
+          <ProfessionalSelector
+            value={professionalId}
+            onValueChange={setProfessionalId}
+            date={evaluationDate}
+            time={evaluationTime}
+          />
+          <div className="space-y-2">
+            <Label>Status</Label>
+            <Select value={status} onValueChange={setStatus}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {statusOptions.map((option) => (
+                  <SelectItem key={option} value={option}>{EVALUATION_STATUS_LABELS[option]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {savedStatus !== status && (
+              <p className="text-xs text-muted-foreground">
+                Será salva como {EVALUATION_STATUS_LABELS[savedStatus as EvaluationStatus].toLowerCase()} por mudar de data ou horário
+              </p>
+            )}
+          </div>
+          {requiresStatusReason(savedStatus) && (
+            <div className="space-y-2">
+              <Label>Motivo</Label>
+              <Textarea
+                value={statusReason}
+                onChange={(e) => setStatusReason(e.target.value)}
+                placeholder="Ex: paciente pediu para remarcar"
+              />
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label>Observações (opcional)</Label>
+            <Textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Adicione observações..."
+            />
+          </div>
+          <Button type="submit" className="w-full gradient-primary" disabled={saving}>
+            {saving ? 'Salvando...' : 'Salvar Alterações'}
+          </Button>
+        </form>
+        {evaluation && <StatusHistory entityType="evaluation" entityId={evaluation.id} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
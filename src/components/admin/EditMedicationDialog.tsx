@@ -5,7 +5,6 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Switch } from '@/components/ui/switch';
-import { Badge } from '@/components/ui/badge';
 import {
   Dialog,
   DialogContent,
@@ -13,21 +12,33 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 import { PatientSelector } from '@/components/admin/PatientSelector';
+import { MedicationScheduleFields } from '@/components/admin/MedicationScheduleFields';
+import { MedicationSupplyFields } from '@/components/admin/MedicationSupplyFields';
+import { MedicationCatalogCombobox } from '@/components/admin/MedicationCatalogCombobox';
+import { PrescriptionWarnings } from '@/components/admin/PrescriptionWarnings';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { parseISO, differenceInDays, addDays, format, isAfter } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
+import {
+  MedicationSchedule,
+  ScheduledMedication,
+  defaultSchedule,
+  isScheduleComplete,
+  posologyColumns,
+  scheduleFromMedication,
+} from '@/lib/medicationSchedule';
+import { MedicationSupply, defaultSupply, supplyFromMedication } from '@/lib/medicationSupply';
+import { MEDICATION_STATUS_CONFIG, medicationStatus } from '@/lib/medicationStatus';
+import { CatalogEntry } from '@/lib/medicationCatalog';
 
-interface Medication {
-  id: string;
+interface Medication extends ScheduledMedication, MedicationSupply {
   user_id: string;
-  medication_name: string;
-  dosage: string;
+  series_id: string | null;
   frequency: string;
-  start_date: string;
-  end_date: string | null;
-  is_active: boolean;
+  catalog_id: string | null;
   notes: string | null;
+  suspension_reason: string | null;
 }
 
 interface EditMedicationDialogProps {
@@ -48,12 +59,19 @@ export function EditMedicationDialog({
   const { toast } = useToast();
   const [selectedPatient, setSelectedPatient] = useState('');
   const [medicationName, setMedicationName] = useState('');
+  const [catalogId, setCatalogId] = useState<string | null>(null);
+  const [warningCount, setWarningCount] = useState(0);
   const [dosage, setDosage] = useState('');
   const [frequency, setFrequency] = useState('');
+  const [schedule, setSchedule] = useState<MedicationSchedule>(defaultSchedule());
+  const [supply, setSupply] = useState<MedicationSupply>(defaultSupply());
+  // Recurring medications share the stock kept on their series, counted from its start
+  const [seriesStartDate, setSeriesStartDate] = useState<string | null>(null);
   const [startDate, setStartDate] = useState('');
   const [endDate, setEndDate] = useState('');
   const [notes, setNotes] = useState('');
-  const [isActive, setIsActive] = useState(true);
+  const [suspended, setSuspended] = useState(false);
+  const [suspensionReason, setSuspensionReason] = useState('');
   const [saving, setSaving] = useState(false);
   const [updateSubsequent, setUpdateSubsequent] = useState(false);
   const [subsequentMeds, setSubsequentMeds] = useState<Medication[]>([]);
@@ -62,12 +80,20 @@ export function EditMedicationDialog({
     if (medication) {
       setSelectedPatient(medication.user_id);
       setMedicationName(medication.medication_name);
+      setCatalogId(medication.catalog_id);
       setDosage(medication.dosage);
       setFrequency(medication.frequency);
+      setSchedule(scheduleFromMedication(medication));
+      setSupply(supplyFromMedication(medication));
+      setSeriesStartDate(null);
+      if (medication.series_id) {
+        fetchSeriesSupply(medication.series_id);
+      }
       setStartDate(medication.start_date);
       setEndDate(medication.end_date || '');
       setNotes(medication.notes || '');
-      setIsActive(medication.is_active);
+      setSuspended(!!medication.suspended_at);
+      setSuspensionReason(medication.suspension_reason || '');
       setUpdateSubsequent(false);
       
       // Find subsequent medications for the same patient with same medication name
@@ -78,7 +104,7 @@ export function EditMedicationDialog({
           med.id !== medication.id &&
           med.medication_name === medication.medication_name &&
           isAfter(parseISO(med.start_date), currentDate) &&
-          med.is_active
+          !med.suspended_at
         )
         .sort((a, b) => 
           parseISO(a.start_date).getTime() - parseISO(b.start_date).getTime()
@@ -87,6 +113,21 @@ export function EditMedicationDialog({
     }
   }, [medication, allMedications]);
 
+  const fetchSeriesSupply = async (seriesId: string) => {
+    const { data, error } = await supabase
+      .from('recurrence_series')
+      .select('start_date, quantity_dispensed, daily_dose, dispensed_at')
+      .eq('id', seriesId)
+      .single();
+
+    if (error) {
+      console.error('Error fetching series supply:', error);
+      return;
+    }
+    setSupply(supplyFromMedication(data));
+    setSeriesStartDate(data.start_date);
+  };
+
   const calculateDateDifference = () => {
     if (!medication) return 0;
     const originalDate = parseISO(medication.start_date);
@@ -94,9 +135,22 @@ export function EditMedicationDialog({
     return differenceInDays(newDate, originalDate);
   };
 
+  // Catalog entries bring their standard posology into the free-text fields
+  const handleCatalogChange = (name: string, entry: CatalogEntry | null) => {
+    setMedicationName(name);
+    setCatalogId(entry?.id ?? null);
+    if (entry?.default_dosage) setDosage(entry.default_dosage);
+    if (entry?.default_frequency) setFrequency(entry.default_frequency);
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!medication || !selectedPatient || !medicationName || !dosage || !frequency || !startDate) return;
+    if (!medication || !selectedPatient || !medicationName || !startDate) return;
+    if (schedule.schedule_type === null ? !dosage || !frequency : !isScheduleComplete(schedule)) {
+      toast({ title: 'Preencha a dose e os horários da medicação', variant: 'destructive' });
+      return;
+    }
+    if (warningCount > 0 && !confirm('Há alertas de interação ou duplicidade para este paciente. Salvar mesmo assim?')) return;
 
     setSaving(true);
     try {
@@ -106,17 +160,29 @@ export function EditMedicationDialog({
         .update({
           user_id: selectedPatient,
           medication_name: medicationName,
-          dosage,
-          frequency,
+          catalog_id: catalogId,
+          ...posologyColumns(schedule, dosage, frequency),
+          ...(medication.series_id ? {} : supply),
           start_date: startDate,
           end_date: endDate || null,
           notes: notes || null,
-          is_active: isActive,
+          // Keeps the original suspension date when only the reason changes
+          suspended_at: suspended ? medication.suspended_at || new Date().toISOString() : null,
+          suspension_reason: suspended ? suspensionReason.trim() || null : null,
         })
         .eq('id', medication.id);
 
       if (error) throw error;
 
+      if (medication.series_id) {
+        const { error: seriesError } = await supabase
+          .from('recurrence_series')
+          .update(supply)
+          .eq('id', medication.series_id);
+
+        if (seriesError) throw seriesError;
+      }
+
       // If updateSubsequent is checked and date changed, update subsequent medications
       const dateDiff = calculateDateDifference();
       if (updateSubsequent && dateDiff !== 0 && subsequentMeds.length > 0) {
@@ -150,6 +216,13 @@ export function EditMedicationDialog({
 
   const dateDiff = calculateDateDifference();
   const showSubsequentOption = subsequentMeds.length > 0 && dateDiff !== 0;
+  // Preview of the status the medication will have once saved
+  const status = medicationStatus({
+    start_date: startDate || medication?.start_date || '',
+    end_date: endDate || null,
+    duration_days: schedule.schedule_type ? schedule.duration_days : null,
+    suspended_at: suspended ? medication?.suspended_at || new Date().toISOString() : null,
+  });
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -163,34 +236,21 @@ export function EditMedicationDialog({
             <PatientSelector value={selectedPatient} onValueChange={setSelectedPatient} />
           </div>
           <div className="space-y-2">
-            <Label>Nome da Medicação</Label>
-            <Input
+            <Label>Medicação</Label>
+            <MedicationCatalogCombobox
               value={medicationName}
-              onChange={(e) => setMedicationName(e.target.value)}
-              placeholder="Ex: Semaglutida"
-              required
+              catalogId={catalogId}
+              onChange={handleCatalogChange}
             />
           </div>
-          <div className="grid grid-cols-2 gap-4">
-            <div className="space-y-2">
-              <Label>Dosagem</Label>
-              <Input
-                value={dosage}
-                onChange={(e) => setDosage(e.target.value)}
-                placeholder="Ex: 0.5mg"
-                required
-              />
-            </div>
-            <div className="space-y-2">
-              <Label>Frequência</Label>
-              <Input
-                value={frequency}
-                onChange={(e) => setFrequency(e.target.value)}
-                placeholder="Ex: 1x/semana"
-                required
-              />
-            </div>
-          </div>
+          <MedicationScheduleFields
+            schedule={schedule}
+            onChange={setSchedule}
+            dosage={dosage}
+            frequency={frequency}
+            onDosageChange={setDosage}
+            onFrequencyChange={setFrequency}
+          />
           <div className="grid grid-cols-2 gap-4">
             <div className="space-y-2">
               <Label>Data Início</Label>
@@ -210,6 +270,12 @@ export function EditMedicationDialog({
               />
             </div>
           </div>
+          <MedicationSupplyFields supply={supply} onChange={setSupply} startDate={seriesStartDate || startDate} />
+          {medication?.series_id && (
+            <p className="text-xs text-muted-foreground">
+              O estoque é compartilhado por todas as ocorrências desta medicação recorrente.
+            </p>
+          )}
 
           {showSubsequentOption && (
             <div className="rounded-md border bg-muted/50 p-3 space-y-3">
@@ -245,18 +311,30 @@ export function EditMedicationDialog({
             </div>
           )}
 
-          <div className="flex items-center justify-between">
-            <div className="flex items-center gap-2">
-              <Label htmlFor="isActive">Status:</Label>
-              <Badge variant={isActive ? "default" : "secondary"}>
-                {isActive ? "Ativa" : "Inativa"}
-              </Badge>
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <Label htmlFor="suspended">Status:</Label>
+                <span className={MEDICATION_STATUS_CONFIG[status].className}>
+                  {MEDICATION_STATUS_CONFIG[status].label}
+                </span>
+              </div>
+              <div className="flex items-center gap-2">
+                <Label htmlFor="suspended" className="text-sm font-normal">Suspender</Label>
+                <Switch
+                  id="suspended"
+                  checked={suspended}
+                  onCheckedChange={setSuspended}
+                />
+              </div>
             </div>
-            <Switch
-              id="isActive"
-              checked={isActive}
-              onCheckedChange={setIsActive}
-            />
+            {suspended && (
+              <Input
+                value={suspensionReason}
+                onChange={(e) => setSuspensionReason(e.target.value)}
+                placeholder="Motivo da suspensão"
+              />
+            )}
           </div>
 
           <div className="space-y-2">
@@ -267,6 +345,13 @@ export function EditMedicationDialog({
               placeholder="Instruções ou observações..."
             />
           </div>
+          <PrescriptionWarnings
+            patientId={selectedPatient}
+            medicationName={medicationName}
+            catalogId={catalogId}
+            excludeMedicationId={medication?.id}
+            onWarningsChange={setWarningCount}
+          />
           <Button type="submit" className="w-full gradient-primary" disabled={saving}>
             {saving ? 'Salvando...' : 'Salvar Alterações'}
           </Button>
@@ -9,13 +9,6 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog';
-import {
-  Select,
-  SelectContent,
-  SelectItem,
-  SelectTrigger,
-  SelectValue,
-} from '@/components/ui/select';
 import { PatientSelector } from '@/components/admin/PatientSelector';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
@@ -42,7 +35,6 @@ export function EditPaymentDialog({ payment, open, onOpenChange, onSuccess }: Ed
   const [selectedPatient, setSelectedPatient] = useState('');
   const [amount, setAmount] = useState('');
   const [dueDate, setDueDate] = useState('');
-  const [status, setStatus] = useState('pending');
   const [description, setDescription] = useState('');
   const [saving, setSaving] = useState(false);
 
@@ -51,7 +43,6 @@ export function EditPaymentDialog({ payment, open, onOpenChange, onSuccess }: Ed
       setSelectedPatient(payment.user_id);
       setAmount(payment.amount.toString());
       setDueDate(payment.due_date);
-      setStatus(payment.status);
       setDescription(payment.description || '');
     }
   }, [payment]);
@@ -62,27 +53,14 @@ export function EditPaymentDialog({ payment, open, onOpenChange, onSuccess }: Ed
 
     setSaving(true);
     try {
-      const updateData: {
-        user_id: string;
-        amount: number;
-        due_date: string;
-        status: string;
-        description: string | null;
-        paid_date?: string | null;
-      } = {
+      // Status and paid date follow the receipts ledger, so only the charge itself is editable
+      const updateData = {
         user_id: selectedPatient,
         amount: parseFloat(amount),
         due_date: dueDate,
-        status,
         description: description || null,
       };
 
-      if (status === 'paid' && !payment.paid_date) {
-        updateData.paid_date = new Date().toISOString().split('T')[0];
-      } else if (status !== 'paid') {
-        updateData.paid_date = null;
-      }
-
       const { error } = await supabase
         .from('payments')
         .update(updateData)
@@ -132,19 +110,6 @@ export function EditPaymentDialog({ payment, open, onOpenChange, onSuccess }: Ed
               required
             />
           </div>
-          <div className="space-y-2">
-            <Label>Status</Label>
-            <Select value={status} onValueChange={setStatus}>
-              <SelectTrigger>
-                <SelectValue />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="pending">A Vencer</SelectItem>
-                <SelectItem value="paid">Pago</SelectItem>
-                <SelectItem value="overdue">Vencido</SelectItem>
-              </SelectContent>
-            </Select>
-          </div>
           <div className="space-y-2">
             <Label>Descrição (opcional)</Label>
             <Textarea
@@ -0,0 +1,133 @@
+import { useEffect, useMemo, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { AlertTriangle, Check, ChevronsUpDown, Plus } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import {
+  CatalogEntry,
+  describeCatalogEntry,
+  findCatalogEntry,
+  searchCatalog,
+} from '@/lib/medicationCatalog';
+
+interface MedicationCatalogComboboxProps {
+  value: string;
+  catalogId: string | null;
+  // entry is null when the name is typed freely and is not in the catalog
+  onChange: (name: string, entry: CatalogEntry | null) => void;
+}
+
+export function MedicationCatalogCombobox({ value, catalogId, onChange }: MedicationCatalogComboboxProps) {
+  const [entries, setEntries] = useState<CatalogEntry[]>([]);
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+
+  useEffect(() => {
+    fetchCatalog();
+  }, []);
+
+  const fetchCatalog = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('medication_catalog')
+        .select('*')
+        .order('name');
+
+      if (error) throw error;
+      setEntries(data || []);
+    } catch (error) {
+      console.error('Error fetching medication catalog:', error);
+    }
+  };
+
+  const results = useMemo(() => searchCatalog(entries, query), [entries, query]);
+  const selected = entries.find(entry => entry.id === catalogId);
+  const exactMatch = query.trim() ? findCatalogEntry(entries, query) : undefined;
+
+  const select = (name: string, entry: CatalogEntry | null) => {
+    onChange(name, entry);
+    setOpen(false);
+    setQuery('');
+  };
+
+  return (
+    <div className="space-y-2">
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            type="button"
+            variant="outline"
+            role="combobox"
+            aria-expanded={open}
+            className="w-full justify-between font-normal"
+          >
+            <span className={cn('truncate', !value && 'text-muted-foreground')}>
+              {value || 'Buscar no catálogo...'}
+            </span>
+            <ChevronsUpDown className="w-4 h-4 opacity-50 shrink-0" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-[--radix-popover-trigger-width] p-0" align="start">
+          <Command shouldFilter={false}>
+            <CommandInput
+              value={query}
+              onValueChange={setQuery}
+              placeholder="Nome ou princípio ativo"
+            />
+            <CommandList>
+              <CommandEmpty>Nenhuma medicação encontrada no catálogo</CommandEmpty>
+              {results.length > 0 && (
+                <CommandGroup heading="Catálogo">
+                  {results.map((entry) => (
+                    <CommandItem key={entry.id} value={entry.id} onSelect={() => select(entry.name, entry)}>
+                      <Check className={cn('w-4 h-4 mr-2', entry.id === catalogId ? 'opacity-100' : 'opacity-0')} />
+                      <div className="min-w-0">
+                        <p className="truncate">{entry.name}</p>
+                        {describeCatalogEntry(entry) && (
+                          <p className="text-xs text-muted-foreground truncate">{describeCatalogEntry(entry)}</p>
+                        )}
+                      </div>
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              )}
+              {query.trim() && !exactMatch && (
+                <CommandGroup>
+                  <CommandItem value={`free:${query}`} onSelect={() => select(query.trim(), null)}>
+                    <Plus className="w-4 h-4 mr-2" />
+                    Usar "{query.trim()}" (fora do catálogo)
+                  </CommandItem>
+                </CommandGroup>
+              )}
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+
+      {selected ? (
+        <>
+          {describeCatalogEntry(selected) && (
+            <p className="text-xs text-muted-foreground">{describeCatalogEntry(selected)}</p>
+          )}
+          {selected.contraindications && (
+            <p className="flex items-start gap-1 text-xs text-warning">
+              <AlertTriangle className="w-3.5 h-3.5 shrink-0 mt-0.5" />
+              {selected.contraindications}
+            </p>
+          )}
+        </>
+      ) : value && (
+        <p className="text-xs text-muted-foreground">Medicação fora do catálogo</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { CatalogEntry, findCatalogEntry } from '@/lib/medicationCatalog';
+
+interface MedicationCatalogDialogProps {
+  // null creates a new entry
+  entry: CatalogEntry | null;
+  entries: CatalogEntry[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess: () => void;
+}
+
+export function MedicationCatalogDialog({ entry, entries, open, onOpenChange, onSuccess }: MedicationCatalogDialogProps) {
+  const { toast } = useToast();
+  const [name, setName] = useState('');
+  const [activeIngredient, setActiveIngredient] = useState('');
+  const [presentation, setPresentation] = useState('');
+  const [defaultDosage, setDefaultDosage] = useState('');
+  const [defaultFrequency, setDefaultFrequency] = useState('');
+  const [contraindications, setContraindications] = useState('');
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setName(entry?.name || '');
+      setActiveIngredient(entry?.active_ingredient || '');
+      setPresentation(entry?.presentation || '');
+      setDefaultDosage(entry?.default_dosage || '');
+      setDefaultFrequency(entry?.default_frequency || '');
+      setContraindications(entry?.contraindications || '');
+      setNotes(entry?.notes || '');
+    }
+  }, [entry, open]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    const duplicate = findCatalogEntry(entries, name);
+    if (duplicate && duplicate.id !== entry?.id) {
+      toast({ title: `"${duplicate.name}" já está no catálogo`, variant: 'destructive' });
+      return;
+    }
+
+    const values = {
+      name: name.trim(),
+      active_ingredient: activeIngredient.trim() || null,
+      presentation: presentation.trim() || null,
+      default_dosage: defaultDosage.trim() || null,
+      default_frequency: defaultFrequency.trim() || null,
+      contraindications: contraindications.trim() || null,
+      notes: notes.trim() || null,
+    };
+
+    setSaving(true);
+    try {
+      const { error } = entry
+        ? await supabase.from('medication_catalog').update(values).eq('id', entry.id)
+        : await supabase.from('medication_catalog').insert(values);
+
+      if (error) throw error;
+
+      toast({ title: entry ? 'Medicação do catálogo atualizada!' : 'Medicação adicionada ao catálogo!' });
+      onOpenChange(false);
+      onSuccess();
+    } catch (error) {
+      console.error('Error saving catalog entry:', error);
+      toast({ title: 'Erro ao salvar no catálogo', variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{entry ? 'Editar Medicação do Catálogo' : 'Nova Medicação no Catálogo'}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label>Nome</Label>
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Ex: Ozempic"
+              required
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Princípio Ativo</Label>
+              <Input
+                value={activeIngredient}
+                onChange={(e) => setActiveIngredient(e.target.value)}
+                placeholder="Ex: Semaglutida"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Apresentação</Label>
+              <Input
+                value={presentation}
+                onChange={(e) => setPresentation(e.target.value)}
+                placeholder="Ex: Caneta 1mg/0,74mL"
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Dosagem Padrão</Label>
+              <Input
+                value={defaultDosage}
+                onChange={(e) => setDefaultDosage(e.target.value)}
+                placeholder="Ex: 0.5mg"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Frequência Padrão</Label>
+              <Input
+                value={defaultFrequency}
+                onChange={(e) => setDefaultFrequency(e.target.value)}
+                placeholder="Ex: 1x/semana"
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Contraindicações (opcional)</Label>
+            <Textarea
+              value={contraindications}
+              onChange={(e) => setContraindications(e.target.value)}
+              placeholder="Ex: Histórico de pancreatite, gestação..."
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Observações (opcional)</Label>
+            <Textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Orientações de uso, armazenamento..."
+            />
+          </div>
+          <Button type="submit" className="w-full gradient-primary" disabled={saving}>
+            {saving ? 'Salvando...' : entry ? 'Salvar Alterações' : 'Adicionar ao Catálogo'}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
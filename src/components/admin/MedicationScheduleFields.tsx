@@ -0,0 +1,245 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Plus, X } from 'lucide-react';
+import { WEEKDAY_LABELS } from '@/lib/recurrence';
+import {
+  DOSE_UNITS,
+  INTERVAL_OPTIONS,
+  MedicationSchedule,
+  SCHEDULE_TYPE_LABELS,
+  ScheduleType,
+  describeSchedule,
+  formatDose,
+} from '@/lib/medicationSchedule';
+
+const FREE_TEXT = 'free';
+
+interface MedicationScheduleFieldsProps {
+  schedule: MedicationSchedule;
+  onChange: (schedule: MedicationSchedule) => void;
+  // Free-text dosage/frequency, used while no structured schedule is selected
+  dosage: string;
+  frequency: string;
+  onDosageChange: (value: string) => void;
+  onFrequencyChange: (value: string) => void;
+}
+
+export function MedicationScheduleFields({
+  schedule,
+  onChange,
+  dosage,
+  frequency,
+  onDosageChange,
+  onFrequencyChange,
+}: MedicationScheduleFieldsProps) {
+  const update = (changes: Partial<MedicationSchedule>) => onChange({ ...schedule, ...changes });
+
+  const updateTime = (index: number, value: string) =>
+    update({ times_of_day: schedule.times_of_day.map((time, i) => (i === index ? value : time)) });
+
+  const summary = describeSchedule(schedule);
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>Posologia</Label>
+        <Select
+          value={schedule.schedule_type ?? FREE_TEXT}
+          onValueChange={(value) =>
+            update({ schedule_type: value === FREE_TEXT ? null : (value as ScheduleType) })
+          }
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={FREE_TEXT}>Texto livre</SelectItem>
+            {(Object.keys(SCHEDULE_TYPE_LABELS) as ScheduleType[]).map((type) => (
+              <SelectItem key={type} value={type}>
+                {SCHEDULE_TYPE_LABELS[type]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {schedule.schedule_type === null ? (
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Dosagem</Label>
+            <Input
+              value={dosage}
+              onChange={(e) => onDosageChange(e.target.value)}
+              placeholder="Ex: 0.5mg"
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Frequência</Label>
+            <Input
+              value={frequency}
+              onChange={(e) => onFrequencyChange(e.target.value)}
+              placeholder="Ex: 1x/semana"
+              required
+            />
+          </div>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Dose</Label>
+              <Input
+                type="number"
+                step="0.01"
+                min="0.01"
+                value={schedule.dose_amount ?? ''}
+                onChange={(e) => update({ dose_amount: e.target.value ? parseFloat(e.target.value) : null })}
+                placeholder="Ex: 0.5"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Unidade</Label>
+              <Select
+                value={schedule.dose_unit ?? undefined}
+                onValueChange={(value) => update({ dose_unit: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Unidade" />
+                </SelectTrigger>
+                <SelectContent>
+                  {DOSE_UNITS.map((unit) => (
+                    <SelectItem key={unit} value={unit}>{unit}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {schedule.schedule_type === 'times' ? (
+            <div className="space-y-2">
+              <Label>Horários</Label>
+              <div className="flex flex-wrap gap-2">
+                {schedule.times_of_day.map((time, index) => (
+                  <div key={index} className="flex items-center gap-1">
+                    <Input
+                      type="time"
+                      className="w-28"
+                      value={time}
+                      onChange={(e) => updateTime(index, e.target.value)}
+                      required
+                    />
+                    {schedule.times_of_day.length > 1 && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => update({ times_of_day: schedule.times_of_day.filter((_, i) => i !== index) })}
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </div>
+                ))}
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="icon"
+                  onClick={() => update({ times_of_day: [...schedule.times_of_day, ''] })}
+                >
+                  <Plus className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>A cada</Label>
+                <Select
+                  value={String(schedule.interval_hours ?? '')}
+                  onValueChange={(value) => update({ interval_hours: parseInt(value) })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Intervalo" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {INTERVAL_OPTIONS.map((hours) => (
+                      <SelectItem key={hours} value={String(hours)}>{hours} horas</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Primeira dose</Label>
+                <Input
+                  type="time"
+                  value={schedule.first_dose_time ?? ''}
+                  onChange={(e) => update({ first_dose_time: e.target.value || null })}
+                  required
+                />
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Dias da semana</Label>
+            <ToggleGroup
+              type="multiple"
+              variant="outline"
+              size="sm"
+              className="justify-start flex-wrap"
+              value={schedule.days_of_week.map(String)}
+              onValueChange={(values) => update({ days_of_week: values.map(Number) })}
+            >
+              {WEEKDAY_LABELS.map((label, index) => (
+                <ToggleGroupItem key={label} value={String(index)}>
+                  {label}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+            <p className="text-xs text-muted-foreground">Nenhum dia selecionado = todos os dias</p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4 items-end">
+            <div className="space-y-2">
+              <Label>Duração (dias, opcional)</Label>
+              <Input
+                type="number"
+                min={1}
+                value={schedule.duration_days ?? ''}
+                onChange={(e) => update({ duration_days: e.target.value ? Math.max(1, parseInt(e.target.value) || 1) : null })}
+                placeholder="Contínuo"
+              />
+            </div>
+            <div className="flex items-center justify-between h-10">
+              <Label htmlFor="takeWithFood">Tomar com alimento</Label>
+              <Switch
+                id="takeWithFood"
+                checked={schedule.take_with_food}
+                onCheckedChange={(checked) => update({ take_with_food: checked })}
+              />
+            </div>
+          </div>
+
+          {summary && (
+            <p className="text-xs text-muted-foreground rounded-md border bg-muted/50 p-2">
+              {formatDose(schedule)} • {summary}
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { format, parseISO } from 'date-fns';
+import { MedicationSupply, supplyEndDate } from '@/lib/medicationSupply';
+
+interface MedicationSupplyFieldsProps {
+  supply: MedicationSupply;
+  onChange: (supply: MedicationSupply) => void;
+  // Used as the dispensing date when none is given
+  startDate: string;
+}
+
+const parseAmount = (value: string) => (value ? parseFloat(value) : null);
+
+export function MedicationSupplyFields({ supply, onChange, startDate }: MedicationSupplyFieldsProps) {
+  const update = (changes: Partial<MedicationSupply>) => onChange({ ...supply, ...changes });
+  const endDate = startDate ? supplyEndDate({ ...supply, start_date: startDate }) : null;
+
+  return (
+    <div className="space-y-2">
+      <Label>Estoque (opcional)</Label>
+      <div className="grid grid-cols-3 gap-4">
+        <div className="space-y-1">
+          <span className="text-xs text-muted-foreground">Quantidade dispensada</span>
+          <Input
+            type="number"
+            step="0.01"
+            min="0.01"
+            value={supply.quantity_dispensed ?? ''}
+            onChange={(e) => update({ quantity_dispensed: parseAmount(e.target.value) })}
+            placeholder="Ex: 30"
+          />
+        </div>
+        <div className="space-y-1">
+          <span className="text-xs text-muted-foreground">Uso por dia</span>
+          <Input
+            type="number"
+            step="0.01"
+            min="0.01"
+            value={supply.daily_dose ?? ''}
+            onChange={(e) => update({ daily_dose: parseAmount(e.target.value) })}
+            placeholder="Ex: 2"
+          />
+        </div>
+        <div className="space-y-1">
+          <span className="text-xs text-muted-foreground">Dispensado em</span>
+          <Input
+            type="date"
+            value={supply.dispensed_at ?? ''}
+            onChange={(e) => update({ dispensed_at: e.target.value || null })}
+          />
+        </div>
+      </div>
+      {endDate && (
+        <p className="text-xs text-muted-foreground">
+          Estoque suficiente até {format(parseISO(endDate), 'dd/MM/yyyy')}
+        </p>
+      )}
+    </div>
+  );
+}
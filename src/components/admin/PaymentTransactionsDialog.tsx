@@ -0,0 +1,270 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { StatusBadge } from '@/components/ui/StatusBadge';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { Trash2 } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { PAYMENT_METHODS, PAYMENT_METHOD_LABELS, PaymentMethod, paymentMethodLabel } from '@/lib/payments';
+
+interface Payment {
+  id: string;
+  amount: number;
+  amount_paid: number;
+  due_date: string;
+  status: string;
+  description: string | null;
+  patient_name?: string;
+}
+
+interface PaymentTransaction {
+  id: string;
+  amount: number;
+  method: PaymentMethod | null;
+  paid_at: string;
+  receipt_reference: string | null;
+}
+
+interface PaymentTransactionsDialogProps {
+  payment: Payment | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess: () => void;
+}
+
+export function PaymentTransactionsDialog({ payment, open, onOpenChange, onSuccess }: PaymentTransactionsDialogProps) {
+  const { toast } = useToast();
+  const [transactions, setTransactions] = useState<PaymentTransaction[]>([]);
+  const [amount, setAmount] = useState('');
+  const [method, setMethod] = useState<PaymentMethod>('pix');
+  const [paidAt, setPaidAt] = useState('');
+  const [receiptReference, setReceiptReference] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const balance = payment ? Math.max(0, Number(payment.amount) - Number(payment.amount_paid)) : 0;
+
+  const fetchTransactions = useCallback(async () => {
+    if (!payment) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('payment_transactions')
+        .select('id, amount, method, paid_at, receipt_reference')
+        .eq('payment_id', payment.id)
+        .order('paid_at', { ascending: true });
+
+      if (error) throw error;
+      setTransactions(data || []);
+    } catch (error) {
+      console.error('Error fetching payment transactions:', error);
+    }
+  }, [payment]);
+
+  useEffect(() => {
+    if (payment && open) {
+      fetchTransactions();
+      setAmount(balance > 0 ? balance.toFixed(2) : '');
+      setMethod('pix');
+      setPaidAt(format(new Date(), 'yyyy-MM-dd'));
+      setReceiptReference('');
+    }
+  }, [payment, open, balance, fetchTransactions]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!payment || !amount || !paidAt) return;
+
+    const value = parseFloat(amount);
+    if (value <= 0) return;
+    // Compared in cents so a balance like 0.1 + 0.2 is not rejected by float rounding
+    if (Math.round(value * 100) > Math.round(balance * 100)) {
+      toast({
+        title: 'Valor acima do saldo',
+        description: `O saldo em aberto é ${formatCurrency(balance)}`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.from('payment_transactions').insert({
+        payment_id: payment.id,
+        amount: value,
+        method,
+        paid_at: paidAt,
+        receipt_reference: receiptReference || null,
+      });
+
+      if (error) throw error;
+
+      toast({ title: 'Recebimento registrado!' });
+      onOpenChange(false);
+      onSuccess();
+    } catch (error) {
+      console.error('Error adding payment transaction:', error);
+      toast({ title: 'Erro ao registrar recebimento', variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Estornar este recebimento?')) return;
+
+    try {
+      const { error } = await supabase.from('payment_transactions').delete().eq('id', id);
+      if (error) throw error;
+
+      toast({ title: 'Recebimento estornado!' });
+      onOpenChange(false);
+      onSuccess();
+    } catch (error) {
+      console.error('Error deleting payment transaction:', error);
+      toast({ title: 'Erro ao estornar recebimento', variant: 'destructive' });
+    }
+  };
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Recebimentos</DialogTitle>
+          {payment && (
+            <DialogDescription>
+              {payment.patient_name} • Vencimento {format(parseISO(payment.due_date), "dd/MM/yyyy")}
+            </DialogDescription>
+          )}
+        </DialogHeader>
+
+        {payment && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-2 text-center">
+              <div className="p-2 rounded-lg bg-secondary/50">
+                <p className="text-xs text-muted-foreground">Valor</p>
+                <p className="font-semibold">{formatCurrency(Number(payment.amount))}</p>
+              </div>
+              <div className="p-2 rounded-lg bg-secondary/50">
+                <p className="text-xs text-muted-foreground">Recebido</p>
+                <p className="font-semibold text-success">{formatCurrency(Number(payment.amount_paid))}</p>
+              </div>
+              <div className="p-2 rounded-lg bg-secondary/50">
+                <p className="text-xs text-muted-foreground">Saldo</p>
+                <p className="font-semibold text-warning">{formatCurrency(balance)}</p>
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <Label>Histórico</Label>
+              <StatusBadge status={payment.status} />
+            </div>
+            {transactions.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Nenhum recebimento registrado</p>
+            ) : (
+              <div className="space-y-2">
+                {transactions.map((transaction) => (
+                  <div
+                    key={transaction.id}
+                    className="flex items-center justify-between p-3 rounded-lg bg-secondary/50 border border-border"
+                  >
+                    <div>
+                      <p className="font-medium">{formatCurrency(Number(transaction.amount))}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {format(parseISO(transaction.paid_at), "dd/MM/yyyy")}
+                        {` • ${paymentMethodLabel(transaction.method)}`}
+                        {transaction.receipt_reference && ` • ${transaction.receipt_reference}`}
+                      </p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-destructive hover:text-destructive"
+                      onClick={() => handleDelete(transaction.id)}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {balance > 0 && (
+              <form onSubmit={handleSubmit} className="space-y-4 pt-4 border-t border-border">
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>Valor Recebido (R$)</Label>
+                    <Input
+                      type="number"
+                      step="0.01"
+                      min="0.01"
+                      max={balance.toFixed(2)}
+                      value={amount}
+                      onChange={(e) => setAmount(e.target.value)}
+                      placeholder="0,00"
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Data</Label>
+                    <Input
+                      type="date"
+                      value={paidAt}
+                      onChange={(e) => setPaidAt(e.target.value)}
+                      required
+                    />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label>Forma de Pagamento</Label>
+                  <Select value={method} onValueChange={(value) => setMethod(value as PaymentMethod)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {PAYMENT_METHODS.map((value) => (
+                        <SelectItem key={value} value={value}>
+                          {PAYMENT_METHOD_LABELS[value]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Comprovante (opcional)</Label>
+                  <Input
+                    value={receiptReference}
+                    onChange={(e) => setReceiptReference(e.target.value)}
+                    placeholder="Nº do comprovante ou autorização"
+                  />
+                </div>
+                <Button type="submit" className="w-full gradient-primary" disabled={saving}>
+                  {saving ? 'Salvando...' : 'Registrar Recebimento'}
+                </Button>
+              </form>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
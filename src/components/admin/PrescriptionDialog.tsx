@@ -0,0 +1,278 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { PatientSelector } from '@/components/admin/PatientSelector';
+import { PrescriptionHistory } from '@/components/admin/PrescriptionHistory';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { FileText } from 'lucide-react';
+import { format } from 'date-fns';
+import { isCurrentMedication } from '@/lib/medicationStatus';
+import { downloadPrescription, prescriptionFromRecord, toPrescriptionItem } from '@/lib/prescriptions';
+
+interface ActiveMedication {
+  id: string;
+  medication_name: string;
+  dosage: string;
+  frequency: string;
+  notes: string | null;
+  start_date: string;
+  end_date: string | null;
+  duration_days: number | null;
+  suspended_at: string | null;
+}
+
+interface PrescriptionDialogProps {
+  defaultPatientId?: string;
+}
+
+export function PrescriptionDialog({ defaultPatientId }: PrescriptionDialogProps) {
+  const { user } = useAuth();
+  // The user object is replaced on token refresh; the id is what the query needs
+  const userId = user?.id;
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [patientId, setPatientId] = useState(defaultPatientId || '');
+  const [medications, setMedications] = useState<ActiveMedication[]>([]);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [professionalName, setProfessionalName] = useState('');
+  const [professionalCrm, setProfessionalCrm] = useState('');
+  const [issuedAt, setIssuedAt] = useState('');
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [historyKey, setHistoryKey] = useState(0);
+
+  // Prefill with the professional used on this admin's last prescription
+  const fetchLastProfessional = useCallback(async () => {
+    if (!userId) return;
+
+    try {
+      const { data } = await supabase
+        .from('prescriptions')
+        .select('professional_name, professional_crm')
+        .eq('created_by', userId)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (data) {
+        setProfessionalName(data.professional_name);
+        setProfessionalCrm(data.professional_crm);
+      }
+    } catch (error) {
+      console.error('Error fetching last prescription:', error);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    if (open) {
+      setPatientId(defaultPatientId || '');
+      setIssuedAt(format(new Date(), 'yyyy-MM-dd'));
+      setNotes('');
+      fetchLastProfessional();
+    }
+  }, [open, defaultPatientId, fetchLastProfessional]);
+
+  const fetchMedications = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('medications')
+        .select('id, medication_name, dosage, frequency, notes, start_date, end_date, duration_days, suspended_at')
+        .eq('user_id', patientId)
+        .is('suspended_at', null)
+        .order('medication_name');
+
+      if (error) throw error;
+
+      // Recurring series create one row per occurrence; the prescription lists each drug once
+      const seen = new Set<string>();
+      const current = (data || []).filter(med => {
+        if (!isCurrentMedication(med)) return false;
+        const key = `${med.medication_name}|${med.dosage}|${med.frequency}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+
+      setMedications(current);
+      setSelectedIds(new Set(current.map(med => med.id)));
+    } catch (error) {
+      console.error('Error fetching medications:', error);
+    }
+  }, [patientId]);
+
+  useEffect(() => {
+    if (patientId) {
+      fetchMedications();
+    } else {
+      setMedications([]);
+      setSelectedIds(new Set());
+    }
+  }, [patientId, fetchMedications]);
+
+  const toggleMedication = (id: string, checked: boolean) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const selected = medications.filter(med => selectedIds.has(med.id));
+    if (!patientId || !professionalName.trim() || !professionalCrm.trim() || !issuedAt) return;
+    if (selected.length === 0) {
+      toast({ title: 'Selecione ao menos uma medicação', variant: 'destructive' });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { data: prescription, error } = await supabase
+        .from('prescriptions')
+        .insert({
+          user_id: patientId,
+          professional_name: professionalName.trim(),
+          professional_crm: professionalCrm.trim(),
+          issued_at: issuedAt,
+          items: selected.map(toPrescriptionItem),
+          medication_ids: selected.map(med => med.id),
+          notes: notes.trim() || null,
+        })
+        .select('professional_name, professional_crm, issued_at, items, notes')
+        .single();
+
+      if (error) throw error;
+
+      const { data: profile, error: profileError } = await supabase
+        .from('profiles')
+        .select('full_name, cpf, birth_date, address')
+        .eq('user_id', patientId)
+        .single();
+
+      if (profileError) throw profileError;
+
+      await downloadPrescription(prescriptionFromRecord(prescription, profile));
+      toast({ title: 'Receituário emitido!' });
+      setNotes('');
+      setHistoryKey(prev => prev + 1);
+    } catch (error) {
+      console.error('Error issuing prescription:', error);
+      toast({ title: 'Erro ao emitir receituário', variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          <FileText className="w-4 h-4" />
+          Receituário
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Receituário</DialogTitle>
+          <DialogDescription>
+            Gera o PDF com as medicações ativas selecionadas e registra no histórico do paciente.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label>Paciente</Label>
+            <PatientSelector value={patientId} onValueChange={setPatientId} />
+          </div>
+
+          {patientId && (
+            <div className="space-y-2">
+              <Label>Medicações</Label>
+              {medications.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Nenhuma medicação ativa para este paciente</p>
+              ) : (
+                <div className="space-y-2 rounded-md border p-3">
+                  {medications.map((med) => (
+                    <div key={med.id} className="flex items-start gap-3">
+                      <Checkbox
+                        id={`rx-${med.id}`}
+                        checked={selectedIds.has(med.id)}
+                        onCheckedChange={(checked) => toggleMedication(med.id, checked === true)}
+                      />
+                      <Label htmlFor={`rx-${med.id}`} className="cursor-pointer font-normal leading-tight">
+                        <span className="font-medium">{med.medication_name}</span> {med.dosage}
+                        <span className="block text-xs text-muted-foreground">{med.frequency}</span>
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Profissional</Label>
+              <Input
+                value={professionalName}
+                onChange={(e) => setProfessionalName(e.target.value)}
+                placeholder="Dr(a). Nome Sobrenome"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>CRM</Label>
+              <Input
+                value={professionalCrm}
+                onChange={(e) => setProfessionalCrm(e.target.value)}
+                placeholder="CRM/SP 000000"
+                required
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Data</Label>
+            <Input
+              type="date"
+              value={issuedAt}
+              onChange={(e) => setIssuedAt(e.target.value)}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Observações (opcional)</Label>
+            <Textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Orientações gerais ao paciente..."
+            />
+          </div>
+          <Button type="submit" className="w-full gradient-primary" disabled={saving || !patientId}>
+            {saving ? 'Gerando...' : 'Emitir e Baixar PDF'}
+          </Button>
+        </form>
+
+        {patientId && (
+          <div className="space-y-2 pt-4 border-t border-border">
+            <Label>Histórico</Label>
+            <PrescriptionHistory patientId={patientId} refreshKey={historyKey} />
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,137 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { Download, FileText, Trash2 } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { PrescriptionItem, downloadPrescription, prescriptionFromRecord } from '@/lib/prescriptions';
+import type { Json } from '@/integrations/supabase/types';
+
+interface Prescription {
+  id: string;
+  professional_name: string;
+  professional_crm: string;
+  issued_at: string;
+  items: Json;
+  notes: string | null;
+}
+
+interface PrescriptionHistoryProps {
+  patientId: string;
+  // Bumped by the parent after issuing a new prescription
+  refreshKey?: number;
+}
+
+export function PrescriptionHistory({ patientId, refreshKey = 0 }: PrescriptionHistoryProps) {
+  const { toast } = useToast();
+  const [prescriptions, setPrescriptions] = useState<Prescription[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchPrescriptions = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('prescriptions')
+        .select('id, professional_name, professional_crm, issued_at, items, notes')
+        .eq('user_id', patientId)
+        .order('issued_at', { ascending: false })
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setPrescriptions(data || []);
+    } catch (error) {
+      console.error('Error fetching prescriptions:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [patientId]);
+
+  useEffect(() => {
+    if (patientId) {
+      fetchPrescriptions();
+    }
+  }, [patientId, refreshKey, fetchPrescriptions]);
+
+  const handleDownload = async (prescription: Prescription) => {
+    try {
+      const { data: profile, error } = await supabase
+        .from('profiles')
+        .select('full_name, cpf, birth_date, address')
+        .eq('user_id', patientId)
+        .single();
+
+      if (error) throw error;
+      await downloadPrescription(prescriptionFromRecord(prescription, profile));
+    } catch (error) {
+      console.error('Error generating prescription:', error);
+      toast({ title: 'Erro ao gerar receituário', variant: 'destructive' });
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Excluir este receituário do histórico?')) return;
+
+    try {
+      const { error } = await supabase.from('prescriptions').delete().eq('id', id);
+      if (error) throw error;
+
+      toast({ title: 'Receituário excluído!' });
+      fetchPrescriptions();
+    } catch (error) {
+      console.error('Error deleting prescription:', error);
+      toast({ title: 'Erro ao excluir receituário', variant: 'destructive' });
+    }
+  };
+
+  if (loading) {
+    return <p className="text-sm text-muted-foreground">Carregando...</p>;
+  }
+
+  if (prescriptions.length === 0) {
+    return <p className="text-sm text-muted-foreground">Nenhum receituário emitido</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {prescriptions.map((prescription) => {
+        const items = Array.isArray(prescription.items) ? (prescription.items as unknown as PrescriptionItem[]) : [];
+
+        return (
+          <div
+            key={prescription.id}
+            className="flex items-start justify-between gap-3 p-3 rounded-lg bg-secondary/50 border border-border"
+          >
+            <div className="flex items-start gap-2 min-w-0">
+              <FileText className="w-4 h-4 text-primary shrink-0 mt-0.5" />
+              <div className="min-w-0">
+                <p className="text-sm font-medium">
+                  {format(parseISO(prescription.issued_at), "dd/MM/yyyy")} • {prescription.professional_name}
+                </p>
+                <p className="text-xs text-muted-foreground truncate">
+                  {items.map(item => item.medication_name).join(', ')}
+                </p>
+              </div>
+            </div>
+            <div className="flex gap-1 shrink-0">
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                onClick={() => handleDownload(prescription)}
+              >
+                <Download className="w-4 h-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 text-destructive hover:text-destructive"
+                onClick={() => handleDelete(prescription.id)}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
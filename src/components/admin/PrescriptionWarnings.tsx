@@ -0,0 +1,139 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle } from 'lucide-react';
+import { isCurrentMedication } from '@/lib/medicationStatus';
+import {
+  DrugInteraction,
+  InteractionSeverity,
+  PrescribedDrug,
+  SEVERITY_CLASSNAMES,
+  SEVERITY_LABELS,
+  findDuplicateIngredients,
+  findInteractions,
+} from '@/lib/drugInteractions';
+
+interface PrescriptionWarningsProps {
+  patientId: string;
+  medicationName: string;
+  catalogId: string | null;
+  // The row being edited, so it is not compared with itself
+  excludeMedicationId?: string;
+  onWarningsChange?: (count: number) => void;
+}
+
+export function PrescriptionWarnings({
+  patientId,
+  medicationName,
+  catalogId,
+  excludeMedicationId,
+  onWarningsChange,
+}: PrescriptionWarningsProps) {
+  const [activeMedications, setActiveMedications] = useState<PrescribedDrug[]>([]);
+  const [interactions, setInteractions] = useState<DrugInteraction[]>([]);
+  const [ingredients, setIngredients] = useState<Map<string, string | null>>(new Map());
+
+  useEffect(() => {
+    fetchReferenceData();
+  }, []);
+
+  const fetchReferenceData = async () => {
+    try {
+      const [interactionsRes, catalogRes] = await Promise.all([
+        supabase.from('drug_interactions').select('id, substance_a, substance_b, severity, message'),
+        supabase.from('medication_catalog').select('id, active_ingredient'),
+      ]);
+
+      if (interactionsRes.error) throw interactionsRes.error;
+      if (catalogRes.error) throw catalogRes.error;
+
+      setInteractions(interactionsRes.data || []);
+      setIngredients(new Map((catalogRes.data || []).map(entry => [entry.id, entry.active_ingredient])));
+    } catch (error) {
+      console.error('Error fetching drug interactions:', error);
+    }
+  };
+
+  const fetchActiveMedications = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('medications')
+        .select('id, medication_name, start_date, end_date, duration_days, suspended_at, medication_catalog(active_ingredient)')
+        .eq('user_id', patientId)
+        .is('suspended_at', null);
+
+      if (error) throw error;
+
+      setActiveMedications(
+        (data || [])
+          .filter(med => med.id !== excludeMedicationId)
+          .filter(med => isCurrentMedication(med))
+          .map(med => ({
+            id: med.id,
+            name: med.medication_name,
+            activeIngredient: med.medication_catalog?.active_ingredient ?? null,
+          }))
+      );
+    } catch (error) {
+      console.error('Error fetching active medications:', error);
+    }
+  }, [patientId, excludeMedicationId]);
+
+  useEffect(() => {
+    if (patientId) {
+      fetchActiveMedications();
+    } else {
+      setActiveMedications([]);
+    }
+  }, [patientId, fetchActiveMedications]);
+
+  const { conflicts, duplicates } = useMemo(() => {
+    if (!medicationName.trim()) return { conflicts: [], duplicates: [] };
+    const candidate = {
+      name: medicationName,
+      activeIngredient: catalogId ? ingredients.get(catalogId) ?? null : null,
+    };
+    return {
+      conflicts: findInteractions(candidate, activeMedications, interactions),
+      duplicates: findDuplicateIngredients(candidate, activeMedications),
+    };
+  }, [medicationName, catalogId, ingredients, activeMedications, interactions]);
+
+  const total = conflicts.length + duplicates.length;
+
+  useEffect(() => {
+    onWarningsChange?.(total);
+  }, [total, onWarningsChange]);
+
+  if (total === 0) return null;
+
+  return (
+    <div className="bg-warning/10 border border-warning/30 rounded-lg p-3 space-y-2">
+      <div className="flex items-center gap-2">
+        <AlertTriangle className="w-4 h-4 text-warning" />
+        <p className="text-sm font-medium text-warning">Alertas de prescrição</p>
+      </div>
+      <ul className="space-y-2">
+        {conflicts.map(({ interaction, medication }) => (
+          <li key={`${interaction.id}-${medication.id}`} className="text-xs space-y-1">
+            <div className="flex items-center gap-2">
+              <Badge variant="outline" className={SEVERITY_CLASSNAMES[interaction.severity as InteractionSeverity]}>
+                {SEVERITY_LABELS[interaction.severity as InteractionSeverity] || interaction.severity}
+              </Badge>
+              <span className="font-medium">Interação com {medication.name}</span>
+            </div>
+            <p className="text-muted-foreground">{interaction.message}</p>
+          </li>
+        ))}
+        {duplicates.map(({ ingredient, medication }) => (
+          <li key={`dup-${medication.id}`} className="text-xs">
+            <span className="font-medium">Duplicidade terapêutica:</span>{' '}
+            <span className="text-muted-foreground">
+              {medication.name} já contém {ingredient}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
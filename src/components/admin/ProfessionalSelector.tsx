@@ -0,0 +1,60 @@
+import { AlertTriangle } from 'lucide-react';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useStaff } from '@/hooks/useStaff';
+import { format, parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { NO_PROFESSIONAL, describeWeekdayHours, isWithinWorkingHours, professionalLabel } from '@/lib/staff';
+
+interface ProfessionalSelectorProps {
+  value: string | null;
+  onValueChange: (value: string | null) => void;
+  // When given, warns if the appointment falls outside the professional's hours
+  date?: string;
+  time?: string | null;
+  durationMinutes?: number | null;
+}
+
+export function ProfessionalSelector({ value, onValueChange, date, time, durationMinutes }: ProfessionalSelectorProps) {
+  const { staff, workingHours, loading } = useStaff();
+
+  // Inactive professionals stay listed only while still assigned
+  const options = staff.filter(member => member.is_active || member.user_id === value);
+  const professionalHours = workingHours.filter(interval => interval.user_id === value);
+  const outsideHours = !!value && !!date && !isWithinWorkingHours(professionalHours, date, time || null, durationMinutes ?? null);
+
+  return (
+    <div className="space-y-2">
+      <Label>Profissional</Label>
+      <Select
+        value={value || NO_PROFESSIONAL}
+        onValueChange={(selected) => onValueChange(selected === NO_PROFESSIONAL ? null : selected)}
+      >
+        <SelectTrigger className="w-full">
+          <SelectValue placeholder={loading ? 'Carregando...' : 'Selecione um profissional'} />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_PROFESSIONAL}>Sem profissional</SelectItem>
+          {options.map((member) => (
+            <SelectItem key={member.user_id} value={member.user_id}>
+              {professionalLabel(member)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {outsideHours && (
+        <p className="text-xs text-warning flex items-center gap-1">
+          <AlertTriangle className="w-3 h-3 shrink-0" />
+          Fora do expediente ({format(parseISO(date), 'EEEE', { locale: ptBR })}:{' '}
+          {describeWeekdayHours(professionalHours, parseISO(date).getDay())})
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+import { useMemo } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  FREQUENCY_LABELS,
+  RecurrenceFrequency,
+  RecurrenceRule,
+  WEEKDAY_LABELS,
+  describeRule,
+  generateOccurrences,
+} from '@/lib/recurrence';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+
+interface RecurrenceFieldsProps {
+  rule: RecurrenceRule;
+  onChange: (rule: RecurrenceRule) => void;
+  startDate: string;
+  previewClassName?: string;
+  // Hide the end controls when the caller fixes the number of occurrences
+  showEnd?: boolean;
+}
+
+export function RecurrenceFields({
+  rule,
+  onChange,
+  startDate,
+  previewClassName = 'status-scheduled',
+  showEnd = true,
+}: RecurrenceFieldsProps) {
+  const endMode = rule.count !== null ? 'count' : 'until';
+
+  const previewDates = useMemo(
+    () => (startDate ? generateOccurrences(startDate, rule) : []),
+    [startDate, rule]
+  );
+
+  const update = (changes: Partial<RecurrenceRule>) => onChange({ ...rule, ...changes });
+
+  const intervalUnit = {
+    daily: 'dia(s)',
+    weekly: 'semana(s)',
+    monthly: 'mês(es)',
+  }[rule.frequency];
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Frequência</Label>
+          <Select
+            value={rule.frequency}
+            onValueChange={(value) => update({ frequency: value as RecurrenceFrequency })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(FREQUENCY_LABELS) as RecurrenceFrequency[]).map((freq) => (
+                <SelectItem key={freq} value={freq}>
+                  {FREQUENCY_LABELS[freq]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>A cada {intervalUnit}</Label>
+          <Input
+            type="number"
+            min={1}
+            value={rule.interval}
+            onChange={(e) => update({ interval: Math.max(1, parseInt(e.target.value) || 1) })}
+          />
+        </div>
+      </div>
+
+      {rule.frequency === 'weekly' && (
+        <div className="space-y-2">
+          <Label>Dias da semana</Label>
+          <ToggleGroup
+            type="multiple"
+            variant="outline"
+            size="sm"
+            className="justify-start flex-wrap"
+            value={rule.weekdays.map(String)}
+            onValueChange={(values) => update({ weekdays: values.map(Number) })}
+          >
+            {WEEKDAY_LABELS.map((label, index) => (
+              <ToggleGroupItem key={label} value={String(index)}>
+                {label}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+        </div>
+      )}
+
+      {showEnd && (
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Término</Label>
+            <Select
+              value={endMode}
+              onValueChange={(value) =>
+                value === 'count'
+                  ? update({ count: rule.count ?? 4, until: null })
+                  : update({ count: null, until: rule.until })
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="until">Na data</SelectItem>
+                <SelectItem value="count">Após N vezes</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>{endMode === 'count' ? 'Ocorrências' : 'Data Final'}</Label>
+            {endMode === 'count' ? (
+              <Input
+                type="number"
+                min={1}
+                value={rule.count ?? ''}
+                onChange={(e) => update({ count: Math.max(1, parseInt(e.target.value) || 1) })}
+                required
+              />
+            ) : (
+              <Input
+                type="date"
+                value={rule.until ?? ''}
+                onChange={(e) => update({ until: e.target.value || null })}
+                min={startDate}
+                required
+              />
+            )}
+          </div>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between">
+        <Label htmlFor="skipHolidays">Pular feriados nacionais</Label>
+        <Switch
+          id="skipHolidays"
+          checked={rule.skipHolidays}
+          onCheckedChange={(checked) => update({ skipHolidays: checked })}
+        />
+      </div>
+
+      {previewDates.length > 0 && (
+        <div className="space-y-2">
+          <Label>Datas que serão criadas ({previewDates.length})</Label>
+          <p className="text-xs text-muted-foreground">{describeRule(rule)}</p>
+          <div className="max-h-32 overflow-y-auto rounded-md border bg-muted/50 p-2 flex flex-wrap gap-2">
+            {previewDates.map((date, index) => (
+              <span key={index} className={previewClassName}>
+                {format(date, "dd/MM/yyyy", { locale: ptBR })}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { AlertTriangle } from 'lucide-react';
+import {
+  ApplicationBooking,
+  ApplicationSlot,
+  BookedApplication,
+  describeConflict,
+  findConflicts,
+} from '@/lib/applicationSlots';
+
+interface SlotConflictWarningsProps {
+  // Applications about to be saved: a single one, a recurring series or rescheduled dates
+  bookings: ApplicationBooking[];
+  onConflictsChange?: (count: number) => void;
+}
+
+export function SlotConflictWarnings({ bookings, onConflictsChange }: SlotConflictWarningsProps) {
+  const [booked, setBooked] = useState<BookedApplication[]>([]);
+  const [slots, setSlots] = useState<ApplicationSlot[]>([]);
+
+  const timed = bookings.filter(booking => booking.start_time);
+  const datesKey = [...new Set(timed.map(booking => booking.application_date))].sort().join(',');
+
+  useEffect(() => {
+    if (!datesKey) {
+      setBooked([]);
+      return;
+    }
+
+    const fetchAgenda = async () => {
+      try {
+        const [appsRes, slotsRes] = await Promise.all([
+          supabase
+            .from('applications')
+            .select('id, user_id, application_date, start_time, duration_minutes, status')
+            .in('application_date', datesKey.split(','))
+            .not('start_time', 'is', null),
+          supabase.from('application_slots').select('start_time, capacity'),
+        ]);
+
+        if (appsRes.error) throw appsRes.error;
+        if (slotsRes.error) throw slotsRes.error;
+
+        const userIds = [...new Set((appsRes.data || []).map(app => app.user_id))];
+        const { data: profilesData } = userIds.length > 0
+          ? await supabase.from('profiles').select('user_id, full_name').in('user_id', userIds)
+          : { data: [] };
+        const names = new Map((profilesData || []).map(profile => [profile.user_id, profile.full_name]));
+
+        setBooked((appsRes.data || []).map(app => ({ ...app, patient_name: names.get(app.user_id) })));
+        setSlots(slotsRes.data || []);
+      } catch (error) {
+        console.error('Error fetching agenda:', error);
+      }
+    };
+
+    fetchAgenda();
+  }, [datesKey]);
+
+  const conflicts = findConflicts(timed, booked, slots);
+
+  useEffect(() => {
+    onConflictsChange?.(conflicts.length);
+  }, [conflicts.length, onConflictsChange]);
+
+  if (conflicts.length === 0) return null;
+
+  return (
+    <div className="bg-warning/10 border border-warning/30 rounded-lg p-3 space-y-2">
+      <div className="flex items-center gap-2">
+        <AlertTriangle className="w-4 h-4 text-warning" />
+        <p className="text-sm font-medium text-warning">
+          {conflicts.length === 1 ? 'Conflito de horário' : `${conflicts.length} conflitos de horário`}
+        </p>
+      </div>
+      <ul className="max-h-32 overflow-y-auto space-y-1">
+        {conflicts.map((conflict, index) => (
+          <li key={`${conflict.date}-${conflict.time}-${index}`} className="text-xs text-muted-foreground">
+            {describeConflict(conflict)}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
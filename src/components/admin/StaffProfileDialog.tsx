@@ -0,0 +1,203 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Plus, Trash2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { WEEKDAY_LABELS } from '@/lib/recurrence';
+import { formatTime, timeToMinutes } from '@/lib/applicationSlots';
+import { StaffMember, WorkingHours } from '@/lib/staff';
+
+interface StaffProfileDialogProps {
+  member: StaffMember | null;
+  workingHours: WorkingHours[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess: () => void;
+}
+
+const DEFAULT_INTERVAL = { start_time: '08:00', end_time: '18:00' };
+
+export function StaffProfileDialog({ member, workingHours, open, onOpenChange, onSuccess }: StaffProfileDialogProps) {
+  const { toast } = useToast();
+  const [specialty, setSpecialty] = useState('');
+  const [registryNumber, setRegistryNumber] = useState('');
+  const [hours, setHours] = useState<WorkingHours[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open && member) {
+      setSpecialty(member.specialty || '');
+      setRegistryNumber(member.registry_number || '');
+      setHours(
+        workingHours
+          .filter(interval => interval.user_id === member.user_id)
+          .map(interval => ({
+            ...interval,
+            start_time: formatTime(interval.start_time),
+            end_time: formatTime(interval.end_time),
+          }))
+      );
+    }
+  }, [open, member, workingHours]);
+
+  const addInterval = (weekday: number) => {
+    if (!member) return;
+    setHours([...hours, { user_id: member.user_id, weekday, ...DEFAULT_INTERVAL }]);
+  };
+
+  const updateInterval = (interval: WorkingHours, changes: Partial<WorkingHours>) => {
+    setHours(hours.map(item => (item === interval ? { ...item, ...changes } : item)));
+  };
+
+  const removeInterval = (interval: WorkingHours) => {
+    setHours(hours.filter(item => item !== interval));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!member) return;
+
+    if (hours.some(interval => timeToMinutes(interval.end_time) <= timeToMinutes(interval.start_time))) {
+      toast({ title: 'O fim do expediente deve ser depois do início', variant: 'destructive' });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error: profileError } = await supabase
+        .from('staff_profiles')
+        .upsert(
+          {
+            user_id: member.user_id,
+            specialty: specialty.trim() || null,
+            registry_number: registryNumber.trim() || null,
+            is_active: member.is_active,
+          },
+          { onConflict: 'user_id' }
+        );
+
+      if (profileError) throw profileError;
+
+      // Hours are replaced as a whole, like the recurrence of a series
+      const { error: deleteError } = await supabase
+        .from('staff_working_hours')
+        .delete()
+        .eq('user_id', member.user_id);
+
+      if (deleteError) throw deleteError;
+
+      if (hours.length > 0) {
+        const { error: hoursError } = await supabase.from('staff_working_hours').insert(
+          hours.map(interval => ({
+            user_id: member.user_id,
+            weekday: interval.weekday,
+            start_time: interval.start_time,
+            end_time: interval.end_time,
+          }))
+        );
+
+        if (hoursError) throw hoursError;
+      }
+
+      toast({ title: 'Profissional atualizado!' });
+      onOpenChange(false);
+      onSuccess();
+    } catch (error) {
+      console.error('Error saving staff profile:', error);
+      toast({ title: 'Erro ao salvar profissional', variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{member?.full_name}</DialogTitle>
+          <DialogDescription>
+            Dados profissionais e expediente semanal. Sem expediente cadastrado, o profissional pode ser
+            escalado em qualquer horário.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Especialidade</Label>
+              <Input value={specialty} onChange={(e) => setSpecialty(e.target.value)} placeholder="Ex: Enfermagem" />
+            </div>
+            <div className="space-y-2">
+              <Label>Registro profissional</Label>
+              <Input
+                value={registryNumber}
+                onChange={(e) => setRegistryNumber(e.target.value)}
+                placeholder="Ex: COREN-SP 123456"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Expediente</Label>
+            {WEEKDAY_LABELS.map((label, weekday) => (
+              <div key={label} className="flex items-start gap-2 rounded-lg bg-secondary/50 p-2">
+                <span className="w-10 pt-1.5 text-sm font-medium">{label}</span>
+                <div className="flex-1 space-y-1">
+                  {hours.filter(interval => interval.weekday === weekday).map((interval, index) => (
+                    <div key={index} className="flex items-center gap-2">
+                      <Input
+                        type="time"
+                        value={interval.start_time}
+                        onChange={(e) => updateInterval(interval, { start_time: e.target.value })}
+                        className="h-8"
+                        required
+                      />
+                      <span className="text-muted-foreground">–</span>
+                      <Input
+                        type="time"
+                        value={interval.end_time}
+                        onChange={(e) => updateInterval(interval, { end_time: e.target.value })}
+                        className="h-8"
+                        required
+                      />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 shrink-0 text-destructive hover:text-destructive"
+                        onClick={() => removeInterval(interval)}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 shrink-0"
+                  onClick={() => addInterval(weekday)}
+                >
+                  <Plus className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          <Button type="submit" className="w-full gradient-primary" disabled={saving}>
+            {saving ? 'Salvando...' : 'Salvar'}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
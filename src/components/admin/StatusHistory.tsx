@@ -0,0 +1,85 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { StatusBadge } from '@/components/ui/StatusBadge';
+import { History } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { formatTime } from '@/lib/applicationSlots';
+
+interface StatusHistoryEntry {
+  id: string;
+  previous_status: string | null;
+  status: string;
+  scheduled_date: string;
+  scheduled_time: string | null;
+  reason: string | null;
+  changed_by: string | null;
+  changed_at: string;
+}
+
+interface StatusHistoryProps {
+  entityType: 'application' | 'evaluation';
+  entityId: string;
+}
+
+export function StatusHistory({ entityType, entityId }: StatusHistoryProps) {
+  const [entries, setEntries] = useState<StatusHistoryEntry[]>([]);
+  const [names, setNames] = useState<Map<string, string>>(new Map());
+
+  const fetchHistory = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('status_history')
+        .select('id, previous_status, status, scheduled_date, scheduled_time, reason, changed_by, changed_at')
+        .eq('entity_type', entityType)
+        .eq('entity_id', entityId)
+        .order('changed_at', { ascending: false });
+
+      if (error) throw error;
+
+      const userIds = [...new Set((data || []).map(entry => entry.changed_by).filter(Boolean))] as string[];
+      const { data: profilesData } = userIds.length > 0
+        ? await supabase.from('profiles').select('user_id, full_name').in('user_id', userIds)
+        : { data: [] };
+
+      setEntries(data || []);
+      setNames(new Map((profilesData || []).map(profile => [profile.user_id, profile.full_name])));
+    } catch (error) {
+      console.error('Error fetching status history:', error);
+    }
+  }, [entityType, entityId]);
+
+  useEffect(() => {
+    if (entityId) {
+      fetchHistory();
+    }
+  }, [entityId, fetchHistory]);
+
+  if (entries.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium flex items-center gap-2">
+        <History className="w-4 h-4 text-muted-foreground" />
+        Histórico
+      </p>
+      <ul className="max-h-40 overflow-y-auto space-y-2">
+        {entries.map((entry) => (
+          <li key={entry.id} className="text-xs rounded-md bg-secondary/50 p-2 space-y-1">
+            <div className="flex items-center justify-between gap-2">
+              <StatusBadge status={entry.status} />
+              <span className="text-muted-foreground">
+                {format(parseISO(entry.changed_at), 'dd/MM/yyyy HH:mm')}
+                {entry.changed_by && ` • ${names.get(entry.changed_by) || 'Usuário'}`}
+              </span>
+            </div>
+            <p className="text-muted-foreground">
+              {format(parseISO(entry.scheduled_date), 'dd/MM/yyyy')}
+              {entry.scheduled_time && ` às ${formatTime(entry.scheduled_time)}`}
+            </p>
+            {entry.reason && <p>{entry.reason}</p>}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
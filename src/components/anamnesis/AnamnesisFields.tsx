@@ -0,0 +1,111 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { cn } from '@/lib/utils';
+import { AnamnesisAnswers, AnamnesisQuestion, AnamnesisSection, YES_NO_OPTIONS } from '@/lib/anamnesis';
+
+interface AnamnesisFieldsProps {
+  sections: AnamnesisSection[];
+  answers: AnamnesisAnswers;
+  onChange: (answers: AnamnesisAnswers) => void;
+  // Required questions highlighted after a submit attempt
+  missing?: Set<string>;
+}
+
+export function AnamnesisFields({ sections, answers, onChange, missing }: AnamnesisFieldsProps) {
+  const setAnswer = (questionId: string, value: string | string[]) => onChange({ ...answers, [questionId]: value });
+
+  const renderInput = (question: AnamnesisQuestion) => {
+    const answer = answers[question.id];
+
+    switch (question.type) {
+      case 'long_text':
+        return (
+          <Textarea
+            value={(answer as string) || ''}
+            onChange={(e) => setAnswer(question.id, e.target.value)}
+          />
+        );
+      case 'number':
+      case 'date':
+        return (
+          <Input
+            type={question.type}
+            value={(answer as string) || ''}
+            onChange={(e) => setAnswer(question.id, e.target.value)}
+          />
+        );
+      case 'yes_no':
+      case 'single_choice': {
+        const options = question.type === 'yes_no' ? YES_NO_OPTIONS : question.options;
+        return (
+          <RadioGroup
+            value={(answer as string) || ''}
+            onValueChange={(value) => setAnswer(question.id, value)}
+            className={cn(question.type === 'yes_no' && 'flex gap-6')}
+          >
+            {options.map((option) => (
+              <div key={option} className="flex items-center gap-2">
+                <RadioGroupItem value={option} id={`${question.id}-${option}`} />
+                <Label htmlFor={`${question.id}-${option}`} className="font-normal cursor-pointer">{option}</Label>
+              </div>
+            ))}
+          </RadioGroup>
+        );
+      }
+      case 'multiple_choice': {
+        const selected = Array.isArray(answer) ? answer : [];
+        return (
+          <div className="space-y-2">
+            {question.options.map((option) => (
+              <div key={option} className="flex items-center gap-2">
+                <Checkbox
+                  id={`${question.id}-${option}`}
+                  checked={selected.includes(option)}
+                  onCheckedChange={(checked) =>
+                    setAnswer(
+                      question.id,
+                      checked === true ? [...selected, option] : selected.filter(item => item !== option)
+                    )
+                  }
+                />
+                <Label htmlFor={`${question.id}-${option}`} className="font-normal cursor-pointer">{option}</Label>
+              </div>
+            ))}
+          </div>
+        );
+      }
+      default:
+        return (
+          <Input
+            value={(answer as string) || ''}
+            onChange={(e) => setAnswer(question.id, e.target.value)}
+          />
+        );
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {sections.map((section) => (
+        <div key={section.id} className="space-y-4">
+          {section.title && <h2 className="text-base font-semibold font-display">{section.title}</h2>}
+          {section.questions.map((question) => (
+            <div key={question.id} className="space-y-2">
+              <Label className={cn(missing?.has(question.id) && 'text-destructive')}>
+                {question.label}
+                {question.required && <span className="text-destructive"> *</span>}
+              </Label>
+              {renderInput(question)}
+              {missing?.has(question.id) && (
+                <p className="text-xs text-destructive">Resposta obrigatória</p>
+              )}
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,205 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { format, parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { cn } from '@/lib/utils';
+import { formatTime } from '@/lib/applicationSlots';
+import {
+  CHANGE_REQUEST_KIND_LABELS,
+  ChangeRequestKind,
+  MIN_NOTICE_HOURS,
+  earliestRescheduleDate,
+  meetsMinNotice,
+} from '@/lib/changeRequests';
+
+interface Application {
+  id: string;
+  user_id: string;
+  application_date: string;
+  start_time: string | null;
+  duration_minutes: number;
+}
+
+interface ChangeRequestDialogProps {
+  application: Application | null;
+  kind: ChangeRequestKind;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess: () => void;
+}
+
+export function ChangeRequestDialog({ application, kind, open, onOpenChange, onSuccess }: ChangeRequestDialogProps) {
+  const { toast } = useToast();
+  const [reason, setReason] = useState('');
+  const [requestedDate, setRequestedDate] = useState('');
+  const [requestedTime, setRequestedTime] = useState<string | null>(null);
+  const [availableTimes, setAvailableTimes] = useState<string[]>([]);
+  const [loadingTimes, setLoadingTimes] = useState(false);
+  const [saving, setSaving] = useState(false);
+  // A refetched application keeps the chosen time as long as its duration is the same
+  const durationMinutes = application?.duration_minutes;
+
+  useEffect(() => {
+    if (open) {
+      setReason('');
+      setRequestedDate('');
+      setRequestedTime(null);
+      setAvailableTimes([]);
+    }
+  }, [open]);
+
+  const fetchAvailableTimes = useCallback(async () => {
+    if (!durationMinutes) return;
+
+    setLoadingTimes(true);
+    setRequestedTime(null);
+    try {
+      const { data, error } = await supabase.rpc('available_application_slots', {
+        _date: requestedDate,
+        _duration_minutes: durationMinutes,
+      });
+
+      if (error) throw error;
+
+      setAvailableTimes(
+        (data || [])
+          .map(slot => slot.start_time)
+          .filter(time => meetsMinNotice(requestedDate, time))
+      );
+    } catch (error) {
+      console.error('Error fetching available times:', error);
+    } finally {
+      setLoadingTimes(false);
+    }
+  }, [requestedDate, durationMinutes]);
+
+  useEffect(() => {
+    if (kind === 'reschedule' && requestedDate && durationMinutes) {
+      fetchAvailableTimes();
+    }
+  }, [kind, requestedDate, durationMinutes, fetchAvailableTimes]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!application || !reason.trim()) return;
+    if (kind === 'reschedule' && !requestedDate) return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.from('application_change_requests').insert({
+        application_id: application.id,
+        user_id: application.user_id,
+        kind,
+        reason: reason.trim(),
+        requested_date: kind === 'reschedule' ? requestedDate : null,
+        requested_time: kind === 'reschedule' ? requestedTime : null,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: 'Solicitação enviada!',
+        description: 'A clínica vai analisar e você verá a resposta aqui.',
+      });
+      onOpenChange(false);
+      onSuccess();
+    } catch (error) {
+      console.error('Error creating change request:', error);
+      toast({
+        title: 'Erro ao enviar solicitação',
+        // Notice and ownership rules are enforced by the database, which explains the refusal
+        description: (error as { message?: string }).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Solicitar {CHANGE_REQUEST_KIND_LABELS[kind].toLowerCase()}</DialogTitle>
+          {application && (
+            <DialogDescription>
+              Aplicação de {format(parseISO(application.application_date), "dd 'de' MMMM", { locale: ptBR })}
+              {application.start_time && ` às ${formatTime(application.start_time)}`}.
+              Alterações precisam de {MIN_NOTICE_HOURS}h de antecedência e dependem da aprovação da clínica.
+            </DialogDescription>
+          )}
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {kind === 'reschedule' && (
+            <>
+              <div className="space-y-2">
+                <Label>Nova data</Label>
+                <Input
+                  type="date"
+                  min={earliestRescheduleDate()}
+                  value={requestedDate}
+                  onChange={(e) => setRequestedDate(e.target.value)}
+                  required
+                />
+              </div>
+              {requestedDate && (
+                <div className="space-y-2">
+                  <Label>Horário</Label>
+                  {loadingTimes ? (
+                    <p className="text-sm text-muted-foreground">Carregando horários...</p>
+                  ) : availableTimes.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">
+                      Nenhum horário livre nesta data. A clínica definirá o horário ao aprovar.
+                    </p>
+                  ) : (
+                    <div className="flex flex-wrap gap-2">
+                      {availableTimes.map((time) => (
+                        <button
+                          key={time}
+                          type="button"
+                          onClick={() => setRequestedTime(requestedTime === time ? null : time)}
+                          className={cn(
+                            'px-3 py-1.5 rounded-lg border text-sm transition-colors',
+                            requestedTime === time
+                              ? 'gradient-primary text-primary-foreground border-transparent'
+                              : 'border-border hover:border-primary'
+                          )}
+                        >
+                          {formatTime(time)}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+          <div className="space-y-2">
+            <Label>Motivo</Label>
+            <Textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder={kind === 'cancel' ? 'Por que precisa cancelar?' : 'Por que precisa remarcar?'}
+              required
+            />
+          </div>
+          <Button type="submit" className="w-full gradient-primary" disabled={saving}>
+            {saving ? 'Enviando...' : 'Enviar Solicitação'}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
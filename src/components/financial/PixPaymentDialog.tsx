@@ -0,0 +1,97 @@
+import { useMemo } from 'react';
+import { QRCodeSVG } from 'qrcode.react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { buildPixPayload, getPixConfig } from '@/lib/pix';
+import { Copy } from 'lucide-react';
+
+interface PixPaymentDialogProps {
+  payment: {
+    amount: number;
+    amount_paid: number;
+    description: string | null;
+    pix_txid: string;
+  } | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function PixPaymentDialog({ payment, open, onOpenChange }: PixPaymentDialogProps) {
+  const { toast } = useToast();
+  const config = useMemo(getPixConfig, []);
+  const balance = payment ? Number(payment.amount) - Number(payment.amount_paid) : 0;
+
+  const payload = useMemo(() => {
+    if (!payment || !config) return '';
+    return buildPixPayload({
+      ...config,
+      amount: balance,
+      txid: payment.pix_txid,
+      description: payment.description || undefined,
+    });
+  }, [payment, config, balance]);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(payload);
+      toast({ title: 'Código PIX copiado!' });
+    } catch (error) {
+      console.error('Error copying PIX code:', error);
+      toast({ title: 'Não foi possível copiar o código', variant: 'destructive' });
+    }
+  };
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Pagar com PIX</DialogTitle>
+          <DialogDescription>
+            Escaneie o QR Code ou copie o código no app do seu banco.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!config ? (
+          <p className="text-sm text-muted-foreground">
+            O pagamento via PIX ainda não está disponível. Entre em contato com o instituto.
+          </p>
+        ) : payment && (
+          <div className="space-y-4">
+            <p className="text-center text-2xl font-bold font-display text-primary">
+              {formatCurrency(balance)}
+            </p>
+            <div className="flex justify-center">
+              <div className="p-3 rounded-lg bg-white">
+                <QRCodeSVG value={payload} size={200} />
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <Input value={payload} readOnly className="font-mono text-xs" />
+              <Button type="button" variant="outline" size="icon" onClick={handleCopy}>
+                <Copy className="w-4 h-4" />
+              </Button>
+            </div>
+            <Button type="button" className="w-full gradient-primary" onClick={handleCopy}>
+              Copiar código PIX
+            </Button>
+            <p className="text-xs text-center text-muted-foreground">
+              Identificador: {payment.pix_txid}
+            </p>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,139 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { FileSpreadsheet } from 'lucide-react';
+import { TaxStatement, buildMonthlyTotals, downloadTaxStatements } from '@/lib/taxStatement';
+import { chunk, fetchAllPages } from '@/lib/pagination';
+
+interface TaxStatementDialogProps {
+  // When omitted, statements are generated for every patient with receipts in the year
+  userId?: string;
+}
+
+export function TaxStatementDialog({ userId }: TaxStatementDialogProps) {
+  const { toast } = useToast();
+  const currentYear = new Date().getFullYear();
+  const [open, setOpen] = useState(false);
+  const [year, setYear] = useState(String(currentYear - 1));
+  const [generating, setGenerating] = useState(false);
+
+  const years = Array.from({ length: 5 }, (_, i) => String(currentYear - i));
+
+  const handleGenerate = async () => {
+    const selectedYear = parseInt(year);
+    setGenerating(true);
+
+    try {
+      // A whole year of receipts for every patient easily exceeds a single page
+      const transactions = await fetchAllPages((from, to) => {
+        let query = supabase
+          .from('payment_transactions')
+          .select('id, amount, paid_at, payments!inner(user_id)')
+          .gte('paid_at', `${selectedYear}-01-01`)
+          .lte('paid_at', `${selectedYear}-12-31`);
+
+        if (userId) {
+          query = query.eq('payments.user_id', userId);
+        }
+
+        return query.order('paid_at').order('id').range(from, to);
+      });
+
+      const byPatient = new Map<string, { amount: number; paid_at: string }[]>();
+      transactions.forEach((t) => {
+        const patientId = t.payments.user_id;
+        byPatient.set(patientId, [...(byPatient.get(patientId) || []), t]);
+      });
+
+      if (byPatient.size === 0) {
+        toast({ title: `Nenhum pagamento recebido em ${selectedYear}`, variant: 'destructive' });
+        return;
+      }
+
+      const profileBatches = await Promise.all(
+        chunk([...byPatient.keys()]).map(async (ids) => {
+          const { data, error } = await supabase.from('profiles').select('user_id, full_name, cpf').in('user_id', ids);
+          if (error) throw error;
+          return data || [];
+        }),
+      );
+
+      const statements: TaxStatement[] = profileBatches
+        .flat()
+        .map((profile) => ({
+          year: selectedYear,
+          patientName: profile.full_name,
+          patientCpf: profile.cpf,
+          ...buildMonthlyTotals(byPatient.get(profile.user_id) || [], selectedYear),
+        }))
+        .sort((a, b) => a.patientName.localeCompare(b.patientName, 'pt-BR'));
+
+      await downloadTaxStatements(
+        statements,
+        userId ? `informe-irpf-${selectedYear}.pdf` : `informes-irpf-${selectedYear}.pdf`,
+      );
+      setOpen(false);
+    } catch (error) {
+      console.error('Error generating tax statement:', error);
+      toast({ title: 'Erro ao gerar informe', variant: 'destructive' });
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          <FileSpreadsheet className="w-4 h-4" />
+          {userId ? 'Informe IR' : 'Informes IR'}
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Informe de Pagamentos para IRPF</DialogTitle>
+          <DialogDescription>
+            {userId
+              ? 'Resumo anual dos valores pagos ao instituto, para a declaração de Imposto de Renda.'
+              : 'Gera um informe por paciente com os valores recebidos no ano, em um único PDF.'}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Ano-calendário</Label>
+            <Select value={year} onValueChange={setYear}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {years.map((y) => (
+                  <SelectItem key={y} value={y}>{y}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button className="w-full gradient-primary" onClick={handleGenerate} disabled={generating}>
+            {generating ? 'Gerando...' : 'Baixar PDF'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,6 +1,16 @@
 import { cn } from '@/lib/utils';
 
-type StatusType = 'completed' | 'scheduled' | 'cancelled' | 'pending' | 'paid' | 'overdue' | 'missed';
+type StatusType =
+  | 'completed'
+  | 'scheduled'
+  | 'confirmed'
+  | 'rescheduled'
+  | 'cancelled'
+  | 'pending'
+  | 'partial'
+  | 'paid'
+  | 'overdue'
+  | 'missed';
 
 interface StatusBadgeProps {
   status: string;
@@ -10,9 +20,12 @@ interface StatusBadgeProps {
 const statusConfig: Record<StatusType, { label: string; className: string }> = {
   completed: { label: 'Realizada', className: 'status-completed' },
   scheduled: { label: 'Agendada', className: 'status-scheduled' },
+  confirmed: { label: 'Confirmada', className: 'status-confirmed' },
+  rescheduled: { label: 'Remarcada', className: 'status-pending' },
   cancelled: { label: 'Cancelada', className: 'status-overdue' },
   missed: { label: 'Faltou', className: 'status-pending' },
   pending: { label: 'A Vencer', className: 'status-pending' },
+  partial: { label: 'Parcial', className: 'status-scheduled' },
   paid: { label: 'Pago', className: 'status-completed' },
   overdue: { label: 'Vencido', className: 'status-overdue' },
 };
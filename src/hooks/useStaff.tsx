@@ -0,0 +1,61 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { StaffMember, WorkingHours } from '@/lib/staff';
+
+// Staff are the users with the admin or master role, completed by their staff profile
+export function useStaff() {
+  const [staff, setStaff] = useState<StaffMember[]>([]);
+  const [workingHours, setWorkingHours] = useState<WorkingHours[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchStaff();
+  }, []);
+
+  const fetchStaff = async () => {
+    try {
+      const { data: rolesData, error: rolesError } = await supabase
+        .from('user_roles')
+        .select('user_id')
+        .in('role', ['admin', 'master']);
+
+      if (rolesError) throw rolesError;
+
+      const userIds = (rolesData || []).map(role => role.user_id);
+      if (userIds.length === 0) {
+        setStaff([]);
+        setWorkingHours([]);
+        return;
+      }
+
+      const [profilesRes, staffRes, hoursRes] = await Promise.all([
+        supabase.from('profiles').select('user_id, full_name, email').in('user_id', userIds).order('full_name'),
+        supabase.from('staff_profiles').select('user_id, specialty, registry_number, is_active').in('user_id', userIds),
+        supabase.from('staff_working_hours').select('id, user_id, weekday, start_time, end_time').in('user_id', userIds),
+      ]);
+
+      if (profilesRes.error) throw profilesRes.error;
+      if (staffRes.error) throw staffRes.error;
+      if (hoursRes.error) throw hoursRes.error;
+
+      const staffProfiles = new Map((staffRes.data || []).map(profile => [profile.user_id, profile]));
+
+      setStaff((profilesRes.data || []).map(profile => {
+        const staffProfile = staffProfiles.get(profile.user_id);
+        return {
+          ...profile,
+          specialty: staffProfile?.specialty ?? null,
+          registry_number: staffProfile?.registry_number ?? null,
+          is_active: staffProfile?.is_active ?? true,
+        };
+      }));
+      setWorkingHours(hoursRes.data || []);
+    } catch (error) {
+      console.error('Error fetching staff:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return { staff, workingHours, loading, refetch: fetchStaff };
+}
@@ -14,31 +14,300 @@ export type Database = {
   }
   public: {
     Tables: {
+      anamnesis_forms: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          description: string | null
+          id: string
+          is_active: boolean
+          sections: Json
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          sections?: Json
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          sections?: Json
+          title?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      anamnesis_responses: {
+        Row: {
+          answers: Json
+          form_id: string | null
+          form_sections: Json
+          form_title: string
+          id: string
+          submitted_at: string
+          user_id: string
+          version: number
+        }
+        Insert: {
+          answers?: Json
+          form_id?: string | null
+          form_sections?: Json
+          form_title?: string
+          id?: string
+          submitted_at?: string
+          user_id: string
+          version?: number
+        }
+        Update: {
+          answers?: Json
+          form_id?: string | null
+          form_sections?: Json
+          form_title?: string
+          id?: string
+          submitted_at?: string
+          user_id?: string
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "anamnesis_responses_form_id_fkey"
+            columns: ["form_id"]
+            isOneToOne: false
+            referencedRelation: "anamnesis_forms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      application_change_requests: {
+        Row: {
+          application_id: string
+          created_at: string
+          id: string
+          kind: string
+          reason: string
+          requested_date: string | null
+          requested_time: string | null
+          responded_at: string | null
+          responded_by: string | null
+          response_notes: string | null
+          status: string
+          user_id: string
+        }
+        Insert: {
+          application_id: string
+          created_at?: string
+          id?: string
+          kind: string
+          reason: string
+          requested_date?: string | null
+          requested_time?: string | null
+          responded_at?: string | null
+          responded_by?: string | null
+          response_notes?: string | null
+          status?: string
+          user_id: string
+        }
+        Update: {
+          application_id?: string
+          created_at?: string
+          id?: string
+          kind?: string
+          reason?: string
+          requested_date?: string | null
+          requested_time?: string | null
+          responded_at?: string | null
+          responded_by?: string | null
+          response_notes?: string | null
+          status?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "application_change_requests_application_id_fkey"
+            columns: ["application_id"]
+            isOneToOne: false
+            referencedRelation: "applications"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      application_slots: {
+        Row: {
+          capacity: number
+          created_at: string
+          id: string
+          start_time: string
+          updated_at: string
+        }
+        Insert: {
+          capacity?: number
+          created_at?: string
+          id?: string
+          start_time: string
+          updated_at?: string
+        }
+        Update: {
+          capacity?: number
+          created_at?: string
+          id?: string
+          start_time?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       applications: {
         Row: {
           application_date: string
           created_at: string
+          duration_minutes: number
           id: string
           notes: string | null
+          professional_id: string | null
+          series_id: string | null
+          start_time: string | null
           status: string
+          status_reason: string | null
+          treatment_plan_id: string | null
           user_id: string
         }
         Insert: {
           application_date: string
           created_at?: string
+          duration_minutes?: number
           id?: string
           notes?: string | null
+          professional_id?: string | null
+          series_id?: string | null
+          start_time?: string | null
           status: string
+          status_reason?: string | null
+          treatment_plan_id?: string | null
           user_id: string
         }
         Update: {
           application_date?: string
           created_at?: string
+          duration_minutes?: number
           id?: string
           notes?: string | null
+          professional_id?: string | null
+          series_id?: string | null
+          start_time?: string | null
           status?: string
+          status_reason?: string | null
+          treatment_plan_id?: string | null
           user_id?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "applications_series_id_fkey"
+            columns: ["series_id"]
+            isOneToOne: false
+            referencedRelation: "recurrence_series"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "applications_treatment_plan_id_fkey"
+            columns: ["treatment_plan_id"]
+            isOneToOne: false
+            referencedRelation: "treatment_plans"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      clinical_notes: {
+        Row: {
+          amends_id: string | null
+          application_id: string | null
+          author_id: string
+          content: string
+          created_at: string
+          evaluation_id: string | null
+          id: string
+          user_id: string
+        }
+        Insert: {
+          amends_id?: string | null
+          application_id?: string | null
+          author_id?: string
+          content: string
+          created_at?: string
+          evaluation_id?: string | null
+          id?: string
+          user_id: string
+        }
+        Update: {
+          amends_id?: string | null
+          application_id?: string | null
+          author_id?: string
+          content?: string
+          created_at?: string
+          evaluation_id?: string | null
+          id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "clinical_notes_amends_id_fkey"
+            columns: ["amends_id"]
+            isOneToOne: false
+            referencedRelation: "clinical_notes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "clinical_notes_application_id_fkey"
+            columns: ["application_id"]
+            isOneToOne: false
+            referencedRelation: "applications"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "clinical_notes_evaluation_id_fkey"
+            columns: ["evaluation_id"]
+            isOneToOne: false
+            referencedRelation: "medical_evaluations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      drug_interactions: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          message: string
+          severity: string
+          substance_a: string
+          substance_b: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          message: string
+          severity?: string
+          substance_a: string
+          substance_b: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          message?: string
+          severity?: string
+          substance_a?: string
+          substance_b?: string
+        }
         Relationships: []
       }
       financial_unlock_requests: {
@@ -84,7 +353,10 @@ export type Database = {
           evaluation_time: string
           id: string
           notes: string | null
+          professional_id: string | null
+          series_id: string | null
           status: string
+          status_reason: string | null
           user_id: string
         }
         Insert: {
@@ -93,7 +365,10 @@ export type Database = {
           evaluation_time: string
           id?: string
           notes?: string | null
+          professional_id?: string | null
+          series_id?: string | null
           status?: string
+          status_reason?: string | null
           user_id: string
         }
         Update: {
@@ -102,79 +377,356 @@ export type Database = {
           evaluation_time?: string
           id?: string
           notes?: string | null
+          professional_id?: string | null
+          series_id?: string | null
           status?: string
+          status_reason?: string | null
           user_id?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "medical_evaluations_series_id_fkey"
+            columns: ["series_id"]
+            isOneToOne: false
+            referencedRelation: "recurrence_series"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      medication_catalog: {
+        Row: {
+          active_ingredient: string | null
+          contraindications: string | null
+          created_at: string
+          created_by: string | null
+          default_dosage: string | null
+          default_frequency: string | null
+          id: string
+          is_active: boolean
+          name: string
+          notes: string | null
+          presentation: string | null
+          updated_at: string
+        }
+        Insert: {
+          active_ingredient?: string | null
+          contraindications?: string | null
+          created_at?: string
+          created_by?: string | null
+          default_dosage?: string | null
+          default_frequency?: string | null
+          id?: string
+          is_active?: boolean
+          name: string
+          notes?: string | null
+          presentation?: string | null
+          updated_at?: string
+        }
+        Update: {
+          active_ingredient?: string | null
+          contraindications?: string | null
+          created_at?: string
+          created_by?: string | null
+          default_dosage?: string | null
+          default_frequency?: string | null
+          id?: string
+          is_active?: boolean
+          name?: string
+          notes?: string | null
+          presentation?: string | null
+          updated_at?: string
+        }
         Relationships: []
       }
+      medication_intakes: {
+        Row: {
+          id: string
+          medication_id: string
+          recorded_at: string
+          scheduled_at: string
+          status: string
+          user_id: string
+        }
+        Insert: {
+          id?: string
+          medication_id: string
+          recorded_at?: string
+          scheduled_at: string
+          status: string
+          user_id: string
+        }
+        Update: {
+          id?: string
+          medication_id?: string
+          recorded_at?: string
+          scheduled_at?: string
+          status?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "medication_intakes_medication_id_fkey"
+            columns: ["medication_id"]
+            isOneToOne: false
+            referencedRelation: "medications"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       medications: {
         Row: {
+          catalog_id: string | null
           created_at: string
+          daily_dose: number | null
+          days_of_week: number[] | null
+          dispensed_at: string | null
           dosage: string
+          dose_amount: number | null
+          dose_unit: string | null
+          duration_days: number | null
           end_date: string | null
+          first_dose_time: string | null
           frequency: string
           id: string
-          is_active: boolean
+          interval_hours: number | null
           medication_name: string
           notes: string | null
+          quantity_dispensed: number | null
+          schedule_type: string | null
+          series_id: string | null
           start_date: string
+          suspended_at: string | null
+          suspension_reason: string | null
+          take_with_food: boolean
+          times_of_day: string[] | null
+          treatment_plan_id: string | null
           user_id: string
         }
         Insert: {
+          catalog_id?: string | null
           created_at?: string
+          daily_dose?: number | null
+          days_of_week?: number[] | null
+          dispensed_at?: string | null
           dosage: string
+          dose_amount?: number | null
+          dose_unit?: string | null
+          duration_days?: number | null
           end_date?: string | null
+          first_dose_time?: string | null
           frequency: string
           id?: string
-          is_active?: boolean
+          interval_hours?: number | null
           medication_name: string
           notes?: string | null
+          quantity_dispensed?: number | null
+          schedule_type?: string | null
+          series_id?: string | null
           start_date: string
+          suspended_at?: string | null
+          suspension_reason?: string | null
+          take_with_food?: boolean
+          times_of_day?: string[] | null
+          treatment_plan_id?: string | null
           user_id: string
         }
         Update: {
+          catalog_id?: string | null
           created_at?: string
+          daily_dose?: number | null
+          days_of_week?: number[] | null
+          dispensed_at?: string | null
           dosage?: string
+          dose_amount?: number | null
+          dose_unit?: string | null
+          duration_days?: number | null
           end_date?: string | null
+          first_dose_time?: string | null
           frequency?: string
           id?: string
-          is_active?: boolean
+          interval_hours?: number | null
           medication_name?: string
           notes?: string | null
+          quantity_dispensed?: number | null
+          schedule_type?: string | null
+          series_id?: string | null
           start_date?: string
+          suspended_at?: string | null
+          suspension_reason?: string | null
+          take_with_food?: boolean
+          times_of_day?: string[] | null
+          treatment_plan_id?: string | null
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "medications_catalog_id_fkey"
+            columns: ["catalog_id"]
+            isOneToOne: false
+            referencedRelation: "medication_catalog"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "medications_series_id_fkey"
+            columns: ["series_id"]
+            isOneToOne: false
+            referencedRelation: "recurrence_series"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "medications_treatment_plan_id_fkey"
+            columns: ["treatment_plan_id"]
+            isOneToOne: false
+            referencedRelation: "treatment_plans"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payment_transactions: {
+        Row: {
+          amount: number
+          bank_entry_id: string | null
+          created_at: string
+          created_by: string | null
+          id: string
+          method: Database["public"]["Enums"]["payment_method"] | null
+          notes: string | null
+          paid_at: string
+          payment_id: string
+          receipt_reference: string | null
+        }
+        Insert: {
+          amount: number
+          bank_entry_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          method?: Database["public"]["Enums"]["payment_method"] | null
+          notes?: string | null
+          paid_at?: string
+          payment_id: string
+          receipt_reference?: string | null
+        }
+        Update: {
+          amount?: number
+          bank_entry_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          method?: Database["public"]["Enums"]["payment_method"] | null
+          notes?: string | null
+          paid_at?: string
+          payment_id?: string
+          receipt_reference?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_transactions_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: false
+            referencedRelation: "payments"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       payments: {
         Row: {
           amount: number
+          amount_paid: number
           created_at: string
           description: string | null
           due_date: string
           id: string
           paid_date: string | null
+          pix_txid: string
+          receipt_number: number | null
+          series_id: string | null
           status: string
+          treatment_plan_id: string | null
           user_id: string
         }
         Insert: {
           amount: number
+          amount_paid?: number
           created_at?: string
           description?: string | null
           due_date: string
           id?: string
           paid_date?: string | null
-          status: string
+          pix_txid?: string
+          receipt_number?: number | null
+          series_id?: string | null
+          status?: string
+          treatment_plan_id?: string | null
           user_id: string
         }
         Update: {
           amount?: number
+          amount_paid?: number
           created_at?: string
           description?: string | null
           due_date?: string
           id?: string
           paid_date?: string | null
+          pix_txid?: string
+          receipt_number?: number | null
+          series_id?: string | null
           status?: string
+          treatment_plan_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payments_series_id_fkey"
+            columns: ["series_id"]
+            isOneToOne: false
+            referencedRelation: "recurrence_series"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payments_treatment_plan_id_fkey"
+            columns: ["treatment_plan_id"]
+            isOneToOne: false
+            referencedRelation: "treatment_plans"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      prescriptions: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          issued_at: string
+          items: Json
+          medication_ids: string[]
+          notes: string | null
+          professional_crm: string
+          professional_name: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          issued_at?: string
+          items: Json
+          medication_ids?: string[]
+          notes?: string | null
+          professional_crm: string
+          professional_name: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          issued_at?: string
+          items?: Json
+          medication_ids?: string[]
+          notes?: string | null
+          professional_crm?: string
+          professional_name?: string
           user_id?: string
         }
         Relationships: []
@@ -254,6 +806,201 @@ export type Database = {
         }
         Relationships: []
       }
+      recurrence_series: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          daily_dose: number | null
+          dispensed_at: string | null
+          entity_type: string
+          frequency: string
+          id: string
+          interval: number
+          occurrence_count: number | null
+          quantity_dispensed: number | null
+          skip_holidays: boolean
+          start_date: string
+          until_date: string | null
+          user_id: string
+          weekdays: number[]
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          daily_dose?: number | null
+          dispensed_at?: string | null
+          entity_type: string
+          frequency: string
+          id?: string
+          interval?: number
+          occurrence_count?: number | null
+          quantity_dispensed?: number | null
+          skip_holidays?: boolean
+          start_date: string
+          until_date?: string | null
+          user_id: string
+          weekdays?: number[]
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          daily_dose?: number | null
+          dispensed_at?: string | null
+          entity_type?: string
+          frequency?: string
+          id?: string
+          interval?: number
+          occurrence_count?: number | null
+          quantity_dispensed?: number | null
+          skip_holidays?: boolean
+          start_date?: string
+          until_date?: string | null
+          user_id?: string
+          weekdays?: number[]
+        }
+        Relationships: []
+      }
+      staff_profiles: {
+        Row: {
+          created_at: string
+          is_active: boolean
+          registry_number: string | null
+          specialty: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          is_active?: boolean
+          registry_number?: string | null
+          specialty?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          is_active?: boolean
+          registry_number?: string | null
+          specialty?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      staff_working_hours: {
+        Row: {
+          created_at: string
+          end_time: string
+          id: string
+          start_time: string
+          user_id: string
+          weekday: number
+        }
+        Insert: {
+          created_at?: string
+          end_time: string
+          id?: string
+          start_time: string
+          user_id: string
+          weekday: number
+        }
+        Update: {
+          created_at?: string
+          end_time?: string
+          id?: string
+          start_time?: string
+          user_id?: string
+          weekday?: number
+        }
+        Relationships: []
+      }
+      status_history: {
+        Row: {
+          changed_at: string
+          changed_by: string | null
+          entity_id: string
+          entity_type: string
+          id: string
+          previous_status: string | null
+          reason: string | null
+          scheduled_date: string
+          scheduled_time: string | null
+          status: string
+          user_id: string
+        }
+        Insert: {
+          changed_at?: string
+          changed_by?: string | null
+          entity_id: string
+          entity_type: string
+          id?: string
+          previous_status?: string | null
+          reason?: string | null
+          scheduled_date: string
+          scheduled_time?: string | null
+          status: string
+          user_id: string
+        }
+        Update: {
+          changed_at?: string
+          changed_by?: string | null
+          entity_id?: string
+          entity_type?: string
+          id?: string
+          previous_status?: string | null
+          reason?: string | null
+          scheduled_date?: string
+          scheduled_time?: string | null
+          status?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      treatment_plans: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          installments: number
+          notes: string | null
+          protocol: string
+          start_date: string
+          status: string
+          total_price: number
+          total_sessions: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          installments?: number
+          notes?: string | null
+          protocol?: string
+          start_date: string
+          status?: string
+          total_price?: number
+          total_sessions: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          installments?: number
+          notes?: string | null
+          protocol?: string
+          start_date?: string
+          status?: string
+          total_price?: number
+          total_sessions?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       user_permissions: {
         Row: {
           created_at: string
@@ -301,9 +1048,64 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      medications_with_status: {
+        Row: {
+          catalog_id: string | null
+          created_at: string | null
+          daily_dose: number | null
+          days_of_week: number[] | null
+          dispensed_at: string | null
+          dosage: string | null
+          dose_amount: number | null
+          dose_unit: string | null
+          duration_days: number | null
+          effective_end_date: string | null
+          end_date: string | null
+          first_dose_time: string | null
+          frequency: string | null
+          id: string | null
+          interval_hours: number | null
+          medication_name: string | null
+          notes: string | null
+          quantity_dispensed: number | null
+          schedule_type: string | null
+          series_id: string | null
+          start_date: string | null
+          status: string | null
+          supply_end_date: string | null
+          suspended_at: string | null
+          suspension_reason: string | null
+          take_with_food: boolean | null
+          times_of_day: string[] | null
+          treatment_plan_id: string | null
+          user_id: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
+      application_change_min_notice: { Args: never; Returns: unknown }
+      available_application_slots: {
+        Args: { _date: string; _duration_minutes: number }
+        Returns: {
+          available: number
+          start_time: string
+        }[]
+      }
+      create_recurring_series: {
+        Args: { _occurrences: Json; _series: Json }
+        Returns: string
+      }
+      create_treatment_plan: {
+        Args: {
+          _application_dates: string[]
+          _medications?: Json
+          _payments?: Json
+          _plan: Json
+          _series: Json
+        }
+        Returns: string
+      }
       has_permission: {
         Args: { _permission: string; _user_id: string }
         Returns: boolean
@@ -316,9 +1118,43 @@ export type Database = {
         Returns: boolean
       }
       is_master: { Args: { _user_id: string }; Returns: boolean }
+      mark_overdue_payments: { Args: never; Returns: number }
+      medication_effective_end_date: {
+        Args: {
+          _duration_days: number
+          _end_date: string
+          _start_date: string
+        }
+        Returns: string
+      }
+      medication_status: {
+        Args: {
+          _duration_days: number
+          _end_date: string
+          _start_date: string
+          _suspended_at: string
+        }
+        Returns: string
+      }
+      medication_supply_end_date: {
+        Args: {
+          _daily_dose: number
+          _dispensed_at: string
+          _quantity_dispensed: number
+          _start_date: string
+        }
+        Returns: string
+      }
     }
     Enums: {
       app_role: "admin" | "user" | "master"
+      payment_method:
+        | "pix"
+        | "credit_card"
+        | "debit_card"
+        | "cash"
+        | "boleto"
+        | "bank_transfer"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -447,6 +1283,14 @@ export const Constants = {
   public: {
     Enums: {
       app_role: ["admin", "user", "master"],
+      payment_method: [
+        "pix",
+        "credit_card",
+        "debit_card",
+        "cash",
+        "boleto",
+        "bank_transfer",
+      ],
     },
   },
 } as const
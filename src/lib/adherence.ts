@@ -0,0 +1,122 @@
+import { eachDayOfInterval, parseISO, startOfDay, subDays } from 'date-fns';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/integrations/supabase/types';
+import { ScheduledDose, ScheduledMedication, dosesForDay } from '@/lib/medicationSchedule';
+
+export type IntakeStatus = 'taken' | 'skipped';
+
+export interface MedicationIntake {
+  medication_id: string;
+  scheduled_at: string;
+  status: string;
+}
+
+export interface Adherence {
+  expected: number;
+  taken: number;
+  skipped: number;
+  // Due doses without any check-in
+  missed: number;
+  // Taken over expected, null when no dose was due yet
+  rate: number | null;
+}
+
+export const INTAKE_STATUS_LABELS: Record<IntakeStatus, string> = {
+  taken: 'Tomei',
+  skipped: 'Pulei',
+};
+
+// Window used for the adherence shown to admins
+export const ADHERENCE_WINDOW_DAYS = 30;
+
+export function intakeKey(medicationId: string, scheduledAt: Date | string): string {
+  const time = typeof scheduledAt === 'string' ? parseISO(scheduledAt) : scheduledAt;
+  return `${medicationId}|${time.getTime()}`;
+}
+
+export function indexIntakes<T extends MedicationIntake>(intakes: T[]): Map<string, T> {
+  return new Map(intakes.map(intake => [intakeKey(intake.medication_id, intake.scheduled_at), intake]));
+}
+
+// Doses scheduled between the two instants (inclusive), day by day
+export function dueDoses<T extends ScheduledMedication>(medications: T[], from: Date, to: Date): ScheduledDose<T>[] {
+  if (from > to) return [];
+  return eachDayOfInterval({ start: startOfDay(from), end: to })
+    .flatMap(day => dosesForDay(medications, day))
+    .filter(dose => dose.time >= from && dose.time <= to);
+}
+
+export function computeAdherence(doses: ScheduledDose[], intakes: Map<string, MedicationIntake>): Adherence {
+  let taken = 0;
+  let skipped = 0;
+
+  doses.forEach(dose => {
+    const status = intakes.get(intakeKey(dose.medication.id, dose.time))?.status;
+    if (status === 'taken') taken++;
+    else if (status === 'skipped') skipped++;
+  });
+
+  const expected = doses.length;
+  return {
+    expected,
+    taken,
+    skipped,
+    missed: expected - taken - skipped,
+    rate: expected > 0 ? Math.round((taken / expected) * 100) : null,
+  };
+}
+
+// Adherence per medication and per patient over the same set of due doses
+export function adherenceBreakdown<T extends ScheduledMedication & { user_id: string }>(
+  medications: T[],
+  intakes: MedicationIntake[],
+  from: Date,
+  to: Date,
+): { byMedication: Map<string, Adherence>; byPatient: Map<string, Adherence> } {
+  const index = indexIntakes(intakes);
+  const doses = dueDoses(medications, from, to);
+
+  const group = (keyOf: (dose: ScheduledDose<T>) => string) => {
+    const groups = new Map<string, ScheduledDose<T>[]>();
+    doses.forEach(dose => {
+      const key = keyOf(dose);
+      groups.set(key, [...(groups.get(key) || []), dose]);
+    });
+    return new Map([...groups].map(([key, list]) => [key, computeAdherence(list, index)]));
+  };
+
+  return {
+    byMedication: group(dose => dose.medication.id),
+    byPatient: group(dose => dose.medication.user_id),
+  };
+}
+
+// One patient's adherence over the admin window, null when no dose was due yet
+export async function fetchPatientAdherence(
+  client: SupabaseClient<Database>,
+  userId: string,
+  now: Date = new Date(),
+): Promise<Adherence | null> {
+  const windowStart = subDays(now, ADHERENCE_WINDOW_DAYS);
+  const [medsRes, intakesRes] = await Promise.all([
+    client.from('medications_with_status').select('*').eq('user_id', userId),
+    client
+      .from('medication_intakes')
+      .select('medication_id, scheduled_at, status')
+      .eq('user_id', userId)
+      .gte('scheduled_at', windowStart.toISOString()),
+  ]);
+
+  if (medsRes.error) throw medsRes.error;
+  if (intakesRes.error) throw intakesRes.error;
+
+  const doses = dueDoses((medsRes.data || []) as ScheduledMedication[], windowStart, now);
+  return doses.length > 0 ? computeAdherence(doses, indexIntakes(intakesRes.data || [])) : null;
+}
+
+export function adherenceClassName(rate: number | null): string {
+  if (rate === null) return 'text-muted-foreground';
+  if (rate >= 80) return 'text-success';
+  if (rate >= 50) return 'text-warning';
+  return 'text-destructive';
+}
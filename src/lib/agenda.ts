@@ -0,0 +1,128 @@
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { timeToMinutes } from '@/lib/applicationSlots';
+import { NO_PROFESSIONAL } from '@/lib/staff';
+
+export type AgendaView = 'day' | 'week' | 'month';
+
+export type AgendaEventKind = 'application' | 'evaluation';
+
+export interface AgendaEvent {
+  kind: AgendaEventKind;
+  id: string;
+  user_id: string;
+  date: string;
+  time: string | null;
+  // Evaluations have no duration, only a start time
+  duration_minutes: number | null;
+  status: string;
+  patient_name: string;
+  professional_id: string | null;
+}
+
+export const AGENDA_VIEW_LABELS: Record<AgendaView, string> = {
+  day: 'Dia',
+  week: 'Semana',
+  month: 'Mês',
+};
+
+export const AGENDA_KIND_LABELS: Record<AgendaEventKind, string> = {
+  application: 'Aplicação',
+  evaluation: 'Avaliação',
+};
+
+// Same palette as StatusBadge so the calendar reads like the lists
+export const AGENDA_STATUS_CLASSNAMES: Record<string, string> = {
+  scheduled: 'bg-primary/20 text-primary',
+  confirmed: 'bg-primary/10 text-primary border border-primary/40',
+  rescheduled: 'bg-warning/20 text-warning',
+  completed: 'bg-success/20 text-success',
+  missed: 'bg-warning/20 text-warning',
+  cancelled: 'bg-destructive/20 text-destructive line-through',
+};
+
+// Professional filter value showing everyone's events
+export const ALL_PROFESSIONALS = 'all';
+
+// Hours shown as rows in the day view
+export const AGENDA_FIRST_HOUR = 7;
+export const AGENDA_LAST_HOUR = 20;
+
+export function agendaStatusClassName(status: string): string {
+  return AGENDA_STATUS_CLASSNAMES[status] || AGENDA_STATUS_CLASSNAMES.scheduled;
+}
+
+/**
+ * Days displayed for a view around `anchor`. Weeks start on Sunday like the
+ * recurrence weekdays; the month view pads to whole weeks so it renders as a grid.
+ */
+export function agendaDays(view: AgendaView, anchor: Date): Date[] {
+  switch (view) {
+    case 'day':
+      return [anchor];
+    case 'week':
+      return eachDayOfInterval({ start: startOfWeek(anchor), end: endOfWeek(anchor) });
+    case 'month':
+      return eachDayOfInterval({
+        start: startOfWeek(startOfMonth(anchor)),
+        end: endOfWeek(endOfMonth(anchor)),
+      });
+  }
+}
+
+export function shiftAnchor(view: AgendaView, anchor: Date, direction: 1 | -1): Date {
+  switch (view) {
+    case 'day':
+      return addDays(anchor, direction);
+    case 'week':
+      return addWeeks(anchor, direction);
+    case 'month':
+      return addMonths(anchor, direction);
+  }
+}
+
+export function agendaTitle(view: AgendaView, anchor: Date): string {
+  switch (view) {
+    case 'day':
+      return format(anchor, "EEEE, dd 'de' MMMM", { locale: ptBR });
+    case 'week': {
+      const days = agendaDays('week', anchor);
+      return `${format(days[0], 'dd/MM')} – ${format(days[6], 'dd/MM/yyyy')}`;
+    }
+    case 'month':
+      return format(anchor, "MMMM 'de' yyyy", { locale: ptBR });
+  }
+}
+
+// Events of each day ordered by time; untimed applications come first
+export function groupEventsByDay(events: AgendaEvent[]): Map<string, AgendaEvent[]> {
+  const byDay = new Map<string, AgendaEvent[]>();
+  events.forEach(event => {
+    byDay.set(event.date, [...(byDay.get(event.date) || []), event]);
+  });
+  byDay.forEach(dayEvents =>
+    dayEvents.sort((a, b) => (a.time ? timeToMinutes(a.time) : -1) - (b.time ? timeToMinutes(b.time) : -1))
+  );
+  return byDay;
+}
+
+export function eventHour(event: AgendaEvent): number | null {
+  return event.time ? Math.floor(timeToMinutes(event.time) / 60) : null;
+}
+
+// Filter is a professional id, ALL_PROFESSIONALS or NO_PROFESSIONAL for unassigned events
+export function filterEventsByProfessional(events: AgendaEvent[], filter: string): AgendaEvent[] {
+  if (filter === ALL_PROFESSIONALS) return events;
+  if (filter === NO_PROFESSIONAL) return events.filter(event => !event.professional_id);
+  return events.filter(event => event.professional_id === filter);
+}
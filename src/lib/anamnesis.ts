@@ -0,0 +1,116 @@
+import { format, parseISO } from 'date-fns';
+
+export type QuestionType = 'short_text' | 'long_text' | 'yes_no' | 'single_choice' | 'multiple_choice' | 'number' | 'date';
+
+// Type aliases (not interfaces) so the definitions can be written to JSONB columns as is
+export type AnamnesisQuestion = {
+  id: string;
+  label: string;
+  type: QuestionType;
+  required: boolean;
+  // Only used by the choice types
+  options: string[];
+};
+
+export type AnamnesisSection = {
+  id: string;
+  title: string;
+  questions: AnamnesisQuestion[];
+};
+
+// Keyed by question id; multiple choice stores the selected options
+export type AnamnesisAnswers = Record<string, string | string[]>;
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  short_text: 'Texto curto',
+  long_text: 'Texto longo',
+  yes_no: 'Sim / Não',
+  single_choice: 'Escolha única',
+  multiple_choice: 'Múltipla escolha',
+  number: 'Número',
+  date: 'Data',
+};
+
+export const YES_NO_OPTIONS = ['Sim', 'Não'];
+
+export function hasOptions(type: QuestionType): boolean {
+  return type === 'single_choice' || type === 'multiple_choice';
+}
+
+const newId = () => crypto.randomUUID();
+
+export function newQuestion(): AnamnesisQuestion {
+  return { id: newId(), label: '', type: 'short_text', required: false, options: [] };
+}
+
+export function newSection(): AnamnesisSection {
+  return { id: newId(), title: '', questions: [newQuestion()] };
+}
+
+// JSONB comes back untyped; ignores anything that doesn't look like a section
+export function parseSections(value: unknown): AnamnesisSection[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter(section => section && typeof section === 'object' && Array.isArray(section.questions))
+    .map(section => ({
+      id: String(section.id),
+      title: String(section.title ?? ''),
+      questions: section.questions.map((question: Partial<AnamnesisQuestion>) => ({
+        id: String(question.id),
+        label: String(question.label ?? ''),
+        type: (question.type in QUESTION_TYPE_LABELS ? question.type : 'short_text') as QuestionType,
+        required: !!question.required,
+        options: Array.isArray(question.options) ? question.options.map(String) : [],
+      })),
+    }));
+}
+
+export function parseAnswers(value: unknown): AnamnesisAnswers {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as AnamnesisAnswers) : {};
+}
+
+// Drops empty labels/options and sections without questions before saving a form
+export function cleanSections(sections: AnamnesisSection[]): AnamnesisSection[] {
+  return sections
+    .map(section => ({
+      ...section,
+      title: section.title.trim(),
+      questions: section.questions
+        .filter(question => question.label.trim())
+        .map(question => ({
+          ...question,
+          label: question.label.trim(),
+          options: hasOptions(question.type) ? question.options.map(option => option.trim()).filter(Boolean) : [],
+        })),
+    }))
+    .filter(section => section.questions.length > 0);
+}
+
+export function isAnswered(answer: string | string[] | undefined): boolean {
+  return Array.isArray(answer) ? answer.length > 0 : !!answer?.trim();
+}
+
+// Required questions still without an answer
+export function missingAnswers(sections: AnamnesisSection[], answers: AnamnesisAnswers): AnamnesisQuestion[] {
+  return sections
+    .flatMap(section => section.questions)
+    .filter(question => question.required && !isAnswered(answers[question.id]));
+}
+
+export function formatAnswer(question: AnamnesisQuestion, answer: string | string[] | undefined): string {
+  if (!isAnswered(answer)) return '—';
+  if (Array.isArray(answer)) return answer.join(', ');
+  if (question.type === 'date') return format(parseISO(answer), 'dd/MM/yyyy');
+  return answer;
+}
+
+// Most recent submitted version for each form
+export function latestResponses<T extends { form_id: string | null; version: number }>(responses: T[]): Map<string, T> {
+  const latest = new Map<string, T>();
+  responses.forEach(response => {
+    if (!response.form_id) return;
+    const current = latest.get(response.form_id);
+    if (!current || response.version > current.version) latest.set(response.form_id, response);
+  });
+  return latest;
+}
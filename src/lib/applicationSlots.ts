@@ -0,0 +1,150 @@
+import { format, parseISO } from 'date-fns';
+
+// Chairs/rooms available from start_time until the next configured slot
+export interface ApplicationSlot {
+  id?: string;
+  start_time: string;
+  capacity: number;
+}
+
+export interface ApplicationBooking {
+  // Absent for applications that were not saved yet
+  id?: string;
+  user_id: string;
+  application_date: string;
+  start_time: string | null;
+  duration_minutes: number;
+}
+
+export interface BookedApplication extends ApplicationBooking {
+  id: string;
+  status: string;
+  patient_name?: string;
+}
+
+export type ConflictReason = 'capacity' | 'patient';
+
+export interface SlotConflict {
+  date: string;
+  time: string;
+  reason: ConflictReason;
+  capacity: number;
+  applications: BookedApplication[];
+}
+
+export const DURATION_OPTIONS = [15, 30, 45, 60, 90, 120];
+export const DEFAULT_DURATION_MINUTES = 30;
+// Without configured slots the clinic handles one application at a time
+export const DEFAULT_SLOT_CAPACITY = 1;
+
+// Statuses that keep a chair busy; missed and cancelled applications free it
+const OCCUPYING_STATUSES = ['scheduled', 'completed'];
+
+export function occupiesSlot(status: string): boolean {
+  return OCCUPYING_STATUSES.includes(status);
+}
+
+// Accepts both "09:30" from inputs and "09:30:00" from Postgres TIME columns
+export function timeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+}
+
+export function minutesToTime(minutes: number): string {
+  const hours = Math.floor(minutes / 60) % 24;
+  return `${String(hours).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+export function formatTime(time: string): string {
+  return minutesToTime(timeToMinutes(time));
+}
+
+export function formatTimeRange(startTime: string, durationMinutes: number): string {
+  const start = timeToMinutes(startTime);
+  return `${minutesToTime(start)}–${minutesToTime(start + durationMinutes)}`;
+}
+
+export function slotCapacity(slots: ApplicationSlot[], minutes: number): number {
+  const current = slots
+    .filter(slot => timeToMinutes(slot.start_time) <= minutes)
+    .sort((a, b) => timeToMinutes(b.start_time) - timeToMinutes(a.start_time))[0];
+  return current?.capacity ?? DEFAULT_SLOT_CAPACITY;
+}
+
+function overlaps(booking: ApplicationBooking, other: ApplicationBooking): boolean {
+  if (!booking.start_time || !other.start_time || booking.application_date !== other.application_date) return false;
+  const start = timeToMinutes(booking.start_time);
+  const otherStart = timeToMinutes(other.start_time);
+  return start < otherStart + other.duration_minutes && otherStart < start + booking.duration_minutes;
+}
+
+/**
+ * Checks a booking against the applications already on the agenda. The same
+ * patient can't be booked twice at once, and at every instant of the booking
+ * the chairs in use must stay below the capacity of the slot it falls in.
+ * Applications without a start time never conflict.
+ */
+export function findConflict(
+  booking: ApplicationBooking,
+  booked: BookedApplication[],
+  slots: ApplicationSlot[],
+): SlotConflict | null {
+  if (!booking.start_time) return null;
+
+  const overlapping = booked.filter(app =>
+    app.id !== booking.id && occupiesSlot(app.status) && overlaps(booking, app)
+  );
+  if (overlapping.length === 0) return null;
+
+  const start = timeToMinutes(booking.start_time);
+  const end = start + booking.duration_minutes;
+  const base = { date: booking.application_date, time: minutesToTime(start) };
+
+  const samePatient = overlapping.filter(app => app.user_id === booking.user_id);
+  if (samePatient.length > 0) {
+    return { ...base, reason: 'patient', capacity: slotCapacity(slots, start), applications: samePatient };
+  }
+
+  // Occupancy only changes when an application or a slot starts
+  const instants = [
+    start,
+    ...overlapping.map(app => timeToMinutes(app.start_time as string)),
+    ...slots.map(slot => timeToMinutes(slot.start_time)),
+  ].filter(minutes => minutes >= start && minutes < end);
+
+  for (const instant of [...new Set(instants)].sort((a, b) => a - b)) {
+    const busy = overlapping.filter(app => {
+      const appStart = timeToMinutes(app.start_time as string);
+      return appStart <= instant && instant < appStart + app.duration_minutes;
+    });
+    const capacity = slotCapacity(slots, instant);
+    if (busy.length >= capacity) {
+      return { ...base, time: minutesToTime(instant), reason: 'capacity', capacity, applications: busy };
+    }
+  }
+
+  return null;
+}
+
+// Conflicts of several bookings at once (a recurring series or rescheduled dates)
+export function findConflicts(
+  bookings: ApplicationBooking[],
+  booked: BookedApplication[],
+  slots: ApplicationSlot[],
+): SlotConflict[] {
+  // Bookings being moved must not conflict with their own previous position
+  const movingIds = new Set(bookings.map(booking => booking.id).filter(Boolean));
+  const remaining = booked.filter(app => !movingIds.has(app.id));
+  return bookings
+    .map(booking => findConflict(booking, remaining, slots))
+    .filter((conflict): conflict is SlotConflict => conflict !== null);
+}
+
+export function describeConflict(conflict: SlotConflict): string {
+  const when = `${format(parseISO(conflict.date), 'dd/MM')} às ${conflict.time}`;
+  if (conflict.reason === 'patient') {
+    return `${when}: paciente já tem aplicação neste horário`;
+  }
+  const names = conflict.applications.map(app => app.patient_name).filter(Boolean).join(', ');
+  return `${when}: ${conflict.applications.length}/${conflict.capacity} vaga(s) ocupada(s)${names ? ` (${names})` : ''}`;
+}
@@ -0,0 +1,264 @@
+import { differenceInCalendarDays, format, isValid, parse, parseISO } from 'date-fns';
+
+// A credit or debit line read from a bank statement
+export interface StatementEntry {
+  id: string;
+  date: string;
+  amount: number;
+  description: string;
+}
+
+export interface OpenPayment {
+  id: string;
+  user_id: string;
+  amount: number;
+  amount_paid: number;
+  due_date: string;
+  pix_txid: string;
+  patient_name?: string;
+  cpf?: string | null;
+}
+
+export type MatchReason = 'amount' | 'date' | 'name' | 'cpf' | 'txid';
+
+export interface MatchCandidate {
+  payment: OpenPayment;
+  score: number;
+  reasons: MatchReason[];
+}
+
+export interface MatchProposal {
+  entry: StatementEntry;
+  candidates: MatchCandidate[];
+  match: MatchCandidate | null;
+}
+
+export const MATCH_REASON_LABELS: Record<MatchReason, string> = {
+  amount: 'Valor',
+  date: 'Data',
+  name: 'Nome',
+  cpf: 'CPF',
+  txid: 'PIX txid',
+};
+
+const REASON_WEIGHTS: Record<MatchReason, number> = {
+  txid: 5,
+  cpf: 3,
+  amount: 2,
+  name: 2,
+  date: 1,
+};
+
+// Below this score a candidate is listed but not preselected
+const MIN_AUTO_MATCH_SCORE = 3;
+
+// Accepts "1.234,56", "1,234.56", "-150,00" and "R$ 80"
+export function parseAmount(value: string): number {
+  const cleaned = value.replace(/[^\d,.-]/g, '');
+  const lastComma = cleaned.lastIndexOf(',');
+  const lastDot = cleaned.lastIndexOf('.');
+  const normalized = lastComma > lastDot
+    ? cleaned.replace(/\./g, '').replace(',', '.')
+    : cleaned.replace(/,/g, '');
+  return parseFloat(normalized) || 0;
+}
+
+function parseDate(value: string): string | null {
+  const trimmed = value.trim();
+  let date: Date;
+  if (/^\d{8}/.test(trimmed)) {
+    // OFX: YYYYMMDD[HHMMSS[.XXX][TZ]]
+    date = parse(trimmed.slice(0, 8), 'yyyyMMdd', new Date());
+  } else if (/^\d{2}\/\d{2}\/\d{4}$/.test(trimmed)) {
+    date = parse(trimmed, 'dd/MM/yyyy', new Date());
+  } else if (/^\d{2}\/\d{2}\/\d{2}$/.test(trimmed)) {
+    date = parse(trimmed, 'dd/MM/yy', new Date());
+  } else {
+    date = parseISO(trimmed);
+  }
+  return isValid(date) ? format(date, 'yyyy-MM-dd') : null;
+}
+
+function ofxTag(block: string, tag: string): string {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? match[1].trim() : '';
+}
+
+export function parseOfx(content: string): StatementEntry[] {
+  const blocks = content.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi) || [];
+
+  return blocks.flatMap((block, index) => {
+    const date = parseDate(ofxTag(block, 'DTPOSTED'));
+    if (!date) return [];
+
+    const description = [ofxTag(block, 'NAME'), ofxTag(block, 'MEMO')].filter(Boolean).join(' - ');
+    return [{
+      id: ofxTag(block, 'FITID') || `ofx-${date}-${index}`,
+      date,
+      amount: parseAmount(ofxTag(block, 'TRNAMT')),
+      description,
+    }];
+  });
+}
+
+function splitCsvLine(line: string, delimiter: string): string[] {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (quoted && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        quoted = !quoted;
+      }
+    } else if (char === delimiter && !quoted) {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+}
+
+/**
+ * Reads the CSV exports of the common Brazilian banks: the header must name
+ * a date column and either a signed amount column or separate credit/debit
+ * columns. Delimiter (";" or ",") is detected from the header.
+ */
+export function parseCsv(content: string): StatementEntry[] {
+  const lines = content.split(/\r?\n/).filter(line => line.trim());
+  if (lines.length < 2) return [];
+
+  const delimiter = (lines[0].match(/;/g) || []).length >= (lines[0].match(/,/g) || []).length ? ';' : ',';
+  const header = splitCsvLine(lines[0], delimiter).map(normalizeText);
+  const column = (pattern: RegExp) => header.findIndex(h => pattern.test(h));
+
+  const dateCol = column(/^data|date/);
+  const amountCol = column(/^valor|amount|quantia/);
+  const creditCol = column(/credito|entrada/);
+  const debitCol = column(/debito|saida/);
+  const descriptionCol = column(/descri|hist|memo|lancamento|nome|detalhe/);
+  const idCol = column(/^(id|fitid|identificador|documento|n[º°o]? ?doc)/);
+  if (dateCol < 0 || (amountCol < 0 && creditCol < 0)) return [];
+
+  const seen = new Map<string, number>();
+  return lines.slice(1).flatMap(line => {
+    const cells = splitCsvLine(line, delimiter);
+    const date = parseDate(cells[dateCol] || '');
+    if (!date) return [];
+
+    const amount = amountCol >= 0
+      ? parseAmount(cells[amountCol] || '')
+      : parseAmount(cells[creditCol] || '') - Math.abs(parseAmount(cells[debitCol] || ''));
+    const description = descriptionCol >= 0 ? cells[descriptionCol] || '' : '';
+
+    // Without an id column, repeated identical lines are told apart by occurrence
+    let id = idCol >= 0 ? cells[idCol] : '';
+    if (!id) {
+      const key = `csv-${date}-${amount.toFixed(2)}-${description}`;
+      const occurrence = (seen.get(key) || 0) + 1;
+      seen.set(key, occurrence);
+      id = `${key}-${occurrence}`;
+    }
+
+    return [{ id, date, amount, description }];
+  });
+}
+
+export function parseStatement(fileName: string, content: string): StatementEntry[] {
+  const isOfx = /\.ofx$/i.test(fileName) || /<OFX>/i.test(content);
+  return isOfx ? parseOfx(content) : parseCsv(content);
+}
+
+function normalizeText(value: string): string {
+  return value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+const NAME_STOPWORDS = new Set(['de', 'da', 'do', 'das', 'dos', 'e']);
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function nameMatches(description: string, fullName?: string): boolean {
+  if (!fullName) return false;
+  const text = normalizeText(description);
+  const tokens = normalizeText(fullName)
+    .split(/\s+/)
+    .filter(token => token.length > 1 && !NAME_STOPWORDS.has(token));
+  if (tokens.length === 0) return false;
+
+  const found = tokens.filter(token => new RegExp(`\\b${escapeRegExp(token)}\\b`).test(text)).length;
+  return found >= Math.min(2, tokens.length);
+}
+
+function cpfMatches(description: string, cpf?: string | null): boolean {
+  const digits = (cpf || '').replace(/\D/g, '');
+  return digits.length === 11 && description.replace(/[.\-/\s]/g, '').includes(digits);
+}
+
+export function findCandidates(
+  entry: StatementEntry,
+  payments: OpenPayment[],
+  dateWindowDays: number,
+): MatchCandidate[] {
+  if (entry.amount <= 0) return [];
+  const entryDate = parseISO(entry.date);
+
+  return payments
+    .map(payment => {
+      const balance = Number(payment.amount) - Number(payment.amount_paid);
+      const reasons: MatchReason[] = [];
+
+      if (payment.pix_txid && entry.description.toUpperCase().includes(payment.pix_txid.toUpperCase())) {
+        reasons.push('txid');
+      }
+      if (Math.abs(balance - entry.amount) < 0.01) reasons.push('amount');
+      if (Math.abs(differenceInCalendarDays(entryDate, parseISO(payment.due_date))) <= dateWindowDays) {
+        reasons.push('date');
+      }
+      if (cpfMatches(entry.description, payment.cpf)) reasons.push('cpf');
+      if (nameMatches(entry.description, payment.patient_name)) reasons.push('name');
+
+      const score = reasons.reduce((sum, reason) => sum + REASON_WEIGHTS[reason], 0);
+      return { payment, score, reasons };
+    })
+    // A credit must at least match the open balance or carry the payment's txid
+    .filter(c => c.reasons.includes('amount') || c.reasons.includes('txid'))
+    .filter(c => entry.amount <= Number(c.payment.amount) - Number(c.payment.amount_paid) + 0.01)
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Proposes one payment per credit. Strongest matches are assigned first and
+ * each payment is used at most once; weak candidates stay unselected for review.
+ */
+export function proposeMatches(
+  entries: StatementEntry[],
+  payments: OpenPayment[],
+  dateWindowDays = 5,
+): MatchProposal[] {
+  const proposals: MatchProposal[] = entries
+    .filter(entry => entry.amount > 0)
+    .map(entry => ({ entry, candidates: findCandidates(entry, payments, dateWindowDays), match: null }));
+
+  const ranked = proposals
+    .flatMap(proposal => proposal.candidates.map(candidate => ({ proposal, candidate })))
+    .filter(({ candidate }) => candidate.score >= MIN_AUTO_MATCH_SCORE)
+    .sort((a, b) => b.candidate.score - a.candidate.score);
+
+  const usedPayments = new Set<string>();
+  ranked.forEach(({ proposal, candidate }) => {
+    if (proposal.match || usedPayments.has(candidate.payment.id)) return;
+    proposal.match = candidate;
+    usedPayments.add(candidate.payment.id);
+  });
+
+  return proposals;
+}
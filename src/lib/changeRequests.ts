@@ -0,0 +1,63 @@
+import { addHours, format, isBefore, parseISO, subHours } from 'date-fns';
+
+export type ChangeRequestKind = 'reschedule' | 'cancel';
+
+export type ChangeRequestStatus = 'pending' | 'approved' | 'rejected' | 'withdrawn';
+
+export interface ChangeRequest {
+  id: string;
+  application_id: string;
+  user_id: string;
+  kind: ChangeRequestKind;
+  reason: string;
+  requested_date: string | null;
+  requested_time: string | null;
+  status: ChangeRequestStatus;
+  response_notes: string | null;
+  responded_at: string | null;
+  created_at: string;
+}
+
+interface SchedulableApplication {
+  application_date: string;
+  start_time: string | null;
+  status: string;
+}
+
+// Mirrors public.application_change_min_notice()
+export const MIN_NOTICE_HOURS = 24;
+
+export const CHANGE_REQUEST_KIND_LABELS: Record<ChangeRequestKind, string> = {
+  reschedule: 'Remarcação',
+  cancel: 'Cancelamento',
+};
+
+export const CHANGE_REQUEST_STATUS_CONFIG: Record<ChangeRequestStatus, { label: string; className: string }> = {
+  pending: { label: 'Em análise', className: 'status-pending' },
+  approved: { label: 'Aprovada', className: 'status-completed' },
+  rejected: { label: 'Recusada', className: 'status-overdue' },
+  withdrawn: { label: 'Retirada', className: 'status-scheduled' },
+};
+
+// Untimed applications count from the start of the day, like the database check
+export function appointmentDateTime(date: string, time: string | null): Date {
+  return parseISO(`${date}T${time ? time.slice(0, 5) : '00:00'}`);
+}
+
+export function meetsMinNotice(date: string, time: string | null, now: Date = new Date()): boolean {
+  return !isBefore(appointmentDateTime(date, time), addHours(now, MIN_NOTICE_HOURS));
+}
+
+// Last moment the patient can still ask to change an application
+export function changeDeadline(app: SchedulableApplication): Date {
+  return subHours(appointmentDateTime(app.application_date, app.start_time), MIN_NOTICE_HOURS);
+}
+
+export function canRequestChange(app: SchedulableApplication, now: Date = new Date()): boolean {
+  return app.status === 'scheduled' && meetsMinNotice(app.application_date, app.start_time, now);
+}
+
+// First date offered when picking a new date
+export function earliestRescheduleDate(now: Date = new Date()): string {
+  return format(addHours(now, MIN_NOTICE_HOURS), 'yyyy-MM-dd');
+}
@@ -0,0 +1,7 @@
+// Clinic identification printed on documents, overridable through VITE_CLINIC_*
+export const CLINIC_INFO = {
+  name: import.meta.env.VITE_CLINIC_NAME || 'Instituto Luiz Fernando',
+  document: import.meta.env.VITE_CLINIC_CNPJ || '',
+  address: import.meta.env.VITE_CLINIC_ADDRESS || '',
+  city: import.meta.env.VITE_CLINIC_CITY || 'São Paulo',
+};
@@ -0,0 +1,66 @@
+import { format, parseISO } from 'date-fns';
+
+export interface ClinicalNote {
+  id: string;
+  user_id: string;
+  application_id: string | null;
+  evaluation_id: string | null;
+  amends_id: string | null;
+  content: string;
+  author_id: string;
+  created_at: string;
+}
+
+// An original note followed by the amendments appended to it
+export interface ClinicalNoteThread<T extends ClinicalNote = ClinicalNote> {
+  note: T;
+  amendments: T[];
+}
+
+export type VisitKind = 'application' | 'evaluation';
+
+export interface Visit {
+  kind: VisitKind;
+  id: string;
+  // ISO date, with time for evaluations
+  date: string;
+}
+
+const byCreation = (a: ClinicalNote, b: ClinicalNote) => a.created_at.localeCompare(b.created_at);
+
+// Groups amendments under their original note, both in chronological order
+export function threadClinicalNotes<T extends ClinicalNote>(notes: T[]): ClinicalNoteThread<T>[] {
+  const ids = new Set(notes.map(note => note.id));
+  const amendments = new Map<string, T[]>();
+
+  notes.forEach(note => {
+    if (note.amends_id && ids.has(note.amends_id)) {
+      amendments.set(note.amends_id, [...(amendments.get(note.amends_id) || []), note]);
+    }
+  });
+
+  return notes
+    .filter(note => !note.amends_id || !ids.has(note.amends_id))
+    .sort(byCreation)
+    .map(note => ({ note, amendments: (amendments.get(note.id) || []).sort(byCreation) }));
+}
+
+export function visitKey(kind: VisitKind, id: string): string {
+  return `${kind}:${id}`;
+}
+
+export function visitLabel(visit: Visit): string {
+  return visit.kind === 'application'
+    ? `Aplicação • ${format(parseISO(visit.date), 'dd/MM/yyyy')}`
+    : `Avaliação • ${format(parseISO(visit.date), "dd/MM/yyyy 'às' HH:mm")}`;
+}
+
+// The visit a note is attached to, if it is still in the list
+export function noteVisit(note: ClinicalNote, visits: Visit[]): Visit | null {
+  const key = note.application_id
+    ? visitKey('application', note.application_id)
+    : note.evaluation_id
+      ? visitKey('evaluation', note.evaluation_id)
+      : null;
+  return visits.find(visit => visitKey(visit.kind, visit.id) === key) || null;
+}
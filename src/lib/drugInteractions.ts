@@ -0,0 +1,110 @@
+import { normalizeDrugName } from '@/lib/medicationCatalog';
+
+export type InteractionSeverity = 'minor' | 'moderate' | 'major';
+
+export interface DrugInteraction {
+  id: string;
+  substance_a: string;
+  substance_b: string;
+  severity: string;
+  message: string;
+}
+
+// A drug as seen by the checker: its name plus the active ingredient from the catalog, when known
+export interface DrugDescriptor {
+  name: string;
+  activeIngredient: string | null;
+}
+
+export interface PrescribedDrug extends DrugDescriptor {
+  id: string;
+}
+
+export interface InteractionWarning {
+  interaction: DrugInteraction;
+  medication: PrescribedDrug;
+}
+
+export interface DuplicateWarning {
+  ingredient: string;
+  medication: PrescribedDrug;
+}
+
+export const SEVERITY_LABELS: Record<InteractionSeverity, string> = {
+  minor: 'Leve',
+  moderate: 'Moderada',
+  major: 'Grave',
+};
+
+export const SEVERITY_CLASSNAMES: Record<InteractionSeverity, string> = {
+  major: 'bg-destructive/20 text-destructive border-destructive/30',
+  moderate: 'bg-warning/20 text-warning border-warning/30',
+  minor: 'bg-secondary text-muted-foreground',
+};
+
+export const SEVERITY_ORDER: InteractionSeverity[] = ['major', 'moderate', 'minor'];
+
+function severityRank(severity: string): number {
+  const index = SEVERITY_ORDER.indexOf(severity as InteractionSeverity);
+  return index === -1 ? SEVERITY_ORDER.length : index;
+}
+
+// A term matches when it equals the ingredient or appears as whole words in the name,
+// so "Semaglutida" also covers "Semaglutida manipulada"
+function matchesTerm(drug: DrugDescriptor, term: string): boolean {
+  const normalizedTerm = normalizeDrugName(term);
+  if (!normalizedTerm) return false;
+  if (drug.activeIngredient && normalizeDrugName(drug.activeIngredient) === normalizedTerm) return true;
+  return ` ${normalizeDrugName(drug.name)} `.includes(` ${normalizedTerm} `);
+}
+
+function isSameDrug(a: DrugDescriptor, b: DrugDescriptor): boolean {
+  return normalizeDrugName(a.name) === normalizeDrugName(b.name);
+}
+
+export function findInteractions(
+  candidate: DrugDescriptor,
+  others: PrescribedDrug[],
+  interactions: DrugInteraction[],
+): InteractionWarning[] {
+  const warnings: InteractionWarning[] = [];
+  // Repeated rows of the same drug (a recurring series) are reported once
+  const seen = new Set<string>();
+
+  others
+    .filter(other => !isSameDrug(candidate, other))
+    .forEach(other => {
+      interactions.forEach(interaction => {
+        const forward = matchesTerm(candidate, interaction.substance_a) && matchesTerm(other, interaction.substance_b);
+        const backward = matchesTerm(candidate, interaction.substance_b) && matchesTerm(other, interaction.substance_a);
+        const key = `${interaction.id}|${normalizeDrugName(other.name)}`;
+        if ((forward || backward) && !seen.has(key)) {
+          seen.add(key);
+          warnings.push({ interaction, medication: other });
+        }
+      });
+    });
+
+  return warnings.sort((a, b) => severityRank(a.interaction.severity) - severityRank(b.interaction.severity));
+}
+
+// Different products sharing the active ingredient (rows of the same drug, such as a recurring series, are not duplicates)
+export function findDuplicateIngredients(candidate: DrugDescriptor, others: PrescribedDrug[]): DuplicateWarning[] {
+  if (!candidate.activeIngredient) return [];
+  const ingredient = normalizeDrugName(candidate.activeIngredient);
+
+  const seen = new Set<string>();
+  return others
+    .filter(other =>
+      !isSameDrug(candidate, other) &&
+      !!other.activeIngredient &&
+      normalizeDrugName(other.activeIngredient) === ingredient
+    )
+    .filter(other => {
+      const key = normalizeDrugName(other.name);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .map(medication => ({ ingredient: candidate.activeIngredient as string, medication }));
+}
@@ -0,0 +1,32 @@
+// No-shows are 'missed', the same status applications use
+export type EvaluationStatus = 'scheduled' | 'confirmed' | 'rescheduled' | 'completed' | 'cancelled' | 'missed';
+
+export const EVALUATION_STATUS_LABELS: Record<EvaluationStatus, string> = {
+  scheduled: 'Agendada',
+  confirmed: 'Confirmada',
+  rescheduled: 'Remarcada',
+  completed: 'Realizada',
+  cancelled: 'Cancelada',
+  missed: 'Faltou',
+};
+
+// Still ahead: shown as upcoming and can be moved on the agenda
+export const UPCOMING_EVALUATION_STATUSES: EvaluationStatus[] = ['scheduled', 'confirmed', 'rescheduled'];
+
+// Statuses picked by hand; 'rescheduled' comes from changing the date or time
+export const SELECTABLE_EVALUATION_STATUSES: EvaluationStatus[] = ['scheduled', 'confirmed', 'completed', 'cancelled', 'missed'];
+
+const REASON_STATUSES: EvaluationStatus[] = ['rescheduled', 'cancelled', 'missed'];
+
+export function isUpcomingEvaluation(status: string): boolean {
+  return UPCOMING_EVALUATION_STATUSES.includes(status as EvaluationStatus);
+}
+
+export function requiresStatusReason(status: string): boolean {
+  return REASON_STATUSES.includes(status as EvaluationStatus);
+}
+
+// Moving an upcoming evaluation marks it rescheduled; closed ones keep their status
+export function statusAfterReschedule(status: string): string {
+  return isUpcomingEvaluation(status) ? 'rescheduled' : status;
+}
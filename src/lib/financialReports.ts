@@ -0,0 +1,149 @@
+import {
+  differenceInCalendarDays,
+  eachMonthOfInterval,
+  endOfMonth,
+  endOfQuarter,
+  endOfYear,
+  format,
+  parseISO,
+  startOfMonth,
+  startOfQuarter,
+  startOfYear,
+} from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+
+export type ReportPeriod = 'month' | 'quarter' | 'year' | 'custom';
+
+export const REPORT_PERIOD_LABELS: Record<ReportPeriod, string> = {
+  month: 'Mês',
+  quarter: 'Trimestre',
+  year: 'Ano',
+  custom: 'Personalizado',
+};
+
+export interface ReportPayment {
+  id: string;
+  user_id: string;
+  amount: number;
+  amount_paid: number;
+  due_date: string;
+  paid_date: string | null;
+  status: string;
+  description: string | null;
+  patient_name?: string;
+}
+
+export interface ReportTransaction {
+  payment_id: string;
+  amount: number;
+  paid_at: string;
+  method: string | null;
+}
+
+export interface DateRange {
+  from: string;
+  to: string;
+}
+
+export function resolvePeriod(period: Exclude<ReportPeriod, 'custom'>, reference: Date): DateRange {
+  const [start, end] = {
+    month: [startOfMonth(reference), endOfMonth(reference)],
+    quarter: [startOfQuarter(reference), endOfQuarter(reference)],
+    year: [startOfYear(reference), endOfYear(reference)],
+  }[period];
+  return { from: format(start, 'yyyy-MM-dd'), to: format(end, 'yyyy-MM-dd') };
+}
+
+export function isInRange(date: string | null, range: DateRange): boolean {
+  return !!date && date >= range.from && date <= range.to;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Billed = amounts falling due in the month; received = receipts dated in the month
+export function revenueByMonth(payments: ReportPayment[], transactions: ReportTransaction[], range: DateRange) {
+  const months = eachMonthOfInterval({ start: parseISO(range.from), end: parseISO(range.to) });
+
+  return months.map(month => {
+    const key = format(month, 'yyyy-MM');
+    return {
+      month: key,
+      label: format(month, 'MMM/yy', { locale: ptBR }),
+      billed: round(payments
+        .filter(p => p.due_date.startsWith(key) && isInRange(p.due_date, range))
+        .reduce((sum, p) => sum + Number(p.amount), 0)),
+      received: round(transactions
+        .filter(t => t.paid_at.startsWith(key) && isInRange(t.paid_at, range))
+        .reduce((sum, t) => sum + Number(t.amount), 0)),
+    };
+  });
+}
+
+export const AGING_BUCKETS = [
+  { key: '1-30', label: '1 a 30 dias', min: 1, max: 30 },
+  { key: '31-60', label: '31 a 60 dias', min: 31, max: 60 },
+  { key: '61-90', label: '61 a 90 dias', min: 61, max: 90 },
+  { key: '90+', label: 'Mais de 90 dias', min: 91, max: Infinity },
+] as const;
+
+// Open overdue balances grouped by how many days past the due date they are
+export function agingBuckets(payments: ReportPayment[], today: Date) {
+  return AGING_BUCKETS.map(bucket => {
+    const overdue = payments.filter(p => {
+      const days = differenceInCalendarDays(today, parseISO(p.due_date));
+      return p.status !== 'paid' && days >= bucket.min && days <= bucket.max;
+    });
+    return {
+      ...bucket,
+      count: overdue.length,
+      amount: round(overdue.reduce((sum, p) => sum + Number(p.amount) - Number(p.amount_paid), 0)),
+    };
+  });
+}
+
+export function totalsByPatient(payments: ReportPayment[], transactions: ReportTransaction[], range: DateRange) {
+  const paymentOwner = new Map(payments.map(p => [p.id, p]));
+  const totals = new Map<string, { user_id: string; name: string; billed: number; received: number; open: number }>();
+
+  const entry = (payment: ReportPayment) => {
+    if (!totals.has(payment.user_id)) {
+      totals.set(payment.user_id, {
+        user_id: payment.user_id,
+        name: payment.patient_name || 'Paciente',
+        billed: 0,
+        received: 0,
+        open: 0,
+      });
+    }
+    return totals.get(payment.user_id)!;
+  };
+
+  payments.filter(p => isInRange(p.due_date, range)).forEach(payment => {
+    const total = entry(payment);
+    total.billed = round(total.billed + Number(payment.amount));
+    total.open = round(total.open + Number(payment.amount) - Number(payment.amount_paid));
+  });
+
+  transactions.filter(t => isInRange(t.paid_at, range)).forEach(transaction => {
+    const payment = paymentOwner.get(transaction.payment_id);
+    if (!payment) return;
+    const total = entry(payment);
+    total.received = round(total.received + Number(transaction.amount));
+  });
+
+  return [...totals.values()].sort((a, b) => b.billed - a.billed);
+}
+
+export function toCsv(rows: Record<string, string | number | null>[]): string {
+  if (rows.length === 0) return '';
+  const headers = Object.keys(rows[0]);
+  const escape = (value: string | number | null) => {
+    const text = value === null ? '' : String(value);
+    return /[;"\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  // Semicolon-separated so spreadsheets configured for pt-BR open it directly
+  return [headers, ...rows.map(row => headers.map(h => row[h]))]
+    .map(line => line.map(escape).join(';'))
+    .join('\n');
+}
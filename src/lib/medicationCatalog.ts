@@ -0,0 +1,52 @@
+export interface CatalogEntry {
+  id: string;
+  name: string;
+  active_ingredient: string | null;
+  presentation: string | null;
+  default_dosage: string | null;
+  default_frequency: string | null;
+  contraindications: string | null;
+  notes: string | null;
+  is_active: boolean;
+}
+
+// Case and accent insensitive form used for searching and duplicate detection
+export function normalizeDrugName(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export function findCatalogEntry<T extends CatalogEntry>(entries: T[], name: string): T | undefined {
+  const normalized = normalizeDrugName(name);
+  return entries.find(entry => normalizeDrugName(entry.name) === normalized);
+}
+
+// Name prefix matches first, then name or active ingredient containing the query
+export function searchCatalog<T extends CatalogEntry>(entries: T[], query: string, limit = 20): T[] {
+  const normalized = normalizeDrugName(query);
+  const active = entries.filter(entry => entry.is_active);
+  if (!normalized) return active.slice(0, limit);
+
+  const rank = (entry: T) => {
+    const name = normalizeDrugName(entry.name);
+    if (name.startsWith(normalized)) return 0;
+    if (name.includes(normalized)) return 1;
+    if (normalizeDrugName(entry.active_ingredient || '').includes(normalized)) return 2;
+    return -1;
+  };
+
+  return active
+    .map(entry => ({ entry, rank: rank(entry) }))
+    .filter(({ rank }) => rank >= 0)
+    .sort((a, b) => a.rank - b.rank || a.entry.name.localeCompare(b.entry.name, 'pt-BR'))
+    .slice(0, limit)
+    .map(({ entry }) => entry);
+}
+
+export function describeCatalogEntry(entry: Pick<CatalogEntry, 'active_ingredient' | 'presentation'>): string {
+  return [entry.active_ingredient, entry.presentation].filter(Boolean).join(' • ');
+}
@@ -0,0 +1,230 @@
+import {
+  addDays,
+  addMinutes,
+  differenceInMinutes,
+  format,
+  parseISO,
+  startOfDay,
+} from 'date-fns';
+import { WEEKDAY_LABELS } from '@/lib/recurrence';
+
+export type ScheduleType = 'times' | 'interval';
+
+// Structured posology stored alongside the free-text dosage/frequency columns.
+// A null schedule_type means the medication only has the free-text description.
+export interface MedicationSchedule {
+  schedule_type: ScheduleType | null;
+  dose_amount: number | null;
+  dose_unit: string | null;
+  // "HH:MM" (Postgres returns "HH:MM:SS", both are accepted)
+  times_of_day: string[];
+  interval_hours: number | null;
+  first_dose_time: string | null;
+  // 0 = domingo ... 6 = sábado; empty means every day
+  days_of_week: number[];
+  take_with_food: boolean;
+  duration_days: number | null;
+}
+
+export interface ScheduledMedication {
+  id: string;
+  medication_name: string;
+  dosage: string;
+  start_date: string;
+  end_date: string | null;
+  suspended_at: string | null;
+  schedule_type: string | null;
+  dose_amount: number | null;
+  dose_unit: string | null;
+  times_of_day: string[] | null;
+  interval_hours: number | null;
+  first_dose_time: string | null;
+  days_of_week: number[] | null;
+  take_with_food: boolean;
+  duration_days: number | null;
+}
+
+export interface ScheduledDose<T extends ScheduledMedication = ScheduledMedication> {
+  medication: T;
+  time: Date;
+}
+
+export const SCHEDULE_TYPE_LABELS: Record<ScheduleType, string> = {
+  times: 'Horários fixos',
+  interval: 'Intervalo de horas',
+};
+
+export const DOSE_UNITS = [
+  'mg',
+  'mcg',
+  'g',
+  'mL',
+  'UI',
+  'comprimido(s)',
+  'cápsula(s)',
+  'gota(s)',
+  'ampola(s)',
+  'aplicação(ões)',
+];
+
+export const INTERVAL_OPTIONS = [4, 6, 8, 12, 24, 48, 72, 168];
+
+export function defaultSchedule(): MedicationSchedule {
+  return {
+    schedule_type: null,
+    dose_amount: null,
+    dose_unit: 'mg',
+    times_of_day: ['08:00'],
+    interval_hours: 8,
+    first_dose_time: '08:00',
+    days_of_week: [],
+    take_with_food: false,
+    duration_days: null,
+  };
+}
+
+export function normalizeTime(time: string): string {
+  return time.slice(0, 5);
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = normalizeTime(time).split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+export function scheduleFromMedication(med: ScheduledMedication): MedicationSchedule {
+  const defaults = defaultSchedule();
+  const scheduleType = med.schedule_type === 'times' || med.schedule_type === 'interval'
+    ? med.schedule_type
+    : null;
+
+  return {
+    schedule_type: scheduleType,
+    dose_amount: med.dose_amount,
+    dose_unit: med.dose_unit || defaults.dose_unit,
+    times_of_day: med.times_of_day?.length ? med.times_of_day.map(normalizeTime) : defaults.times_of_day,
+    interval_hours: med.interval_hours ?? defaults.interval_hours,
+    first_dose_time: med.first_dose_time ? normalizeTime(med.first_dose_time) : defaults.first_dose_time,
+    days_of_week: med.days_of_week || [],
+    take_with_food: med.take_with_food,
+    duration_days: med.duration_days,
+  };
+}
+
+function scheduleColumns(schedule: MedicationSchedule) {
+  const structured = schedule.schedule_type !== null;
+  return {
+    schedule_type: schedule.schedule_type,
+    dose_amount: structured ? schedule.dose_amount : null,
+    dose_unit: structured ? schedule.dose_unit : null,
+    times_of_day: schedule.schedule_type === 'times'
+      ? [...new Set(schedule.times_of_day.filter(Boolean).map(normalizeTime))].sort()
+      : null,
+    interval_hours: schedule.schedule_type === 'interval' ? schedule.interval_hours : null,
+    first_dose_time: schedule.schedule_type === 'interval' ? schedule.first_dose_time : null,
+    days_of_week: structured && schedule.days_of_week.length > 0
+      ? [...schedule.days_of_week].sort()
+      : null,
+    take_with_food: structured && schedule.take_with_food,
+    duration_days: structured ? schedule.duration_days : null,
+  };
+}
+
+// Columns written to the medications table. Structured schedules also fill the free-text
+// dosage/frequency so older screens keep a readable description; free text clears the rest.
+export function posologyColumns(schedule: MedicationSchedule, dosage: string, frequency: string) {
+  const structured = schedule.schedule_type !== null;
+  return {
+    ...scheduleColumns(schedule),
+    dosage: structured ? formatDose(schedule) : dosage,
+    frequency: structured ? describeSchedule(schedule) : frequency,
+  };
+}
+
+export function isScheduleComplete(schedule: MedicationSchedule): boolean {
+  if (schedule.schedule_type === null) return true;
+  if (!schedule.dose_amount || schedule.dose_amount <= 0 || !schedule.dose_unit) return false;
+  if (schedule.schedule_type === 'times') {
+    return schedule.times_of_day.some(Boolean);
+  }
+  return !!schedule.interval_hours && !!schedule.first_dose_time;
+}
+
+export function formatDose(schedule: Pick<MedicationSchedule, 'dose_amount' | 'dose_unit'>): string {
+  if (schedule.dose_amount === null) return '';
+  const amount = Number(schedule.dose_amount).toLocaleString('pt-BR', { maximumFractionDigits: 2 });
+  return `${amount} ${schedule.dose_unit || ''}`.trim();
+}
+
+// Human readable posology, also stored in the legacy `frequency` column
+export function describeSchedule(schedule: MedicationSchedule): string {
+  if (schedule.schedule_type === null) return '';
+
+  const parts: string[] = [];
+  if (schedule.schedule_type === 'times') {
+    const times = [...new Set(schedule.times_of_day.filter(Boolean).map(normalizeTime))].sort();
+    parts.push(`${times.length}x ao dia (${times.join(', ')})`);
+  } else {
+    parts.push(`A cada ${schedule.interval_hours}h a partir das ${normalizeTime(schedule.first_dose_time || '')}`);
+  }
+
+  if (schedule.days_of_week.length > 0 && schedule.days_of_week.length < 7) {
+    parts.push([...schedule.days_of_week].sort().map(d => WEEKDAY_LABELS[d]).join(', '));
+  }
+  if (schedule.take_with_food) parts.push('com alimento');
+  if (schedule.duration_days) parts.push(`por ${schedule.duration_days} dia(s)`);
+
+  return parts.join(' • ');
+}
+
+// Last day of treatment considering both the end date and the duration in days
+export function effectiveEndDate(med: Pick<ScheduledMedication, 'start_date' | 'end_date' | 'duration_days'>): string | null {
+  const byDuration = med.duration_days
+    ? format(addDays(parseISO(med.start_date), med.duration_days - 1), 'yyyy-MM-dd')
+    : null;
+
+  if (med.end_date && byDuration) return med.end_date < byDuration ? med.end_date : byDuration;
+  return med.end_date || byDuration;
+}
+
+function doseTimesOn(med: ScheduledMedication, day: Date): Date[] {
+  const dayKey = format(day, 'yyyy-MM-dd');
+  const endDate = effectiveEndDate(med);
+  if (dayKey < med.start_date || (endDate && dayKey > endDate)) return [];
+  if (med.days_of_week?.length && !med.days_of_week.includes(day.getDay())) return [];
+
+  const dayStart = startOfDay(day);
+
+  if (med.schedule_type === 'times') {
+    return [...new Set((med.times_of_day || []).map(normalizeTime))]
+      .map(time => addMinutes(dayStart, toMinutes(time)));
+  }
+
+  if (med.schedule_type === 'interval' && med.interval_hours && med.first_dose_time) {
+    // Doses keep their rhythm across days, so intervals that don't divide 24h drift naturally
+    const firstDose = addMinutes(parseISO(med.start_date), toMinutes(med.first_dose_time));
+    const step = med.interval_hours * 60;
+    const elapsed = differenceInMinutes(dayStart, firstDose);
+    let dose = addMinutes(firstDose, Math.max(0, Math.ceil(elapsed / step)) * step);
+    const nextDay = addDays(dayStart, 1);
+    const times: Date[] = [];
+    while (dose < nextDay) {
+      if (dose >= dayStart) times.push(dose);
+      dose = addMinutes(dose, step);
+    }
+    return times;
+  }
+
+  return [];
+}
+
+// Expands the non-suspended structured medications into the doses due on the given day, in chronological order
+export function dosesForDay<T extends ScheduledMedication>(medications: T[], day: Date): ScheduledDose<T>[] {
+  return medications
+    .filter(med => !med.suspended_at)
+    .flatMap(med => doseTimesOn(med, day).map(time => ({ medication: med, time })))
+    .sort((a, b) =>
+      a.time.getTime() - b.time.getTime() ||
+      a.medication.medication_name.localeCompare(b.medication.medication_name, 'pt-BR')
+    );
+}
@@ -0,0 +1,36 @@
+import { format } from 'date-fns';
+import { effectiveEndDate, ScheduledMedication } from '@/lib/medicationSchedule';
+
+// Mirrors public.medication_status(): activity is derived from the dates,
+// only a suspension is set manually
+export type MedicationStatus = 'scheduled' | 'active' | 'ended' | 'suspended';
+
+export const MEDICATION_STATUS_CONFIG: Record<MedicationStatus, { label: string; className: string }> = {
+  active: { label: 'Ativa', className: 'status-completed' },
+  scheduled: { label: 'Agendada', className: 'status-scheduled' },
+  ended: { label: 'Encerrada', className: 'status-pending' },
+  suspended: { label: 'Suspensa', className: 'status-overdue' },
+};
+
+// Display order on the medication lists
+export const MEDICATION_STATUS_ORDER: MedicationStatus[] = ['active', 'scheduled', 'suspended', 'ended'];
+
+export function medicationStatus(
+  med: Pick<ScheduledMedication, 'start_date' | 'end_date' | 'duration_days' | 'suspended_at'>,
+  today: string = format(new Date(), 'yyyy-MM-dd')
+): MedicationStatus {
+  if (med.suspended_at) return 'suspended';
+  if (med.start_date > today) return 'scheduled';
+  const endDate = effectiveEndDate(med);
+  if (endDate && endDate < today) return 'ended';
+  return 'active';
+}
+
+// Prescriptions and interaction checks look at what the patient takes now or is about to start
+export function isCurrentMedication(
+  med: Pick<ScheduledMedication, 'start_date' | 'end_date' | 'duration_days' | 'suspended_at'>,
+  today?: string
+): boolean {
+  const status = medicationStatus(med, today);
+  return status === 'active' || status === 'scheduled';
+}
@@ -0,0 +1,66 @@
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+
+// Dispensed stock, counted in the same unit as the daily dose (comprimidos, mL, UI...)
+export interface MedicationSupply {
+  quantity_dispensed: number | null;
+  daily_dose: number | null;
+  // Defaults to the treatment start when empty
+  dispensed_at: string | null;
+}
+
+export interface SuppliedMedication extends MedicationSupply {
+  start_date: string;
+}
+
+// Rows of medications_with_status, whose supply_end_date already accounts for the
+// stock kept on the series of recurring medications
+export interface SupplyStatus {
+  supply_end_date: string | null;
+}
+
+export const REFILL_WINDOW_OPTIONS = [7, 14, 30];
+export const DEFAULT_REFILL_WINDOW_DAYS = 7;
+
+export function defaultSupply(): MedicationSupply {
+  return { quantity_dispensed: null, daily_dose: null, dispensed_at: null };
+}
+
+export function supplyFromMedication(med: MedicationSupply): MedicationSupply {
+  return {
+    quantity_dispensed: med.quantity_dispensed,
+    daily_dose: med.daily_dose,
+    dispensed_at: med.dispensed_at,
+  };
+}
+
+// Mirrors public.medication_supply_end_date(): last day covered by the dispensed quantity.
+// Used to preview the form; saved medications read supply_end_date from the view
+export function supplyEndDate(med: SuppliedMedication): string | null {
+  if (!med.quantity_dispensed || !med.daily_dose) return null;
+  const days = Math.floor(med.quantity_dispensed / med.daily_dose);
+  return format(addDays(parseISO(med.dispensed_at || med.start_date), days - 1), 'yyyy-MM-dd');
+}
+
+// Days still covered after today; 0 means the last dose is today, negative means it already ran out
+export function supplyDaysLeft(med: SupplyStatus, today: Date = new Date()): number | null {
+  if (!med.supply_end_date) return null;
+  return differenceInCalendarDays(parseISO(med.supply_end_date), today);
+}
+
+export function describeSupply(daysLeft: number): string {
+  if (daysLeft < 0) return 'Estoque esgotado';
+  if (daysLeft === 0) return 'Acaba hoje';
+  if (daysLeft === 1) return 'Acaba amanhã';
+  return `Acaba em ${daysLeft} dias`;
+}
+
+export function supplyClassName(daysLeft: number): string {
+  if (daysLeft < 0) return 'text-destructive';
+  if (daysLeft <= DEFAULT_REFILL_WINDOW_DAYS) return 'text-warning';
+  return 'text-muted-foreground';
+}
+
+export function needsRefill(med: SupplyStatus, windowDays: number, today: Date = new Date()): boolean {
+  const daysLeft = supplyDaysLeft(med, today);
+  return daysLeft !== null && daysLeft <= windowDays;
+}
@@ -0,0 +1,24 @@
+// PostgREST caps every response at 1000 rows
+export const PAGE_SIZE = 1000;
+
+/**
+ * Reads every row of a query by requesting consecutive ranges until a short page
+ * comes back. The query must be ordered by a unique key, otherwise rows can repeat
+ * or go missing between pages.
+ */
+export async function fetchAllPages<T>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>,
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+// Splits long id lists for `.in()` filters, which travel in the query string
+export function chunk<T>(items: T[], size = 100): T[][] {
+  return Array.from({ length: Math.ceil(items.length / size) }, (_, i) => items.slice(i * size, (i + 1) * size));
+}
@@ -0,0 +1,76 @@
+import { compareDesc, parseISO } from 'date-fns';
+
+export type TimelineEventKind = 'plan' | 'application' | 'evaluation' | 'medication';
+
+export interface TimelineEvent {
+  id: string;
+  kind: TimelineEventKind;
+  // ISO date, optionally with time
+  date: string;
+  title: string;
+  detail: string | null;
+  status: string | null;
+}
+
+export interface TimelineSources {
+  plans: { id: string; protocol: string; start_date: string; status: string; total_sessions: number }[];
+  applications: { id: string; application_date: string; status: string; notes: string | null }[];
+  evaluations: { id: string; evaluation_date: string; evaluation_time: string; status: string; notes: string | null }[];
+  medications: { id: string; medication_name: string; dosage: string; start_date: string }[];
+}
+
+export const TIMELINE_KIND_LABELS: Record<TimelineEventKind, string> = {
+  plan: 'Plano de tratamento',
+  application: 'Aplicação',
+  evaluation: 'Avaliação médica',
+  medication: 'Medicação',
+};
+
+// Merges everything that happened (or is scheduled) for one patient, most recent first.
+// Recurring medication series contribute only their first occurrence.
+export function buildPatientTimeline({ plans, applications, evaluations, medications }: TimelineSources): TimelineEvent[] {
+  const firstDoses = new Map<string, TimelineSources['medications'][number]>();
+  [...medications]
+    .sort((a, b) => a.start_date.localeCompare(b.start_date))
+    .forEach(med => {
+      const key = `${med.medication_name}|${med.dosage}`;
+      if (!firstDoses.has(key)) firstDoses.set(key, med);
+    });
+
+  const events: TimelineEvent[] = [
+    ...plans.map(plan => ({
+      id: `plan-${plan.id}`,
+      kind: 'plan' as const,
+      date: plan.start_date,
+      title: plan.protocol,
+      detail: `${plan.total_sessions} sessões`,
+      status: null,
+    })),
+    ...applications.map(app => ({
+      id: `application-${app.id}`,
+      kind: 'application' as const,
+      date: app.application_date,
+      title: TIMELINE_KIND_LABELS.application,
+      detail: app.notes,
+      status: app.status,
+    })),
+    ...evaluations.map(evaluation => ({
+      id: `evaluation-${evaluation.id}`,
+      kind: 'evaluation' as const,
+      date: `${evaluation.evaluation_date}T${evaluation.evaluation_time}`,
+      title: TIMELINE_KIND_LABELS.evaluation,
+      detail: evaluation.notes,
+      status: evaluation.status,
+    })),
+    ...[...firstDoses.values()].map(med => ({
+      id: `medication-${med.id}`,
+      kind: 'medication' as const,
+      date: med.start_date,
+      title: `Início de ${med.medication_name}`,
+      detail: med.dosage || null,
+      status: null,
+    })),
+  ];
+
+  return events.sort((a, b) => compareDesc(parseISO(a.date), parseISO(b.date)));
+}
@@ -0,0 +1,45 @@
+import { Database } from '@/integrations/supabase/types';
+
+export type PaymentMethod = Database['public']['Enums']['payment_method'];
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  pix: 'PIX',
+  credit_card: 'Cartão de Crédito',
+  debit_card: 'Cartão de Débito',
+  cash: 'Dinheiro',
+  boleto: 'Boleto',
+  bank_transfer: 'Transferência',
+};
+
+export const PAYMENT_METHODS = Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[];
+
+export function paymentMethodLabel(method: string | null): string {
+  return method ? PAYMENT_METHOD_LABELS[method as PaymentMethod] ?? method : 'Não informado';
+}
+
+// Sums settled amounts per payment method; unclassified receipts are grouped under 'other'
+export function totalsByMethod(
+  transactions: { amount: number; method: string | null }[],
+): Record<PaymentMethod | 'other', number> {
+  const totals = Object.fromEntries(
+    [...PAYMENT_METHODS, 'other'].map(method => [method, 0]),
+  ) as Record<PaymentMethod | 'other', number>;
+
+  transactions.forEach(({ amount, method }) => {
+    const key = method && method in PAYMENT_METHOD_LABELS ? (method as PaymentMethod) : 'other';
+    totals[key] += Number(amount);
+  });
+
+  return totals;
+}
+
+// Charged, received and still open amounts over a set of payments
+export function paymentBalance(payments: { amount: number; amount_paid: number }[]): {
+  total: number;
+  paid: number;
+  outstanding: number;
+} {
+  const total = payments.reduce((sum, payment) => sum + Number(payment.amount), 0);
+  const paid = payments.reduce((sum, payment) => sum + Number(payment.amount_paid), 0);
+  return { total, paid, outstanding: Math.max(0, total - paid) };
+}
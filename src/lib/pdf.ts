@@ -0,0 +1,53 @@
+import { jsPDF } from 'jspdf';
+import logoUrl from '@/assets/instituto-luiz-fernando-logo.png';
+import { CLINIC_INFO } from '@/lib/clinic';
+
+let logoDataUrl: Promise<string> | null = null;
+
+// Loaded once and reused for every page of bulk documents
+function loadLogo(): Promise<string> {
+  if (!logoDataUrl) {
+    logoDataUrl = fetch(logoUrl)
+      .then(response => response.blob())
+      .then(blob => new Promise<string>((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = reject;
+        reader.readAsDataURL(blob);
+      }));
+    logoDataUrl.catch(() => {
+      logoDataUrl = null;
+    });
+  }
+  return logoDataUrl;
+}
+
+// Dark band behind the (white) logo, shared by every PDF the clinic issues
+export async function drawDocumentHeader(doc: jsPDF, title: string): Promise<number> {
+  const pageWidth = doc.internal.pageSize.getWidth();
+
+  doc.setFillColor(20, 20, 20);
+  doc.rect(0, 0, pageWidth, 32, 'F');
+  try {
+    doc.addImage(await loadLogo(), 'PNG', 15, 8, 64, 16);
+  } catch (error) {
+    console.error('Error loading logo:', error);
+  }
+
+  doc.setTextColor(255, 255, 255);
+  doc.setFontSize(9);
+  const clinicLines = [
+    CLINIC_INFO.name,
+    CLINIC_INFO.document && `CNPJ ${CLINIC_INFO.document}`,
+    CLINIC_INFO.address,
+  ].filter(Boolean) as string[];
+  doc.text(clinicLines, pageWidth - 15, 12, { align: 'right' });
+
+  doc.setTextColor(0, 0, 0);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(16);
+  doc.text(title, pageWidth / 2, 48, { align: 'center' });
+  doc.setFont('helvetica', 'normal');
+
+  return 60;
+}
@@ -0,0 +1,98 @@
+import { CLINIC_INFO } from '@/lib/clinic';
+
+// Static PIX BR Code ("copia e cola") following the EMV QRCPS layout
+// described in the Banco Central "Manual de Padrões para Iniciação do Pix".
+
+export interface PixPayloadOptions {
+  key: string;
+  merchantName: string;
+  merchantCity: string;
+  amount?: number;
+  txid?: string;
+  description?: string;
+}
+
+export interface PixConfig {
+  key: string;
+  merchantName: string;
+  merchantCity: string;
+}
+
+const PIX_GUI = 'br.gov.bcb.pix';
+
+// EMV lengths have two digits, so no field can carry more than 99 characters
+const MAX_FIELD_LENGTH = 99;
+
+// Reads the clinic's PIX receiver from the Vite environment (VITE_PIX_*)
+export function getPixConfig(): PixConfig | null {
+  const key = import.meta.env.VITE_PIX_KEY;
+  if (!key) return null;
+
+  return {
+    key,
+    merchantName: import.meta.env.VITE_PIX_MERCHANT_NAME || CLINIC_INFO.name,
+    merchantCity: import.meta.env.VITE_PIX_MERCHANT_CITY || CLINIC_INFO.city,
+  };
+}
+
+// BR Code fields only accept plain ASCII
+function sanitize(value: string, maxLength: number): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\x20-\x7E]/g, '')
+    .trim()
+    .slice(0, maxLength);
+}
+
+function field(id: string, value: string): string {
+  return `${id}${value.length.toString().padStart(2, '0')}${value}`;
+}
+
+// CRC16-CCITT (polynomial 0x1021, initial value 0xFFFF)
+export function crc16(payload: string): string {
+  let crc = 0xffff;
+  for (let i = 0; i < payload.length; i++) {
+    crc ^= payload.charCodeAt(i) << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? (crc << 1) ^ 0x1021 : crc << 1;
+      crc &= 0xffff;
+    }
+  }
+  return crc.toString(16).toUpperCase().padStart(4, '0');
+}
+
+// Static codes accept up to 25 alphanumeric characters; '***' means no txid
+export function toPixTxid(value?: string | null): string {
+  const txid = (value || '').replace(/[^A-Za-z0-9]/g, '').slice(0, 25);
+  return txid || '***';
+}
+
+export function buildPixPayload({
+  key,
+  merchantName,
+  merchantCity,
+  amount,
+  txid,
+  description,
+}: PixPayloadOptions): string {
+  const keyInfo = field('00', PIX_GUI) + field('01', key.trim());
+  // The description only gets what is left of the merchant account field after the key
+  const descriptionRoom = Math.min(40, MAX_FIELD_LENGTH - keyInfo.length - 4);
+  const pixDescription = description && descriptionRoom > 0 ? sanitize(description, descriptionRoom) : '';
+  const accountInfo = keyInfo + (pixDescription ? field('02', pixDescription) : '');
+
+  const payload =
+    field('00', '01') +
+    field('26', accountInfo) +
+    field('52', '0000') +
+    field('53', '986') +
+    (amount && amount > 0 ? field('54', amount.toFixed(2)) : '') +
+    field('58', 'BR') +
+    field('59', sanitize(merchantName, 25)) +
+    field('60', sanitize(merchantCity, 15)) +
+    field('62', field('05', toPixTxid(txid))) +
+    '6304';
+
+  return payload + crc16(payload);
+}
@@ -0,0 +1,159 @@
+import { jsPDF } from 'jspdf';
+import { format, parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { CLINIC_INFO } from '@/lib/clinic';
+import { drawDocumentHeader } from '@/lib/pdf';
+import { formatCpf } from '@/lib/receipts';
+
+// Snapshot of a medication row stored with the issued prescription
+// (a type alias, so it can be written to the JSONB column as is)
+export type PrescriptionItem = {
+  medication_name: string;
+  dosage: string;
+  frequency: string;
+  notes: string | null;
+};
+
+export interface PrescriptionData {
+  patientName: string;
+  patientCpf: string | null;
+  patientBirthDate: string | null;
+  patientAddress: string | null;
+  professionalName: string;
+  professionalCrm: string;
+  issuedAt: string;
+  items: PrescriptionItem[];
+  notes: string | null;
+}
+
+export function toPrescriptionItem(med: PrescriptionItem): PrescriptionItem {
+  return {
+    medication_name: med.medication_name,
+    dosage: med.dosage,
+    frequency: med.frequency,
+    notes: med.notes || null,
+  };
+}
+
+// Numbered title line plus the posology lines printed under it
+export function prescriptionItemLines(item: PrescriptionItem, index: number): { title: string; details: string[] } {
+  return {
+    title: `${index + 1}. ${item.medication_name} ${item.dosage}`.trim(),
+    details: [item.frequency && `Posologia: ${item.frequency}`, item.notes].filter(Boolean) as string[],
+  };
+}
+
+export async function generatePrescriptionPdf(prescription: PrescriptionData): Promise<jsPDF> {
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const textWidth = pageWidth - 30;
+  const issuedAt = parseISO(prescription.issuedAt);
+
+  let y = await drawDocumentHeader(doc, 'RECEITUÁRIO');
+
+  doc.setFontSize(11);
+  doc.setFont('helvetica', 'bold');
+  doc.text(`Paciente: ${prescription.patientName}`, 15, y);
+  doc.setFont('helvetica', 'normal');
+  y += 6;
+
+  doc.setFontSize(10);
+  const patientDetails = [
+    prescription.patientCpf && `CPF: ${formatCpf(prescription.patientCpf)}`,
+    prescription.patientBirthDate && `Nascimento: ${format(parseISO(prescription.patientBirthDate), 'dd/MM/yyyy')}`,
+  ].filter(Boolean).join('   ');
+  if (patientDetails) {
+    doc.text(patientDetails, 15, y);
+    y += 6;
+  }
+  if (prescription.patientAddress) {
+    const addressLines = doc.splitTextToSize(`Endereço: ${prescription.patientAddress}`, textWidth);
+    doc.text(addressLines, 15, y);
+    y += addressLines.length * 5;
+  }
+
+  y += 4;
+  doc.line(15, y, pageWidth - 15, y);
+  y += 10;
+
+  doc.setFontSize(11);
+  prescription.items.forEach((item, index) => {
+    const { title, details } = prescriptionItemLines(item, index);
+    const detailLines = details.flatMap(detail => doc.splitTextToSize(detail, textWidth - 6));
+
+    if (y + 8 + detailLines.length * 5 > pageHeight - 60) {
+      doc.addPage();
+      y = 20;
+    }
+
+    doc.setFont('helvetica', 'bold');
+    doc.text(doc.splitTextToSize(title, textWidth), 15, y);
+    doc.setFont('helvetica', 'normal');
+    y += 6;
+
+    doc.setFontSize(10);
+    doc.text(detailLines, 21, y);
+    doc.setFontSize(11);
+    y += detailLines.length * 5 + 6;
+  });
+
+  if (prescription.notes) {
+    const noteLines = doc.splitTextToSize(prescription.notes, textWidth);
+    if (y + noteLines.length * 5 > pageHeight - 60) {
+      doc.addPage();
+      y = 20;
+    }
+    doc.setFontSize(10);
+    doc.text(noteLines, 15, y);
+    y += noteLines.length * 5 + 6;
+  }
+
+  // Date and signature stay at the bottom of the last page
+  const footerY = Math.max(y + 10, pageHeight - 55);
+  doc.setFontSize(11);
+  doc.text(`${CLINIC_INFO.city}, ${format(issuedAt, "d 'de' MMMM 'de' yyyy", { locale: ptBR })}.`, 15, footerY);
+
+  const signatureY = footerY + 25;
+  doc.line(pageWidth / 2 - 50, signatureY, pageWidth / 2 + 50, signatureY);
+  doc.setFontSize(10);
+  doc.text(prescription.professionalName, pageWidth / 2, signatureY + 6, { align: 'center' });
+  doc.text(prescription.professionalCrm, pageWidth / 2, signatureY + 11, { align: 'center' });
+
+  return doc;
+}
+
+export async function downloadPrescription(prescription: PrescriptionData) {
+  const doc = await generatePrescriptionPdf(prescription);
+  doc.save(`receituario-${prescription.issuedAt}.pdf`);
+}
+
+interface PrescriptionRecord {
+  professional_name: string;
+  professional_crm: string;
+  issued_at: string;
+  items: unknown;
+  notes: string | null;
+}
+
+interface PatientProfile {
+  full_name: string;
+  cpf: string | null;
+  birth_date: string | null;
+  address: string | null;
+}
+
+// Rebuilds the document data of a stored prescription for reprinting
+export function prescriptionFromRecord(record: PrescriptionRecord, patient: PatientProfile): PrescriptionData {
+  return {
+    patientName: patient.full_name,
+    patientCpf: patient.cpf,
+    patientBirthDate: patient.birth_date,
+    patientAddress: patient.address,
+    professionalName: record.professional_name,
+    professionalCrm: record.professional_crm,
+    issuedAt: record.issued_at,
+    items: Array.isArray(record.items) ? (record.items as PrescriptionItem[]) : [],
+    notes: record.notes,
+  };
+}
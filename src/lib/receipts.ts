@@ -0,0 +1,132 @@
+import { jsPDF } from 'jspdf';
+import { format, parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { CLINIC_INFO } from '@/lib/clinic';
+import { drawDocumentHeader } from '@/lib/pdf';
+
+const UNITS = [
+  '', 'um', 'dois', 'três', 'quatro', 'cinco', 'seis', 'sete', 'oito', 'nove',
+  'dez', 'onze', 'doze', 'treze', 'quatorze', 'quinze', 'dezesseis', 'dezessete', 'dezoito', 'dezenove',
+];
+const TENS = ['', '', 'vinte', 'trinta', 'quarenta', 'cinquenta', 'sessenta', 'setenta', 'oitenta', 'noventa'];
+const HUNDREDS = [
+  '', 'cento', 'duzentos', 'trezentos', 'quatrocentos',
+  'quinhentos', 'seiscentos', 'setecentos', 'oitocentos', 'novecentos',
+];
+const SCALES: [string, string][] = [['', ''], ['mil', 'mil'], ['milhão', 'milhões'], ['bilhão', 'bilhões']];
+
+function hundredsToWords(n: number): string {
+  if (n === 100) return 'cem';
+
+  const parts: string[] = [];
+  const rest = n % 100;
+  if (n >= 100) parts.push(HUNDREDS[Math.floor(n / 100)]);
+  if (rest > 0 && rest < 20) {
+    parts.push(UNITS[rest]);
+  } else if (rest >= 20) {
+    parts.push(TENS[Math.floor(rest / 10)]);
+    if (rest % 10) parts.push(UNITS[rest % 10]);
+  }
+  return parts.join(' e ');
+}
+
+export function integerToWords(value: number): string {
+  if (value === 0) return 'zero';
+
+  const groups: { value: number; text: string }[] = [];
+  for (let scale = 0, n = value; n > 0; scale++, n = Math.floor(n / 1000)) {
+    const group = n % 1000;
+    if (group === 0) continue;
+
+    const [singular, plural] = SCALES[scale];
+    let text = hundredsToWords(group);
+    if (scale === 1) text = group === 1 ? 'mil' : `${text} mil`;
+    else if (scale > 1) text = `${text} ${group === 1 ? singular : plural}`;
+    groups.unshift({ value: group, text });
+  }
+
+  // "mil e cem", "dois mil e cinco", but "mil duzentos e cinquenta"
+  return groups.reduce((words, group, index) => {
+    if (index === 0) return group.text;
+    const isLast = index === groups.length - 1;
+    const joiner = isLast && (group.value < 100 || group.value % 100 === 0) ? ' e ' : ' ';
+    return words + joiner + group.text;
+  }, '');
+}
+
+/** Writes a BRL amount in full, as required on receipts ("cento e vinte reais e cinquenta centavos"). */
+export function amountInWords(value: number): string {
+  const totalCents = Math.round(value * 100);
+  const reais = Math.floor(totalCents / 100);
+  const cents = totalCents % 100;
+  const parts: string[] = [];
+
+  if (reais > 0) {
+    const unit = reais === 1 ? 'real' : reais % 1_000_000 === 0 ? 'de reais' : 'reais';
+    parts.push(`${integerToWords(reais)} ${unit}`);
+  }
+  if (cents > 0) {
+    parts.push(`${integerToWords(cents)} ${cents === 1 ? 'centavo' : 'centavos'}`);
+  }
+
+  return parts.length > 0 ? parts.join(' e ') : 'zero reais';
+}
+
+export function formatCpf(cpf: string | null | undefined): string {
+  const digits = (cpf || '').replace(/\D/g, '');
+  return digits.length === 11
+    ? digits.replace(/(\d{3})(\d{3})(\d{3})(\d{2})/, '$1.$2.$3-$4')
+    : cpf || '';
+}
+
+export interface ReceiptData {
+  receiptNumber: number;
+  patientName: string;
+  patientCpf: string | null;
+  amount: number;
+  paidDate: string;
+  description: string | null;
+}
+
+export async function generateReceiptPdf(receipt: ReceiptData): Promise<jsPDF> {
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const formattedAmount = new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' })
+    .format(receipt.amount);
+  const number = String(receipt.receiptNumber).padStart(6, '0');
+
+  let y = await drawDocumentHeader(doc, 'RECIBO');
+
+  doc.setFontSize(11);
+  doc.text(`Nº ${number}`, 15, y);
+  doc.setFont('helvetica', 'bold');
+  doc.text(formattedAmount, pageWidth - 15, y, { align: 'right' });
+  doc.setFont('helvetica', 'normal');
+  y += 14;
+
+  const cpf = receipt.patientCpf ? `, CPF ${formatCpf(receipt.patientCpf)}` : '';
+  const body =
+    `Recebemos de ${receipt.patientName}${cpf}, a importância de ${formattedAmount} ` +
+    `(${amountInWords(receipt.amount)}), referente a ${receipt.description || 'serviços prestados'}.`;
+  const lines = doc.splitTextToSize(body, pageWidth - 30);
+  doc.text(lines, 15, y, { lineHeightFactor: 1.6 });
+  y += lines.length * 7 + 10;
+
+  const paidDate = parseISO(receipt.paidDate);
+  doc.text(`Data do pagamento: ${format(paidDate, 'dd/MM/yyyy')}`, 15, y);
+  y += 30;
+
+  doc.text(`${CLINIC_INFO.city}, ${format(paidDate, "d 'de' MMMM 'de' yyyy", { locale: ptBR })}.`, 15, y);
+  y += 30;
+
+  doc.line(pageWidth / 2 - 50, y, pageWidth / 2 + 50, y);
+  doc.setFontSize(10);
+  doc.text(CLINIC_INFO.name, pageWidth / 2, y + 6, { align: 'center' });
+
+  return doc;
+}
+
+export async function downloadReceipt(receipt: ReceiptData) {
+  const doc = await generateReceiptPdf(receipt);
+  doc.save(`recibo-${String(receipt.receiptNumber).padStart(6, '0')}.pdf`);
+}
@@ -0,0 +1,205 @@
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  format,
+  isAfter,
+  parseISO,
+  startOfWeek,
+} from 'date-fns';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, Json } from '@/integrations/supabase/types';
+import type { MedicationSupply } from '@/lib/medicationSupply';
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly';
+
+export type RecurrenceEntity = 'application' | 'payment' | 'evaluation' | 'medication';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  // 0 = domingo ... 6 = sábado (only used by weekly rules)
+  weekdays: number[];
+  count: number | null;
+  until: string | null;
+  skipHolidays: boolean;
+}
+
+// Hard cap so a rule without a sensible end never floods the database
+export const MAX_OCCURRENCES = 366;
+
+export const WEEKDAY_LABELS = ['Dom', 'Seg', 'Ter', 'Qua', 'Qui', 'Sex', 'Sáb'];
+
+export const FREQUENCY_LABELS: Record<RecurrenceFrequency, string> = {
+  daily: 'Diária',
+  weekly: 'Semanal',
+  monthly: 'Mensal',
+};
+
+export function defaultRecurrenceRule(startDate?: string): RecurrenceRule {
+  const weekday = startDate ? parseISO(startDate).getDay() : new Date().getDay();
+  return {
+    frequency: 'weekly',
+    interval: 1,
+    weekdays: [weekday],
+    count: null,
+    until: null,
+    skipHolidays: true,
+  };
+}
+
+// Anonymous Gregorian algorithm (Meeus/Jones/Butcher)
+function easterSunday(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(year, month - 1, day);
+}
+
+const FIXED_HOLIDAYS = [
+  '01-01', // Confraternização Universal
+  '04-21', // Tiradentes
+  '05-01', // Dia do Trabalho
+  '09-07', // Independência
+  '10-12', // Nossa Senhora Aparecida
+  '11-02', // Finados
+  '11-15', // Proclamação da República
+  '11-20', // Consciência Negra
+  '12-25', // Natal
+];
+
+const holidayCache = new Map<number, Set<string>>();
+
+export function getHolidays(year: number): Set<string> {
+  const cached = holidayCache.get(year);
+  if (cached) return cached;
+
+  const easter = easterSunday(year);
+  const holidays = new Set(FIXED_HOLIDAYS.map(day => `${year}-${day}`));
+  // Carnaval (segunda e terça), Sexta-feira Santa e Corpus Christi
+  [-48, -47, -2, 60].forEach(offset => {
+    holidays.add(format(addDays(easter, offset), 'yyyy-MM-dd'));
+  });
+
+  holidayCache.set(year, holidays);
+  return holidays;
+}
+
+export function isHoliday(date: Date): boolean {
+  return getHolidays(date.getFullYear()).has(format(date, 'yyyy-MM-dd'));
+}
+
+/**
+ * Expands a recurrence rule into concrete dates starting at `startDate`
+ * (yyyy-MM-dd). The series ends at `count` occurrences or at `until`,
+ * whichever is set; holidays are dropped without counting toward `count`.
+ */
+export function generateOccurrences(startDate: string, rule: RecurrenceRule): Date[] {
+  const start = parseISO(startDate);
+  const until = rule.until ? parseISO(rule.until) : null;
+  const limit = Math.min(rule.count ?? MAX_OCCURRENCES, MAX_OCCURRENCES);
+  const interval = Math.max(1, Math.floor(rule.interval) || 1);
+  const dates: Date[] = [];
+
+  if (!rule.count && !until) return dates;
+
+  const accept = (date: Date) => {
+    if (rule.skipHolidays && isHoliday(date)) return;
+    dates.push(date);
+  };
+
+  // Each step yields the candidates of one period (a day, a week or a month)
+  const candidatesFor = (step: number): Date[] => {
+    switch (rule.frequency) {
+      case 'daily':
+        return [addDays(start, step * interval)];
+      case 'monthly':
+        return [addMonths(start, step * interval)];
+      case 'weekly': {
+        const weekdays = rule.weekdays.length > 0 ? [...rule.weekdays].sort((a, b) => a - b) : [start.getDay()];
+        const weekStart = addWeeks(startOfWeek(start), step * interval);
+        return weekdays
+          .map(weekday => addDays(weekStart, weekday))
+          .filter(date => !isAfter(start, date));
+      }
+    }
+  };
+
+  for (let step = 0; dates.length < limit && step < MAX_OCCURRENCES * 2; step++) {
+    for (const date of candidatesFor(step)) {
+      if (until && isAfter(date, until)) return dates;
+      if (dates.length >= limit) break;
+      accept(date);
+    }
+  }
+
+  return dates;
+}
+
+export function describeRule(rule: RecurrenceRule): string {
+  const every = rule.interval > 1 ? `A cada ${rule.interval} ` : '';
+  let base: string;
+
+  switch (rule.frequency) {
+    case 'daily':
+      base = every ? `${every}dias` : 'Todos os dias';
+      break;
+    case 'monthly':
+      base = every ? `${every}meses` : 'Todo mês';
+      break;
+    case 'weekly': {
+      const days = [...rule.weekdays].sort((a, b) => a - b).map(d => WEEKDAY_LABELS[d]).join(', ');
+      base = `${every ? `${every}semanas` : 'Toda semana'} (${days})`;
+      break;
+    }
+  }
+
+  if (rule.count) return `${base}, ${rule.count} vezes`;
+  if (rule.until) return `${base}, até ${format(parseISO(rule.until), 'dd/MM/yyyy')}`;
+  return base;
+}
+
+// Shape persisted in public.recurrence_series
+export function toSeriesRow(
+  rule: RecurrenceRule,
+  entityType: RecurrenceEntity,
+  userId: string,
+  startDate: string,
+) {
+  return {
+    entity_type: entityType,
+    user_id: userId,
+    start_date: startDate,
+    frequency: rule.frequency,
+    interval: rule.interval,
+    weekdays: rule.frequency === 'weekly' ? rule.weekdays : [],
+    occurrence_count: rule.count,
+    until_date: rule.until,
+    skip_holidays: rule.skipHolidays,
+  };
+}
+
+// Inserts the series and its occurrences in one transaction; each occurrence gets the series_id
+export async function createRecurringSeries(
+  client: SupabaseClient<Database>,
+  series: ReturnType<typeof toSeriesRow> & Partial<MedicationSupply>,
+  occurrences: Record<string, Json>[],
+): Promise<string> {
+  const { data, error } = await client.rpc('create_recurring_series', {
+    _series: series,
+    _occurrences: occurrences,
+  });
+  if (error) throw error;
+  return data;
+}
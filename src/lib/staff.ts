@@ -0,0 +1,63 @@
+import { parseISO } from 'date-fns';
+import { formatTime, timeToMinutes } from '@/lib/applicationSlots';
+
+export interface StaffMember {
+  user_id: string;
+  full_name: string;
+  email: string;
+  specialty: string | null;
+  registry_number: string | null;
+  is_active: boolean;
+}
+
+export interface WorkingHours {
+  id?: string;
+  user_id: string;
+  // 0 = Sunday, like the recurrence weekdays
+  weekday: number;
+  start_time: string;
+  end_time: string;
+}
+
+// Select value meaning "no professional", since Radix selects reject empty strings
+export const NO_PROFESSIONAL = 'none';
+
+// Name followed by specialty and registry, e.g. "Ana Souza • Enfermagem • COREN 12345"
+export function professionalLabel(member: Pick<StaffMember, 'full_name' | 'specialty' | 'registry_number'>): string {
+  return [member.full_name, member.specialty, member.registry_number].filter(Boolean).join(' • ');
+}
+
+export function hoursForWeekday(hours: WorkingHours[], weekday: number): WorkingHours[] {
+  return hours
+    .filter(interval => interval.weekday === weekday)
+    .sort((a, b) => timeToMinutes(a.start_time) - timeToMinutes(b.start_time));
+}
+
+export function describeWeekdayHours(hours: WorkingHours[], weekday: number): string {
+  const intervals = hoursForWeekday(hours, weekday);
+  if (intervals.length === 0) return 'Sem expediente';
+  return intervals.map(interval => `${formatTime(interval.start_time)}–${formatTime(interval.end_time)}`).join(', ');
+}
+
+/**
+ * Whether an appointment fits entirely inside one of the professional's intervals
+ * for that weekday. Professionals without any configured hours are unrestricted;
+ * untimed appointments only need the professional to work that day.
+ */
+export function isWithinWorkingHours(
+  hours: WorkingHours[],
+  date: string,
+  time: string | null,
+  durationMinutes: number | null
+): boolean {
+  if (hours.length === 0) return true;
+
+  const intervals = hoursForWeekday(hours, parseISO(date).getDay());
+  if (!time) return intervals.length > 0;
+
+  const start = timeToMinutes(time);
+  const end = start + (durationMinutes || 0);
+  return intervals.some(
+    interval => timeToMinutes(interval.start_time) <= start && end <= timeToMinutes(interval.end_time)
+  );
+}
@@ -0,0 +1,101 @@
+import { jsPDF } from 'jspdf';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { CLINIC_INFO } from '@/lib/clinic';
+import { drawDocumentHeader } from '@/lib/pdf';
+import { amountInWords, formatCpf } from '@/lib/receipts';
+
+export interface TaxStatement {
+  year: number;
+  patientName: string;
+  patientCpf: string | null;
+  // Index 0 = janeiro
+  monthlyTotals: number[];
+  total: number;
+}
+
+/**
+ * Groups what was actually received in the calendar year by month. Built from
+ * the receipts ledger so installments settled in parts are counted on the date
+ * each part was paid, which is what the IRPF declaration expects.
+ */
+export function buildMonthlyTotals(
+  transactions: { amount: number; paid_at: string }[],
+  year: number,
+): { monthlyTotals: number[]; total: number } {
+  const monthlyTotals = Array.from({ length: 12 }, () => 0);
+
+  transactions.forEach(({ amount, paid_at }) => {
+    const [txYear, txMonth] = paid_at.split('-').map(Number);
+    if (txYear === year) {
+      monthlyTotals[txMonth - 1] = Math.round((monthlyTotals[txMonth - 1] + Number(amount)) * 100) / 100;
+    }
+  });
+
+  const total = Math.round(monthlyTotals.reduce((sum, value) => sum + value, 0) * 100) / 100;
+  return { monthlyTotals, total };
+}
+
+async function drawStatementPage(doc: jsPDF, statement: TaxStatement) {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const currency = new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' });
+
+  let y = await drawDocumentHeader(doc, `INFORME DE PAGAMENTOS - IRPF ${statement.year}`);
+
+  doc.setFontSize(11);
+  doc.text(`Prestador: ${CLINIC_INFO.name}${CLINIC_INFO.document ? ` - CNPJ ${CLINIC_INFO.document}` : ''}`, 15, y);
+  y += 7;
+  const cpf = statement.patientCpf ? ` - CPF ${formatCpf(statement.patientCpf)}` : '';
+  doc.text(`Paciente: ${statement.patientName}${cpf}`, 15, y);
+  y += 12;
+
+  doc.setFont('helvetica', 'bold');
+  doc.text('Mês', 15, y);
+  doc.text('Valor pago', pageWidth - 15, y, { align: 'right' });
+  doc.setFont('helvetica', 'normal');
+  y += 2;
+  doc.line(15, y, pageWidth - 15, y);
+  y += 6;
+
+  statement.monthlyTotals.forEach((value, month) => {
+    const monthName = format(new Date(statement.year, month, 1), 'MMMM', { locale: ptBR });
+    doc.text(monthName.charAt(0).toUpperCase() + monthName.slice(1), 15, y);
+    doc.text(currency.format(value), pageWidth - 15, y, { align: 'right' });
+    y += 6;
+  });
+
+  doc.line(15, y - 3, pageWidth - 15, y - 3);
+  y += 3;
+  doc.setFont('helvetica', 'bold');
+  doc.text('Total no ano', 15, y);
+  doc.text(currency.format(statement.total), pageWidth - 15, y, { align: 'right' });
+  doc.setFont('helvetica', 'normal');
+  y += 14;
+
+  const body =
+    `Declaramos, para fins de comprovação junto à Receita Federal, que recebemos de ${statement.patientName}` +
+    `${statement.patientCpf ? `, CPF ${formatCpf(statement.patientCpf)},` : ''} no ano-calendário de ${statement.year}, ` +
+    `a importância total de ${currency.format(statement.total)} (${amountInWords(statement.total)}), ` +
+    'referente a serviços de saúde prestados.';
+  const lines = doc.splitTextToSize(body, pageWidth - 30);
+  doc.text(lines, 15, y, { lineHeightFactor: 1.6 });
+  y += lines.length * 7 + 20;
+
+  doc.text(`${CLINIC_INFO.city}, ${format(new Date(), "d 'de' MMMM 'de' yyyy", { locale: ptBR })}.`, 15, y);
+  y += 25;
+  doc.line(pageWidth / 2 - 50, y, pageWidth / 2 + 50, y);
+  doc.setFontSize(10);
+  doc.text(CLINIC_INFO.name, pageWidth / 2, y + 6, { align: 'center' });
+}
+
+// One page per patient, so the bulk export is a single file
+export async function downloadTaxStatements(statements: TaxStatement[], fileName: string) {
+  const doc = new jsPDF();
+
+  for (const [index, statement] of statements.entries()) {
+    if (index > 0) doc.addPage();
+    await drawStatementPage(doc, statement);
+  }
+
+  doc.save(fileName);
+}
@@ -0,0 +1,236 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { AppLayout } from '@/components/layout/AppLayout';
+import { AnamnesisFields } from '@/components/anamnesis/AnamnesisFields';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { ChevronLeft, ClipboardCheck, CheckCircle, Clock, ArrowRight } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { cn } from '@/lib/utils';
+import {
+  AnamnesisAnswers,
+  AnamnesisSection,
+  latestResponses,
+  missingAnswers,
+  parseAnswers,
+  parseSections,
+} from '@/lib/anamnesis';
+
+interface AnamnesisForm {
+  id: string;
+  title: string;
+  description: string | null;
+  sections: AnamnesisSection[];
+}
+
+interface AnamnesisResponse {
+  form_id: string | null;
+  version: number;
+  answers: AnamnesisAnswers;
+  submitted_at: string;
+}
+
+export default function Anamnesis() {
+  const { user, loading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const [forms, setForms] = useState<AnamnesisForm[]>([]);
+  const [responses, setResponses] = useState<Map<string, AnamnesisResponse>>(new Map());
+  const [loading, setLoading] = useState(true);
+  const [activeForm, setActiveForm] = useState<AnamnesisForm | null>(null);
+  const [answers, setAnswers] = useState<AnamnesisAnswers>({});
+  const [missing, setMissing] = useState<Set<string>>(new Set());
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate('/auth');
+    }
+  }, [user, authLoading, navigate]);
+
+  const fetchForms = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const [formsRes, responsesRes] = await Promise.all([
+        supabase
+          .from('anamnesis_forms')
+          .select('id, title, description, sections')
+          .eq('is_active', true)
+          .order('created_at'),
+        supabase
+          .from('anamnesis_responses')
+          .select('form_id, version, answers, submitted_at')
+          .eq('user_id', user.id),
+      ]);
+
+      if (formsRes.error) throw formsRes.error;
+      if (responsesRes.error) throw responsesRes.error;
+
+      setForms((formsRes.data || []).map(form => ({ ...form, sections: parseSections(form.sections) })));
+      setResponses(latestResponses(
+        (responsesRes.data || []).map(response => ({ ...response, answers: parseAnswers(response.answers) }))
+      ));
+    } catch (error) {
+      console.error('Error fetching anamnesis forms:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (user) {
+      fetchForms();
+    }
+  }, [user, fetchForms]);
+
+  // Resubmissions start from the previous answers
+  const openForm = (form: AnamnesisForm) => {
+    setActiveForm(form);
+    setAnswers(responses.get(form.id)?.answers || {});
+    setMissing(new Set());
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !activeForm) return;
+
+    const unanswered = missingAnswers(activeForm.sections, answers);
+    if (unanswered.length > 0) {
+      setMissing(new Set(unanswered.map(question => question.id)));
+      toast({ title: 'Responda as perguntas obrigatórias', variant: 'destructive' });
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const { error } = await supabase.from('anamnesis_responses').insert({
+        form_id: activeForm.id,
+        user_id: user.id,
+        answers,
+      });
+
+      if (error) throw error;
+
+      toast({ title: 'Anamnese enviada!', description: 'Suas respostas foram registradas.' });
+      setActiveForm(null);
+      fetchForms();
+    } catch (error) {
+      console.error('Error submitting anamnesis:', error);
+      toast({ title: 'Erro ao enviar anamnese', variant: 'destructive' });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (authLoading || loading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="w-12 h-12 rounded-xl gradient-primary animate-pulse" />
+      </div>
+    );
+  }
+
+  if (activeForm) {
+    return (
+      <AppLayout>
+        <form onSubmit={handleSubmit} className="space-y-6 animate-fade-in">
+          <div className="flex items-center gap-3">
+            <button
+              type="button"
+              onClick={() => setActiveForm(null)}
+              className="p-2 rounded-lg hover:bg-secondary transition-colors"
+            >
+              <ChevronLeft className="w-6 h-6" />
+            </button>
+            <div>
+              <h1 className="text-xl font-bold font-display">{activeForm.title}</h1>
+              <p className="text-sm text-muted-foreground">* perguntas obrigatórias</p>
+            </div>
+          </div>
+
+          {activeForm.description && (
+            <p className="text-sm text-muted-foreground whitespace-pre-wrap">{activeForm.description}</p>
+          )}
+
+          <div className="card-elevated p-4">
+            <AnamnesisFields
+              sections={activeForm.sections}
+              answers={answers}
+              onChange={setAnswers}
+              missing={missing}
+            />
+          </div>
+
+          <Button type="submit" className="w-full gradient-primary" disabled={submitting}>
+            {submitting ? 'Enviando...' : 'Enviar Respostas'}
+          </Button>
+        </form>
+      </AppLayout>
+    );
+  }
+
+  return (
+    <AppLayout>
+      <div className="space-y-6 animate-fade-in">
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => navigate('/dashboard')}
+            className="p-2 rounded-lg hover:bg-secondary transition-colors"
+          >
+            <ChevronLeft className="w-6 h-6" />
+          </button>
+          <div>
+            <h1 className="text-xl font-bold font-display">Anamnese</h1>
+            <p className="text-sm text-muted-foreground">Preencha antes da sua primeira avaliação</p>
+          </div>
+        </div>
+
+        {forms.length === 0 ? (
+          <div className="text-center py-12 card-elevated">
+            <ClipboardCheck className="w-14 h-14 text-muted-foreground mx-auto mb-3" />
+            <p className="text-muted-foreground">Nenhum questionário disponível</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {forms.map((form) => {
+              const response = responses.get(form.id);
+
+              return (
+                <div
+                  key={form.id}
+                  className="card-elevated p-4 cursor-pointer group"
+                  onClick={() => openForm(form)}
+                >
+                  <div className="flex items-center justify-between gap-3">
+                    <div className="flex items-center gap-3">
+                      <div className={cn(
+                        "p-2.5 rounded-lg",
+                        response ? "bg-success/20" : "bg-warning/20"
+                      )}>
+                        {response
+                          ? <CheckCircle className="w-6 h-6 text-success" />
+                          : <Clock className="w-6 h-6 text-warning" />}
+                      </div>
+                      <div>
+                        <p className="text-lg font-medium">{form.title}</p>
+                        <p className="text-sm text-muted-foreground">
+                          {response
+                            ? `Respondido em ${format(parseISO(response.submitted_at), "dd 'de' MMMM", { locale: ptBR })} • toque para atualizar`
+                            : 'Pendente'}
+                        </p>
+                      </div>
+                    </div>
+                    <ArrowRight className="w-6 h-6 text-muted-foreground group-hover:text-primary group-hover:translate-x-1 transition-all" />
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </AppLayout>
+  );
+}
@@ -4,14 +4,29 @@ import { AppLayout } from '@/components/layout/AppLayout';
 import { StatusBadge } from '@/components/ui/StatusBadge';
 import { useAuth } from '@/hooks/useAuth';
 import { supabase } from '@/integrations/supabase/client';
-import { Calendar, ChevronLeft } from 'lucide-react';
+import { Calendar, ChevronLeft, CalendarClock, XCircle } from 'lucide-react';
 import { format, parseISO, isAfter, isBefore, startOfToday } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Button } from '@/components/ui/button';
+import { ChangeRequestDialog } from '@/components/applications/ChangeRequestDialog';
+import { useToast } from '@/hooks/use-toast';
+import { formatTime, formatTimeRange } from '@/lib/applicationSlots';
+import {
+  CHANGE_REQUEST_KIND_LABELS,
+  CHANGE_REQUEST_STATUS_CONFIG,
+  ChangeRequest,
+  ChangeRequestKind,
+  MIN_NOTICE_HOURS,
+  canRequestChange,
+} from '@/lib/changeRequests';
 
 interface Application {
   id: string;
+  user_id: string;
   application_date: string;
+  start_time: string | null;
+  duration_minutes: number;
   status: 'scheduled' | 'completed' | 'cancelled' | 'missed';
   notes: string | null;
 }
@@ -19,8 +34,13 @@ interface Application {
 export default function Applications() {
   const { user, loading: authLoading } = useAuth();
   const navigate = useNavigate();
+  const { toast } = useToast();
   const [applications, setApplications] = useState<Application[]>([]);
+  // Latest change request of each application
+  const [requests, setRequests] = useState<Map<string, ChangeRequest>>(new Map());
   const [loading, setLoading] = useState(true);
+  const [requestApplication, setRequestApplication] = useState<Application | null>(null);
+  const [requestKind, setRequestKind] = useState<ChangeRequestKind>('reschedule');
 
   useEffect(() => {
     if (!authLoading && !user) {
@@ -38,13 +58,21 @@ export default function Applications() {
     if (!user) return;
 
     try {
-      const { data } = await supabase
-        .from('applications')
-        .select('*')
-        .eq('user_id', user.id)
-        .order('application_date', { ascending: true });
+      const [{ data }, { data: requestsData }] = await Promise.all([
+        supabase
+          .from('applications')
+          .select('*')
+          .eq('user_id', user.id)
+          .order('application_date', { ascending: true }),
+        supabase
+          .from('application_change_requests')
+          .select('*')
+          .eq('user_id', user.id)
+          .order('created_at', { ascending: true }),
+      ]);
 
       setApplications((data as Application[]) || []);
+      setRequests(new Map(((requestsData as ChangeRequest[]) || []).map(request => [request.application_id, request])));
     } catch (error) {
       console.error('Error fetching applications:', error);
     } finally {
@@ -52,6 +80,28 @@ export default function Applications() {
     }
   };
 
+  const openRequest = (app: Application, kind: ChangeRequestKind) => {
+    setRequestKind(kind);
+    setRequestApplication(app);
+  };
+
+  const handleWithdraw = async (request: ChangeRequest) => {
+    try {
+      const { error } = await supabase
+        .from('application_change_requests')
+        .update({ status: 'withdrawn' })
+        .eq('id', request.id);
+
+      if (error) throw error;
+
+      toast({ title: 'Solicitação retirada' });
+      fetchApplications();
+    } catch (error) {
+      console.error('Error withdrawing change request:', error);
+      toast({ title: 'Erro ao retirar solicitação', variant: 'destructive' });
+    }
+  };
+
   const today = startOfToday();
   const futureApplications = applications.filter(
     app => app.status === 'scheduled' && isAfter(parseISO(app.application_date), today)
@@ -84,6 +134,7 @@ export default function Applications() {
             </p>
             <p className="text-sm text-muted-foreground">
               {format(parseISO(app.application_date), 'EEEE', { locale: ptBR })}
+              {app.start_time && ` • ${formatTimeRange(app.start_time, app.duration_minutes)}`}
             </p>
           </div>
         </div>
@@ -94,9 +145,69 @@ export default function Applications() {
           {app.notes}
         </p>
       )}
+      {app.status === 'scheduled' && <ChangeRequestSection app={app} />}
     </div>
   );
 
+  const ChangeRequestSection = ({ app }: { app: Application }) => {
+    const request = requests.get(app.id);
+
+    if (request?.status === 'pending') {
+      return (
+        <div className="mt-3 border-t border-border pt-3 flex items-center justify-between gap-3">
+          <div className="text-sm">
+            <span className={CHANGE_REQUEST_STATUS_CONFIG.pending.className}>
+              {CHANGE_REQUEST_KIND_LABELS[request.kind]} em análise
+            </span>
+            {request.requested_date && (
+              <p className="text-muted-foreground mt-1">
+                Para {format(parseISO(request.requested_date), "dd 'de' MMMM", { locale: ptBR })}
+                {request.requested_time && ` às ${formatTime(request.requested_time)}`}
+              </p>
+            )}
+          </div>
+          <Button variant="ghost" size="sm" onClick={() => handleWithdraw(request)}>
+            Desistir
+          </Button>
+        </div>
+      );
+    }
+
+    return (
+      <div className="mt-3 border-t border-border pt-3 space-y-2">
+        {request?.status === 'rejected' && (
+          <p className="text-sm text-muted-foreground">
+            <span className={CHANGE_REQUEST_STATUS_CONFIG.rejected.className}>
+              {CHANGE_REQUEST_KIND_LABELS[request.kind]} recusada
+            </span>
+            {request.response_notes && ` ${request.response_notes}`}
+          </p>
+        )}
+        {canRequestChange(app) ? (
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" className="flex-1 gap-1" onClick={() => openRequest(app, 'reschedule')}>
+              <CalendarClock className="w-4 h-4" />
+              Remarcar
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="flex-1 gap-1 text-destructive hover:text-destructive"
+              onClick={() => openRequest(app, 'cancel')}
+            >
+              <XCircle className="w-4 h-4" />
+              Cancelar
+            </Button>
+          </div>
+        ) : (
+          <p className="text-xs text-muted-foreground">
+            Alterações com menos de {MIN_NOTICE_HOURS}h de antecedência só pelo contato com a clínica
+          </p>
+        )}
+      </div>
+    );
+  };
+
   return (
     <AppLayout>
       <div className="space-y-6 animate-fade-in">
@@ -167,6 +278,14 @@ export default function Applications() {
             )}
           </TabsContent>
         </Tabs>
+
+        <ChangeRequestDialog
+          application={requestApplication}
+          kind={requestKind}
+          open={!!requestApplication}
+          onOpenChange={(open) => !open && setRequestApplication(null)}
+          onSuccess={fetchApplications}
+        />
       </div>
     </AppLayout>
   );
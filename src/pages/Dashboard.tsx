@@ -5,15 +5,21 @@ import { DataCard } from '@/components/ui/DataCard';
 import { StatusBadge } from '@/components/ui/StatusBadge';
 import { useAuth } from '@/hooks/useAuth';
 import { supabase } from '@/integrations/supabase/client';
-import { Calendar, CreditCard, Pill, MessageCircle, ArrowRight, Sparkles } from 'lucide-react';
+import { Calendar, CreditCard, Pill, MessageCircle, ArrowRight, Sparkles, ClipboardCheck, Stethoscope } from 'lucide-react';
 import { format, parseISO, isAfter } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
+import { cn } from '@/lib/utils';
+import { formatTime } from '@/lib/applicationSlots';
+import { UPCOMING_EVALUATION_STATUSES } from '@/lib/evaluationStatus';
 
 interface DashboardData {
-  nextApplication: { date: string; status: string } | null;
+  nextApplication: { date: string; startTime: string | null; status: string } | null;
+  nextEvaluation: { date: string; time: string; status: string } | null;
   pendingPayments: number;
   activeMedications: number;
   pendingQuestions: number;
+  anamnesisForms: number;
+  pendingAnamnesis: number;
   userName: string;
 }
 
@@ -22,9 +28,12 @@ export default function Dashboard() {
   const navigate = useNavigate();
   const [data, setData] = useState<DashboardData>({
     nextApplication: null,
+    nextEvaluation: null,
     pendingPayments: 0,
     activeMedications: 0,
     pendingQuestions: 0,
+    anamnesisForms: 0,
+    pendingAnamnesis: 0,
     userName: '',
   });
   const [loading, setLoading] = useState(true);
@@ -56,11 +65,23 @@ export default function Dashboard() {
       const today = new Date().toISOString().split('T')[0];
       const { data: applications } = await supabase
         .from('applications')
-        .select('application_date, status')
+        .select('application_date, start_time, status')
         .eq('user_id', user.id)
         .eq('status', 'scheduled')
         .gte('application_date', today)
         .order('application_date', { ascending: true })
+        .order('start_time', { ascending: true })
+        .limit(1);
+
+      // Fetch next medical evaluation
+      const { data: evaluations } = await supabase
+        .from('medical_evaluations')
+        .select('evaluation_date, evaluation_time, status')
+        .eq('user_id', user.id)
+        .in('status', UPCOMING_EVALUATION_STATUSES)
+        .gte('evaluation_date', today)
+        .order('evaluation_date', { ascending: true })
+        .order('evaluation_time', { ascending: true })
         .limit(1);
 
       // Fetch pending payments count
@@ -68,14 +89,14 @@ export default function Dashboard() {
         .from('payments')
         .select('*', { count: 'exact', head: true })
         .eq('user_id', user.id)
-        .in('status', ['pending', 'overdue']);
+        .in('status', ['pending', 'partial', 'overdue']);
 
       // Fetch active medications count
       const { count: activeMedications } = await supabase
-        .from('medications')
+        .from('medications_with_status')
         .select('*', { count: 'exact', head: true })
         .eq('user_id', user.id)
-        .eq('is_active', true);
+        .eq('status', 'active');
 
       // Fetch pending questions count
       const { count: pendingQuestions } = await supabase
@@ -84,14 +105,33 @@ export default function Dashboard() {
         .eq('user_id', user.id)
         .is('response', null);
 
+      // Fetch active anamnesis forms and which ones were already answered
+      const { data: anamnesisForms } = await supabase
+        .from('anamnesis_forms')
+        .select('id')
+        .eq('is_active', true);
+      const { data: anamnesisResponses } = await supabase
+        .from('anamnesis_responses')
+        .select('form_id')
+        .eq('user_id', user.id);
+      const answeredForms = new Set((anamnesisResponses || []).map(response => response.form_id));
+
       setData({
         nextApplication: applications?.[0] ? {
           date: applications[0].application_date,
+          startTime: applications[0].start_time,
           status: applications[0].status,
         } : null,
+        nextEvaluation: evaluations?.[0] ? {
+          date: evaluations[0].evaluation_date,
+          time: evaluations[0].evaluation_time,
+          status: evaluations[0].status,
+        } : null,
         pendingPayments: pendingPayments || 0,
         activeMedications: activeMedications || 0,
         pendingQuestions: pendingQuestions || 0,
+        anamnesisForms: anamnesisForms?.length || 0,
+        pendingAnamnesis: (anamnesisForms || []).filter(form => !answeredForms.has(form.id)).length,
         userName: profile?.full_name 
           ? profile.full_name.split(' ').slice(0, 3).join(' ')
           : 'Paciente',
@@ -149,6 +189,7 @@ export default function Dashboard() {
                   <>
                     <p className="text-xl font-semibold font-display">
                       {format(parseISO(data.nextApplication.date), "dd 'de' MMMM", { locale: ptBR })}
+                      {data.nextApplication.startTime && ` às ${formatTime(data.nextApplication.startTime)}`}
                     </p>
                     <StatusBadge status="scheduled" className="mt-1" />
                   </>
@@ -163,6 +204,59 @@ export default function Dashboard() {
           </div>
         </div>
 
+        {/* Next Evaluation Card */}
+        {data.nextEvaluation && (
+          <div className="card-elevated p-4">
+            <div className="flex items-center gap-3">
+              <div className="p-2.5 rounded-lg bg-secondary">
+                <Stethoscope className="w-6 h-6 text-primary" />
+              </div>
+              <div>
+                <p className="text-base text-muted-foreground">Próxima avaliação médica</p>
+                <p className="text-lg font-medium">
+                  {format(parseISO(data.nextEvaluation.date), "dd 'de' MMMM", { locale: ptBR })} às{' '}
+                  {formatTime(data.nextEvaluation.time)}
+                </p>
+                <StatusBadge status={data.nextEvaluation.status} className="mt-1" />
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Anamnesis Card */}
+        {data.anamnesisForms > 0 && (
+          <div
+            className={cn(
+              "card-elevated p-4 cursor-pointer group",
+              data.pendingAnamnesis > 0 && "border-warning/50"
+            )}
+            onClick={() => navigate('/anamnesis')}
+          >
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-3">
+                <div className={cn(
+                  "p-2.5 rounded-lg",
+                  data.pendingAnamnesis > 0 ? "bg-warning/20" : "bg-secondary"
+                )}>
+                  <ClipboardCheck className={cn(
+                    "w-6 h-6",
+                    data.pendingAnamnesis > 0 ? "text-warning" : "text-primary"
+                  )} />
+                </div>
+                <div>
+                  <p className="text-lg font-medium">Anamnese</p>
+                  <p className="text-base text-muted-foreground">
+                    {data.pendingAnamnesis > 0
+                      ? `${data.pendingAnamnesis} questionário(s) para preencher`
+                      : 'Respostas enviadas'}
+                  </p>
+                </div>
+              </div>
+              <ArrowRight className="w-6 h-6 text-muted-foreground group-hover:text-primary group-hover:translate-x-1 transition-all" />
+            </div>
+          </div>
+        )}
+
         {/* Stats Grid */}
         <div className="grid grid-cols-2 gap-4">
           <div 
@@ -3,27 +3,37 @@ import { useNavigate } from 'react-router-dom';
 import { AppLayout } from '@/components/layout/AppLayout';
 import { StatusBadge } from '@/components/ui/StatusBadge';
 import { DataCard } from '@/components/ui/DataCard';
+import { Button } from '@/components/ui/button';
+import { PixPaymentDialog } from '@/components/financial/PixPaymentDialog';
+import { TaxStatementDialog } from '@/components/financial/TaxStatementDialog';
 import { useAuth } from '@/hooks/useAuth';
 import { supabase } from '@/integrations/supabase/client';
-import { CreditCard, ChevronLeft, TrendingUp, TrendingDown } from 'lucide-react';
+import { CreditCard, ChevronLeft, TrendingUp, TrendingDown, QrCode, FileText } from 'lucide-react';
 import { format, parseISO } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useToast } from '@/hooks/use-toast';
+import { downloadReceipt } from '@/lib/receipts';
 
 interface Payment {
   id: string;
   amount: number;
+  amount_paid: number;
   due_date: string;
   paid_date: string | null;
-  status: 'pending' | 'paid' | 'overdue';
+  status: 'pending' | 'partial' | 'paid' | 'overdue';
   description: string | null;
+  pix_txid: string;
+  receipt_number: number | null;
 }
 
 export default function Financial() {
   const { user, loading: authLoading } = useAuth();
   const navigate = useNavigate();
+  const { toast } = useToast();
   const [payments, setPayments] = useState<Payment[]>([]);
   const [loading, setLoading] = useState(true);
+  const [pixPayment, setPixPayment] = useState<Payment | null>(null);
 
   useEffect(() => {
     if (!authLoading && !user) {
@@ -55,6 +65,30 @@ export default function Financial() {
     }
   };
 
+  const handleDownloadReceipt = async (payment: Payment) => {
+    if (!user || !payment.receipt_number || !payment.paid_date) return;
+
+    try {
+      const { data: profile } = await supabase
+        .from('profiles')
+        .select('full_name, cpf')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      await downloadReceipt({
+        receiptNumber: payment.receipt_number,
+        patientName: profile?.full_name || '',
+        patientCpf: profile?.cpf || null,
+        amount: Number(payment.amount),
+        paidDate: payment.paid_date,
+        description: payment.description,
+      });
+    } catch (error) {
+      console.error('Error generating receipt:', error);
+      toast({ title: 'Erro ao gerar recibo', variant: 'destructive' });
+    }
+  };
+
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat('pt-BR', {
       style: 'currency',
@@ -62,11 +96,11 @@ export default function Financial() {
     }).format(value);
   };
 
-  const pendingPayments = payments.filter(p => p.status === 'pending' || p.status === 'overdue');
+  const pendingPayments = payments.filter(p => p.status !== 'paid');
   const paidPayments = payments.filter(p => p.status === 'paid');
 
-  const totalPending = pendingPayments.reduce((sum, p) => sum + Number(p.amount), 0);
-  const totalPaid = paidPayments.reduce((sum, p) => sum + Number(p.amount), 0);
+  const totalPending = pendingPayments.reduce((sum, p) => sum + Number(p.amount) - Number(p.amount_paid), 0);
+  const totalPaid = payments.reduce((sum, p) => sum + Number(p.amount_paid), 0);
 
   if (authLoading || loading) {
     return (
@@ -99,12 +133,42 @@ export default function Financial() {
             <p className="text-sm text-muted-foreground mt-1">
               {payment.description || 'Pagamento'}
             </p>
+            {payment.status !== 'paid' && Number(payment.amount_paid) > 0 && (
+              <p className="text-sm mt-1">
+                Pago {formatCurrency(Number(payment.amount_paid))} • Restante{' '}
+                <span className="font-medium text-warning">
+                  {formatCurrency(Number(payment.amount) - Number(payment.amount_paid))}
+                </span>
+              </p>
+            )}
             <p className="text-xs text-muted-foreground mt-2">
               {getDateText()}
             </p>
           </div>
           <StatusBadge status={payment.status} />
         </div>
+        {payment.status !== 'paid' && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="w-full mt-3 gap-2"
+            onClick={() => setPixPayment(payment)}
+          >
+            <QrCode className="w-4 h-4" />
+            Pagar com PIX
+          </Button>
+        )}
+        {payment.status === 'paid' && payment.receipt_number && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="w-full mt-3 gap-2"
+            onClick={() => handleDownloadReceipt(payment)}
+          >
+            <FileText className="w-4 h-4" />
+            Baixar recibo
+          </Button>
+        )}
       </div>
     );
   };
@@ -120,10 +184,11 @@ export default function Financial() {
           >
             <ChevronLeft className="w-5 h-5" />
           </button>
-          <div>
+          <div className="flex-1">
             <h1 className="text-xl font-bold font-display">Financeiro</h1>
             <p className="text-sm text-muted-foreground">Pagamentos e faturas</p>
           </div>
+          {user && <TaxStatementDialog userId={user.id} />}
         </div>
 
         {/* Summary Cards */}
@@ -180,6 +245,12 @@ export default function Financial() {
             )}
           </TabsContent>
         </Tabs>
+
+        <PixPaymentDialog
+          payment={pixPayment}
+          open={!!pixPayment}
+          onOpenChange={(open) => !open && setPixPayment(null)}
+        />
       </div>
     </AppLayout>
   );
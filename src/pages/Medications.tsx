@@ -1,28 +1,32 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { AppLayout } from '@/components/layout/AppLayout';
+import { Button } from '@/components/ui/button';
 import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
-import { Pill, ChevronLeft, Clock, AlertCircle } from 'lucide-react';
-import { format, parseISO } from 'date-fns';
+import { Pill, ChevronLeft, Clock, AlertCircle, Utensils, CalendarClock, Check, X, PackageOpen } from 'lucide-react';
+import { addDays, format, parseISO, startOfDay } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 import { cn } from '@/lib/utils';
+import { ScheduledDose, ScheduledMedication, dosesForDay, formatDose } from '@/lib/medicationSchedule';
+import { SupplyStatus, describeSupply, supplyClassName, supplyDaysLeft } from '@/lib/medicationSupply';
+import { MEDICATION_STATUS_CONFIG, MedicationStatus } from '@/lib/medicationStatus';
+import { INTAKE_STATUS_LABELS, IntakeStatus, MedicationIntake, indexIntakes, intakeKey } from '@/lib/adherence';
 
-interface Medication {
-  id: string;
-  medication_name: string;
-  dosage: string;
+interface Medication extends ScheduledMedication, SupplyStatus {
   frequency: string;
-  start_date: string;
-  end_date: string | null;
   notes: string | null;
-  is_active: boolean;
+  suspension_reason: string | null;
+  status: MedicationStatus;
 }
 
 export default function Medications() {
   const { user, loading: authLoading } = useAuth();
   const navigate = useNavigate();
+  const { toast } = useToast();
   const [medications, setMedications] = useState<Medication[]>([]);
+  const [intakes, setIntakes] = useState<Map<string, MedicationIntake>>(new Map());
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -42,13 +46,22 @@ export default function Medications() {
 
     try {
       const { data } = await supabase
-        .from('medications')
+        .from('medications_with_status')
         .select('*')
         .eq('user_id', user.id)
-        .order('is_active', { ascending: false })
         .order('start_date', { ascending: true });
 
       setMedications((data as Medication[]) || []);
+
+      const today = startOfDay(new Date());
+      const { data: intakesData } = await supabase
+        .from('medication_intakes')
+        .select('medication_id, scheduled_at, status')
+        .eq('user_id', user.id)
+        .gte('scheduled_at', today.toISOString())
+        .lt('scheduled_at', addDays(today, 1).toISOString());
+
+      setIntakes(indexIntakes(intakesData || []));
     } catch (error) {
       console.error('Error fetching medications:', error);
     } finally {
@@ -56,8 +69,33 @@ export default function Medications() {
     }
   };
 
-  const activeMedications = medications.filter(m => m.is_active);
-  const inactiveMedications = medications.filter(m => !m.is_active);
+  const activeMedications = medications.filter(m => m.status === 'active');
+  const upcomingMedications = medications.filter(m => m.status === 'scheduled');
+  const pastMedications = medications.filter(m => m.status === 'ended' || m.status === 'suspended');
+  const todayDoses = useMemo(() => dosesForDay(medications, new Date()), [medications]);
+  const nextDoseIndex = todayDoses.findIndex(dose => dose.time > new Date());
+
+  const handleCheckIn = async (dose: ScheduledDose<Medication>, status: IntakeStatus) => {
+    if (!user) return;
+
+    const intake = {
+      medication_id: dose.medication.id,
+      scheduled_at: dose.time.toISOString(),
+      status,
+    };
+
+    try {
+      const { error } = await supabase
+        .from('medication_intakes')
+        .upsert({ ...intake, user_id: user.id }, { onConflict: 'medication_id,scheduled_at' });
+
+      if (error) throw error;
+      setIntakes(prev => new Map(prev).set(intakeKey(intake.medication_id, dose.time), intake));
+    } catch (error) {
+      console.error('Error recording medication intake:', error);
+      toast({ title: 'Erro ao registrar a dose', variant: 'destructive' });
+    }
+  };
 
   if (authLoading || loading) {
     return (
@@ -67,58 +105,70 @@ export default function Medications() {
     );
   }
 
-  const MedicationCard = ({ medication }: { medication: Medication }) => (
-    <div className={cn(
-      "card-elevated p-4",
-      !medication.is_active && "opacity-60"
-    )}>
-      <div className="flex items-start gap-3">
-        <div className={cn(
-          "w-12 h-12 rounded-lg flex items-center justify-center",
-          medication.is_active ? "gradient-primary" : "bg-secondary"
-        )}>
-          <Pill className={cn(
-            "w-6 h-6",
-            medication.is_active ? "text-primary-foreground" : "text-muted-foreground"
-          )} />
-        </div>
-        <div className="flex-1">
-          <div className="flex items-start justify-between">
-            <div>
-              <p className="font-medium font-display">{medication.medication_name}</p>
-              <p className="text-lg font-semibold text-primary">{medication.dosage}</p>
-            </div>
-            {medication.is_active && (
-              <span className="text-xs bg-success/20 text-success px-2 py-1 rounded-full">
-                Ativo
+  const MedicationCard = ({ medication }: { medication: Medication }) => {
+    const daysLeft = medication.status === 'active' ? supplyDaysLeft(medication) : null;
+
+    return (
+      <div className={cn(
+        "card-elevated p-4",
+        medication.status !== 'active' && "opacity-60"
+      )}>
+        <div className="flex items-start gap-3">
+          <div className={cn(
+            "w-12 h-12 rounded-lg flex items-center justify-center",
+            medication.status === 'active' ? "gradient-primary" : "bg-secondary"
+          )}>
+            <Pill className={cn(
+              "w-6 h-6",
+              medication.status === 'active' ? "text-primary-foreground" : "text-muted-foreground"
+            )} />
+          </div>
+          <div className="flex-1">
+            <div className="flex items-start justify-between">
+              <div>
+                <p className="font-medium font-display">{medication.medication_name}</p>
+                <p className="text-lg font-semibold text-primary">{medication.dosage}</p>
+              </div>
+              <span className={MEDICATION_STATUS_CONFIG[medication.status].className}>
+                {MEDICATION_STATUS_CONFIG[medication.status].label}
               </span>
+            </div>
+            
+            <div className="flex items-center gap-2 mt-2 text-base text-muted-foreground">
+              <Clock className="w-5 h-5" />
+              <span>{medication.frequency}</span>
+            </div>
+
+            {daysLeft !== null && (
+              <div className={cn("flex items-center gap-2 mt-1 text-sm font-medium", supplyClassName(daysLeft))}>
+                <PackageOpen className="w-5 h-5" />
+                <span>{describeSupply(daysLeft)}</span>
+              </div>
             )}
-          </div>
-          
-          <div className="flex items-center gap-2 mt-2 text-base text-muted-foreground">
-            <Clock className="w-5 h-5" />
-            <span>{medication.frequency}</span>
-          </div>
 
-          <div className="mt-3 pt-3 border-t border-border text-xs text-muted-foreground">
-            <p>
-              Início: {format(parseISO(medication.start_date), "dd/MM/yyyy", { locale: ptBR })}
-              {medication.end_date && (
-                <> • Fim: {format(parseISO(medication.end_date), "dd/MM/yyyy", { locale: ptBR })}</>
+            <div className="mt-3 pt-3 border-t border-border text-xs text-muted-foreground">
+              <p>
+                Início: {format(parseISO(medication.start_date), "dd/MM/yyyy", { locale: ptBR })}
+                {medication.end_date && (
+                  <> • Fim: {format(parseISO(medication.end_date), "dd/MM/yyyy", { locale: ptBR })}</>
+                )}
+              </p>
+              {medication.status === 'suspended' && medication.suspension_reason && (
+                <p className="mt-1">Motivo da suspensão: {medication.suspension_reason}</p>
               )}
-            </p>
-          </div>
-
-          {medication.notes && (
-            <div className="flex items-start gap-2 mt-2 p-2 rounded-lg bg-secondary/50">
-              <AlertCircle className="w-5 h-5 text-primary shrink-0 mt-0.5" />
-              <p className="text-xs text-muted-foreground">{medication.notes}</p>
             </div>
-          )}
+
+            {medication.notes && (
+              <div className="flex items-start gap-2 mt-2 p-2 rounded-lg bg-secondary/50">
+                <AlertCircle className="w-5 h-5 text-primary shrink-0 mt-0.5" />
+                <p className="text-xs text-muted-foreground">{medication.notes}</p>
+              </div>
+            )}
+          </div>
         </div>
       </div>
-    </div>
-  );
+    );
+  };
 
   return (
     <AppLayout>
@@ -137,6 +187,69 @@ export default function Medications() {
           </div>
         </div>
 
+        {/* Today's doses */}
+        {todayDoses.length > 0 && (
+          <div>
+            <h2 className="text-sm font-medium text-muted-foreground mb-3">
+              Hoje • {format(new Date(), "EEEE, dd 'de' MMMM", { locale: ptBR })}
+            </h2>
+            <div className="card-elevated p-4 space-y-1">
+              {todayDoses.map((dose, index) => {
+                const isPast = nextDoseIndex === -1 || index < nextDoseIndex;
+                const isNext = index === nextDoseIndex;
+                const recorded = intakes.get(intakeKey(dose.medication.id, dose.time))?.status;
+
+                return (
+                  <div
+                    key={`${dose.medication.id}-${dose.time.getTime()}`}
+                    className={cn(
+                      "p-2 rounded-lg space-y-2",
+                      isNext && "bg-primary/10",
+                      isPast && !recorded && "bg-warning/10"
+                    )}
+                  >
+                    <div className={cn("flex items-center gap-3", recorded && "opacity-60")}>
+                      <span className={cn(
+                        "w-14 text-base font-semibold tabular-nums",
+                        isNext ? "text-primary" : "text-muted-foreground"
+                      )}>
+                        {format(dose.time, 'HH:mm')}
+                      </span>
+                      <div className="flex-1 min-w-0">
+                        <p className="font-medium truncate">{dose.medication.medication_name}</p>
+                        <p className="text-sm text-muted-foreground">
+                          {formatDose(dose.medication) || dose.medication.dosage}
+                        </p>
+                      </div>
+                      {dose.medication.take_with_food && (
+                        <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                          <Utensils className="w-4 h-4" />
+                          Com alimento
+                        </span>
+                      )}
+                      {isNext && <CalendarClock className="w-5 h-5 text-primary shrink-0" />}
+                    </div>
+                    <div className="flex gap-2 pl-[4.25rem]">
+                      {(Object.keys(INTAKE_STATUS_LABELS) as IntakeStatus[]).map(status => (
+                        <Button
+                          key={status}
+                          size="sm"
+                          variant={recorded === status ? 'default' : 'outline'}
+                          className="h-8 gap-1"
+                          onClick={() => handleCheckIn(dose, status)}
+                        >
+                          {status === 'taken' ? <Check className="w-4 h-4" /> : <X className="w-4 h-4" />}
+                          {INTAKE_STATUS_LABELS[status]}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
         {/* Active Medications */}
         <div>
           <h2 className="text-sm font-medium text-muted-foreground mb-3">
@@ -157,14 +270,28 @@ export default function Medications() {
           )}
         </div>
 
-        {/* Inactive Medications */}
-        {inactiveMedications.length > 0 && (
+        {/* Upcoming Medications */}
+        {upcomingMedications.length > 0 && (
+          <div>
+            <h2 className="text-sm font-medium text-muted-foreground mb-3">
+              Próximas ({upcomingMedications.length})
+            </h2>
+            <div className="space-y-3">
+              {upcomingMedications.map(medication => (
+                <MedicationCard key={medication.id} medication={medication} />
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Past Medications */}
+        {pastMedications.length > 0 && (
           <div>
             <h2 className="text-sm font-medium text-muted-foreground mb-3">
-              Anteriores ({inactiveMedications.length})
+              Anteriores ({pastMedications.length})
             </h2>
             <div className="space-y-3">
-              {inactiveMedications.map(medication => (
+              {pastMedications.map(medication => (
                 <MedicationCard key={medication.id} medication={medication} />
               ))}
             </div>
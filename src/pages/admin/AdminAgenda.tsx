@@ -0,0 +1,548 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { AdminLayout } from '@/components/admin/AdminLayout';
+import { EditApplicationDialog } from '@/components/admin/EditApplicationDialog';
+import { EditEvaluationDialog } from '@/components/admin/EditEvaluationDialog';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { CalendarDays, ChevronLeft, ChevronRight, Stethoscope, Syringe, Users } from 'lucide-react';
+import { format, isSameMonth, isToday, parseISO } from 'date-fns';
+import { useToast } from '@/hooks/use-toast';
+import { useStaff } from '@/hooks/useStaff';
+import { cn } from '@/lib/utils';
+import { WEEKDAY_LABELS } from '@/lib/recurrence';
+import {
+  AGENDA_FIRST_HOUR,
+  AGENDA_KIND_LABELS,
+  AGENDA_LAST_HOUR,
+  AGENDA_VIEW_LABELS,
+  ALL_PROFESSIONALS,
+  AgendaEvent,
+  AgendaView,
+  agendaDays,
+  agendaStatusClassName,
+  agendaTitle,
+  eventHour,
+  filterEventsByProfessional,
+  groupEventsByDay,
+  shiftAnchor,
+} from '@/lib/agenda';
+import {
+  ApplicationSlot,
+  describeConflict,
+  findConflict,
+  formatTime,
+  formatTimeRange,
+} from '@/lib/applicationSlots';
+import { isUpcomingEvaluation, statusAfterReschedule } from '@/lib/evaluationStatus';
+import { NO_PROFESSIONAL, describeWeekdayHours, isWithinWorkingHours, professionalLabel } from '@/lib/staff';
+import { chunk } from '@/lib/pagination';
+
+interface Application {
+  id: string;
+  user_id: string;
+  application_date: string;
+  start_time: string | null;
+  duration_minutes: number;
+  status: string;
+  notes: string | null;
+  series_id: string | null;
+  professional_id: string | null;
+}
+
+interface Evaluation {
+  id: string;
+  user_id: string;
+  evaluation_date: string;
+  evaluation_time: string;
+  status: string;
+  notes: string | null;
+  professional_id: string | null;
+  status_reason: string | null;
+}
+
+// Where an event was dropped; hour is only known in the day view
+interface DropTarget {
+  date: string;
+  hour?: number;
+}
+
+const MONTH_CELL_LIMIT = 3;
+
+const APPLICATION_COLUMNS = 'id, user_id, application_date, start_time, duration_minutes, status, notes, series_id, professional_id';
+
+const KIND_ICONS = {
+  application: Syringe,
+  evaluation: Stethoscope,
+};
+
+export default function AdminAgenda() {
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const { staff, workingHours } = useStaff();
+  const [professionalFilter, setProfessionalFilter] = useState(ALL_PROFESSIONALS);
+  const [view, setView] = useState<AgendaView>('week');
+  const [anchor, setAnchor] = useState(new Date());
+  const [applications, setApplications] = useState<Application[]>([]);
+  const [evaluations, setEvaluations] = useState<Evaluation[]>([]);
+  const [slots, setSlots] = useState<ApplicationSlot[]>([]);
+  const [names, setNames] = useState<Map<string, string>>(new Map());
+  const [loading, setLoading] = useState(true);
+  const [dragOver, setDragOver] = useState<string | null>(null);
+  const [editingApplication, setEditingApplication] = useState<Application | null>(null);
+  const [laterApplications, setLaterApplications] = useState<Application[]>([]);
+  const [editingEvaluation, setEditingEvaluation] = useState<Evaluation | null>(null);
+
+  const days = useMemo(() => agendaDays(view, anchor), [view, anchor]);
+  const rangeStart = format(days[0], 'yyyy-MM-dd');
+  const rangeEnd = format(days[days.length - 1], 'yyyy-MM-dd');
+
+  const fetchAgenda = useCallback(async () => {
+    try {
+      const [appsRes, evaluationsRes, slotsRes] = await Promise.all([
+        supabase
+          .from('applications')
+          .select(APPLICATION_COLUMNS)
+          .gte('application_date', rangeStart)
+          .lte('application_date', rangeEnd)
+          .order('application_date', { ascending: true }),
+        supabase
+          .from('medical_evaluations')
+          .select('id, user_id, evaluation_date, evaluation_time, status, notes, professional_id, status_reason')
+          .gte('evaluation_date', rangeStart)
+          .lte('evaluation_date', rangeEnd),
+        supabase.from('application_slots').select('start_time, capacity'),
+      ]);
+
+      if (appsRes.error) throw appsRes.error;
+      if (evaluationsRes.error) throw evaluationsRes.error;
+      if (slotsRes.error) throw slotsRes.error;
+
+      // Names of the patients and professionals on screen only
+      const people = [...(appsRes.data || []), ...(evaluationsRes.data || [])];
+      const userIds = [...new Set(people.flatMap(item => [item.user_id, item.professional_id]).filter(Boolean))];
+      const profileBatches = await Promise.all(
+        chunk(userIds).map(async (ids) => {
+          const { data, error } = await supabase.from('profiles').select('user_id, full_name').in('user_id', ids);
+          if (error) throw error;
+          return data || [];
+        })
+      );
+
+      setApplications(appsRes.data || []);
+      setEvaluations(evaluationsRes.data || []);
+      setSlots(slotsRes.data || []);
+      setNames(new Map(profileBatches.flat().map(profile => [profile.user_id, profile.full_name])));
+    } catch (error) {
+      console.error('Error fetching agenda:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [rangeStart, rangeEnd]);
+
+  useEffect(() => {
+    fetchAgenda();
+  }, [fetchAgenda]);
+
+  const events = useMemo<AgendaEvent[]>(() => [
+    ...applications.map(app => ({
+      kind: 'application' as const,
+      id: app.id,
+      user_id: app.user_id,
+      date: app.application_date,
+      time: app.start_time,
+      duration_minutes: app.duration_minutes,
+      status: app.status,
+      patient_name: names.get(app.user_id) || 'Paciente',
+      professional_id: app.professional_id,
+    })),
+    ...evaluations.map(evaluation => ({
+      kind: 'evaluation' as const,
+      id: evaluation.id,
+      user_id: evaluation.user_id,
+      date: evaluation.evaluation_date,
+      time: evaluation.evaluation_time,
+      duration_minutes: null,
+      status: evaluation.status,
+      patient_name: names.get(evaluation.user_id) || 'Paciente',
+      professional_id: evaluation.professional_id,
+    })),
+  ], [applications, evaluations, names]);
+
+  const eventsByDay = useMemo(
+    () => groupEventsByDay(filterEventsByProfessional(events, professionalFilter)),
+    [events, professionalFilter]
+  );
+  const filteredHours = workingHours.filter(interval => interval.user_id === professionalFilter);
+
+  // The edit dialog can shift the later dates of a series (or of the patient), which
+  // usually fall outside the visible range, so they are loaded before it opens
+  const openApplication = async (app: Application) => {
+    try {
+      let query = supabase
+        .from('applications')
+        .select(APPLICATION_COLUMNS)
+        .gt('application_date', app.application_date)
+        .eq('status', 'scheduled');
+      query = app.series_id ? query.eq('series_id', app.series_id) : query.eq('user_id', app.user_id);
+
+      const { data, error } = await query.order('application_date', { ascending: true });
+      if (error) throw error;
+      setLaterApplications(data || []);
+      setEditingApplication(app);
+    } catch (error) {
+      // Without the later applications the dialog would offer to change only this one
+      console.error('Error fetching later applications:', error);
+      toast({ title: 'Erro ao carregar aplicações da série', variant: 'destructive' });
+    }
+  };
+
+  const openEvent = (event: AgendaEvent) => {
+    if (event.kind === 'application') {
+      const app = applications.find(item => item.id === event.id);
+      if (app) openApplication(app);
+    } else {
+      setEditingEvaluation(evaluations.find(evaluation => evaluation.id === event.id) || null);
+    }
+  };
+
+  // Keeps the minutes of the original time when dropped on another hour row
+  const rescheduledTime = (event: AgendaEvent, hour?: number): string | null => {
+    if (hour === undefined) return event.time;
+    const minutes = event.time ? formatTime(event.time).slice(3) : '00';
+    return `${String(hour).padStart(2, '0')}:${minutes}`;
+  };
+
+  const handleDrop = async (e: React.DragEvent, target: DropTarget) => {
+    e.preventDefault();
+    setDragOver(null);
+
+    const [kind, id] = e.dataTransfer.getData('text/plain').split(':');
+    const event = events.find(item => item.kind === kind && item.id === id);
+    if (!event) return;
+
+    const time = rescheduledTime(event, target.hour);
+    if (event.date === target.date && time === event.time) return;
+
+    const professionalHours = workingHours.filter(interval => interval.user_id === event.professional_id);
+    if (
+      event.professional_id &&
+      !isWithinWorkingHours(professionalHours, target.date, time, event.duration_minutes) &&
+      !confirm(`Fora do expediente de ${names.get(event.professional_id) || 'profissional'}. Reagendar mesmo assim?`)
+    ) {
+      return;
+    }
+
+    try {
+      if (event.kind === 'application') {
+        const conflict = findConflict(
+          {
+            id: event.id,
+            user_id: event.user_id,
+            application_date: target.date,
+            start_time: time,
+            duration_minutes: event.duration_minutes as number,
+          },
+          applications.map(app => ({ ...app, patient_name: names.get(app.user_id) })),
+          slots
+        );
+        if (conflict && !confirm(`${describeConflict(conflict)}. Reagendar mesmo assim?`)) return;
+
+        const { error } = await supabase
+          .from('applications')
+          .update({ application_date: target.date, start_time: time })
+          .eq('id', event.id);
+        if (error) throw error;
+      } else {
+        const reason = prompt('Motivo da remarcação (opcional):');
+        if (reason === null) return;
+
+        const { error } = await supabase
+          .from('medical_evaluations')
+          .update({
+            evaluation_date: target.date,
+            evaluation_time: time as string,
+            status: statusAfterReschedule(event.status),
+            status_reason: reason.trim() || null,
+          })
+          .eq('id', event.id);
+        if (error) throw error;
+      }
+
+      toast({
+        title: `${AGENDA_KIND_LABELS[event.kind]} reagendada`,
+        description: `${format(parseISO(target.date), 'dd/MM')}${time ? ` às ${formatTime(time)}` : ''}`,
+      });
+      fetchAgenda();
+    } catch (error) {
+      console.error('Error rescheduling event:', error);
+      toast({ title: 'Erro ao reagendar', variant: 'destructive' });
+    }
+  };
+
+  const dropHandlers = (target: DropTarget) => {
+    const key = `${target.date}-${target.hour ?? ''}`;
+    return {
+      onDragOver: (e: React.DragEvent) => {
+        e.preventDefault();
+        setDragOver(key);
+      },
+      onDragLeave: () => setDragOver(current => (current === key ? null : current)),
+      onDrop: (e: React.DragEvent) => handleDrop(e, target),
+      className: cn('transition-colors', dragOver === key && 'bg-primary/10'),
+    };
+  };
+
+  const EventChip = ({ event, compact = false }: { event: AgendaEvent; compact?: boolean }) => {
+    const Icon = KIND_ICONS[event.kind];
+    // Only what is still ahead can be moved around
+    const draggable = event.kind === 'application' ? event.status === 'scheduled' : isUpcomingEvaluation(event.status);
+
+    return (
+      <div
+        draggable={draggable}
+        onDragStart={(e) => e.dataTransfer.setData('text/plain', `${event.kind}:${event.id}`)}
+        onClick={() => openEvent(event)}
+        title={[
+          AGENDA_KIND_LABELS[event.kind],
+          event.patient_name,
+          event.professional_id && names.get(event.professional_id),
+        ].filter(Boolean).join(' • ')}
+        className={cn(
+          'flex items-center gap-1 rounded px-1.5 py-1 text-xs cursor-pointer truncate',
+          draggable && 'cursor-grab active:cursor-grabbing',
+          agendaStatusClassName(event.status)
+        )}
+      >
+        <Icon className="w-3 h-3 shrink-0" />
+        {event.time && (
+          <span className="font-medium shrink-0">
+            {event.duration_minutes && !compact
+              ? formatTimeRange(event.time, event.duration_minutes)
+              : formatTime(event.time)}
+          </span>
+        )}
+        <span className="truncate">{event.patient_name}</span>
+      </div>
+    );
+  };
+
+  const renderMonth = () => (
+    <div className="grid grid-cols-7 gap-px bg-border rounded-lg overflow-hidden min-w-[700px]">
+      {WEEKDAY_LABELS.map((label) => (
+        <div key={label} className="bg-card p-2 text-xs font-medium text-muted-foreground text-center">
+          {label}
+        </div>
+      ))}
+      {days.map((day) => {
+        const date = format(day, 'yyyy-MM-dd');
+        const dayEvents = eventsByDay.get(date) || [];
+        const { className, ...handlers } = dropHandlers({ date });
+
+        return (
+          <div
+            key={date}
+            {...handlers}
+            className={cn('bg-card min-h-24 p-1 space-y-1', !isSameMonth(day, anchor) && 'opacity-50', className)}
+          >
+            <button
+              onClick={() => { setAnchor(day); setView('day'); }}
+              className={cn(
+                'text-xs w-6 h-6 rounded-full hover:bg-secondary',
+                isToday(day) && 'gradient-primary text-primary-foreground'
+              )}
+            >
+              {format(day, 'd')}
+            </button>
+            {dayEvents.slice(0, MONTH_CELL_LIMIT).map((event) => (
+              <EventChip key={`${event.kind}-${event.id}`} event={event} compact />
+            ))}
+            {dayEvents.length > MONTH_CELL_LIMIT && (
+              <button
+                onClick={() => { setAnchor(day); setView('day'); }}
+                className="text-xs text-muted-foreground hover:text-primary px-1"
+              >
+                +{dayEvents.length - MONTH_CELL_LIMIT} mais
+              </button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+
+  const renderWeek = () => (
+    <div className="grid grid-cols-7 gap-px bg-border rounded-lg overflow-hidden min-w-[700px]">
+      {days.map((day) => {
+        const date = format(day, 'yyyy-MM-dd');
+        const { className, ...handlers } = dropHandlers({ date });
+
+        return (
+          <div key={date} {...handlers} className={cn('bg-card min-h-64 p-1 space-y-1', className)}>
+            <button
+              onClick={() => { setAnchor(day); setView('day'); }}
+              className={cn(
+                'w-full rounded p-1 text-xs text-center hover:bg-secondary',
+                isToday(day) && 'text-primary font-semibold'
+              )}
+            >
+              {WEEKDAY_LABELS[day.getDay()]} {format(day, 'dd/MM')}
+            </button>
+            {(eventsByDay.get(date) || []).map((event) => (
+              <EventChip key={`${event.kind}-${event.id}`} event={event} compact />
+            ))}
+          </div>
+        );
+      })}
+    </div>
+  );
+
+  const renderDay = () => {
+    const date = format(anchor, 'yyyy-MM-dd');
+    const dayEvents = eventsByDay.get(date) || [];
+    const hours = Array.from({ length: AGENDA_LAST_HOUR - AGENDA_FIRST_HOUR + 1 }, (_, i) => AGENDA_FIRST_HOUR + i);
+    // Outside business hours events still show, on the first or last row
+    const rowOf = (event: AgendaEvent) =>
+      Math.min(Math.max(eventHour(event) as number, AGENDA_FIRST_HOUR), AGENDA_LAST_HOUR);
+    const untimed = dayEvents.filter(event => eventHour(event) === null);
+
+    return (
+      <div className="rounded-lg border border-border divide-y divide-border">
+        {untimed.length > 0 && (
+          <div className="flex gap-3 p-2">
+            <span className="w-12 shrink-0 text-xs text-muted-foreground">Sem horário</span>
+            <div className="flex-1 space-y-1">
+              {untimed.map((event) => (
+                <EventChip key={`${event.kind}-${event.id}`} event={event} />
+              ))}
+            </div>
+          </div>
+        )}
+        {hours.map((hour) => {
+          const { className, ...handlers } = dropHandlers({ date, hour });
+          const hourEvents = dayEvents.filter(event => eventHour(event) !== null && rowOf(event) === hour);
+
+          return (
+            <div key={hour} {...handlers} className={cn('flex gap-3 p-2 min-h-12', className)}>
+              <span className="w-12 shrink-0 text-xs text-muted-foreground">{String(hour).padStart(2, '0')}:00</span>
+              <div className="flex-1 space-y-1">
+                {hourEvents.map((event) => (
+                  <EventChip key={`${event.kind}-${event.id}`} event={event} />
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
+  if (loading) {
+    return (
+      <AdminLayout currentPage="/admin/agenda">
+        <div className="flex items-center justify-center py-12">
+          <div className="w-12 h-12 rounded-xl gradient-primary animate-pulse" />
+        </div>
+      </AdminLayout>
+    );
+  }
+
+  return (
+    <AdminLayout currentPage="/admin/agenda">
+      <div className="space-y-6 animate-fade-in">
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1">
+            <div className="flex items-center gap-2">
+              <CalendarDays className="w-5 h-5 text-primary" />
+              <span className="text-sm text-primary font-medium">Agenda</span>
+            </div>
+            <h1 className="text-2xl font-bold font-display capitalize">{agendaTitle(view, anchor)}</h1>
+            <p className="text-muted-foreground text-sm">
+              Arraste uma aplicação ou avaliação agendada para reagendar
+            </p>
+            {view === 'day' && filteredHours.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                Expediente: {describeWeekdayHours(filteredHours, anchor.getDay())}
+              </p>
+            )}
+          </div>
+          <Tabs value={view} onValueChange={(value) => setView(value as AgendaView)}>
+            <TabsList>
+              {(Object.keys(AGENDA_VIEW_LABELS) as AgendaView[]).map((option) => (
+                <TabsTrigger key={option} value={option}>{AGENDA_VIEW_LABELS[option]}</TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+        </div>
+
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="icon" onClick={() => setAnchor(shiftAnchor(view, anchor, -1))}>
+              <ChevronLeft className="w-4 h-4" />
+            </Button>
+            <Button variant="outline" onClick={() => setAnchor(new Date())}>Hoje</Button>
+            <Button variant="outline" size="icon" onClick={() => setAnchor(shiftAnchor(view, anchor, 1))}>
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+          </div>
+          <div className="flex items-center gap-3 text-xs text-muted-foreground">
+            <span className="flex items-center gap-1"><Syringe className="w-3 h-3" /> Aplicação</span>
+            <span className="flex items-center gap-1"><Stethoscope className="w-3 h-3" /> Avaliação</span>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Select value={professionalFilter} onValueChange={setProfessionalFilter}>
+            <SelectTrigger className="flex-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_PROFESSIONALS}>Todos os profissionais</SelectItem>
+              <SelectItem value={NO_PROFESSIONAL}>Sem profissional</SelectItem>
+              {staff.map((member) => (
+                <SelectItem key={member.user_id} value={member.user_id}>
+                  {professionalLabel(member)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" className="gap-2" onClick={() => navigate('/admin/agenda/staff')}>
+            <Users className="w-4 h-4" />
+            Equipe
+          </Button>
+        </div>
+
+        <Card className="card-elevated">
+          <CardContent className="p-2 overflow-x-auto">
+            {view === 'month' && renderMonth()}
+            {view === 'week' && renderWeek()}
+            {view === 'day' && renderDay()}
+          </CardContent>
+        </Card>
+
+        <EditApplicationDialog
+          application={editingApplication}
+          allApplications={laterApplications}
+          open={!!editingApplication}
+          onOpenChange={(open) => !open && setEditingApplication(null)}
+          onSuccess={fetchAgenda}
+        />
+        <EditEvaluationDialog
+          evaluation={editingEvaluation}
+          open={!!editingEvaluation}
+          onOpenChange={(open) => !open && setEditingEvaluation(null)}
+          onSuccess={fetchAgenda}
+        />
+      </div>
+    </AdminLayout>
+  );
+}
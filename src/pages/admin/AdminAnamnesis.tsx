@@ -0,0 +1,199 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { AdminLayout } from '@/components/admin/AdminLayout';
+import { AnamnesisForm, AnamnesisFormDialog } from '@/components/admin/AnamnesisFormDialog';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { ArrowLeft, ClipboardCheck, Pencil, Plus, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { parseSections } from '@/lib/anamnesis';
+
+export default function AdminAnamnesis() {
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const [forms, setForms] = useState<AnamnesisForm[]>([]);
+  const [responseCounts, setResponseCounts] = useState<Map<string, number>>(new Map());
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingForm, setEditingForm] = useState<AnamnesisForm | null>(null);
+
+  useEffect(() => {
+    fetchForms();
+  }, []);
+
+  const fetchForms = async () => {
+    try {
+      const [formsRes, responsesRes] = await Promise.all([
+        supabase.from('anamnesis_forms').select('id, title, description, sections, is_active').order('created_at'),
+        supabase.from('anamnesis_responses').select('form_id, user_id').not('form_id', 'is', null),
+      ]);
+
+      if (formsRes.error) throw formsRes.error;
+      if (responsesRes.error) throw responsesRes.error;
+
+      // Patients answering, not submissions: resubmissions are new versions of the same answers
+      const patients = new Map<string, Set<string>>();
+      (responsesRes.data || []).forEach(({ form_id, user_id }) => {
+        patients.set(form_id as string, (patients.get(form_id as string) || new Set()).add(user_id));
+      });
+
+      setForms(formsRes.data || []);
+      setResponseCounts(new Map([...patients].map(([formId, users]) => [formId, users.size])));
+    } catch (error) {
+      console.error('Error fetching anamnesis forms:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleToggleActive = async (form: AnamnesisForm) => {
+    try {
+      const { error } = await supabase
+        .from('anamnesis_forms')
+        .update({ is_active: !form.is_active })
+        .eq('id', form.id);
+
+      if (error) throw error;
+
+      toast({ title: form.is_active ? 'Questionário arquivado' : 'Questionário reativado' });
+      fetchForms();
+    } catch (error) {
+      console.error('Error updating anamnesis form:', error);
+      toast({ title: 'Erro ao atualizar questionário', variant: 'destructive' });
+    }
+  };
+
+  const handleDelete = async (form: AnamnesisForm) => {
+    const answered = responseCounts.get(form.id) || 0;
+    const message = answered > 0
+      ? `"${form.title}" já foi respondido por ${answered} paciente(s). As respostas são mantidas, mas o questionário deixa de existir. Excluir mesmo assim?`
+      : `Tem certeza que deseja excluir "${form.title}"?`;
+    if (!confirm(message)) return;
+
+    try {
+      const { error } = await supabase.from('anamnesis_forms').delete().eq('id', form.id);
+      if (error) throw error;
+
+      toast({ title: 'Questionário excluído!' });
+      fetchForms();
+    } catch (error) {
+      console.error('Error deleting anamnesis form:', error);
+      toast({ title: 'Erro ao excluir questionário', variant: 'destructive' });
+    }
+  };
+
+  const openDialog = (form: AnamnesisForm | null) => {
+    setEditingForm(form);
+    setDialogOpen(true);
+  };
+
+  if (loading) {
+    return (
+      <AdminLayout currentPage="/admin/patients">
+        <div className="flex items-center justify-center py-12">
+          <div className="w-12 h-12 rounded-xl gradient-primary animate-pulse" />
+        </div>
+      </AdminLayout>
+    );
+  }
+
+  return (
+    <AdminLayout currentPage="/admin/patients">
+      <div className="space-y-6 animate-fade-in">
+        <div className="flex items-start justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <Button variant="ghost" size="icon" onClick={() => navigate('/admin/patients')}>
+              <ArrowLeft className="w-5 h-5" />
+            </Button>
+            <div className="space-y-1">
+              <h1 className="text-2xl font-bold font-display">Anamnese</h1>
+              <p className="text-muted-foreground text-sm">
+                Questionários preenchidos pelos pacientes no portal
+              </p>
+            </div>
+          </div>
+          <Button size="icon" className="gradient-primary" onClick={() => openDialog(null)}>
+            <Plus className="w-5 h-5" />
+          </Button>
+        </div>
+
+        <div className="space-y-3">
+          {forms.length === 0 ? (
+            <Card className="card-elevated">
+              <CardContent className="py-8 text-center text-muted-foreground">
+                Nenhum questionário cadastrado
+              </CardContent>
+            </Card>
+          ) : (
+            forms.map((form) => {
+              const sections = parseSections(form.sections);
+              const questionCount = sections.reduce((sum, section) => sum + section.questions.length, 0);
+
+              return (
+                <Card key={form.id} className={`card-elevated ${form.is_active ? '' : 'opacity-60'}`}>
+                  <CardContent className="p-4">
+                    <div className="flex items-start justify-between gap-4">
+                      <div className="flex items-start gap-3">
+                        <div className="p-2 rounded-lg bg-secondary mt-1">
+                          <ClipboardCheck className="w-5 h-5 text-primary" />
+                        </div>
+                        <div>
+                          <p className="text-lg font-semibold text-primary">{form.title}</p>
+                          {form.description && (
+                            <p className="text-sm text-muted-foreground">{form.description}</p>
+                          )}
+                          <p className="text-xs text-muted-foreground">
+                            {sections.length} seção(ões) • {questionCount} pergunta(s) • {responseCounts.get(form.id) || 0} paciente(s) responderam
+                          </p>
+                        </div>
+                      </div>
+                      <div className="flex flex-col items-end gap-2">
+                        <div className="flex items-center gap-2">
+                          <Badge variant={form.is_active ? "default" : "secondary"}>
+                            {form.is_active ? "Ativo" : "Arquivado"}
+                          </Badge>
+                          <Switch
+                            checked={form.is_active}
+                            onCheckedChange={() => handleToggleActive(form)}
+                          />
+                        </div>
+                        <div className="flex gap-1">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            onClick={() => openDialog(form)}
+                          >
+                            <Pencil className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8 text-destructive hover:text-destructive"
+                            onClick={() => handleDelete(form)}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })
+          )}
+        </div>
+
+        <AnamnesisFormDialog
+          form={editingForm}
+          open={dialogOpen}
+          onOpenChange={setDialogOpen}
+          onSuccess={fetchForms}
+        />
+      </div>
+    </AdminLayout>
+  );
+}
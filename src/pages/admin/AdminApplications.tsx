@@ -1,7 +1,13 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { AdminLayout } from '@/components/admin/AdminLayout';
 import { PatientSelector } from '@/components/admin/PatientSelector';
 import { EditApplicationDialog } from '@/components/admin/EditApplicationDialog';
+import { RecurrenceFields } from '@/components/admin/RecurrenceFields';
+import { ApplicationTimeFields } from '@/components/admin/ApplicationTimeFields';
+import { ProfessionalSelector } from '@/components/admin/ProfessionalSelector';
+import { ApplicationSlotsDialog } from '@/components/admin/ApplicationSlotsDialog';
+import { SlotConflictWarnings } from '@/components/admin/SlotConflictWarnings';
+import { ChangeRequestsManager } from '@/components/admin/ChangeRequestsManager';
 import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -25,17 +31,30 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { Plus, Calendar, Trash2, Pencil } from 'lucide-react';
-import { format, parseISO, addDays, addWeeks, addMonths, isBefore, isEqual } from 'date-fns';
+import { format, parseISO } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 import { useToast } from '@/hooks/use-toast';
+import {
+  RecurrenceRule,
+  createRecurringSeries,
+  defaultRecurrenceRule,
+  generateOccurrences,
+  toSeriesRow,
+} from '@/lib/recurrence';
+import { DEFAULT_DURATION_MINUTES, formatTimeRange } from '@/lib/applicationSlots';
 
 interface Application {
   id: string;
   user_id: string;
   application_date: string;
+  start_time: string | null;
+  duration_minutes: number;
   status: string;
   notes: string | null;
+  series_id: string | null;
+  professional_id: string | null;
   patient_name?: string;
+  professional_name?: string;
 }
 
 interface Profile {
@@ -50,13 +69,15 @@ export default function AdminApplications() {
   const [dialogOpen, setDialogOpen] = useState(false);
   const [selectedPatient, setSelectedPatient] = useState('');
   const [applicationDate, setApplicationDate] = useState('');
+  const [startTime, setStartTime] = useState('');
+  const [durationMinutes, setDurationMinutes] = useState(DEFAULT_DURATION_MINUTES);
+  const [professionalId, setProfessionalId] = useState<string | null>(null);
+  const [conflictCount, setConflictCount] = useState(0);
   const [status, setStatus] = useState('scheduled');
   const [notes, setNotes] = useState('');
   const [saving, setSaving] = useState(false);
   const [isRecurring, setIsRecurring] = useState(false);
-  const [frequency, setFrequency] = useState('1x semana');
-  const [endDate, setEndDate] = useState('');
-  const [previewDates, setPreviewDates] = useState<Date[]>([]);
+  const [recurrenceRule, setRecurrenceRule] = useState<RecurrenceRule>(defaultRecurrenceRule());
   const [editDialogOpen, setEditDialogOpen] = useState(false);
   const [editingApplication, setEditingApplication] = useState<Application | null>(null);
 
@@ -64,21 +85,29 @@ export default function AdminApplications() {
     fetchApplications();
   }, []);
 
-  // Update preview dates when recurrence settings change
+  // Default the weekly rule to the weekday of the chosen start date
   useEffect(() => {
-    if (isRecurring && applicationDate && endDate) {
-      const startDateObj = parseISO(applicationDate);
-      const endDateObj = parseISO(endDate);
-      if (isBefore(startDateObj, endDateObj) || isEqual(startDateObj, endDateObj)) {
-        const dates = generateDates(startDateObj, endDateObj, frequency);
-        setPreviewDates(dates);
-      } else {
-        setPreviewDates([]);
-      }
-    } else {
-      setPreviewDates([]);
+    if (applicationDate) {
+      setRecurrenceRule(prev => ({ ...prev, weekdays: defaultRecurrenceRule(applicationDate).weekdays }));
     }
-  }, [isRecurring, applicationDate, endDate, frequency]);
+  }, [applicationDate]);
+
+  const occurrences = useMemo(
+    () => (isRecurring && applicationDate ? generateOccurrences(applicationDate, recurrenceRule) : []),
+    [isRecurring, applicationDate, recurrenceRule]
+  );
+
+  // What the form would book, checked against the agenda before saving
+  const bookings = useMemo(() => {
+    if (!selectedPatient || !applicationDate || !startTime) return [];
+    const dates = isRecurring ? occurrences.map(date => format(date, 'yyyy-MM-dd')) : [applicationDate];
+    return dates.map(date => ({
+      user_id: selectedPatient,
+      application_date: date,
+      start_time: startTime,
+      duration_minutes: durationMinutes,
+    }));
+  }, [selectedPatient, applicationDate, startTime, durationMinutes, isRecurring, occurrences]);
 
   const fetchApplications = async () => {
     try {
@@ -86,7 +115,8 @@ export default function AdminApplications() {
       const { data: appsData, error: appsError } = await supabase
         .from('applications')
         .select('*')
-        .order('application_date', { ascending: true });
+        .order('application_date', { ascending: true })
+        .order('start_time', { ascending: true, nullsFirst: true });
 
       if (appsError) throw appsError;
 
@@ -107,6 +137,7 @@ export default function AdminApplications() {
       const combinedData = (appsData || []).map((app) => ({
         ...app,
         patient_name: profilesMap.get(app.user_id) || 'Paciente',
+        professional_name: app.professional_id ? profilesMap.get(app.professional_id) : undefined,
       }));
 
       setApplications(combinedData);
@@ -117,67 +148,42 @@ export default function AdminApplications() {
     }
   };
 
-  const generateDates = (startDate: Date, endDate: Date, freq: string): Date[] => {
-    const dates: Date[] = [];
-    let currentDate = startDate;
-
-    while (isBefore(currentDate, endDate) || isEqual(currentDate, endDate)) {
-      dates.push(new Date(currentDate));
-      
-      switch (freq) {
-        case '1x semana':
-          currentDate = addWeeks(currentDate, 1);
-          break;
-        case '2x semana':
-          currentDate = addDays(currentDate, 3);
-          break;
-        case '1x quinzena':
-          currentDate = addWeeks(currentDate, 2);
-          break;
-        case '1x 3 semanas':
-          currentDate = addWeeks(currentDate, 3);
-          break;
-        case '1x mês':
-          currentDate = addMonths(currentDate, 1);
-          break;
-        default:
-          currentDate = addWeeks(currentDate, 1);
-      }
-    }
-
-    return dates;
-  };
-
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!selectedPatient || !applicationDate) return;
-    if (isRecurring && !endDate) {
-      toast({ title: 'Selecione a data final para recorrência', variant: 'destructive' });
+    if (isRecurring && occurrences.length === 0) {
+      toast({ title: 'Defina o término da recorrência', variant: 'destructive' });
       return;
     }
+    if (conflictCount > 0 && !confirm('Há conflitos de horário na agenda. Salvar mesmo assim?')) return;
 
     setSaving(true);
     try {
       if (isRecurring) {
-        const startDateObj = parseISO(applicationDate);
-        const endDateObj = parseISO(endDate);
-        const dates = generateDates(startDateObj, endDateObj, frequency);
-
-        const applicationsToInsert = dates.map(date => ({
+        const applicationsToInsert = occurrences.map(date => ({
           user_id: selectedPatient,
           application_date: format(date, 'yyyy-MM-dd'),
+          start_time: startTime || null,
+          duration_minutes: durationMinutes,
+          professional_id: professionalId,
           status,
           notes: notes || null,
         }));
 
-        const { error } = await supabase.from('applications').insert(applicationsToInsert);
-        if (error) throw error;
+        await createRecurringSeries(
+          supabase,
+          toSeriesRow(recurrenceRule, 'application', selectedPatient, applicationDate),
+          applicationsToInsert,
+        );
 
         toast({ title: `${applicationsToInsert.length} aplicações adicionadas com sucesso!` });
       } else {
         const { error } = await supabase.from('applications').insert({
           user_id: selectedPatient,
           application_date: applicationDate,
+          start_time: startTime || null,
+          duration_minutes: durationMinutes,
+          professional_id: professionalId,
           status,
           notes: notes || null,
         });
@@ -232,12 +238,13 @@ export default function AdminApplications() {
   const resetForm = () => {
     setSelectedPatient('');
     setApplicationDate('');
+    setStartTime('');
+    setDurationMinutes(DEFAULT_DURATION_MINUTES);
+    setProfessionalId(null);
     setStatus('scheduled');
     setNotes('');
     setIsRecurring(false);
-    setFrequency('1x semana');
-    setEndDate('');
-    setPreviewDates([]);
+    setRecurrenceRule(defaultRecurrenceRule());
   };
 
   const handleEdit = (app: Application) => {
@@ -265,109 +272,94 @@ export default function AdminApplications() {
               Gerencie as aplicações dos pacientes
             </p>
           </div>
-          <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
-            <DialogTrigger asChild>
-              <Button size="icon" className="gradient-primary">
-                <Plus className="w-5 h-5" />
-              </Button>
-            </DialogTrigger>
-            <DialogContent>
-              <DialogHeader>
-                <DialogTitle>Nova Aplicação</DialogTitle>
-              </DialogHeader>
-              <form onSubmit={handleSubmit} className="space-y-4">
-                <div className="space-y-2">
-                  <Label>Paciente</Label>
-                  <PatientSelector value={selectedPatient} onValueChange={setSelectedPatient} />
-                </div>
-                <div className="space-y-2">
-                  <Label>Data da Aplicação</Label>
-                  <Input
-                    type="date"
-                    value={applicationDate}
-                    onChange={(e) => setApplicationDate(e.target.value)}
-                    required
-                  />
-                </div>
-                <div className="flex items-center justify-between">
-                  <Label htmlFor="recurring">Aplicação Recorrente</Label>
-                  <Switch
-                    id="recurring"
-                    checked={isRecurring}
-                    onCheckedChange={setIsRecurring}
+          <div className="flex items-center gap-2">
+            <ApplicationSlotsDialog />
+            <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+              <DialogTrigger asChild>
+                <Button size="icon" className="gradient-primary">
+                  <Plus className="w-5 h-5" />
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                  <DialogTitle>Nova Aplicação</DialogTitle>
+                </DialogHeader>
+                <form onSubmit={handleSubmit} className="space-y-4">
+                  <div className="space-y-2">
+                    <Label>Paciente</Label>
+                    <PatientSelector value={selectedPatient} onValueChange={setSelectedPatient} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Data da Aplicação</Label>
+                    <Input
+                      type="date"
+                      value={applicationDate}
+                      onChange={(e) => setApplicationDate(e.target.value)}
+                      required
+                    />
+                  </div>
+                  <ApplicationTimeFields
+                    startTime={startTime}
+                    durationMinutes={durationMinutes}
+                    onStartTimeChange={setStartTime}
+                    onDurationChange={setDurationMinutes}
                   />
-                </div>
-                {isRecurring && (
-                  <>
-                    <div className="space-y-2">
-                      <Label>Frequência</Label>
-                      <Select value={frequency} onValueChange={setFrequency}>
-                        <SelectTrigger>
-                          <SelectValue />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="2x semana">2x por semana</SelectItem>
-                          <SelectItem value="1x semana">1x por semana</SelectItem>
-                          <SelectItem value="1x quinzena">1x por quinzena</SelectItem>
-                          <SelectItem value="1x 3 semanas">1x a cada 3 semanas</SelectItem>
-                          <SelectItem value="1x mês">1x por mês</SelectItem>
-                        </SelectContent>
-                      </Select>
-                    </div>
-                    <div className="space-y-2">
-                      <Label>Data Final</Label>
-                      <Input
-                        type="date"
-                        value={endDate}
-                        onChange={(e) => setEndDate(e.target.value)}
-                        min={applicationDate}
-                        required={isRecurring}
-                      />
-                    </div>
-                    {previewDates.length > 0 && (
-                      <div className="space-y-2">
-                        <Label>Datas que serão criadas ({previewDates.length})</Label>
-                        <div className="max-h-32 overflow-y-auto rounded-md border bg-muted/50 p-2 flex flex-wrap gap-2">
-                          {previewDates.map((date, index) => (
-                            <span key={index} className="status-scheduled">
-                              {format(date, "dd/MM/yyyy", { locale: ptBR })}
-                            </span>
-                          ))}
-                        </div>
-                      </div>
-                    )}
-                  </>
-                )}
-                <div className="space-y-2">
-                  <Label>Status</Label>
-                  <Select value={status} onValueChange={setStatus}>
-                    <SelectTrigger>
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="scheduled">Agendada</SelectItem>
-                      <SelectItem value="completed">Realizada</SelectItem>
-                      <SelectItem value="missed">Faltou</SelectItem>
-                      <SelectItem value="cancelled">Cancelada</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
-                <div className="space-y-2">
-                  <Label>Observações (opcional)</Label>
-                  <Textarea
-                    value={notes}
-                    onChange={(e) => setNotes(e.target.value)}
-                    placeholder="Adicione observações..."
+                  <ProfessionalSelector
+                    value={professionalId}
+                    onValueChange={setProfessionalId}
+                    date={applicationDate}
+                    time={startTime}
+                    durationMinutes={durationMinutes}
                   />
-                </div>
-                <Button type="submit" className="w-full gradient-primary" disabled={saving}>
-                  {saving ? 'Salvando...' : isRecurring ? 'Adicionar Aplicações' : 'Adicionar Aplicação'}
-                </Button>
-              </form>
-            </DialogContent>
-          </Dialog>
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="recurring">Aplicação Recorrente</Label>
+                    <Switch
+                      id="recurring"
+                      checked={isRecurring}
+                      onCheckedChange={setIsRecurring}
+                    />
+                  </div>
+                  {isRecurring && (
+                    <RecurrenceFields
+                      rule={recurrenceRule}
+                      onChange={setRecurrenceRule}
+                      startDate={applicationDate}
+                    />
+                  )}
+                  <div className="space-y-2">
+                    <Label>Status</Label>
+                    <Select value={status} onValueChange={setStatus}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="scheduled">Agendada</SelectItem>
+                        <SelectItem value="completed">Realizada</SelectItem>
+                        <SelectItem value="missed">Faltou</SelectItem>
+                        <SelectItem value="cancelled">Cancelada</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Observações (opcional)</Label>
+                    <Textarea
+                      value={notes}
+                      onChange={(e) => setNotes(e.target.value)}
+                      placeholder="Adicione observações..."
+                    />
+                  </div>
+                  <SlotConflictWarnings bookings={bookings} onConflictsChange={setConflictCount} />
+                  <Button type="submit" className="w-full gradient-primary" disabled={saving}>
+                    {saving ? 'Salvando...' : isRecurring ? 'Adicionar Aplicações' : 'Adicionar Aplicação'}
+                  </Button>
+                </form>
+              </DialogContent>
+            </Dialog>
+          </div>
         </div>
 
+        <ChangeRequestsManager onResolved={fetchApplications} />
+
         <div className="space-y-3">
           {applications.length === 0 ? (
             <Card className="card-elevated">
@@ -388,7 +380,11 @@ export default function AdminApplications() {
                         <p className="font-medium">{app.patient_name}</p>
                         <p className="text-sm text-muted-foreground">
                           {format(parseISO(app.application_date), "dd 'de' MMMM 'de' yyyy", { locale: ptBR })}
+                          {app.start_time && ` • ${formatTimeRange(app.start_time, app.duration_minutes)}`}
                         </p>
+                        {app.professional_name && (
+                          <p className="text-xs text-muted-foreground">Profissional: {app.professional_name}</p>
+                        )}
                       </div>
                     </div>
                     <div className="flex items-center gap-2">
@@ -2,6 +2,7 @@ import { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { AdminLayout } from '@/components/admin/AdminLayout';
 import { DataCard } from '@/components/ui/DataCard';
+import { StatusBadge } from '@/components/ui/StatusBadge';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { useAdmin } from '@/hooks/useAdmin';
 import { supabase } from '@/integrations/supabase/client';
@@ -17,10 +18,14 @@ import {
   AlertTriangle,
   DollarSign,
   Stethoscope,
-  CalendarClock
+  CalendarClock,
+  BarChart3
 } from 'lucide-react';
 import { format, parseISO } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
+import { PAYMENT_METHODS, PAYMENT_METHOD_LABELS, PaymentMethod, totalsByMethod } from '@/lib/payments';
+import { fetchAllPages } from '@/lib/pagination';
+import { UPCOMING_EVALUATION_STATUSES } from '@/lib/evaluationStatus';
 
 interface AdminStats {
   totalPatients: number;
@@ -35,6 +40,7 @@ interface FinancialStats {
   totalPending: number;
   totalOverdue: number;
   completedApplications: number;
+  receivedByMethod: Record<PaymentMethod | 'other', number>;
 }
 
 interface MedicalEvaluation {
@@ -62,6 +68,7 @@ export default function AdminDashboard() {
     totalPending: 0,
     totalOverdue: 0,
     completedApplications: 0,
+    receivedByMethod: totalsByMethod([]),
   });
   const [upcomingEvaluations, setUpcomingEvaluations] = useState<MedicalEvaluation[]>([]);
   const [loading, setLoading] = useState(true);
@@ -79,8 +86,8 @@ export default function AdminDashboard() {
       const [patients, applications, payments, medications, questions] = await Promise.all([
         supabase.from('profiles').select('*', { count: 'exact', head: true }),
         supabase.from('applications').select('*', { count: 'exact', head: true }).eq('status', 'scheduled'),
-        supabase.from('payments').select('*', { count: 'exact', head: true }).in('status', ['pending', 'overdue']),
-        supabase.from('medications').select('*', { count: 'exact', head: true }).eq('is_active', true),
+        supabase.from('payments').select('*', { count: 'exact', head: true }).in('status', ['pending', 'partial', 'overdue']),
+        supabase.from('medications_with_status').select('*', { count: 'exact', head: true }).eq('status', 'active'),
         supabase.from('questions_reports').select('*', { count: 'exact', head: true }).is('response', null),
       ]);
 
@@ -100,37 +107,43 @@ export default function AdminDashboard() {
 
   const fetchFinancialStats = async () => {
     try {
-      // Fetch all payments for financial statistics
-      const { data: payments } = await supabase
-        .from('payments')
-        .select('amount, status');
+      // Totals cover every payment and receipt, so both are read page by page
+      const [payments, transactions] = await Promise.all([
+        fetchAllPages((from, to) =>
+          supabase.from('payments').select('id, amount, amount_paid, status').order('id').range(from, to)
+        ),
+        fetchAllPages((from, to) =>
+          supabase.from('payment_transactions').select('id, amount, method').order('id').range(from, to)
+        ),
+      ]);
 
       // Fetch completed applications count
-      const { count: completedCount } = await supabase
+      const { count: completedCount, error: countError } = await supabase
         .from('applications')
         .select('*', { count: 'exact', head: true })
         .eq('status', 'completed');
 
-      if (payments) {
-        const totalReceived = payments
-          .filter(p => p.status === 'paid')
-          .reduce((sum, p) => sum + Number(p.amount), 0);
-        
-        const totalPending = payments
-          .filter(p => p.status === 'pending')
-          .reduce((sum, p) => sum + Number(p.amount), 0);
-        
-        const totalOverdue = payments
-          .filter(p => p.status === 'overdue')
-          .reduce((sum, p) => sum + Number(p.amount), 0);
+      if (countError) throw countError;
 
-        setFinancialStats({
-          totalReceived,
-          totalPending,
-          totalOverdue,
-          completedApplications: completedCount || 0,
-        });
-      }
+      const totalReceived = payments
+        .reduce((sum, p) => sum + Number(p.amount_paid), 0);
+
+      // Open balances: partial payments only count what is still owed
+      const totalPending = payments
+        .filter(p => p.status === 'pending' || p.status === 'partial')
+        .reduce((sum, p) => sum + Number(p.amount) - Number(p.amount_paid), 0);
+
+      const totalOverdue = payments
+        .filter(p => p.status === 'overdue')
+        .reduce((sum, p) => sum + Number(p.amount) - Number(p.amount_paid), 0);
+
+      setFinancialStats({
+        totalReceived,
+        totalPending,
+        totalOverdue,
+        completedApplications: completedCount || 0,
+        receivedByMethod: totalsByMethod(transactions),
+      });
     } catch (error) {
       console.error('Error fetching financial stats:', error);
     }
@@ -144,7 +157,7 @@ export default function AdminDashboard() {
         .from('medical_evaluations')
         .select('*')
         .gte('evaluation_date', today)
-        .eq('status', 'scheduled')
+        .in('status', UPCOMING_EVALUATION_STATUSES)
         .order('evaluation_date', { ascending: true })
         .order('evaluation_time', { ascending: true })
         .limit(5);
@@ -242,6 +255,14 @@ export default function AdminDashboard() {
                         {formatCurrency(financialStats.totalReceived)}
                       </p>
                     </div>
+                    <div className="grid grid-cols-2 gap-x-4 gap-y-1 mt-2 pl-6">
+                      {PAYMENT_METHODS.filter(method => financialStats.receivedByMethod[method] > 0).map(method => (
+                        <div key={method} className="flex items-center justify-between text-xs">
+                          <span className="text-muted-foreground">{PAYMENT_METHOD_LABELS[method]}</span>
+                          <span className="font-medium">{formatCurrency(financialStats.receivedByMethod[method])}</span>
+                        </div>
+                      ))}
+                    </div>
                   </div>
                   
                   <div className="p-3 rounded-lg bg-yellow-500/10 border border-yellow-500/20">
@@ -267,6 +288,15 @@ export default function AdminDashboard() {
                       </p>
                     </div>
                   </div>
+
+                  <button
+                    type="button"
+                    onClick={() => navigate('/admin/financial/reports')}
+                    className="flex items-center justify-center gap-2 text-sm text-primary hover:underline"
+                  >
+                    <BarChart3 className="w-4 h-4" />
+                    Ver relatórios por período
+                  </button>
                 </div>
               )}
             </CardContent>
@@ -309,6 +339,9 @@ export default function AdminDashboard() {
                       <p className="text-xs text-muted-foreground">
                         {evaluation.evaluation_time.slice(0, 5)}
                       </p>
+                      {evaluation.status !== 'scheduled' && (
+                        <StatusBadge status={evaluation.status} className="mt-1" />
+                      )}
                     </div>
                   </div>
                 ))}
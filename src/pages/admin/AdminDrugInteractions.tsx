@@ -0,0 +1,255 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { AdminLayout } from '@/components/admin/AdminLayout';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ArrowLeft, Plus, Trash2, Zap } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  DrugInteraction,
+  InteractionSeverity,
+  SEVERITY_CLASSNAMES,
+  SEVERITY_LABELS,
+  SEVERITY_ORDER,
+} from '@/lib/drugInteractions';
+
+export default function AdminDrugInteractions() {
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const [interactions, setInteractions] = useState<DrugInteraction[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [substanceA, setSubstanceA] = useState('');
+  const [substanceB, setSubstanceB] = useState('');
+  const [severity, setSeverity] = useState<InteractionSeverity>('moderate');
+  const [message, setMessage] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchInteractions();
+  }, []);
+
+  const fetchInteractions = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('drug_interactions')
+        .select('id, substance_a, substance_b, severity, message')
+        .order('substance_a');
+
+      if (error) throw error;
+
+      setInteractions(
+        (data || []).sort((a, b) =>
+          SEVERITY_ORDER.indexOf(a.severity as InteractionSeverity) - SEVERITY_ORDER.indexOf(b.severity as InteractionSeverity)
+        )
+      );
+    } catch (error) {
+      console.error('Error fetching drug interactions:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!substanceA.trim() || !substanceB.trim() || !message.trim()) return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.from('drug_interactions').insert({
+        substance_a: substanceA.trim(),
+        substance_b: substanceB.trim(),
+        severity,
+        message: message.trim(),
+      });
+
+      if (error) throw error;
+
+      toast({ title: 'Interação cadastrada!' });
+      setDialogOpen(false);
+      resetForm();
+      fetchInteractions();
+    } catch (error) {
+      console.error('Error adding drug interaction:', error);
+      toast({ title: 'Erro ao cadastrar interação', description: 'Verifique se o par já não está cadastrado.', variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Tem certeza que deseja excluir esta interação?')) return;
+
+    try {
+      const { error } = await supabase.from('drug_interactions').delete().eq('id', id);
+      if (error) throw error;
+
+      toast({ title: 'Interação excluída!' });
+      fetchInteractions();
+    } catch (error) {
+      console.error('Error deleting drug interaction:', error);
+      toast({ title: 'Erro ao excluir interação', variant: 'destructive' });
+    }
+  };
+
+  const resetForm = () => {
+    setSubstanceA('');
+    setSubstanceB('');
+    setSeverity('moderate');
+    setMessage('');
+  };
+
+  if (loading) {
+    return (
+      <AdminLayout currentPage="/admin/medications">
+        <div className="flex items-center justify-center py-12">
+          <div className="w-12 h-12 rounded-xl gradient-primary animate-pulse" />
+        </div>
+      </AdminLayout>
+    );
+  }
+
+  return (
+    <AdminLayout currentPage="/admin/medications">
+      <div className="space-y-6 animate-fade-in">
+        <div className="flex items-start justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <Button variant="ghost" size="icon" onClick={() => navigate('/admin/medications/catalog')}>
+              <ArrowLeft className="w-5 h-5" />
+            </Button>
+            <div className="space-y-1">
+              <h1 className="text-2xl font-bold font-display">Interações Medicamentosas</h1>
+              <p className="text-muted-foreground text-sm">
+                Verificadas ao prescrever, pelo nome ou princípio ativo
+              </p>
+            </div>
+          </div>
+          <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+            <DialogTrigger asChild>
+              <Button size="icon" className="gradient-primary">
+                <Plus className="w-5 h-5" />
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Nova Interação</DialogTitle>
+              </DialogHeader>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>Medicação ou princípio ativo</Label>
+                    <Input
+                      value={substanceA}
+                      onChange={(e) => setSubstanceA(e.target.value)}
+                      placeholder="Ex: Semaglutida"
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Interage com</Label>
+                    <Input
+                      value={substanceB}
+                      onChange={(e) => setSubstanceB(e.target.value)}
+                      placeholder="Ex: Insulina"
+                      required
+                    />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label>Gravidade</Label>
+                  <Select value={severity} onValueChange={(value) => setSeverity(value as InteractionSeverity)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {SEVERITY_ORDER.map((value) => (
+                        <SelectItem key={value} value={value}>
+                          {SEVERITY_LABELS[value]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Mensagem</Label>
+                  <Textarea
+                    value={message}
+                    onChange={(e) => setMessage(e.target.value)}
+                    placeholder="Risco e conduta recomendada..."
+                    required
+                  />
+                </div>
+                <Button type="submit" className="w-full gradient-primary" disabled={saving}>
+                  {saving ? 'Salvando...' : 'Adicionar Interação'}
+                </Button>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
+
+        <div className="space-y-3">
+          {interactions.length === 0 ? (
+            <Card className="card-elevated">
+              <CardContent className="py-8 text-center text-muted-foreground">
+                Nenhuma interação cadastrada
+              </CardContent>
+            </Card>
+          ) : (
+            interactions.map((interaction) => (
+              <Card key={interaction.id} className="card-elevated">
+                <CardContent className="p-4">
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="flex items-start gap-3">
+                      <div className="p-2 rounded-lg bg-secondary mt-1">
+                        <Zap className="w-5 h-5 text-primary" />
+                      </div>
+                      <div className="space-y-1">
+                        <p className="font-semibold">
+                          {interaction.substance_a} + {interaction.substance_b}
+                        </p>
+                        <Badge
+                          variant="outline"
+                          className={SEVERITY_CLASSNAMES[interaction.severity as InteractionSeverity]}
+                        >
+                          {SEVERITY_LABELS[interaction.severity as InteractionSeverity] || interaction.severity}
+                        </Badge>
+                        <p className="text-sm text-muted-foreground">{interaction.message}</p>
+                      </div>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-destructive hover:text-destructive"
+                      onClick={() => handleDelete(interaction.id)}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            ))
+          )}
+        </div>
+      </div>
+    </AdminLayout>
+  );
+}
@@ -1,11 +1,15 @@
 import { useEffect, useState } from 'react';
 import { AdminLayout } from '@/components/admin/AdminLayout';
+import { RecurrenceFields } from '@/components/admin/RecurrenceFields';
+import { EditEvaluationDialog } from '@/components/admin/EditEvaluationDialog';
+import { ProfessionalSelector } from '@/components/admin/ProfessionalSelector';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
-import { Badge } from '@/components/ui/badge';
+import { StatusBadge } from '@/components/ui/StatusBadge';
+import { Switch } from '@/components/ui/switch';
 import {
   Dialog,
   DialogContent,
@@ -33,6 +37,13 @@ import {
 } from '@/components/ui/alert-dialog';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import {
+  EVALUATION_STATUS_LABELS,
+  EvaluationStatus,
+  SELECTABLE_EVALUATION_STATUSES,
+  isUpcomingEvaluation,
+  requiresStatusReason,
+} from '@/lib/evaluationStatus';
 import { 
   Stethoscope, 
   Plus, 
@@ -41,10 +52,18 @@ import {
   Trash2, 
   CheckCircle2,
   CalendarClock,
+  Pencil,
   User
 } from 'lucide-react';
 import { format, parseISO } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
+import {
+  RecurrenceRule,
+  createRecurringSeries,
+  defaultRecurrenceRule,
+  generateOccurrences,
+  toSeriesRow,
+} from '@/lib/recurrence';
 
 interface MedicalEvaluation {
   id: string;
@@ -54,7 +73,11 @@ interface MedicalEvaluation {
   notes: string | null;
   status: string;
   created_at: string;
+  series_id: string | null;
+  professional_id: string | null;
+  status_reason: string | null;
   patientName?: string;
+  professionalName?: string;
 }
 
 interface Profile {
@@ -69,18 +92,32 @@ export default function AdminEvaluations() {
   const [loading, setLoading] = useState(true);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [deleteEvaluation, setDeleteEvaluation] = useState<MedicalEvaluation | null>(null);
+  const [editingEvaluation, setEditingEvaluation] = useState<MedicalEvaluation | null>(null);
   
   // Form state
   const [selectedPatient, setSelectedPatient] = useState('');
   const [evaluationDate, setEvaluationDate] = useState('');
   const [evaluationTime, setEvaluationTime] = useState('');
+  const [professionalId, setProfessionalId] = useState<string | null>(null);
   const [notes, setNotes] = useState('');
   const [saving, setSaving] = useState(false);
+  const [isRecurring, setIsRecurring] = useState(false);
+  const [recurrenceRule, setRecurrenceRule] = useState<RecurrenceRule>({
+    ...defaultRecurrenceRule(),
+    frequency: 'monthly',
+  });
 
   useEffect(() => {
     fetchData();
   }, []);
 
+  // Default the weekly rule to the weekday of the chosen date
+  useEffect(() => {
+    if (evaluationDate) {
+      setRecurrenceRule(prev => ({ ...prev, weekdays: defaultRecurrenceRule(evaluationDate).weekdays }));
+    }
+  }, [evaluationDate]);
+
   const fetchData = async () => {
     try {
       const [evaluationsRes, profilesRes] = await Promise.all([
@@ -102,7 +139,8 @@ export default function AdminEvaluations() {
 
       const evaluationsWithNames = (evaluationsRes.data || []).map(e => ({
         ...e,
-        patientName: profileMap.get(e.user_id) || 'Paciente'
+        patientName: profileMap.get(e.user_id) || 'Paciente',
+        professionalName: e.professional_id ? profileMap.get(e.professional_id) : undefined
       }));
 
       setEvaluations(evaluationsWithNames);
@@ -129,23 +167,51 @@ export default function AdminEvaluations() {
       return;
     }
 
+    const dates = isRecurring ? generateOccurrences(evaluationDate, recurrenceRule) : [];
+    if (isRecurring && dates.length === 0) {
+      toast({
+        title: "Erro",
+        description: "Defina o término da recorrência",
+        variant: "destructive",
+      });
+      return;
+    }
+
     setSaving(true);
     try {
-      const { error } = await supabase
-        .from('medical_evaluations')
-        .insert({
-          user_id: selectedPatient,
-          evaluation_date: evaluationDate,
-          evaluation_time: evaluationTime,
-          notes: notes || null,
-          status: 'scheduled'
-        });
-
-      if (error) throw error;
+      if (isRecurring) {
+        await createRecurringSeries(
+          supabase,
+          toSeriesRow(recurrenceRule, 'evaluation', selectedPatient, evaluationDate),
+          dates.map(date => ({
+            user_id: selectedPatient,
+            evaluation_date: format(date, 'yyyy-MM-dd'),
+            evaluation_time: evaluationTime,
+            professional_id: professionalId,
+            notes: notes || null,
+            status: 'scheduled',
+          })),
+        );
+      } else {
+        const { error } = await supabase
+          .from('medical_evaluations')
+          .insert({
+            user_id: selectedPatient,
+            evaluation_date: evaluationDate,
+            evaluation_time: evaluationTime,
+            professional_id: professionalId,
+            notes: notes || null,
+            status: 'scheduled'
+          });
+
+        if (error) throw error;
+      }
 
       toast({
         title: "Sucesso",
-        description: "Avaliação agendada com sucesso",
+        description: isRecurring
+          ? `${dates.length} avaliações agendadas com sucesso`
+          : "Avaliação agendada com sucesso",
       });
 
       setIsDialogOpen(false);
@@ -191,20 +257,26 @@ export default function AdminEvaluations() {
     }
   };
 
-  const handleToggleStatus = async (evaluation: MedicalEvaluation) => {
-    const newStatus = evaluation.status === 'scheduled' ? 'completed' : 'scheduled';
+  const handleStatusChange = async (evaluation: MedicalEvaluation, newStatus: EvaluationStatus) => {
+    let statusReason: string | null = null;
+
+    if (requiresStatusReason(newStatus)) {
+      const reason = prompt(`Motivo (${EVALUATION_STATUS_LABELS[newStatus].toLowerCase()}):`);
+      if (reason === null) return;
+      statusReason = reason.trim() || null;
+    }
 
     try {
       const { error } = await supabase
         .from('medical_evaluations')
-        .update({ status: newStatus })
+        .update({ status: newStatus, status_reason: statusReason })
         .eq('id', evaluation.id);
 
       if (error) throw error;
 
       toast({
         title: "Sucesso",
-        description: `Avaliação marcada como ${newStatus === 'completed' ? 'concluída' : 'agendada'}`,
+        description: `Avaliação marcada como ${EVALUATION_STATUS_LABELS[newStatus].toLowerCase()}`,
       });
 
       fetchData();
@@ -222,11 +294,84 @@ export default function AdminEvaluations() {
     setSelectedPatient('');
     setEvaluationDate('');
     setEvaluationTime('');
+    setProfessionalId(null);
     setNotes('');
+    setIsRecurring(false);
+    setRecurrenceRule({ ...defaultRecurrenceRule(), frequency: 'monthly' });
   };
 
-  const scheduledEvaluations = evaluations.filter(e => e.status === 'scheduled');
-  const completedEvaluations = evaluations.filter(e => e.status === 'completed');
+  const scheduledEvaluations = evaluations.filter(e => isUpcomingEvaluation(e.status));
+  const closedEvaluations = evaluations.filter(e => !isUpcomingEvaluation(e.status));
+
+  const EvaluationRow = ({ evaluation }: { evaluation: MedicalEvaluation }) => {
+    const upcoming = isUpcomingEvaluation(evaluation.status);
+
+    return (
+      <div
+        className={`flex items-center justify-between p-4 rounded-lg border border-border ${upcoming ? 'bg-secondary/50' : 'bg-secondary/30 opacity-75'}`}
+      >
+        <div className="flex items-center gap-4">
+          <div className={`p-2 rounded-lg ${upcoming ? 'bg-primary/10' : 'bg-green-500/10'}`}>
+            <User className={`w-5 h-5 ${upcoming ? 'text-primary' : 'text-green-500'}`} />
+          </div>
+          <div>
+            <p className="font-medium">{evaluation.patientName}</p>
+            {evaluation.professionalName && (
+              <p className="text-xs text-muted-foreground">Profissional: {evaluation.professionalName}</p>
+            )}
+            {evaluation.status_reason && (
+              <p className="text-xs text-muted-foreground">Motivo: {evaluation.status_reason}</p>
+            )}
+            {evaluation.notes && (
+              <p className="text-xs text-muted-foreground">{evaluation.notes}</p>
+            )}
+          </div>
+        </div>
+        <div className="flex items-center gap-4">
+          <div className="text-right">
+            <div className="flex items-center gap-1 text-sm">
+              <Calendar className="w-4 h-4 text-muted-foreground" />
+              {format(parseISO(evaluation.evaluation_date), "dd/MM/yyyy", { locale: ptBR })}
+            </div>
+            <div className="flex items-center gap-1 text-sm text-muted-foreground">
+              <Clock className="w-4 h-4" />
+              {evaluation.evaluation_time.slice(0, 5)}
+            </div>
+          </div>
+          <Select
+            value={evaluation.status}
+            onValueChange={(value) => handleStatusChange(evaluation, value as EvaluationStatus)}
+          >
+            <SelectTrigger className="w-36 h-8">
+              <StatusBadge status={evaluation.status} />
+            </SelectTrigger>
+            <SelectContent>
+              {SELECTABLE_EVALUATION_STATUSES.map((option) => (
+                <SelectItem key={option} value={option}>{EVALUATION_STATUS_LABELS[option]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="flex gap-2">
+            <Button
+              size="icon"
+              variant="ghost"
+              onClick={() => setEditingEvaluation(evaluation)}
+            >
+              <Pencil className="w-4 h-4" />
+            </Button>
+            <Button
+              size="icon"
+              variant="ghost"
+              className="text-destructive hover:text-destructive hover:bg-destructive/10"
+              onClick={() => setDeleteEvaluation(evaluation)}
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      </div>
+    );
+  };
 
   if (loading) {
     return (
@@ -260,7 +405,7 @@ export default function AdminEvaluations() {
                 Nova Avaliação
               </Button>
             </DialogTrigger>
-            <DialogContent>
+            <DialogContent className="max-h-[90vh] overflow-y-auto">
               <DialogHeader>
                 <DialogTitle>Agendar Avaliação Médica</DialogTitle>
               </DialogHeader>
@@ -300,6 +445,29 @@ export default function AdminEvaluations() {
                   </div>
                 </div>
 
+                <ProfessionalSelector
+                  value={professionalId}
+                  onValueChange={setProfessionalId}
+                  date={evaluationDate}
+                  time={evaluationTime}
+                />
+
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="recurring">Avaliação Recorrente</Label>
+                  <Switch
+                    id="recurring"
+                    checked={isRecurring}
+                    onCheckedChange={setIsRecurring}
+                  />
+                </div>
+                {isRecurring && (
+                  <RecurrenceFields
+                    rule={recurrenceRule}
+                    onChange={setRecurrenceRule}
+                    startDate={evaluationDate}
+                  />
+                )}
+
                 <div className="space-y-2">
                   <Label>Observações</Label>
                   <Textarea
@@ -333,56 +501,7 @@ export default function AdminEvaluations() {
             {scheduledEvaluations.length > 0 ? (
               <div className="space-y-3">
                 {scheduledEvaluations.map((evaluation) => (
-                  <div 
-                    key={evaluation.id}
-                    className="flex items-center justify-between p-4 rounded-lg bg-secondary/50 border border-border"
-                  >
-                    <div className="flex items-center gap-4">
-                      <div className="p-2 rounded-lg bg-primary/10">
-                        <User className="w-5 h-5 text-primary" />
-                      </div>
-                      <div>
-                        <p className="font-medium">{evaluation.patientName}</p>
-                        {evaluation.notes && (
-                          <p className="text-xs text-muted-foreground">{evaluation.notes}</p>
-                        )}
-                      </div>
-                    </div>
-                    <div className="flex items-center gap-4">
-                      <div className="text-right">
-                        <div className="flex items-center gap-1 text-sm">
-                          <Calendar className="w-4 h-4 text-muted-foreground" />
-                          {format(parseISO(evaluation.evaluation_date), "dd/MM/yyyy", { locale: ptBR })}
-                        </div>
-                        <div className="flex items-center gap-1 text-sm text-muted-foreground">
-                          <Clock className="w-4 h-4" />
-                          {evaluation.evaluation_time.slice(0, 5)}
-                        </div>
-                      </div>
-                      <Badge variant="outline" className="bg-yellow-500/10 text-yellow-500 border-yellow-500/20">
-                        Agendada
-                      </Badge>
-                      <div className="flex gap-2">
-                        <Button
-                          size="icon"
-                          variant="ghost"
-                          className="text-green-500 hover:text-green-600 hover:bg-green-500/10"
-                          onClick={() => handleToggleStatus(evaluation)}
-                          title="Marcar como concluída"
-                        >
-                          <CheckCircle2 className="w-4 h-4" />
-                        </Button>
-                        <Button
-                          size="icon"
-                          variant="ghost"
-                          className="text-destructive hover:text-destructive hover:bg-destructive/10"
-                          onClick={() => setDeleteEvaluation(evaluation)}
-                        >
-                          <Trash2 className="w-4 h-4" />
-                        </Button>
-                      </div>
-                    </div>
-                  </div>
+                  <EvaluationRow key={evaluation.id} evaluation={evaluation} />
                 ))}
               </div>
             ) : (
@@ -394,80 +513,38 @@ export default function AdminEvaluations() {
           </CardContent>
         </Card>
 
-        {/* Completed Evaluations */}
+        {/* Closed Evaluations */}
         <Card className="card-elevated">
           <CardHeader className="pb-2">
             <CardTitle className="text-lg font-display flex items-center gap-2">
               <CheckCircle2 className="w-5 h-5 text-green-500" />
-              Concluídas ({completedEvaluations.length})
+              Encerradas ({closedEvaluations.length})
             </CardTitle>
           </CardHeader>
           <CardContent>
-            {completedEvaluations.length > 0 ? (
+            {closedEvaluations.length > 0 ? (
               <div className="space-y-3">
-                {completedEvaluations.map((evaluation) => (
-                  <div 
-                    key={evaluation.id}
-                    className="flex items-center justify-between p-4 rounded-lg bg-secondary/30 border border-border opacity-75"
-                  >
-                    <div className="flex items-center gap-4">
-                      <div className="p-2 rounded-lg bg-green-500/10">
-                        <User className="w-5 h-5 text-green-500" />
-                      </div>
-                      <div>
-                        <p className="font-medium">{evaluation.patientName}</p>
-                        {evaluation.notes && (
-                          <p className="text-xs text-muted-foreground">{evaluation.notes}</p>
-                        )}
-                      </div>
-                    </div>
-                    <div className="flex items-center gap-4">
-                      <div className="text-right">
-                        <div className="flex items-center gap-1 text-sm">
-                          <Calendar className="w-4 h-4 text-muted-foreground" />
-                          {format(parseISO(evaluation.evaluation_date), "dd/MM/yyyy", { locale: ptBR })}
-                        </div>
-                        <div className="flex items-center gap-1 text-sm text-muted-foreground">
-                          <Clock className="w-4 h-4" />
-                          {evaluation.evaluation_time.slice(0, 5)}
-                        </div>
-                      </div>
-                      <Badge variant="outline" className="bg-green-500/10 text-green-500 border-green-500/20">
-                        Concluída
-                      </Badge>
-                      <div className="flex gap-2">
-                        <Button
-                          size="icon"
-                          variant="ghost"
-                          className="text-yellow-500 hover:text-yellow-600 hover:bg-yellow-500/10"
-                          onClick={() => handleToggleStatus(evaluation)}
-                          title="Voltar para agendada"
-                        >
-                          <CalendarClock className="w-4 h-4" />
-                        </Button>
-                        <Button
-                          size="icon"
-                          variant="ghost"
-                          className="text-destructive hover:text-destructive hover:bg-destructive/10"
-                          onClick={() => setDeleteEvaluation(evaluation)}
-                        >
-                          <Trash2 className="w-4 h-4" />
-                        </Button>
-                      </div>
-                    </div>
-                  </div>
+                {closedEvaluations.map((evaluation) => (
+                  <EvaluationRow key={evaluation.id} evaluation={evaluation} />
                 ))}
               </div>
             ) : (
               <div className="text-center py-8 text-muted-foreground">
                 <CheckCircle2 className="w-10 h-10 mx-auto mb-2 opacity-50" />
-                <p>Nenhuma avaliação concluída</p>
+                <p>Nenhuma avaliação encerrada</p>
               </div>
             )}
           </CardContent>
         </Card>
       </div>
 
+      <EditEvaluationDialog
+        evaluation={editingEvaluation}
+        open={!!editingEvaluation}
+        onOpenChange={(open) => !open && setEditingEvaluation(null)}
+        onSuccess={fetchData}
+      />
+
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={!!deleteEvaluation} onOpenChange={() => setDeleteEvaluation(null)}>
         <AlertDialogContent>
@@ -3,8 +3,11 @@ import { useNavigate } from 'react-router-dom';
 import { AdminLayout } from '@/components/admin/AdminLayout';
 import { PatientSelector } from '@/components/admin/PatientSelector';
 import { EditPaymentDialog } from '@/components/admin/EditPaymentDialog';
+import { PaymentTransactionsDialog } from '@/components/admin/PaymentTransactionsDialog';
 import { FinancialUnlockBanner } from '@/components/admin/FinancialUnlockBanner';
 import { UnlockRequestsManager } from '@/components/admin/UnlockRequestsManager';
+import { RecurrenceFields } from '@/components/admin/RecurrenceFields';
+import { TaxStatementDialog } from '@/components/financial/TaxStatementDialog';
 import { useAdmin } from '@/hooks/useAdmin';
 import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
@@ -14,13 +17,6 @@ import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent } from '@/components/ui/card';
 import { StatusBadge } from '@/components/ui/StatusBadge';
 import { Switch } from '@/components/ui/switch';
-import {
-  Dialog,
-  DialogContent,
-  DialogHeader,
-  DialogTitle,
-  DialogTrigger,
-} from '@/components/ui/dialog';
 import {
   Select,
   SelectContent,
@@ -28,25 +24,60 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { Plus, CreditCard, Trash2, Pencil, Lock } from 'lucide-react';
-import { format, parseISO, addDays, addWeeks, addMonths, isBefore, isEqual, isAfter } from 'date-fns';
-import { ptBR } from 'date-fns/locale';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Plus, CreditCard, Trash2, Pencil, Lock, HandCoins, Landmark, FileText, BarChart3 } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
 import { useToast } from '@/hooks/use-toast';
+import {
+  RecurrenceRule,
+  createRecurringSeries,
+  defaultRecurrenceRule,
+  generateOccurrences,
+  toSeriesRow,
+} from '@/lib/recurrence';
+import {
+  PAYMENT_METHODS,
+  PAYMENT_METHOD_LABELS,
+  PaymentMethod,
+  paymentMethodLabel,
+  totalsByMethod,
+} from '@/lib/payments';
+import { downloadReceipt } from '@/lib/receipts';
+import { fetchAllPages } from '@/lib/pagination';
 
 interface Payment {
   id: string;
   user_id: string;
   amount: number;
+  amount_paid: number;
   due_date: string;
   status: string;
   description: string | null;
   paid_date: string | null;
+  series_id: string | null;
+  pix_txid: string;
+  receipt_number: number | null;
   patient_name?: string;
+  patient_cpf?: string | null;
+  methods?: (PaymentMethod | null)[];
+}
+
+interface PaymentTransaction {
+  payment_id: string;
+  amount: number;
+  method: PaymentMethod | null;
 }
 
 interface Profile {
   user_id: string;
   full_name: string;
+  cpf: string | null;
 }
 
 export default function AdminFinancial() {
@@ -54,24 +85,28 @@ export default function AdminFinancial() {
   const navigate = useNavigate();
   const { hasFinancialAccess, isMaster, loading: adminLoading } = useAdmin();
   const [payments, setPayments] = useState<Payment[]>([]);
+  const [transactions, setTransactions] = useState<PaymentTransaction[]>([]);
+  const [methodFilter, setMethodFilter] = useState<PaymentMethod | 'all'>('all');
   const [loading, setLoading] = useState(true);
   const [dialogOpen, setDialogOpen] = useState(false);
   const [selectedPatient, setSelectedPatient] = useState('');
   const [amount, setAmount] = useState('');
   const [dueDate, setDueDate] = useState('');
-  const [status, setStatus] = useState('pending');
   const [description, setDescription] = useState('');
   const [saving, setSaving] = useState(false);
   const [isRecurring, setIsRecurring] = useState(false);
-  const [frequency, setFrequency] = useState('1x semana');
-  const [endDate, setEndDate] = useState('');
-  const [previewDates, setPreviewDates] = useState<Date[]>([]);
+  const [recurrenceRule, setRecurrenceRule] = useState<RecurrenceRule>({
+    ...defaultRecurrenceRule(),
+    frequency: 'monthly',
+  });
   const [editDialogOpen, setEditDialogOpen] = useState(false);
   const [editingPayment, setEditingPayment] = useState<Payment | null>(null);
+  const [transactionsDialogOpen, setTransactionsDialogOpen] = useState(false);
+  const [receivingPayment, setReceivingPayment] = useState<Payment | null>(null);
   const [isAmountEditUnlocked, setIsAmountEditUnlocked] = useState(false);
 
   // Determine if user can edit amounts (master always can, admin only if unlocked)
-  // Other actions (create, delete, status change) are always allowed for financial users
+  // Other actions (create, delete, receipts) are always allowed for financial users
   const canEditAmount = isMaster || isAmountEditUnlocked;
 
   const handleUnlockStatusChange = useCallback((unlocked: boolean) => {
@@ -91,115 +126,52 @@ export default function AdminFinancial() {
     }
   }, [hasFinancialAccess]);
 
-  // Update preview dates when recurrence settings change
+  // Default the weekly rule to the weekday of the chosen due date
   useEffect(() => {
-    if (isRecurring && dueDate && endDate) {
-      const startDateObj = parseISO(dueDate);
-      const endDateObj = parseISO(endDate);
-      if (isBefore(startDateObj, endDateObj) || isEqual(startDateObj, endDateObj)) {
-        const dates = generateDates(startDateObj, endDateObj, frequency);
-        setPreviewDates(dates);
-      } else {
-        setPreviewDates([]);
-      }
-    } else {
-      setPreviewDates([]);
-    }
-  }, [isRecurring, dueDate, endDate, frequency]);
-
-  const generateDates = (startDate: Date, endDateParam: Date, freq: string): Date[] => {
-    const dates: Date[] = [];
-    let currentDate = startDate;
-
-    while (isBefore(currentDate, endDateParam) || isEqual(currentDate, endDateParam)) {
-      dates.push(new Date(currentDate));
-      
-      switch (freq) {
-        case '1x semana':
-          currentDate = addWeeks(currentDate, 1);
-          break;
-        case '2x semana':
-          currentDate = addDays(currentDate, 3);
-          break;
-        case '1x quinzena':
-          currentDate = addWeeks(currentDate, 2);
-          break;
-        case '1x 3 semanas':
-          currentDate = addWeeks(currentDate, 3);
-          break;
-        case '1x mês':
-          currentDate = addMonths(currentDate, 1);
-          break;
-        default:
-          currentDate = addWeeks(currentDate, 1);
-      }
+    if (dueDate) {
+      setRecurrenceRule(prev => ({ ...prev, weekdays: defaultRecurrenceRule(dueDate).weekdays }));
     }
-
-    return dates;
-  };
+  }, [dueDate]);
 
   const fetchPayments = async () => {
     try {
-      // Fetch payments
-      const { data: paymentsData, error: paymentsError } = await supabase
-        .from('payments')
-        .select('*')
-        .order('due_date', { ascending: true });
-
-      if (paymentsError) throw paymentsError;
-
-      // Fetch profiles
-      const { data: profilesData, error: profilesError } = await supabase
-        .from('profiles')
-        .select('user_id, full_name');
-
-      if (profilesError) throw profilesError;
+      // Totals are computed over every row, so each table is read page by page
+      const [paymentsData, profilesData, transactionsData] = await Promise.all([
+        fetchAllPages((from, to) =>
+          supabase
+            .from('payments')
+            .select('*')
+            .order('due_date', { ascending: true })
+            .order('id')
+            .range(from, to)
+        ),
+        fetchAllPages((from, to) =>
+          supabase.from('profiles').select('user_id, full_name, cpf').order('user_id').range(from, to)
+        ),
+        // Receipts tell how each payment was settled
+        fetchAllPages((from, to) =>
+          supabase.from('payment_transactions').select('id, payment_id, amount, method').order('id').range(from, to)
+        ),
+      ]);
 
       // Create a map
-      const profilesMap = new Map<string, string>();
-      (profilesData || []).forEach((p: Profile) => {
-        profilesMap.set(p.user_id, p.full_name);
-      });
-
-      // Check for overdue payments and update them
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-
-      const paymentsToUpdate = (paymentsData || []).filter(payment => {
-        if (payment.status === 'pending') {
-          const paymentDueDate = parseISO(payment.due_date);
-          return isAfter(today, paymentDueDate);
-        }
-        return false;
+      const profilesMap = new Map<string, Profile>();
+      profilesData.forEach((p: Profile) => {
+        profilesMap.set(p.user_id, p);
       });
 
-      // Update overdue payments in the database
-      if (paymentsToUpdate.length > 0) {
-        for (const payment of paymentsToUpdate) {
-          await supabase
-            .from('payments')
-            .update({ status: 'overdue' })
-            .eq('id', payment.id);
-        }
-      }
-
-      // Combine data with updated status
-      const combinedData = (paymentsData || []).map((payment) => {
-        let finalStatus = payment.status;
-        if (payment.status === 'pending') {
-          const paymentDueDate = parseISO(payment.due_date);
-          if (isAfter(today, paymentDueDate)) {
-            finalStatus = 'overdue';
-          }
-        }
-        return {
-          ...payment,
-          status: finalStatus,
-          patient_name: profilesMap.get(payment.user_id) || 'Paciente',
-        };
-      });
+      // Status is derived by the database from the receipts ledger and the due date
+      const combinedData = paymentsData.map((payment) => ({
+        ...payment,
+        patient_name: profilesMap.get(payment.user_id)?.full_name || 'Paciente',
+        patient_cpf: profilesMap.get(payment.user_id)?.cpf,
+        methods: [...new Set(
+          transactionsData.filter(t => t.payment_id === payment.id).map(t => t.method)
+        )],
+      }));
 
       setPayments(combinedData);
+      setTransactions(transactionsData);
     } catch (error) {
       console.error('Error fetching payments:', error);
     } finally {
@@ -210,28 +182,27 @@ export default function AdminFinancial() {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!selectedPatient || !amount || !dueDate) return;
-    if (isRecurring && !endDate) {
-      toast({ title: 'Selecione a data final para recorrência', variant: 'destructive' });
+    const dates = isRecurring ? generateOccurrences(dueDate, recurrenceRule) : [];
+    if (isRecurring && dates.length === 0) {
+      toast({ title: 'Defina o término da recorrência', variant: 'destructive' });
       return;
     }
 
     setSaving(true);
     try {
       if (isRecurring) {
-        const startDateObj = parseISO(dueDate);
-        const endDateObj = parseISO(endDate);
-        const dates = generateDates(startDateObj, endDateObj, frequency);
-
         const paymentsToInsert = dates.map(date => ({
           user_id: selectedPatient,
           amount: parseFloat(amount),
           due_date: format(date, 'yyyy-MM-dd'),
-          status,
           description: description || null,
         }));
 
-        const { error } = await supabase.from('payments').insert(paymentsToInsert);
-        if (error) throw error;
+        await createRecurringSeries(
+          supabase,
+          toSeriesRow(recurrenceRule, 'payment', selectedPatient, dueDate),
+          paymentsToInsert,
+        );
 
         toast({ title: `${paymentsToInsert.length} pagamentos adicionados com sucesso!` });
       } else {
@@ -239,7 +210,6 @@ export default function AdminFinancial() {
           user_id: selectedPatient,
           amount: parseFloat(amount),
           due_date: dueDate,
-          status,
           description: description || null,
         });
 
@@ -258,26 +228,6 @@ export default function AdminFinancial() {
     }
   };
 
-  const handleStatusChange = async (id: string, newStatus: string) => {
-    try {
-      const updateData: { status: string; paid_date?: string | null } = { status: newStatus };
-      if (newStatus === 'paid') {
-        updateData.paid_date = new Date().toISOString().split('T')[0];
-      } else {
-        updateData.paid_date = null;
-      }
-
-      const { error } = await supabase.from('payments').update(updateData).eq('id', id);
-      if (error) throw error;
-
-      toast({ title: 'Status atualizado!' });
-      fetchPayments();
-    } catch (error) {
-      console.error('Error updating payment:', error);
-      toast({ title: 'Erro ao atualizar status', variant: 'destructive' });
-    }
-  };
-
   const handleDelete = async (id: string) => {
     if (!confirm('Tem certeza que deseja excluir este pagamento?')) return;
 
@@ -297,12 +247,9 @@ export default function AdminFinancial() {
     setSelectedPatient('');
     setAmount('');
     setDueDate('');
-    setStatus('pending');
     setDescription('');
     setIsRecurring(false);
-    setFrequency('1x semana');
-    setEndDate('');
-    setPreviewDates([]);
+    setRecurrenceRule({ ...defaultRecurrenceRule(), frequency: 'monthly' });
   };
 
   const handleEdit = (payment: Payment) => {
@@ -310,10 +257,38 @@ export default function AdminFinancial() {
     setEditDialogOpen(true);
   };
 
+  const handleDownloadReceipt = async (payment: Payment) => {
+    if (!payment.receipt_number || !payment.paid_date) return;
+
+    try {
+      await downloadReceipt({
+        receiptNumber: payment.receipt_number,
+        patientName: payment.patient_name || '',
+        patientCpf: payment.patient_cpf || null,
+        amount: Number(payment.amount),
+        paidDate: payment.paid_date,
+        description: payment.description,
+      });
+    } catch (error) {
+      console.error('Error generating receipt:', error);
+      toast({ title: 'Erro ao gerar recibo', variant: 'destructive' });
+    }
+  };
+
+  const handleReceive = (payment: Payment) => {
+    setReceivingPayment(payment);
+    setTransactionsDialogOpen(true);
+  };
+
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
   };
 
+  const methodTotals = totalsByMethod(transactions);
+  const filteredPayments = methodFilter === 'all'
+    ? payments
+    : payments.filter(p => p.methods?.includes(methodFilter));
+
   if (loading) {
     return (
       <AdminLayout currentPage="/admin/financial">
@@ -334,117 +309,82 @@ export default function AdminFinancial() {
               Gerencie os pagamentos dos pacientes
             </p>
           </div>
-          <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
-            <DialogTrigger asChild>
-              <Button size="icon" className="gradient-primary">
-                <Plus className="w-5 h-5" />
-              </Button>
-            </DialogTrigger>
-            <DialogContent>
-              <DialogHeader>
-                <DialogTitle>Novo Pagamento</DialogTitle>
-              </DialogHeader>
-              <form onSubmit={handleSubmit} className="space-y-4">
-                <div className="space-y-2">
-                  <Label>Paciente</Label>
-                  <PatientSelector value={selectedPatient} onValueChange={setSelectedPatient} />
-                </div>
-                <div className="space-y-2">
-                  <Label>Valor (R$)</Label>
-                  <Input
-                    type="number"
-                    step="0.01"
-                    value={amount}
-                    onChange={(e) => setAmount(e.target.value)}
-                    placeholder="0,00"
-                    required
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label>Data de Vencimento</Label>
-                  <Input
-                    type="date"
-                    value={dueDate}
-                    onChange={(e) => setDueDate(e.target.value)}
-                    required
-                  />
-                </div>
-                <div className="flex items-center justify-between">
-                  <Label htmlFor="recurring">Pagamento Recorrente</Label>
-                  <Switch
-                    id="recurring"
-                    checked={isRecurring}
-                    onCheckedChange={setIsRecurring}
-                  />
-                </div>
-                {isRecurring && (
-                  <>
-                    <div className="space-y-2">
-                      <Label>Frequência</Label>
-                      <Select value={frequency} onValueChange={setFrequency}>
-                        <SelectTrigger>
-                          <SelectValue />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="2x semana">2x por semana</SelectItem>
-                          <SelectItem value="1x semana">1x por semana</SelectItem>
-                          <SelectItem value="1x quinzena">1x por quinzena</SelectItem>
-                          <SelectItem value="1x 3 semanas">1x a cada 3 semanas</SelectItem>
-                          <SelectItem value="1x mês">1x por mês</SelectItem>
-                        </SelectContent>
-                      </Select>
-                    </div>
-                    <div className="space-y-2">
-                      <Label>Data Final</Label>
-                      <Input
-                        type="date"
-                        value={endDate}
-                        onChange={(e) => setEndDate(e.target.value)}
-                        min={dueDate}
-                        required={isRecurring}
-                      />
-                    </div>
-                    {previewDates.length > 0 && (
-                      <div className="space-y-2">
-                        <Label>Datas que serão criadas ({previewDates.length})</Label>
-                        <div className="max-h-32 overflow-y-auto rounded-md border bg-muted/50 p-2 flex flex-wrap gap-2">
-                          {previewDates.map((date, index) => (
-                            <span key={index} className="status-pending">
-                              {format(date, "dd/MM/yyyy", { locale: ptBR })}
-                            </span>
-                          ))}
-                        </div>
-                      </div>
-                    )}
-                  </>
-                )}
-                <div className="space-y-2">
-                  <Label>Status</Label>
-                  <Select value={status} onValueChange={setStatus}>
-                    <SelectTrigger>
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="pending">A Vencer</SelectItem>
-                      <SelectItem value="paid">Pago</SelectItem>
-                      <SelectItem value="overdue">Vencido</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
-                <div className="space-y-2">
-                  <Label>Descrição (opcional)</Label>
-                  <Textarea
-                    value={description}
-                    onChange={(e) => setDescription(e.target.value)}
-                    placeholder="Descrição do pagamento..."
-                  />
-                </div>
-                <Button type="submit" className="w-full gradient-primary" disabled={saving}>
-                  {saving ? 'Salvando...' : isRecurring ? 'Adicionar Pagamentos' : 'Adicionar Pagamento'}
+          <div className="flex flex-wrap items-center justify-end gap-2">
+            <Button variant="outline" className="gap-2" onClick={() => navigate('/admin/financial/reconciliation')}>
+              <Landmark className="w-4 h-4" />
+              Conciliar Extrato
+            </Button>
+            <TaxStatementDialog />
+            <Button variant="outline" className="gap-2" onClick={() => navigate('/admin/financial/reports')}>
+              <BarChart3 className="w-4 h-4" />
+              Relatórios
+            </Button>
+            <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+              <DialogTrigger asChild>
+                <Button size="icon" className="gradient-primary">
+                  <Plus className="w-5 h-5" />
                 </Button>
-              </form>
-            </DialogContent>
-          </Dialog>
+              </DialogTrigger>
+              <DialogContent className="max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                  <DialogTitle>Novo Pagamento</DialogTitle>
+                </DialogHeader>
+                <form onSubmit={handleSubmit} className="space-y-4">
+                  <div className="space-y-2">
+                    <Label>Paciente</Label>
+                    <PatientSelector value={selectedPatient} onValueChange={setSelectedPatient} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Valor (R$)</Label>
+                    <Input
+                      type="number"
+                      step="0.01"
+                      value={amount}
+                      onChange={(e) => setAmount(e.target.value)}
+                      placeholder="0,00"
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Data de Vencimento</Label>
+                    <Input
+                      type="date"
+                      value={dueDate}
+                      onChange={(e) => setDueDate(e.target.value)}
+                      required
+                    />
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="recurring">Pagamento Recorrente</Label>
+                    <Switch
+                      id="recurring"
+                      checked={isRecurring}
+                      onCheckedChange={setIsRecurring}
+                    />
+                  </div>
+                  {isRecurring && (
+                    <RecurrenceFields
+                      rule={recurrenceRule}
+                      onChange={setRecurrenceRule}
+                      startDate={dueDate}
+                      previewClassName="status-pending"
+                    />
+                  )}
+                  <div className="space-y-2">
+                    <Label>Descrição (opcional)</Label>
+                    <Textarea
+                      value={description}
+                      onChange={(e) => setDescription(e.target.value)}
+                      placeholder="Descrição do pagamento..."
+                    />
+                  </div>
+                  <Button type="submit" className="w-full gradient-primary" disabled={saving}>
+                    {saving ? 'Salvando...' : isRecurring ? 'Adicionar Pagamentos' : 'Adicionar Pagamento'}
+                  </Button>
+                </form>
+              </DialogContent>
+            </Dialog>
+          </div>
         </div>
 
         {/* Show unlock banner for admins (not masters) */}
@@ -457,15 +397,56 @@ export default function AdminFinancial() {
           <UnlockRequestsManager />
         )}
 
+        <Card className="card-elevated">
+          <CardContent className="p-4 space-y-4">
+            <div className="flex items-center justify-between gap-4">
+              <p className="font-medium">Recebido por forma de pagamento</p>
+              <Select value={methodFilter} onValueChange={(value) => setMethodFilter(value as PaymentMethod | 'all')}>
+                <SelectTrigger className="w-48 h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Todas as formas</SelectItem>
+                  {PAYMENT_METHODS.map((method) => (
+                    <SelectItem key={method} value={method}>
+                      {PAYMENT_METHOD_LABELS[method]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+              {PAYMENT_METHODS.map((method) => (
+                <button
+                  key={method}
+                  type="button"
+                  onClick={() => setMethodFilter(methodFilter === method ? 'all' : method)}
+                  className={`p-3 rounded-lg border text-left transition-colors ${
+                    methodFilter === method ? 'border-primary bg-primary/10' : 'border-border bg-secondary/50'
+                  }`}
+                >
+                  <p className="text-xs text-muted-foreground">{PAYMENT_METHOD_LABELS[method]}</p>
+                  <p className="font-semibold">{formatCurrency(methodTotals[method])}</p>
+                </button>
+              ))}
+            </div>
+            {methodTotals.other > 0 && (
+              <p className="text-xs text-muted-foreground">
+                {formatCurrency(methodTotals.other)} recebidos sem forma de pagamento informada
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
         <div className="space-y-3">
-          {payments.length === 0 ? (
+          {filteredPayments.length === 0 ? (
             <Card className="card-elevated">
               <CardContent className="py-8 text-center text-muted-foreground">
-                Nenhum pagamento cadastrado
+                {methodFilter === 'all' ? 'Nenhum pagamento cadastrado' : 'Nenhum pagamento recebido por esta forma'}
               </CardContent>
             </Card>
           ) : (
-            payments.map((payment) => (
+            filteredPayments.map((payment) => (
               <Card key={payment.id} className="card-elevated">
                 <CardContent className="p-4">
                   <div className="flex items-center justify-between">
@@ -476,26 +457,45 @@ export default function AdminFinancial() {
                       <div>
                         <p className="font-medium">{payment.patient_name}</p>
                         <p className="text-lg font-bold text-primary">{formatCurrency(payment.amount)}</p>
+                        {payment.status !== 'paid' && Number(payment.amount_paid) > 0 && (
+                          <p className="text-sm text-muted-foreground">
+                            Recebido {formatCurrency(Number(payment.amount_paid))} • Saldo {formatCurrency(Number(payment.amount) - Number(payment.amount_paid))}
+                          </p>
+                        )}
                         <p className="text-sm text-muted-foreground">
                           Vencimento: {format(parseISO(payment.due_date), "dd/MM/yyyy")}
                         </p>
+                        <p className="text-xs text-muted-foreground font-mono">PIX {payment.pix_txid}</p>
+                        {!!payment.methods?.length && (
+                          <p className="text-xs text-muted-foreground">
+                            {payment.methods.map(paymentMethodLabel).join(', ')}
+                          </p>
+                        )}
                       </div>
                     </div>
                     <div className="flex flex-col items-end gap-2">
-                      <Select 
-                        value={payment.status} 
-                        onValueChange={(value) => handleStatusChange(payment.id, value)}
-                      >
-                        <SelectTrigger className="w-32 h-8">
-                          <StatusBadge status={payment.status} />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="pending">A Vencer</SelectItem>
-                          <SelectItem value="paid">Pago</SelectItem>
-                          <SelectItem value="overdue">Vencido</SelectItem>
-                        </SelectContent>
-                      </Select>
+                      <StatusBadge status={payment.status} />
                       <div className="flex gap-1">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          onClick={() => handleReceive(payment)}
+                          title="Recebimentos"
+                        >
+                          <HandCoins className="w-4 h-4" />
+                        </Button>
+                        {payment.status === 'paid' && payment.receipt_number && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            onClick={() => handleDownloadReceipt(payment)}
+                            title={`Recibo nº ${payment.receipt_number}`}
+                          >
+                            <FileText className="w-4 h-4" />
+                          </Button>
+                        )}
                         <Button
                           variant="ghost"
                           size="icon"
@@ -532,6 +532,13 @@ export default function AdminFinancial() {
           onOpenChange={setEditDialogOpen}
           onSuccess={fetchPayments}
         />
+
+        <PaymentTransactionsDialog
+          payment={receivingPayment}
+          open={transactionsDialogOpen}
+          onOpenChange={setTransactionsDialogOpen}
+          onSuccess={fetchPayments}
+        />
       </div>
     </AdminLayout>
   );
@@ -0,0 +1,366 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import * as XLSX from 'xlsx';
+import { AdminLayout } from '@/components/admin/AdminLayout';
+import { useAdmin } from '@/hooks/useAdmin';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from '@/components/ui/chart';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ArrowLeft, Download, FileSpreadsheet, BarChart3, AlertTriangle } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import {
+  DateRange,
+  REPORT_PERIOD_LABELS,
+  ReportPayment,
+  ReportPeriod,
+  ReportTransaction,
+  agingBuckets,
+  isInRange,
+  resolvePeriod,
+  revenueByMonth,
+  toCsv,
+  totalsByPatient,
+} from '@/lib/financialReports';
+import { paymentMethodLabel } from '@/lib/payments';
+import { fetchAllPages } from '@/lib/pagination';
+
+const STATUS_LABELS: Record<string, string> = {
+  pending: 'A Vencer',
+  partial: 'Parcial',
+  paid: 'Pago',
+  overdue: 'Vencido',
+};
+
+const chartConfig = {
+  billed: { label: 'Faturado', color: 'hsl(var(--muted-foreground))' },
+  received: { label: 'Recebido', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+export default function AdminFinancialReports() {
+  const navigate = useNavigate();
+  const { hasFinancialAccess, loading: adminLoading } = useAdmin();
+  const [payments, setPayments] = useState<ReportPayment[]>([]);
+  const [transactions, setTransactions] = useState<ReportTransaction[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [period, setPeriod] = useState<ReportPeriod>('month');
+  const [referenceMonth, setReferenceMonth] = useState(format(new Date(), 'yyyy-MM'));
+  const [customRange, setCustomRange] = useState<DateRange>(() => resolvePeriod('month', new Date()));
+
+  useEffect(() => {
+    if (!adminLoading && !hasFinancialAccess) {
+      navigate('/admin');
+    }
+  }, [hasFinancialAccess, adminLoading, navigate]);
+
+  useEffect(() => {
+    if (hasFinancialAccess) {
+      fetchData();
+    }
+  }, [hasFinancialAccess]);
+
+  const fetchData = async () => {
+    try {
+      // Reports aggregate the whole history, so each table is read page by page
+      const [paymentsData, transactionsData, profilesData] = await Promise.all([
+        fetchAllPages((from, to) =>
+          supabase
+            .from('payments')
+            .select('id, user_id, amount, amount_paid, due_date, paid_date, status, description')
+            .order('due_date', { ascending: true })
+            .order('id')
+            .range(from, to)
+        ),
+        fetchAllPages((from, to) =>
+          supabase.from('payment_transactions').select('id, payment_id, amount, paid_at, method').order('id').range(from, to)
+        ),
+        fetchAllPages((from, to) =>
+          supabase.from('profiles').select('user_id, full_name').order('user_id').range(from, to)
+        ),
+      ]);
+
+      const profilesMap = new Map(profilesData.map(p => [p.user_id, p.full_name]));
+      setPayments(paymentsData.map(payment => ({
+        ...payment,
+        patient_name: profilesMap.get(payment.user_id) || 'Paciente',
+      })));
+      setTransactions(transactionsData);
+    } catch (error) {
+      console.error('Error fetching financial report data:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const range = useMemo<DateRange>(
+    () => (period === 'custom' ? customRange : resolvePeriod(period, parseISO(`${referenceMonth}-01`))),
+    [period, referenceMonth, customRange]
+  );
+
+  const periodPayments = useMemo(() => payments.filter(p => isInRange(p.due_date, range)), [payments, range]);
+  const periodTransactions = useMemo(() => transactions.filter(t => isInRange(t.paid_at, range)), [transactions, range]);
+  const monthly = useMemo(() => revenueByMonth(payments, transactions, range), [payments, transactions, range]);
+  const patientTotals = useMemo(() => totalsByPatient(payments, transactions, range), [payments, transactions, range]);
+  // Aging is a snapshot of today's overdue balances, independent of the selected period
+  const aging = useMemo(() => agingBuckets(payments, new Date()), [payments]);
+
+  const totalBilled = periodPayments.reduce((sum, p) => sum + Number(p.amount), 0);
+  const totalReceived = periodTransactions.reduce((sum, t) => sum + Number(t.amount), 0);
+  const totalOpen = periodPayments.reduce((sum, p) => sum + Number(p.amount) - Number(p.amount_paid), 0);
+  const totalOverdue = aging.reduce((sum, bucket) => sum + bucket.amount, 0);
+
+  const exportRows = () => periodPayments.map(payment => {
+    const methods = [...new Set(
+      transactions.filter(t => t.payment_id === payment.id).map(t => paymentMethodLabel(t.method))
+    )];
+    return {
+      Paciente: payment.patient_name || '',
+      'Descrição': payment.description || '',
+      Vencimento: format(parseISO(payment.due_date), 'dd/MM/yyyy'),
+      Valor: Number(payment.amount),
+      Recebido: Number(payment.amount_paid),
+      Saldo: Number(payment.amount) - Number(payment.amount_paid),
+      Status: STATUS_LABELS[payment.status] || payment.status,
+      Pagamento: payment.paid_date ? format(parseISO(payment.paid_date), 'dd/MM/yyyy') : '',
+      'Forma de pagamento': methods.join(', '),
+    };
+  });
+
+  const fileBaseName = `financeiro-${range.from}-a-${range.to}`;
+
+  const handleExportCsv = () => {
+    // BOM so Excel detects UTF-8 accents
+    const blob = new Blob(['\uFEFF' + toCsv(exportRows())], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${fileBaseName}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleExportXlsx = () => {
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(exportRows()), 'Pagamentos');
+    XLSX.utils.book_append_sheet(
+      workbook,
+      XLSX.utils.json_to_sheet(patientTotals.map(t => ({
+        Paciente: t.name,
+        Faturado: t.billed,
+        Recebido: t.received,
+        'Em aberto': t.open,
+      }))),
+      'Por paciente'
+    );
+    XLSX.writeFile(workbook, `${fileBaseName}.xlsx`);
+  };
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+  };
+
+  if (loading) {
+    return (
+      <AdminLayout currentPage="/admin/financial">
+        <div className="flex items-center justify-center py-12">
+          <div className="w-12 h-12 rounded-xl gradient-primary animate-pulse" />
+        </div>
+      </AdminLayout>
+    );
+  }
+
+  return (
+    <AdminLayout currentPage="/admin/financial">
+      <div className="space-y-6 animate-fade-in">
+        <div className="flex items-start justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <Button variant="ghost" size="icon" onClick={() => navigate('/admin/financial')}>
+              <ArrowLeft className="w-5 h-5" />
+            </Button>
+            <div>
+              <h1 className="text-2xl font-bold font-display">Relatórios Financeiros</h1>
+              <p className="text-muted-foreground text-sm">
+                {format(parseISO(range.from), 'dd/MM/yyyy')} a {format(parseISO(range.to), 'dd/MM/yyyy')}
+              </p>
+            </div>
+          </div>
+          <div className="flex flex-wrap justify-end gap-2">
+            <Button variant="outline" className="gap-2" onClick={handleExportCsv} disabled={periodPayments.length === 0}>
+              <Download className="w-4 h-4" />
+              CSV
+            </Button>
+            <Button variant="outline" className="gap-2" onClick={handleExportXlsx} disabled={periodPayments.length === 0}>
+              <FileSpreadsheet className="w-4 h-4" />
+              XLSX
+            </Button>
+          </div>
+        </div>
+
+        <Card className="card-elevated">
+          <CardContent className="p-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label>Período</Label>
+                <Select value={period} onValueChange={(value) => setPeriod(value as ReportPeriod)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(REPORT_PERIOD_LABELS) as ReportPeriod[]).map((value) => (
+                      <SelectItem key={value} value={value}>{REPORT_PERIOD_LABELS[value]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {period === 'custom' ? (
+                <>
+                  <div className="space-y-2">
+                    <Label>De</Label>
+                    <Input
+                      type="date"
+                      value={customRange.from}
+                      onChange={(e) => e.target.value && setCustomRange(prev => ({ ...prev, from: e.target.value }))}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Até</Label>
+                    <Input
+                      type="date"
+                      value={customRange.to}
+                      min={customRange.from}
+                      onChange={(e) => e.target.value && setCustomRange(prev => ({ ...prev, to: e.target.value }))}
+                    />
+                  </div>
+                </>
+              ) : (
+                <div className="space-y-2">
+                  <Label>Referência</Label>
+                  <Input
+                    type="month"
+                    value={referenceMonth}
+                    onChange={(e) => e.target.value && setReferenceMonth(e.target.value)}
+                  />
+                </div>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          {[
+            { label: 'Faturado', value: totalBilled, className: '' },
+            { label: 'Recebido', value: totalReceived, className: 'text-success' },
+            { label: 'Em aberto', value: totalOpen, className: 'text-warning' },
+            { label: 'Vencido (hoje)', value: totalOverdue, className: 'text-destructive' },
+          ].map(({ label, value, className }) => (
+            <Card key={label} className="card-elevated">
+              <CardContent className="p-4">
+                <p className="text-xs text-muted-foreground">{label}</p>
+                <p className={`text-lg font-bold font-display ${className}`}>{formatCurrency(value)}</p>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        <Card className="card-elevated">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-lg font-display flex items-center gap-2">
+              <BarChart3 className="w-5 h-5 text-primary" />
+              Receita por mês
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={chartConfig} className="max-h-72 w-full">
+              <BarChart data={monthly}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                <YAxis tickLine={false} axisLine={false} width={70} tickFormatter={(value) => formatCurrency(value)} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Bar dataKey="billed" fill="var(--color-billed)" radius={4} />
+                <Bar dataKey="received" fill="var(--color-received)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+
+        <Card className="card-elevated">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-lg font-display flex items-center gap-2">
+              <AlertTriangle className="w-5 h-5 text-destructive" />
+              Inadimplência por atraso
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {aging.map((bucket) => (
+                <div key={bucket.key} className="p-3 rounded-lg bg-secondary/50 border border-border">
+                  <p className="text-xs text-muted-foreground">{bucket.label}</p>
+                  <p className="font-semibold">{formatCurrency(bucket.amount)}</p>
+                  <p className="text-xs text-muted-foreground">{bucket.count} pagamento(s)</p>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="card-elevated">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-lg font-display">Por paciente</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {patientTotals.length === 0 ? (
+              <p className="py-4 text-center text-muted-foreground">Nenhum lançamento no período</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Paciente</TableHead>
+                    <TableHead className="text-right">Faturado</TableHead>
+                    <TableHead className="text-right">Recebido</TableHead>
+                    <TableHead className="text-right">Em aberto</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {patientTotals.map((total) => (
+                    <TableRow key={total.user_id}>
+                      <TableCell className="font-medium">{total.name}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(total.billed)}</TableCell>
+                      <TableCell className="text-right text-success">{formatCurrency(total.received)}</TableCell>
+                      <TableCell className="text-right text-warning">{formatCurrency(total.open)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </AdminLayout>
+  );
+}
@@ -0,0 +1,234 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { AdminLayout } from '@/components/admin/AdminLayout';
+import { MedicationCatalogDialog } from '@/components/admin/MedicationCatalogDialog';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { ArrowLeft, BookOpen, Pencil, Plus, Search, Trash2, AlertTriangle, Zap } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { CatalogEntry, describeCatalogEntry, normalizeDrugName } from '@/lib/medicationCatalog';
+
+export default function AdminMedicationCatalog() {
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const [entries, setEntries] = useState<CatalogEntry[]>([]);
+  const [usage, setUsage] = useState<Map<string, number>>(new Map());
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingEntry, setEditingEntry] = useState<CatalogEntry | null>(null);
+
+  useEffect(() => {
+    fetchCatalog();
+  }, []);
+
+  const fetchCatalog = async () => {
+    try {
+      const [catalogRes, medsRes] = await Promise.all([
+        supabase.from('medication_catalog').select('*').order('name'),
+        supabase.from('medications').select('catalog_id').not('catalog_id', 'is', null),
+      ]);
+
+      if (catalogRes.error) throw catalogRes.error;
+      if (medsRes.error) throw medsRes.error;
+
+      const counts = new Map<string, number>();
+      (medsRes.data || []).forEach(({ catalog_id }) => {
+        counts.set(catalog_id as string, (counts.get(catalog_id as string) || 0) + 1);
+      });
+
+      setEntries(catalogRes.data || []);
+      setUsage(counts);
+    } catch (error) {
+      console.error('Error fetching medication catalog:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const filteredEntries = useMemo(() => {
+    const query = normalizeDrugName(search);
+    if (!query) return entries;
+    return entries.filter(entry =>
+      normalizeDrugName(`${entry.name} ${entry.active_ingredient || ''}`).includes(query)
+    );
+  }, [entries, search]);
+
+  const handleToggleActive = async (entry: CatalogEntry) => {
+    try {
+      const { error } = await supabase
+        .from('medication_catalog')
+        .update({ is_active: !entry.is_active })
+        .eq('id', entry.id);
+
+      if (error) throw error;
+
+      toast({ title: entry.is_active ? 'Medicação arquivada' : 'Medicação reativada' });
+      fetchCatalog();
+    } catch (error) {
+      console.error('Error updating catalog entry:', error);
+      toast({ title: 'Erro ao atualizar catálogo', variant: 'destructive' });
+    }
+  };
+
+  const handleDelete = async (entry: CatalogEntry) => {
+    const inUse = usage.get(entry.id) || 0;
+    const message = inUse > 0
+      ? `"${entry.name}" está vinculada a ${inUse} prescrição(ões), que ficarão fora do catálogo. Excluir mesmo assim?`
+      : `Tem certeza que deseja excluir "${entry.name}" do catálogo?`;
+    if (!confirm(message)) return;
+
+    try {
+      const { error } = await supabase.from('medication_catalog').delete().eq('id', entry.id);
+      if (error) throw error;
+
+      toast({ title: 'Medicação removida do catálogo!' });
+      fetchCatalog();
+    } catch (error) {
+      console.error('Error deleting catalog entry:', error);
+      toast({ title: 'Erro ao excluir do catálogo', variant: 'destructive' });
+    }
+  };
+
+  const openDialog = (entry: CatalogEntry | null) => {
+    setEditingEntry(entry);
+    setDialogOpen(true);
+  };
+
+  if (loading) {
+    return (
+      <AdminLayout currentPage="/admin/medications">
+        <div className="flex items-center justify-center py-12">
+          <div className="w-12 h-12 rounded-xl gradient-primary animate-pulse" />
+        </div>
+      </AdminLayout>
+    );
+  }
+
+  return (
+    <AdminLayout currentPage="/admin/medications">
+      <div className="space-y-6 animate-fade-in">
+        <div className="flex items-start justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <Button variant="ghost" size="icon" onClick={() => navigate('/admin/medications')}>
+              <ArrowLeft className="w-5 h-5" />
+            </Button>
+            <div className="space-y-1">
+              <h1 className="text-2xl font-bold font-display">Catálogo de Medicações</h1>
+              <p className="text-muted-foreground text-sm">
+                {entries.length} medicações cadastradas
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" className="gap-2" onClick={() => navigate('/admin/medications/interactions')}>
+              <Zap className="w-4 h-4" />
+              Interações
+            </Button>
+            <Button size="icon" className="gradient-primary" onClick={() => openDialog(null)}>
+              <Plus className="w-5 h-5" />
+            </Button>
+          </div>
+        </div>
+
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Buscar por nome ou princípio ativo"
+            className="pl-9"
+          />
+        </div>
+
+        <div className="space-y-3">
+          {filteredEntries.length === 0 ? (
+            <Card className="card-elevated">
+              <CardContent className="py-8 text-center text-muted-foreground">
+                Nenhuma medicação no catálogo
+              </CardContent>
+            </Card>
+          ) : (
+            filteredEntries.map((entry) => (
+              <Card key={entry.id} className={`card-elevated ${entry.is_active ? '' : 'opacity-60'}`}>
+                <CardContent className="p-4">
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="flex items-start gap-3">
+                      <div className="p-2 rounded-lg bg-secondary mt-1">
+                        <BookOpen className="w-5 h-5 text-primary" />
+                      </div>
+                      <div>
+                        <p className="text-lg font-semibold text-primary">{entry.name}</p>
+                        {describeCatalogEntry(entry) && (
+                          <p className="text-sm text-muted-foreground">{describeCatalogEntry(entry)}</p>
+                        )}
+                        {(entry.default_dosage || entry.default_frequency) && (
+                          <p className="text-sm text-muted-foreground">
+                            Padrão: {[entry.default_dosage, entry.default_frequency].filter(Boolean).join(' • ')}
+                          </p>
+                        )}
+                        <p className="text-xs text-muted-foreground">
+                          {usage.get(entry.id) || 0} prescrição(ões)
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex flex-col items-end gap-2">
+                      <div className="flex items-center gap-2">
+                        <Badge variant={entry.is_active ? "default" : "secondary"}>
+                          {entry.is_active ? "Ativa" : "Arquivada"}
+                        </Badge>
+                        <Switch
+                          checked={entry.is_active}
+                          onCheckedChange={() => handleToggleActive(entry)}
+                        />
+                      </div>
+                      <div className="flex gap-1">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          onClick={() => openDialog(entry)}
+                        >
+                          <Pencil className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 text-destructive hover:text-destructive"
+                          onClick={() => handleDelete(entry)}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  </div>
+                  {entry.contraindications && (
+                    <p className="mt-2 flex items-start gap-1 text-sm text-warning pl-12">
+                      <AlertTriangle className="w-4 h-4 shrink-0 mt-0.5" />
+                      {entry.contraindications}
+                    </p>
+                  )}
+                  {entry.notes && (
+                    <p className="mt-2 text-sm text-muted-foreground pl-12">{entry.notes}</p>
+                  )}
+                </CardContent>
+              </Card>
+            ))
+          )}
+        </div>
+
+        <MedicationCatalogDialog
+          entry={editingEntry}
+          entries={entries}
+          open={dialogOpen}
+          onOpenChange={setDialogOpen}
+          onSuccess={fetchCatalog}
+        />
+      </div>
+    </AdminLayout>
+  );
+}
@@ -1,22 +1,21 @@
 import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { AdminLayout } from '@/components/admin/AdminLayout';
 import { PatientSelector } from '@/components/admin/PatientSelector';
 import { EditMedicationDialog } from '@/components/admin/EditMedicationDialog';
+import { RecurrenceFields } from '@/components/admin/RecurrenceFields';
+import { MedicationScheduleFields } from '@/components/admin/MedicationScheduleFields';
+import { MedicationSupplyFields } from '@/components/admin/MedicationSupplyFields';
+import { MedicationCatalogCombobox } from '@/components/admin/MedicationCatalogCombobox';
+import { PrescriptionWarnings } from '@/components/admin/PrescriptionWarnings';
+import { PrescriptionDialog } from '@/components/admin/PrescriptionDialog';
 import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent } from '@/components/ui/card';
-import { Badge } from '@/components/ui/badge';
 import { Switch } from '@/components/ui/switch';
-import {
-  Dialog,
-  DialogContent,
-  DialogHeader,
-  DialogTitle,
-  DialogTrigger,
-} from '@/components/ui/dialog';
 import {
   Select,
   SelectContent,
@@ -24,21 +23,53 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { Plus, Pill, Trash2, Pencil } from 'lucide-react';
-import { format, parseISO, addDays, addWeeks, addMonths, isBefore, isEqual } from 'date-fns';
-import { ptBR } from 'date-fns/locale';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Plus, Pill, Trash2, Pencil, Activity, BookOpen, PackageOpen } from 'lucide-react';
+import { format, parseISO, subDays } from 'date-fns';
 import { useToast } from '@/hooks/use-toast';
-
-interface Medication {
-  id: string;
+import {
+  RecurrenceRule,
+  createRecurringSeries,
+  defaultRecurrenceRule,
+  generateOccurrences,
+  toSeriesRow,
+} from '@/lib/recurrence';
+import {
+  MedicationSchedule,
+  ScheduledMedication,
+  defaultSchedule,
+  isScheduleComplete,
+  posologyColumns,
+} from '@/lib/medicationSchedule';
+import {
+  DEFAULT_REFILL_WINDOW_DAYS,
+  MedicationSupply,
+  REFILL_WINDOW_OPTIONS,
+  SupplyStatus,
+  defaultSupply,
+  describeSupply,
+  supplyClassName,
+  supplyDaysLeft,
+} from '@/lib/medicationSupply';
+import { MEDICATION_STATUS_CONFIG, MEDICATION_STATUS_ORDER, MedicationStatus } from '@/lib/medicationStatus';
+import { CatalogEntry } from '@/lib/medicationCatalog';
+import { ADHERENCE_WINDOW_DAYS, Adherence, adherenceBreakdown, adherenceClassName } from '@/lib/adherence';
+import { fetchAllPages } from '@/lib/pagination';
+
+interface Medication extends ScheduledMedication, MedicationSupply, SupplyStatus {
   user_id: string;
-  medication_name: string;
-  dosage: string;
+  series_id: string | null;
   frequency: string;
-  start_date: string;
-  end_date: string | null;
-  is_active: boolean;
+  catalog_id: string | null;
   notes: string | null;
+  suspension_reason: string | null;
+  status: MedicationStatus;
   patient_name?: string;
 }
 
@@ -49,82 +80,47 @@ interface Profile {
 
 export default function AdminMedications() {
   const { toast } = useToast();
+  const navigate = useNavigate();
   const [medications, setMedications] = useState<Medication[]>([]);
   const [loading, setLoading] = useState(true);
   const [dialogOpen, setDialogOpen] = useState(false);
   const [selectedPatient, setSelectedPatient] = useState('');
   const [medicationName, setMedicationName] = useState('');
+  const [catalogId, setCatalogId] = useState<string | null>(null);
+  const [warningCount, setWarningCount] = useState(0);
   const [dosage, setDosage] = useState('');
   const [frequency, setFrequency] = useState('');
+  const [schedule, setSchedule] = useState<MedicationSchedule>(defaultSchedule());
+  const [supply, setSupply] = useState<MedicationSupply>(defaultSupply());
   const [startDate, setStartDate] = useState('');
   const [endDate, setEndDate] = useState('');
   const [notes, setNotes] = useState('');
   const [saving, setSaving] = useState(false);
   const [isRecurring, setIsRecurring] = useState(false);
-  const [recurrenceFrequency, setRecurrenceFrequency] = useState('1x semana');
-  const [recurrenceEndDate, setRecurrenceEndDate] = useState('');
-  const [previewDates, setPreviewDates] = useState<Date[]>([]);
+  const [recurrenceRule, setRecurrenceRule] = useState<RecurrenceRule>(defaultRecurrenceRule());
   const [editDialogOpen, setEditDialogOpen] = useState(false);
   const [editingMedication, setEditingMedication] = useState<Medication | null>(null);
+  const [adherenceByMedication, setAdherenceByMedication] = useState<Map<string, Adherence>>(new Map());
+  const [adherenceByPatient, setAdherenceByPatient] = useState<Map<string, Adherence>>(new Map());
+  const [refillWindow, setRefillWindow] = useState(DEFAULT_REFILL_WINDOW_DAYS);
 
   useEffect(() => {
     fetchMedications();
   }, []);
 
-  // Update preview dates when recurrence settings change
+  // Default the weekly rule to the weekday of the chosen start date
   useEffect(() => {
-    if (isRecurring && startDate && recurrenceEndDate) {
-      const startDateObj = parseISO(startDate);
-      const endDateObj = parseISO(recurrenceEndDate);
-      if (isBefore(startDateObj, endDateObj) || isEqual(startDateObj, endDateObj)) {
-        const dates = generateDates(startDateObj, endDateObj, recurrenceFrequency);
-        setPreviewDates(dates);
-      } else {
-        setPreviewDates([]);
-      }
-    } else {
-      setPreviewDates([]);
-    }
-  }, [isRecurring, startDate, recurrenceEndDate, recurrenceFrequency]);
-
-  const generateDates = (start: Date, end: Date, freq: string): Date[] => {
-    const dates: Date[] = [];
-    let currentDate = start;
-
-    while (isBefore(currentDate, end) || isEqual(currentDate, end)) {
-      dates.push(new Date(currentDate));
-      
-      switch (freq) {
-        case '1x semana':
-          currentDate = addWeeks(currentDate, 1);
-          break;
-        case '2x semana':
-          currentDate = addDays(currentDate, 3);
-          break;
-        case '1x quinzena':
-          currentDate = addWeeks(currentDate, 2);
-          break;
-        case '1x 3 semanas':
-          currentDate = addWeeks(currentDate, 3);
-          break;
-        case '1x mês':
-          currentDate = addMonths(currentDate, 1);
-          break;
-        default:
-          currentDate = addWeeks(currentDate, 1);
-      }
+    if (startDate) {
+      setRecurrenceRule(prev => ({ ...prev, weekdays: defaultRecurrenceRule(startDate).weekdays }));
     }
-
-    return dates;
-  };
+  }, [startDate]);
 
   const fetchMedications = async () => {
     try {
-      // Fetch medications
+      // Fetch medications with the status derived from their dates
       const { data: medsData, error: medsError } = await supabase
-        .from('medications')
+        .from('medications_with_status')
         .select('*')
-        .order('is_active', { ascending: false })
         .order('start_date', { ascending: true });
 
       if (medsError) throw medsError;
@@ -143,12 +139,32 @@ export default function AdminMedications() {
       });
 
       // Combine data
-      const combinedData = (medsData || []).map((med) => ({
-        ...med,
-        patient_name: profilesMap.get(med.user_id) || 'Paciente',
-      }));
+      const combinedData = ((medsData || []) as Medication[])
+        .map((med) => ({
+          ...med,
+          patient_name: profilesMap.get(med.user_id) || 'Paciente',
+        }))
+        .sort((a, b) => MEDICATION_STATUS_ORDER.indexOf(a.status) - MEDICATION_STATUS_ORDER.indexOf(b.status));
 
       setMedications(combinedData);
+
+      // Adherence over the last days, from the patients' check-ins
+      const now = new Date();
+      const windowStart = subDays(now, ADHERENCE_WINDOW_DAYS);
+      // Several daily doses for every patient quickly exceed a single page
+      const intakesData = await fetchAllPages((from, to) =>
+        supabase
+          .from('medication_intakes')
+          .select('id, medication_id, scheduled_at, status')
+          .gte('scheduled_at', windowStart.toISOString())
+          .order('scheduled_at')
+          .order('id')
+          .range(from, to)
+      );
+
+      const { byMedication, byPatient } = adherenceBreakdown(combinedData, intakesData, windowStart, now);
+      setAdherenceByMedication(byMedication);
+      setAdherenceByPatient(byPatient);
     } catch (error) {
       console.error('Error fetching medications:', error);
     } finally {
@@ -156,46 +172,60 @@ export default function AdminMedications() {
     }
   };
 
+  // Catalog entries bring their standard posology into the free-text fields
+  const handleCatalogChange = (name: string, entry: CatalogEntry | null) => {
+    setMedicationName(name);
+    setCatalogId(entry?.id ?? null);
+    if (entry?.default_dosage) setDosage(entry.default_dosage);
+    if (entry?.default_frequency) setFrequency(entry.default_frequency);
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!selectedPatient || !medicationName || !dosage || !frequency || !startDate) return;
-    if (isRecurring && !recurrenceEndDate) {
-      toast({ title: 'Selecione a data final para recorrência', variant: 'destructive' });
+    if (!selectedPatient || !medicationName || !startDate) return;
+    if (schedule.schedule_type === null ? !dosage || !frequency : !isScheduleComplete(schedule)) {
+      toast({ title: 'Preencha a dose e os horários da medicação', variant: 'destructive' });
+      return;
+    }
+    if (warningCount > 0 && !confirm('Há alertas de interação ou duplicidade para este paciente. Salvar mesmo assim?')) return;
+    const posology = posologyColumns(schedule, dosage, frequency);
+    const dates = isRecurring ? generateOccurrences(startDate, recurrenceRule) : [];
+    if (isRecurring && dates.length === 0) {
+      toast({ title: 'Defina o término da recorrência', variant: 'destructive' });
       return;
     }
 
     setSaving(true);
     try {
       if (isRecurring) {
-        const startDateObj = parseISO(startDate);
-        const endDateObj = parseISO(recurrenceEndDate);
-        const dates = generateDates(startDateObj, endDateObj, recurrenceFrequency);
-
         const medicationsToInsert = dates.map(date => ({
           user_id: selectedPatient,
           medication_name: medicationName,
-          dosage,
-          frequency,
+          catalog_id: catalogId,
+          ...posology,
           start_date: format(date, 'yyyy-MM-dd'),
           end_date: endDate || null,
           notes: notes || null,
-          is_active: true,
         }));
 
-        const { error } = await supabase.from('medications').insert(medicationsToInsert);
-        if (error) throw error;
+        // The dispensed stock covers the whole series, so it is kept once on the series
+        await createRecurringSeries(
+          supabase,
+          { ...toSeriesRow(recurrenceRule, 'medication', selectedPatient, startDate), ...supply },
+          medicationsToInsert,
+        );
 
         toast({ title: `${medicationsToInsert.length} medicações adicionadas com sucesso!` });
       } else {
         const { error } = await supabase.from('medications').insert({
           user_id: selectedPatient,
           medication_name: medicationName,
-          dosage,
-          frequency,
+          catalog_id: catalogId,
+          ...posology,
+          ...supply,
           start_date: startDate,
           end_date: endDate || null,
           notes: notes || null,
-          is_active: true,
         });
 
         if (error) throw error;
@@ -213,16 +243,24 @@ export default function AdminMedications() {
     }
   };
 
-  const handleToggleActive = async (id: string, currentStatus: boolean) => {
+  // Ending a treatment follows its dates; the switch only suspends or resumes it
+  const handleToggleSuspended = async (med: Medication) => {
+    const suspending = !med.suspended_at;
+    const reason = suspending ? prompt('Motivo da suspensão (opcional):') : null;
+    if (suspending && reason === null) return;
+
     try {
       const { error } = await supabase
         .from('medications')
-        .update({ is_active: !currentStatus })
-        .eq('id', id);
+        .update({
+          suspended_at: suspending ? new Date().toISOString() : null,
+          suspension_reason: suspending ? reason.trim() || null : null,
+        })
+        .eq('id', med.id);
 
       if (error) throw error;
 
-      toast({ title: currentStatus ? 'Medicação desativada' : 'Medicação ativada' });
+      toast({ title: suspending ? 'Medicação suspensa' : 'Medicação retomada' });
       fetchMedications();
     } catch (error) {
       console.error('Error updating medication:', error);
@@ -248,15 +286,16 @@ export default function AdminMedications() {
   const resetForm = () => {
     setSelectedPatient('');
     setMedicationName('');
+    setCatalogId(null);
     setDosage('');
     setFrequency('');
+    setSchedule(defaultSchedule());
+    setSupply(defaultSupply());
     setStartDate('');
     setEndDate('');
     setNotes('');
     setIsRecurring(false);
-    setRecurrenceFrequency('1x semana');
-    setRecurrenceEndDate('');
-    setPreviewDates([]);
+    setRecurrenceRule(defaultRecurrenceRule());
   };
 
   const handleEdit = (med: Medication) => {
@@ -264,6 +303,17 @@ export default function AdminMedications() {
     setEditDialogOpen(true);
   };
 
+  // Medications in use whose dispensed stock runs out within the chosen window.
+  // Occurrences of a series share one stock, so each series is listed once
+  const suppliedMedications = medications
+    .filter(med => med.status === 'active')
+    .filter((med, index, active) => !med.series_id || active.findIndex(m => m.series_id === med.series_id) === index)
+    .map(med => ({ med, daysLeft: supplyDaysLeft(med) }))
+    .filter(({ daysLeft }) => daysLeft !== null);
+  const refills = suppliedMedications
+    .filter(({ daysLeft }) => daysLeft <= refillWindow)
+    .sort((a, b) => a.daysLeft - b.daysLeft);
+
   if (loading) {
     return (
       <AdminLayout currentPage="/admin/medications">
@@ -284,134 +334,172 @@ export default function AdminMedications() {
               Gerencie as medicações dos pacientes
             </p>
           </div>
-          <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
-            <DialogTrigger asChild>
-              <Button size="icon" className="gradient-primary">
-                <Plus className="w-5 h-5" />
-              </Button>
-            </DialogTrigger>
-            <DialogContent className="max-h-[90vh] overflow-y-auto">
-              <DialogHeader>
-                <DialogTitle>Nova Medicação</DialogTitle>
-              </DialogHeader>
-              <form onSubmit={handleSubmit} className="space-y-4">
-                <div className="space-y-2">
-                  <Label>Paciente</Label>
-                  <PatientSelector value={selectedPatient} onValueChange={setSelectedPatient} />
-                </div>
-                <div className="space-y-2">
-                  <Label>Nome da Medicação</Label>
-                  <Input
-                    value={medicationName}
-                    onChange={(e) => setMedicationName(e.target.value)}
-                    placeholder="Ex: Semaglutida"
-                    required
-                  />
-                </div>
-                <div className="grid grid-cols-2 gap-4">
-                  <div className="space-y-2">
-                    <Label>Dosagem</Label>
-                    <Input
-                      value={dosage}
-                      onChange={(e) => setDosage(e.target.value)}
-                      placeholder="Ex: 0.5mg"
-                      required
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label>Frequência</Label>
-                    <Input
-                      value={frequency}
-                      onChange={(e) => setFrequency(e.target.value)}
-                      placeholder="Ex: 1x/semana"
-                      required
-                    />
-                  </div>
-                </div>
-                <div className="grid grid-cols-2 gap-4">
+          <div className="flex flex-wrap items-center justify-end gap-2">
+            <PrescriptionDialog />
+            <Button variant="outline" className="gap-2" onClick={() => navigate('/admin/medications/catalog')}>
+              <BookOpen className="w-4 h-4" />
+              Catálogo
+            </Button>
+            <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+              <DialogTrigger asChild>
+                <Button size="icon" className="gradient-primary">
+                  <Plus className="w-5 h-5" />
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                  <DialogTitle>Nova Medicação</DialogTitle>
+                </DialogHeader>
+                <form onSubmit={handleSubmit} className="space-y-4">
                   <div className="space-y-2">
-                    <Label>Data Início</Label>
-                    <Input
-                      type="date"
-                      value={startDate}
-                      onChange={(e) => setStartDate(e.target.value)}
-                      required
-                    />
+                    <Label>Paciente</Label>
+                    <PatientSelector value={selectedPatient} onValueChange={setSelectedPatient} />
                   </div>
                   <div className="space-y-2">
-                    <Label>Data Fim (opcional)</Label>
-                    <Input
-                      type="date"
-                      value={endDate}
-                      onChange={(e) => setEndDate(e.target.value)}
+                    <Label>Medicação</Label>
+                    <MedicationCatalogCombobox
+                      value={medicationName}
+                      catalogId={catalogId}
+                      onChange={handleCatalogChange}
                     />
                   </div>
-                </div>
-                <div className="flex items-center justify-between">
-                  <Label htmlFor="recurring">Medicação Recorrente</Label>
-                  <Switch
-                    id="recurring"
-                    checked={isRecurring}
-                    onCheckedChange={setIsRecurring}
+                  <MedicationScheduleFields
+                    schedule={schedule}
+                    onChange={setSchedule}
+                    dosage={dosage}
+                    frequency={frequency}
+                    onDosageChange={setDosage}
+                    onFrequencyChange={setFrequency}
                   />
-                </div>
-                {isRecurring && (
-                  <>
+                  <div className="grid grid-cols-2 gap-4">
                     <div className="space-y-2">
-                      <Label>Frequência de Criação</Label>
-                      <Select value={recurrenceFrequency} onValueChange={setRecurrenceFrequency}>
-                        <SelectTrigger>
-                          <SelectValue />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="2x semana">2x por semana</SelectItem>
-                          <SelectItem value="1x semana">1x por semana</SelectItem>
-                          <SelectItem value="1x quinzena">1x por quinzena</SelectItem>
-                          <SelectItem value="1x 3 semanas">1x a cada 3 semanas</SelectItem>
-                          <SelectItem value="1x mês">1x por mês</SelectItem>
-                        </SelectContent>
-                      </Select>
+                      <Label>Data Início</Label>
+                      <Input
+                        type="date"
+                        value={startDate}
+                        onChange={(e) => setStartDate(e.target.value)}
+                        required
+                      />
                     </div>
                     <div className="space-y-2">
-                      <Label>Data Final da Recorrência</Label>
+                      <Label>Data Fim (opcional)</Label>
                       <Input
                         type="date"
-                        value={recurrenceEndDate}
-                        onChange={(e) => setRecurrenceEndDate(e.target.value)}
-                        min={startDate}
-                        required={isRecurring}
+                        value={endDate}
+                        onChange={(e) => setEndDate(e.target.value)}
                       />
                     </div>
-                    {previewDates.length > 0 && (
-                      <div className="space-y-2">
-                        <Label>Datas que serão criadas ({previewDates.length})</Label>
-                        <div className="max-h-32 overflow-y-auto rounded-md border bg-muted/50 p-2 flex flex-wrap gap-2">
-                          {previewDates.map((date, index) => (
-                            <span key={index} className="status-scheduled">
-                              {format(date, "dd/MM/yyyy", { locale: ptBR })}
-                            </span>
-                          ))}
-                        </div>
-                      </div>
-                    )}
-                  </>
-                )}
-                <div className="space-y-2">
-                  <Label>Observações (opcional)</Label>
-                  <Textarea
-                    value={notes}
-                    onChange={(e) => setNotes(e.target.value)}
-                    placeholder="Instruções ou observações..."
+                  </div>
+                  <MedicationSupplyFields supply={supply} onChange={setSupply} startDate={startDate} />
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="recurring">Medicação Recorrente</Label>
+                    <Switch
+                      id="recurring"
+                      checked={isRecurring}
+                      onCheckedChange={setIsRecurring}
+                    />
+                  </div>
+                  {isRecurring && (
+                    <RecurrenceFields
+                      rule={recurrenceRule}
+                      onChange={setRecurrenceRule}
+                      startDate={startDate}
+                    />
+                  )}
+                  <div className="space-y-2">
+                    <Label>Observações (opcional)</Label>
+                    <Textarea
+                      value={notes}
+                      onChange={(e) => setNotes(e.target.value)}
+                      placeholder="Instruções ou observações..."
+                    />
+                  </div>
+                  <PrescriptionWarnings
+                    patientId={selectedPatient}
+                    medicationName={medicationName}
+                    catalogId={catalogId}
+                    onWarningsChange={setWarningCount}
                   />
-                </div>
-                <Button type="submit" className="w-full gradient-primary" disabled={saving}>
-                  {saving ? 'Salvando...' : isRecurring ? 'Adicionar Medicações' : 'Adicionar Medicação'}
-                </Button>
-              </form>
-            </DialogContent>
-          </Dialog>
+                  <Button type="submit" className="w-full gradient-primary" disabled={saving}>
+                    {saving ? 'Salvando...' : isRecurring ? 'Adicionar Medicações' : 'Adicionar Medicação'}
+                  </Button>
+                </form>
+              </DialogContent>
+            </Dialog>
+          </div>
         </div>
 
+        {adherenceByPatient.size > 0 && (
+          <Card className="card-elevated">
+            <CardContent className="p-4 space-y-3">
+              <div className="flex items-center gap-2">
+                <Activity className="w-5 h-5 text-primary" />
+                <p className="font-medium">Adesão por paciente (últimos {ADHERENCE_WINDOW_DAYS} dias)</p>
+              </div>
+              <div className="space-y-2">
+                {[...adherenceByPatient]
+                  .map(([userId, adherence]) => ({
+                    userId,
+                    adherence,
+                    name: medications.find(m => m.user_id === userId)?.patient_name || 'Paciente',
+                  }))
+                  .sort((a, b) => (a.adherence.rate ?? 0) - (b.adherence.rate ?? 0))
+                  .map(({ userId, adherence, name }) => (
+                    <div key={userId} className="flex items-center justify-between text-sm">
+                      <span>{name}</span>
+                      <span className="text-muted-foreground">
+                        {adherence.taken}/{adherence.expected} doses
+                        {adherence.missed > 0 && ` • ${adherence.missed} sem registro`}
+                        <span className={`ml-2 font-semibold ${adherenceClassName(adherence.rate)}`}>
+                          {adherence.rate}%
+                        </span>
+                      </span>
+                    </div>
+                  ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {suppliedMedications.length > 0 && (
+          <Card className="card-elevated">
+            <CardContent className="p-4 space-y-3">
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2">
+                  <PackageOpen className="w-5 h-5 text-primary" />
+                  <p className="font-medium">Reposição de estoque</p>
+                </div>
+                <Select value={String(refillWindow)} onValueChange={(value) => setRefillWindow(parseInt(value))}>
+                  <SelectTrigger className="w-36">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {REFILL_WINDOW_OPTIONS.map((days) => (
+                      <SelectItem key={days} value={String(days)}>Próximos {days} dias</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {refills.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Nenhum estoque acabando neste período</p>
+              ) : (
+                <div className="space-y-2">
+                  {refills.map(({ med, daysLeft }) => (
+                    <div key={med.id} className="flex items-center justify-between text-sm">
+                      <span>
+                        {med.patient_name} • <span className="text-muted-foreground">{med.medication_name}</span>
+                      </span>
+                      <span className={`font-semibold ${supplyClassName(daysLeft)}`}>
+                        {describeSupply(daysLeft)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
         <div className="space-y-3">
           {medications.length === 0 ? (
             <Card className="card-elevated">
@@ -420,62 +508,77 @@ export default function AdminMedications() {
               </CardContent>
             </Card>
           ) : (
-            medications.map((med) => (
-              <Card key={med.id} className="card-elevated">
-                <CardContent className="p-4">
-                  <div className="flex items-start justify-between gap-4">
-                    <div className="flex items-start gap-3">
-                      <div className="p-2 rounded-lg bg-secondary mt-1">
-                        <Pill className="w-5 h-5 text-primary" />
-                      </div>
-                      <div>
-                        <p className="font-medium">{med.patient_name}</p>
-                        <p className="text-lg font-semibold text-primary">{med.medication_name}</p>
-                        <p className="text-sm text-muted-foreground">
-                          {med.dosage} • {med.frequency}
-                        </p>
-                        <p className="text-sm text-muted-foreground">
-                          Início: {format(parseISO(med.start_date), "dd/MM/yyyy")}
-                          {med.end_date && ` • Fim: ${format(parseISO(med.end_date), "dd/MM/yyyy")}`}
-                        </p>
-                      </div>
-                    </div>
-                    <div className="flex flex-col items-end gap-2">
-                      <div className="flex items-center gap-2">
-                        <Badge variant={med.is_active ? "default" : "secondary"}>
-                          {med.is_active ? "Ativa" : "Inativa"}
-                        </Badge>
-                        <Switch
-                          checked={med.is_active}
-                          onCheckedChange={() => handleToggleActive(med.id, med.is_active)}
-                        />
+            medications.map((med) => {
+              const adherence = adherenceByMedication.get(med.id);
+
+              return (
+                <Card key={med.id} className="card-elevated">
+                  <CardContent className="p-4">
+                    <div className="flex items-start justify-between gap-4">
+                      <div className="flex items-start gap-3">
+                        <div className="p-2 rounded-lg bg-secondary mt-1">
+                          <Pill className="w-5 h-5 text-primary" />
+                        </div>
+                        <div>
+                          <p className="font-medium">{med.patient_name}</p>
+                          <p className="text-lg font-semibold text-primary">{med.medication_name}</p>
+                          <p className="text-sm text-muted-foreground">
+                            {med.dosage} • {med.frequency}
+                          </p>
+                          <p className="text-sm text-muted-foreground">
+                            Início: {format(parseISO(med.start_date), "dd/MM/yyyy")}
+                            {med.end_date && ` • Fim: ${format(parseISO(med.end_date), "dd/MM/yyyy")}`}
+                          </p>
+                          {med.status === 'suspended' && med.suspension_reason && (
+                            <p className="text-sm text-destructive">Suspensa: {med.suspension_reason}</p>
+                          )}
+                          {adherence && (
+                            <p className="text-sm text-muted-foreground">
+                              Adesão: <span className={`font-semibold ${adherenceClassName(adherence.rate)}`}>
+                                {adherence.rate}%
+                              </span>
+                              {` (${adherence.taken}/${adherence.expected} doses)`}
+                            </p>
+                          )}
+                        </div>
                       </div>
-                      <div className="flex gap-1">
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          className="h-8 w-8"
-                          onClick={() => handleEdit(med)}
-                        >
-                          <Pencil className="w-4 h-4" />
-                        </Button>
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          className="h-8 w-8 text-destructive hover:text-destructive"
-                          onClick={() => handleDelete(med.id)}
-                        >
-                          <Trash2 className="w-4 h-4" />
-                        </Button>
+                      <div className="flex flex-col items-end gap-2">
+                        <div className="flex items-center gap-2">
+                          <span className={MEDICATION_STATUS_CONFIG[med.status].className}>
+                            {MEDICATION_STATUS_CONFIG[med.status].label}
+                          </span>
+                          <Switch
+                            checked={!med.suspended_at}
+                            onCheckedChange={() => handleToggleSuspended(med)}
+                          />
+                        </div>
+                        <div className="flex gap-1">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            onClick={() => handleEdit(med)}
+                          >
+                            <Pencil className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8 text-destructive hover:text-destructive"
+                            onClick={() => handleDelete(med.id)}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
                       </div>
                     </div>
-                  </div>
-                  {med.notes && (
-                    <p className="mt-2 text-sm text-muted-foreground pl-12">{med.notes}</p>
-                  )}
-                </CardContent>
-              </Card>
-            ))
+                    {med.notes && (
+                      <p className="mt-2 text-sm text-muted-foreground pl-12">{med.notes}</p>
+                    )}
+                  </CardContent>
+                </Card>
+              );
+            })
           )}
         </div>
 
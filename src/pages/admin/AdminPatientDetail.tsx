@@ -0,0 +1,744 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { AdminLayout } from '@/components/admin/AdminLayout';
+import { EditPatientDialog } from '@/components/admin/EditPatientDialog';
+import { EditApplicationDialog } from '@/components/admin/EditApplicationDialog';
+import { EditPaymentDialog } from '@/components/admin/EditPaymentDialog';
+import { EditMedicationDialog } from '@/components/admin/EditMedicationDialog';
+import { PaymentTransactionsDialog } from '@/components/admin/PaymentTransactionsDialog';
+import { PrescriptionDialog } from '@/components/admin/PrescriptionDialog';
+import { PrescriptionHistory } from '@/components/admin/PrescriptionHistory';
+import { ClinicalNotes } from '@/components/admin/ClinicalNotes';
+import { AnamnesisResponses } from '@/components/admin/AnamnesisResponses';
+import { useAdmin } from '@/hooks/useAdmin';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { StatusBadge } from '@/components/ui/StatusBadge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  ArrowLeft,
+  Calendar,
+  ClipboardList,
+  CreditCard,
+  HandCoins,
+  Mail,
+  MapPin,
+  MessageSquare,
+  Pencil,
+  Phone,
+  Pill,
+  Stethoscope,
+  Syringe,
+  User,
+} from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { ScheduledMedication, formatDose } from '@/lib/medicationSchedule';
+import { MedicationSupply, SupplyStatus, describeSupply, supplyClassName, supplyDaysLeft } from '@/lib/medicationSupply';
+import { MEDICATION_STATUS_CONFIG, MedicationStatus } from '@/lib/medicationStatus';
+import { ADHERENCE_WINDOW_DAYS, Adherence, adherenceClassName, fetchPatientAdherence } from '@/lib/adherence';
+import { TIMELINE_KIND_LABELS, TimelineEvent, TimelineEventKind, buildPatientTimeline } from '@/lib/patientTimeline';
+import { paymentBalance } from '@/lib/payments';
+import { Visit } from '@/lib/clinicalNotes';
+import { formatTimeRange } from '@/lib/applicationSlots';
+
+interface Profile {
+  id: string;
+  user_id: string;
+  full_name: string;
+  email: string;
+  phone: string | null;
+  cpf: string | null;
+  birth_date: string | null;
+  address: string | null;
+  avatar_url: string | null;
+  created_at: string;
+}
+
+interface TreatmentPlan {
+  id: string;
+  protocol: string;
+  start_date: string;
+  status: string;
+  total_sessions: number;
+}
+
+interface Application {
+  id: string;
+  user_id: string;
+  application_date: string;
+  start_time: string | null;
+  duration_minutes: number;
+  status: string;
+  notes: string | null;
+  series_id: string | null;
+}
+
+interface Payment {
+  id: string;
+  user_id: string;
+  amount: number;
+  amount_paid: number;
+  due_date: string;
+  status: string;
+  description: string | null;
+  paid_date: string | null;
+}
+
+interface Medication extends ScheduledMedication, MedicationSupply, SupplyStatus {
+  user_id: string;
+  series_id: string | null;
+  frequency: string;
+  catalog_id: string | null;
+  notes: string | null;
+  suspension_reason: string | null;
+  status: MedicationStatus;
+}
+
+interface Evaluation {
+  id: string;
+  evaluation_date: string;
+  evaluation_time: string;
+  status: string;
+  notes: string | null;
+}
+
+interface Question {
+  id: string;
+  type: string;
+  title: string;
+  content: string;
+  response: string | null;
+  created_at: string;
+}
+
+const timelineIcons: Record<TimelineEventKind, typeof Calendar> = {
+  plan: ClipboardList,
+  application: Syringe,
+  evaluation: Stethoscope,
+  medication: Pill,
+};
+
+const ApplicationRow = ({ app, onEdit }: { app: Application; onEdit: (app: Application) => void }) => (
+  <div className="flex items-center justify-between gap-3 p-3 rounded-lg bg-secondary/50 border border-border">
+    <div className="min-w-0">
+      <p className="text-sm font-medium">
+        {format(parseISO(app.application_date), "dd 'de' MMMM 'de' yyyy", { locale: ptBR })}
+        {app.start_time && ` • ${formatTimeRange(app.start_time, app.duration_minutes)}`}
+      </p>
+      {app.notes && <p className="text-xs text-muted-foreground truncate">{app.notes}</p>}
+    </div>
+    <div className="flex items-center gap-2 shrink-0">
+      <StatusBadge status={app.status} />
+      <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => onEdit(app)}>
+        <Pencil className="w-4 h-4" />
+      </Button>
+    </div>
+  </div>
+);
+
+export default function AdminPatientDetail() {
+  const { userId } = useParams<{ userId: string }>();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { hasFinancialAccess } = useAdmin();
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [plans, setPlans] = useState<TreatmentPlan[]>([]);
+  const [applications, setApplications] = useState<Application[]>([]);
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [medications, setMedications] = useState<Medication[]>([]);
+  const [evaluations, setEvaluations] = useState<Evaluation[]>([]);
+  const [questions, setQuestions] = useState<Question[]>([]);
+  const [adherence, setAdherence] = useState<Adherence | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [editPatientOpen, setEditPatientOpen] = useState(false);
+  const [editingApplication, setEditingApplication] = useState<Application | null>(null);
+  const [editingPayment, setEditingPayment] = useState<Payment | null>(null);
+  const [receivingPayment, setReceivingPayment] = useState<Payment | null>(null);
+  const [editingMedication, setEditingMedication] = useState<Medication | null>(null);
+
+  const fetchMedications = useCallback(async () => {
+    try {
+      const [{ data, error }, patientAdherence] = await Promise.all([
+        supabase
+          .from('medications_with_status')
+          .select('*')
+          .eq('user_id', userId)
+          .order('start_date', { ascending: true }),
+        fetchPatientAdherence(supabase, userId),
+      ]);
+
+      if (error) throw error;
+      setMedications((data || []) as Medication[]);
+      setAdherence(patientAdherence);
+    } catch (error) {
+      console.error('Error fetching medications:', error);
+    }
+  }, [userId]);
+
+  const fetchPatient = useCallback(async () => {
+    try {
+      const [profileRes, plansRes, applicationsRes, evaluationsRes, questionsRes] = await Promise.all([
+        supabase.from('profiles').select('*').eq('user_id', userId).maybeSingle(),
+        supabase
+          .from('treatment_plans')
+          .select('id, protocol, start_date, status, total_sessions')
+          .eq('user_id', userId)
+          .order('start_date', { ascending: false }),
+        supabase
+          .from('applications')
+          .select('id, user_id, application_date, start_time, duration_minutes, status, notes, series_id')
+          .eq('user_id', userId)
+          .order('application_date', { ascending: true }),
+        supabase
+          .from('medical_evaluations')
+          .select('id, evaluation_date, evaluation_time, status, notes')
+          .eq('user_id', userId)
+          .order('evaluation_date', { ascending: false }),
+        supabase
+          .from('questions_reports')
+          .select('id, type, title, content, response, created_at')
+          .eq('user_id', userId)
+          .order('created_at', { ascending: false }),
+      ]);
+
+      if (profileRes.error) throw profileRes.error;
+      if (plansRes.error) throw plansRes.error;
+      if (applicationsRes.error) throw applicationsRes.error;
+      if (evaluationsRes.error) throw evaluationsRes.error;
+      if (questionsRes.error) throw questionsRes.error;
+
+      setProfile(profileRes.data);
+      setPlans(plansRes.data || []);
+      setApplications(applicationsRes.data || []);
+      setEvaluations(evaluationsRes.data || []);
+      setQuestions(questionsRes.data || []);
+      await fetchMedications();
+    } catch (error) {
+      console.error('Error fetching patient:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId, fetchMedications]);
+
+  useEffect(() => {
+    if (userId) {
+      fetchPatient();
+    }
+  }, [userId, fetchPatient]);
+
+  const fetchPayments = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('payments')
+        .select('id, user_id, amount, amount_paid, due_date, status, description, paid_date')
+        .eq('user_id', userId)
+        .order('due_date', { ascending: true });
+
+      if (error) throw error;
+      setPayments(data || []);
+    } catch (error) {
+      console.error('Error fetching payments:', error);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    if (userId && hasFinancialAccess) {
+      fetchPayments();
+    }
+  }, [userId, hasFinancialAccess, fetchPayments]);
+
+  const refreshApplications = async () => {
+    const { data, error } = await supabase
+      .from('applications')
+      .select('id, user_id, application_date, start_time, duration_minutes, status, notes, series_id')
+      .eq('user_id', userId)
+      .order('application_date', { ascending: true });
+
+    if (error) {
+      console.error('Error refreshing applications:', error);
+      toast({ title: 'Erro ao atualizar aplicações', variant: 'destructive' });
+      return;
+    }
+    setApplications(data || []);
+  };
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+  };
+
+  const getTypeLabel = (type: string) => {
+    switch (type) {
+      case 'question':
+        return 'Dúvida';
+      case 'report':
+        return 'Relato';
+      case 'complaint':
+        return 'Reclamação';
+      default:
+        return type;
+    }
+  };
+
+  if (loading) {
+    return (
+      <AdminLayout currentPage="/admin/patients">
+        <div className="flex items-center justify-center py-12">
+          <div className="w-12 h-12 rounded-xl gradient-primary animate-pulse" />
+        </div>
+      </AdminLayout>
+    );
+  }
+
+  if (!profile) {
+    return (
+      <AdminLayout currentPage="/admin/patients">
+        <Card className="card-elevated">
+          <CardContent className="py-8 text-center text-muted-foreground space-y-4">
+            <p>Paciente não encontrado</p>
+            <Button variant="outline" onClick={() => navigate('/admin/patients')}>
+              Voltar
+            </Button>
+          </CardContent>
+        </Card>
+      </AdminLayout>
+    );
+  }
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const upcomingApplications = applications.filter(app => app.application_date >= today && app.status === 'scheduled');
+  const pastApplications = applications
+    .filter(app => !upcomingApplications.includes(app))
+    .reverse();
+  const currentMedications = medications.filter(med => med.status === 'active' || med.status === 'scheduled');
+  const pendingQuestions = questions.filter(q => !q.response).length;
+  const balance = paymentBalance(payments);
+  const timeline = buildPatientTimeline({ plans, applications, evaluations, medications });
+  const visits: Visit[] = [
+    ...applications.map(app => ({ kind: 'application' as const, id: app.id, date: app.application_date })),
+    ...evaluations.map(evaluation => ({
+      kind: 'evaluation' as const,
+      id: evaluation.id,
+      date: `${evaluation.evaluation_date}T${evaluation.evaluation_time}`,
+    })),
+  ].sort((a, b) => b.date.localeCompare(a.date));
+
+  const TimelineRow = ({ event }: { event: TimelineEvent }) => {
+    const Icon = timelineIcons[event.kind];
+
+    return (
+      <div className="flex items-start gap-3">
+        <div className="p-2 rounded-lg bg-secondary shrink-0">
+          <Icon className="w-4 h-4 text-primary" />
+        </div>
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-sm font-medium truncate">{event.title}</p>
+            {event.status && <StatusBadge status={event.status} />}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {format(parseISO(event.date), event.kind === 'evaluation' ? "dd/MM/yyyy 'às' HH:mm" : 'dd/MM/yyyy')}
+            {event.kind !== 'application' && event.kind !== 'evaluation' && ` • ${TIMELINE_KIND_LABELS[event.kind]}`}
+          </p>
+          {event.detail && <p className="text-xs text-muted-foreground truncate">{event.detail}</p>}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <AdminLayout currentPage="/admin/patients">
+      <div className="space-y-6 animate-fade-in">
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <Button variant="ghost" size="icon" onClick={() => navigate('/admin/patients')}>
+              <ArrowLeft className="w-5 h-5" />
+            </Button>
+            <Avatar className="w-12 h-12">
+              <AvatarImage src={profile.avatar_url || undefined} alt={profile.full_name} />
+              <AvatarFallback className="gradient-primary text-primary-foreground font-bold">
+                {profile.full_name.charAt(0).toUpperCase()}
+              </AvatarFallback>
+            </Avatar>
+            <div className="space-y-1">
+              <h1 className="text-2xl font-bold font-display">{profile.full_name}</h1>
+              <p className="text-muted-foreground text-sm">
+                Cadastrado em {format(parseISO(profile.created_at), "dd/MM/yyyy", { locale: ptBR })}
+              </p>
+            </div>
+          </div>
+          <div className="flex flex-wrap items-center justify-end gap-2">
+            <Button
+              variant="outline"
+              className="gap-2"
+              onClick={() => navigate(`/admin/patients/plans?patient=${profile.user_id}`)}
+            >
+              <ClipboardList className="w-4 h-4" />
+              Planos
+            </Button>
+            <PrescriptionDialog defaultPatientId={profile.user_id} />
+            <Button variant="outline" className="gap-2" onClick={() => setEditPatientOpen(true)}>
+              <Pencil className="w-4 h-4" />
+              Editar
+            </Button>
+          </div>
+        </div>
+
+        <Card className="card-elevated">
+          <CardContent className="p-4 grid gap-3 sm:grid-cols-2">
+            <div className="flex items-center gap-3 text-sm">
+              <Mail className="w-4 h-4 text-muted-foreground" />
+              <span>{profile.email}</span>
+            </div>
+            {profile.phone && (
+              <div className="flex items-center gap-3 text-sm">
+                <Phone className="w-4 h-4 text-muted-foreground" />
+                <span>{profile.phone}</span>
+              </div>
+            )}
+            {profile.birth_date && (
+              <div className="flex items-center gap-3 text-sm">
+                <Calendar className="w-4 h-4 text-muted-foreground" />
+                <span>{format(parseISO(profile.birth_date), "dd/MM/yyyy")}</span>
+              </div>
+            )}
+            {profile.cpf && (
+              <div className="flex items-center gap-3 text-sm">
+                <User className="w-4 h-4 text-muted-foreground" />
+                <span>CPF: {profile.cpf}</span>
+              </div>
+            )}
+            {profile.address && (
+              <div className="flex items-center gap-3 text-sm sm:col-span-2">
+                <MapPin className="w-4 h-4 text-muted-foreground" />
+                <span>{profile.address}</span>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Tabs defaultValue="timeline">
+          <TabsList className="flex h-auto flex-wrap">
+            <TabsTrigger value="timeline">Linha do tempo</TabsTrigger>
+            <TabsTrigger value="record">Prontuário</TabsTrigger>
+            <TabsTrigger value="anamnesis">Anamnese</TabsTrigger>
+            <TabsTrigger value="applications">Aplicações ({upcomingApplications.length})</TabsTrigger>
+            {hasFinancialAccess && <TabsTrigger value="financial">Financeiro</TabsTrigger>}
+            <TabsTrigger value="medications">Medicações ({currentMedications.length})</TabsTrigger>
+            <TabsTrigger value="evaluations">Avaliações</TabsTrigger>
+            <TabsTrigger value="questions">Dúvidas ({pendingQuestions})</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="timeline" className="mt-4">
+            <Card className="card-elevated">
+              <CardContent className="p-4 space-y-4">
+                {timeline.length === 0 ? (
+                  <p className="text-sm text-muted-foreground text-center py-4">Nenhum registro para este paciente</p>
+                ) : (
+                  timeline.map(event => <TimelineRow key={event.id} event={event} />)
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="record" className="mt-4">
+            <Card className="card-elevated">
+              <CardContent className="p-4">
+                <ClinicalNotes patientId={profile.user_id} visits={visits} />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="anamnesis" className="mt-4">
+            <Card className="card-elevated">
+              <CardContent className="p-4">
+                <AnamnesisResponses patientId={profile.user_id} />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="applications" className="mt-4 space-y-4">
+            <Card className="card-elevated">
+              <CardHeader className="pb-3">
+                <CardTitle className="text-base">Próximas</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {upcomingApplications.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">Nenhuma aplicação agendada</p>
+                ) : (
+                  upcomingApplications.map(app => <ApplicationRow key={app.id} app={app} onEdit={setEditingApplication} />)
+                )}
+              </CardContent>
+            </Card>
+            {pastApplications.length > 0 && (
+              <Card className="card-elevated">
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-base">Anteriores</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {pastApplications.map(app => <ApplicationRow key={app.id} app={app} onEdit={setEditingApplication} />)}
+                </CardContent>
+              </Card>
+            )}
+          </TabsContent>
+
+          {hasFinancialAccess && (
+            <TabsContent value="financial" className="mt-4 space-y-4">
+              <div className="grid grid-cols-3 gap-3">
+                <Card className="card-elevated">
+                  <CardContent className="p-4">
+                    <p className="text-xs text-muted-foreground">Total cobrado</p>
+                    <p className="text-lg font-semibold">{formatCurrency(balance.total)}</p>
+                  </CardContent>
+                </Card>
+                <Card className="card-elevated">
+                  <CardContent className="p-4">
+                    <p className="text-xs text-muted-foreground">Recebido</p>
+                    <p className="text-lg font-semibold text-success">{formatCurrency(balance.paid)}</p>
+                  </CardContent>
+                </Card>
+                <Card className="card-elevated">
+                  <CardContent className="p-4">
+                    <p className="text-xs text-muted-foreground">Em aberto</p>
+                    <p className="text-lg font-semibold text-warning">{formatCurrency(balance.outstanding)}</p>
+                  </CardContent>
+                </Card>
+              </div>
+              <Card className="card-elevated">
+                <CardContent className="p-4 space-y-2">
+                  {payments.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">Nenhum pagamento cadastrado</p>
+                  ) : (
+                    payments.map(payment => (
+                      <div
+                        key={payment.id}
+                        className="flex items-center justify-between gap-3 p-3 rounded-lg bg-secondary/50 border border-border"
+                      >
+                        <div className="flex items-center gap-3 min-w-0">
+                          <CreditCard className="w-4 h-4 text-primary shrink-0" />
+                          <div className="min-w-0">
+                            <p className="text-sm font-medium">
+                              {formatCurrency(Number(payment.amount))}
+                              {Number(payment.amount_paid) > 0 && payment.status !== 'paid' && (
+                                <span className="text-xs text-muted-foreground font-normal">
+                                  {' '}• pago {formatCurrency(Number(payment.amount_paid))}
+                                </span>
+                              )}
+                            </p>
+                            <p className="text-xs text-muted-foreground truncate">
+                              Vence {format(parseISO(payment.due_date), "dd/MM/yyyy")}
+                              {payment.description && ` • ${payment.description}`}
+                            </p>
+                          </div>
+                        </div>
+                        <div className="flex items-center gap-1 shrink-0">
+                          <StatusBadge status={payment.status} />
+                          {payment.status !== 'paid' && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8"
+                              onClick={() => setReceivingPayment(payment)}
+                            >
+                              <HandCoins className="w-4 h-4" />
+                            </Button>
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            onClick={() => setEditingPayment(payment)}
+                          >
+                            <Pencil className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </div>
+                    ))
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
+          )}
+
+          <TabsContent value="medications" className="mt-4 space-y-4">
+            {adherence && (
+              <Card className="card-elevated">
+                <CardContent className="p-4 flex items-center justify-between text-sm">
+                  <span>Adesão (últimos {ADHERENCE_WINDOW_DAYS} dias)</span>
+                  <span className="text-muted-foreground">
+                    {adherence.taken}/{adherence.expected} doses
+                    <span className={`ml-2 font-semibold ${adherenceClassName(adherence.rate)}`}>
+                      {adherence.rate}%
+                    </span>
+                  </span>
+                </CardContent>
+              </Card>
+            )}
+            <Card className="card-elevated">
+              <CardContent className="p-4 space-y-2">
+                {currentMedications.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">Nenhuma medicação em uso</p>
+                ) : (
+                  currentMedications.map(med => {
+                    const daysLeft = med.status === 'active' ? supplyDaysLeft(med) : null;
+
+                    return (
+                      <div
+                        key={med.id}
+                        className="flex items-center justify-between gap-3 p-3 rounded-lg bg-secondary/50 border border-border"
+                      >
+                        <div className="flex items-center gap-3 min-w-0">
+                          <Pill className="w-4 h-4 text-primary shrink-0" />
+                          <div className="min-w-0">
+                            <p className="text-sm font-medium">
+                              {med.medication_name} {formatDose(med) || med.dosage}
+                            </p>
+                            <p className="text-xs text-muted-foreground truncate">{med.frequency}</p>
+                            {daysLeft !== null && (
+                              <p className={`text-xs font-medium ${supplyClassName(daysLeft)}`}>
+                                {describeSupply(daysLeft)}
+                              </p>
+                            )}
+                          </div>
+                        </div>
+                        <div className="flex items-center gap-1 shrink-0">
+                          <span className={MEDICATION_STATUS_CONFIG[med.status].className}>
+                            {MEDICATION_STATUS_CONFIG[med.status].label}
+                          </span>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            onClick={() => setEditingMedication(med)}
+                          >
+                            <Pencil className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </div>
+                    );
+                  })
+                )}
+              </CardContent>
+            </Card>
+            <Card className="card-elevated">
+              <CardHeader className="pb-3">
+                <CardTitle className="text-base">Receituários</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <PrescriptionHistory patientId={profile.user_id} />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="evaluations" className="mt-4">
+            <Card className="card-elevated">
+              <CardContent className="p-4 space-y-2">
+                {evaluations.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">Nenhuma avaliação cadastrada</p>
+                ) : (
+                  evaluations.map(evaluation => (
+                    <div
+                      key={evaluation.id}
+                      className="flex items-center justify-between gap-3 p-3 rounded-lg bg-secondary/50 border border-border"
+                    >
+                      <div className="flex items-center gap-3 min-w-0">
+                        <Stethoscope className="w-4 h-4 text-primary shrink-0" />
+                        <div className="min-w-0">
+                          <p className="text-sm font-medium">
+                            {format(parseISO(evaluation.evaluation_date), "dd/MM/yyyy")} às {evaluation.evaluation_time.slice(0, 5)}
+                          </p>
+                          {evaluation.notes && (
+                            <p className="text-xs text-muted-foreground truncate">{evaluation.notes}</p>
+                          )}
+                        </div>
+                      </div>
+                      <StatusBadge status={evaluation.status} />
+                    </div>
+                  ))
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="questions" className="mt-4">
+            <Card className="card-elevated">
+              <CardContent className="p-4 space-y-2">
+                {questions.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">Nenhuma dúvida ou relato</p>
+                ) : (
+                  questions.map(question => (
+                    <div
+                      key={question.id}
+                      className="p-3 rounded-lg bg-secondary/50 border border-border space-y-1 cursor-pointer hover:border-primary/50 transition-colors"
+                      onClick={() => navigate('/admin/questions')}
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <div className="flex items-center gap-2 min-w-0">
+                          <MessageSquare className="w-4 h-4 text-primary shrink-0" />
+                          <p className="text-sm font-medium truncate">{question.title}</p>
+                        </div>
+                        <div className="flex items-center gap-2 shrink-0">
+                          <Badge variant="secondary">{getTypeLabel(question.type)}</Badge>
+                          <Badge variant={question.response ? 'default' : 'outline'}>
+                            {question.response ? 'Respondida' : 'Pendente'}
+                          </Badge>
+                        </div>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {format(parseISO(question.created_at), "dd/MM/yyyy 'às' HH:mm")}
+                      </p>
+                    </div>
+                  ))
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
+
+        <EditPatientDialog
+          patient={profile}
+          open={editPatientOpen}
+          onOpenChange={setEditPatientOpen}
+          onPatientUpdated={fetchPatient}
+        />
+
+        <EditApplicationDialog
+          application={editingApplication}
+          allApplications={applications}
+          open={!!editingApplication}
+          onOpenChange={(open) => !open && setEditingApplication(null)}
+          onSuccess={refreshApplications}
+        />
+
+        <EditMedicationDialog
+          medication={editingMedication}
+          allMedications={medications}
+          open={!!editingMedication}
+          onOpenChange={(open) => !open && setEditingMedication(null)}
+          onSuccess={fetchMedications}
+        />
+
+        {hasFinancialAccess && (
+          <>
+            <EditPaymentDialog
+              payment={editingPayment}
+              open={!!editingPayment}
+              onOpenChange={(open) => !open && setEditingPayment(null)}
+              onSuccess={fetchPayments}
+            />
+            <PaymentTransactionsDialog
+              payment={receivingPayment}
+              open={!!receivingPayment}
+              onOpenChange={(open) => !open && setReceivingPayment(null)}
+              onSuccess={fetchPayments}
+            />
+          </>
+        )}
+      </div>
+    </AdminLayout>
+  );
+}
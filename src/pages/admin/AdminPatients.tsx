@@ -1,4 +1,5 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { AdminLayout } from '@/components/admin/AdminLayout';
 import { CreatePatientDialog } from '@/components/admin/CreatePatientDialog';
 import { EditPatientDialog } from '@/components/admin/EditPatientDialog';
@@ -12,9 +13,10 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { useToast } from '@/hooks/use-toast';
-import { Search, User, Mail, Phone, Calendar, MapPin, Pencil, Shield, KeyRound, Crown, CreditCard } from 'lucide-react';
+import { Search, User, Mail, Phone, Calendar, MapPin, Pencil, Shield, KeyRound, Crown, CreditCard, ClipboardList, ClipboardCheck, FolderOpen } from 'lucide-react';
 import { format, parseISO } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
+import { ADHERENCE_WINDOW_DAYS, Adherence, adherenceClassName, fetchPatientAdherence } from '@/lib/adherence';
 
 type RoleType = 'master' | 'admin' | 'user' | null;
 
@@ -35,12 +37,15 @@ interface Patient {
 
 export default function AdminPatients() {
   const { toast } = useToast();
+  const navigate = useNavigate();
   const { isMaster } = useAdmin();
   const [patients, setPatients] = useState<Patient[]>([]);
   const [filteredPatients, setFilteredPatients] = useState<Patient[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
   const [loading, setLoading] = useState(true);
   const [selectedPatient, setSelectedPatient] = useState<Patient | null>(null);
+  const [selectedAdherence, setSelectedAdherence] = useState<Adherence | null>(null);
+  const selectedPatientId = useRef<string | null>(null);
   const [editDialogOpen, setEditDialogOpen] = useState(false);
   const [patientToEdit, setPatientToEdit] = useState<Patient | null>(null);
   const [resetPasswordDialogOpen, setResetPasswordDialogOpen] = useState(false);
@@ -52,6 +57,20 @@ export default function AdminPatients() {
     fetchPatients();
   }, []);
 
+  useEffect(() => {
+    setSelectedAdherence(null);
+    selectedPatientId.current = selectedPatient?.user_id ?? null;
+    if (!selectedPatient) return;
+
+    const userId = selectedPatient.user_id;
+    fetchPatientAdherence(supabase, userId)
+      .then(adherence => {
+        // A slower response for a previously selected patient must not overwrite the card
+        if (selectedPatientId.current === userId) setSelectedAdherence(adherence);
+      })
+      .catch(error => console.error('Error fetching adherence:', error));
+  }, [selectedPatient]);
+
   useEffect(() => {
     if (searchTerm) {
       const filtered = patients.filter(
@@ -165,7 +184,17 @@ export default function AdminPatients() {
               {patients.length} pacientes cadastrados
             </p>
           </div>
-          <CreatePatientDialog onPatientCreated={fetchPatients} />
+          <div className="flex items-center gap-2">
+            <Button variant="outline" className="gap-2" onClick={() => navigate('/admin/patients/plans')}>
+              <ClipboardList className="w-4 h-4" />
+              Planos
+            </Button>
+            <Button variant="outline" className="gap-2" onClick={() => navigate('/admin/patients/anamnesis')}>
+              <ClipboardCheck className="w-4 h-4" />
+              Anamnese
+            </Button>
+            <CreatePatientDialog onPatientCreated={fetchPatients} />
+          </div>
         </div>
 
         <div className="relative">
@@ -192,6 +221,22 @@ export default function AdminPatients() {
                   <CardTitle className="font-display text-lg">{selectedPatient.full_name}</CardTitle>
                 </div>
                 <div className="flex items-center gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => navigate(`/admin/patients/${selectedPatient.user_id}`)}
+                  >
+                    <FolderOpen className="w-4 h-4 mr-1" />
+                    Ficha
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => navigate(`/admin/patients/plans?patient=${selectedPatient.user_id}`)}
+                  >
+                    <ClipboardList className="w-4 h-4 mr-1" />
+                    Planos
+                  </Button>
                   <Button 
                     variant="outline" 
                     size="sm" 
@@ -256,6 +301,18 @@ export default function AdminPatients() {
                 {getRoleBadge(selectedPatient.role, selectedPatient.hasFinancialPermission)}
               </div>
 
+              {selectedAdherence && (
+                <div className="flex items-center justify-between text-sm pt-2">
+                  <span>Adesão às medicações (últimos {ADHERENCE_WINDOW_DAYS} dias)</span>
+                  <span className="text-muted-foreground">
+                    {selectedAdherence.taken}/{selectedAdherence.expected} doses
+                    <span className={`ml-2 font-semibold ${adherenceClassName(selectedAdherence.rate)}`}>
+                      {selectedAdherence.rate}%
+                    </span>
+                  </span>
+                </div>
+              )}
+
               {/* Permissions Section - Only for Master */}
               {isMaster && (
                 <div className="pt-4 border-t border-border">
@@ -0,0 +1,317 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { AdminLayout } from '@/components/admin/AdminLayout';
+import { useAdmin } from '@/hooks/useAdmin';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ArrowLeft, FileUp, Landmark, CheckCircle2 } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { useToast } from '@/hooks/use-toast';
+import {
+  MATCH_REASON_LABELS,
+  MatchProposal,
+  OpenPayment,
+  StatementEntry,
+  parseStatement,
+  proposeMatches,
+} from '@/lib/bankStatement';
+import { chunk, fetchAllPages } from '@/lib/pagination';
+
+const NO_MATCH = 'none';
+
+// Statements from Brazilian banks are often exported in Windows-1252
+async function readStatementFile(file: File): Promise<string> {
+  const buffer = await file.arrayBuffer();
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+  } catch {
+    return new TextDecoder('windows-1252').decode(buffer);
+  }
+}
+
+// Statement entries already reconciled, looked up in batches to keep the query string short
+async function fetchImportedEntryIds(entryIds: string[]): Promise<Set<string>> {
+  const imported = new Set<string>();
+  for (let i = 0; i < entryIds.length; i += 100) {
+    const { data, error } = await supabase
+      .from('payment_transactions')
+      .select('bank_entry_id')
+      .in('bank_entry_id', entryIds.slice(i, i + 100));
+    if (error) throw error;
+    (data || []).forEach(t => imported.add(t.bank_entry_id as string));
+  }
+  return imported;
+}
+
+export default function AdminReconciliation() {
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const { hasFinancialAccess, loading: adminLoading } = useAdmin();
+  const [fileName, setFileName] = useState('');
+  const [entries, setEntries] = useState<StatementEntry[]>([]);
+  const [alreadyImported, setAlreadyImported] = useState(0);
+  const [dateWindow, setDateWindow] = useState('5');
+  const [openPayments, setOpenPayments] = useState<OpenPayment[]>([]);
+  const [proposals, setProposals] = useState<MatchProposal[]>([]);
+  const [selections, setSelections] = useState<Record<string, string>>({});
+  const [processing, setProcessing] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!adminLoading && !hasFinancialAccess) {
+      navigate('/admin');
+    }
+  }, [hasFinancialAccess, adminLoading, navigate]);
+
+  // Re-run the matching whenever the statement, open payments or window change
+  useEffect(() => {
+    const result = proposeMatches(entries, openPayments, parseInt(dateWindow));
+    setProposals(result);
+    setSelections(Object.fromEntries(
+      result.map(p => [p.entry.id, p.match ? p.match.payment.id : NO_MATCH])
+    ));
+  }, [entries, openPayments, dateWindow]);
+
+  const fetchOpenPayments = async (): Promise<OpenPayment[]> => {
+    const payments = await fetchAllPages((from, to) =>
+      supabase
+        .from('payments')
+        .select('id, user_id, amount, amount_paid, due_date, pix_txid')
+        .neq('status', 'paid')
+        .order('due_date', { ascending: true })
+        .order('id')
+        .range(from, to)
+    );
+
+    // Names and CPFs only of the patients with open payments
+    const profileBatches = await Promise.all(
+      chunk([...new Set(payments.map(payment => payment.user_id))]).map(async (ids) => {
+        const { data, error } = await supabase.from('profiles').select('user_id, full_name, cpf').in('user_id', ids);
+        if (error) throw error;
+        return data || [];
+      })
+    );
+
+    const profilesMap = new Map(profileBatches.flat().map(p => [p.user_id, p]));
+    return payments.map(payment => ({
+      ...payment,
+      patient_name: profilesMap.get(payment.user_id)?.full_name || 'Paciente',
+      cpf: profilesMap.get(payment.user_id)?.cpf,
+    }));
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setProcessing(true);
+    try {
+      const parsed = parseStatement(file.name, await readStatementFile(file));
+      if (parsed.length === 0) {
+        toast({ title: 'Nenhum lançamento encontrado no arquivo', variant: 'destructive' });
+        return;
+      }
+
+      const [payments, importedIds] = await Promise.all([
+        fetchOpenPayments(),
+        fetchImportedEntryIds(parsed.map(entry => entry.id)),
+      ]);
+      const newEntries = parsed.filter(entry => !importedIds.has(entry.id));
+
+      setFileName(file.name);
+      setAlreadyImported(parsed.length - newEntries.length);
+      setOpenPayments(payments);
+      setEntries(newEntries);
+    } catch (error) {
+      console.error('Error importing bank statement:', error);
+      toast({ title: 'Erro ao ler o extrato', variant: 'destructive' });
+    } finally {
+      setProcessing(false);
+      e.target.value = '';
+    }
+  };
+
+  const handleConfirm = async () => {
+    const confirmed = proposals.filter(p => selections[p.entry.id] && selections[p.entry.id] !== NO_MATCH);
+    if (confirmed.length === 0) return;
+
+    const paymentIds = confirmed.map(p => selections[p.entry.id]);
+    if (new Set(paymentIds).size !== paymentIds.length) {
+      toast({ title: 'Um pagamento foi associado a mais de um lançamento', variant: 'destructive' });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      // Entries reconciled meanwhile (another tab or user) are skipped by the unique bank_entry_id
+      const { data: inserted, error } = await supabase.from('payment_transactions').upsert(
+        confirmed.map(({ entry }) => ({
+          payment_id: selections[entry.id],
+          amount: entry.amount,
+          method: /pix/i.test(entry.description) ? 'pix' as const : 'bank_transfer' as const,
+          paid_at: entry.date,
+          receipt_reference: entry.id,
+          bank_entry_id: entry.id,
+          notes: `Conciliação bancária: ${entry.description}`.trim(),
+        })),
+        { onConflict: 'bank_entry_id', ignoreDuplicates: true }
+      ).select('id');
+
+      if (error) throw error;
+
+      const skipped = confirmed.length - (inserted?.length ?? 0);
+      toast({
+        title: `${inserted?.length ?? 0} recebimento(s) conciliado(s)!`,
+        description: skipped > 0 ? `${skipped} lançamento(s) já tinham sido conciliados.` : undefined,
+      });
+      const payments = await fetchOpenPayments();
+      const confirmedIds = new Set(confirmed.map(p => p.entry.id));
+      setAlreadyImported(prev => prev + confirmedIds.size);
+      setOpenPayments(payments);
+      setEntries(prev => prev.filter(entry => !confirmedIds.has(entry.id)));
+    } catch (error) {
+      console.error('Error reconciling payments:', error);
+      toast({ title: 'Erro ao conciliar pagamentos', variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+  };
+
+  const selectedCount = proposals.filter(p => selections[p.entry.id] && selections[p.entry.id] !== NO_MATCH).length;
+
+  return (
+    <AdminLayout currentPage="/admin/financial">
+      <div className="space-y-6 animate-fade-in">
+        <div className="flex items-center gap-3">
+          <Button variant="ghost" size="icon" onClick={() => navigate('/admin/financial')}>
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <div>
+            <h1 className="text-2xl font-bold font-display">Conciliação Bancária</h1>
+            <p className="text-muted-foreground text-sm">
+              Importe o extrato (OFX ou CSV) para baixar os pagamentos recebidos
+            </p>
+          </div>
+        </div>
+
+        <Card className="card-elevated">
+          <CardContent className="p-4 space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-[1fr_auto] gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="statement">Extrato bancário</Label>
+                <Input
+                  id="statement"
+                  type="file"
+                  accept=".ofx,.csv,.txt"
+                  onChange={handleFileChange}
+                  disabled={processing}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Janela de datas</Label>
+                <Select value={dateWindow} onValueChange={setDateWindow}>
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {['3', '5', '10', '30'].map(days => (
+                      <SelectItem key={days} value={days}>± {days} dias</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            {fileName && (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <FileUp className="w-4 h-4" />
+                {fileName} • {proposals.length} crédito(s) a conciliar
+                {alreadyImported > 0 && ` • ${alreadyImported} já importado(s)`}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {proposals.length > 0 && (
+          <div className="space-y-3">
+            {proposals.map(({ entry, candidates }) => {
+              const selected = candidates.find(c => c.payment.id === selections[entry.id]);
+
+              return (
+                <Card key={entry.id} className="card-elevated">
+                  <CardContent className="p-4 space-y-3">
+                    <div className="flex items-start justify-between gap-4">
+                      <div className="flex items-start gap-3">
+                        <div className="p-2 rounded-lg bg-secondary">
+                          <Landmark className="w-5 h-5 text-primary" />
+                        </div>
+                        <div>
+                          <p className="text-lg font-bold text-primary">{formatCurrency(entry.amount)}</p>
+                          <p className="text-sm text-muted-foreground">
+                            {format(parseISO(entry.date), "dd/MM/yyyy")} • {entry.description || 'Sem descrição'}
+                          </p>
+                        </div>
+                      </div>
+                      {selected && <CheckCircle2 className="w-5 h-5 text-success shrink-0" />}
+                    </div>
+
+                    <Select
+                      value={selections[entry.id] || NO_MATCH}
+                      onValueChange={(value) => setSelections(prev => ({ ...prev, [entry.id]: value }))}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_MATCH}>Não conciliar</SelectItem>
+                        {candidates.map(({ payment }) => (
+                          <SelectItem key={payment.id} value={payment.id}>
+                            {payment.patient_name} • {formatCurrency(Number(payment.amount) - Number(payment.amount_paid))} • venc. {format(parseISO(payment.due_date), "dd/MM/yyyy")}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+
+                    {selected ? (
+                      <div className="flex flex-wrap gap-1">
+                        {selected.reasons.map(reason => (
+                          <Badge key={reason} variant="outline" className="text-xs">
+                            {MATCH_REASON_LABELS[reason]}
+                          </Badge>
+                        ))}
+                      </div>
+                    ) : candidates.length === 0 && (
+                      <p className="text-xs text-muted-foreground">Nenhum pagamento em aberto com este valor</p>
+                    )}
+                  </CardContent>
+                </Card>
+              );
+            })}
+
+            <Button
+              className="w-full gradient-primary"
+              onClick={handleConfirm}
+              disabled={saving || selectedCount === 0}
+            >
+              {saving ? 'Salvando...' : `Confirmar ${selectedCount} conciliação(ões)`}
+            </Button>
+          </div>
+        )}
+      </div>
+    </AdminLayout>
+  );
+}
@@ -0,0 +1,139 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { AdminLayout } from '@/components/admin/AdminLayout';
+import { StaffProfileDialog } from '@/components/admin/StaffProfileDialog';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { ArrowLeft, Pencil, UserRound } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useStaff } from '@/hooks/useStaff';
+import { WEEKDAY_LABELS } from '@/lib/recurrence';
+import { StaffMember, describeWeekdayHours } from '@/lib/staff';
+
+export default function AdminStaff() {
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const { staff, workingHours, loading, refetch } = useStaff();
+  const [editingMember, setEditingMember] = useState<StaffMember | null>(null);
+
+  const handleToggleActive = async (member: StaffMember) => {
+    try {
+      const { error } = await supabase
+        .from('staff_profiles')
+        .upsert({ user_id: member.user_id, is_active: !member.is_active }, { onConflict: 'user_id' });
+
+      if (error) throw error;
+      refetch();
+    } catch (error) {
+      console.error('Error updating staff member:', error);
+      toast({ title: 'Erro ao atualizar profissional', variant: 'destructive' });
+    }
+  };
+
+  if (loading) {
+    return (
+      <AdminLayout currentPage="/admin/agenda">
+        <div className="flex items-center justify-center py-12">
+          <div className="w-12 h-12 rounded-xl gradient-primary animate-pulse" />
+        </div>
+      </AdminLayout>
+    );
+  }
+
+  return (
+    <AdminLayout currentPage="/admin/agenda">
+      <div className="space-y-6 animate-fade-in">
+        <div className="flex items-center gap-3">
+          <Button variant="ghost" size="icon" onClick={() => navigate('/admin/agenda')}>
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <div className="space-y-1">
+            <h1 className="text-2xl font-bold font-display">Equipe</h1>
+            <p className="text-muted-foreground text-sm">
+              Administradores que realizam aplicações e avaliações
+            </p>
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          {staff.length === 0 ? (
+            <Card className="card-elevated">
+              <CardContent className="py-8 text-center text-muted-foreground">
+                Nenhum administrador cadastrado
+              </CardContent>
+            </Card>
+          ) : (
+            staff.map((member) => {
+              const memberHours = workingHours.filter(interval => interval.user_id === member.user_id);
+
+              return (
+                <Card key={member.user_id} className={`card-elevated ${member.is_active ? '' : 'opacity-60'}`}>
+                  <CardContent className="p-4">
+                    <div className="flex items-start justify-between gap-4">
+                      <div className="flex items-start gap-3">
+                        <div className="p-2 rounded-lg bg-secondary mt-1">
+                          <UserRound className="w-5 h-5 text-primary" />
+                        </div>
+                        <div>
+                          <p className="text-lg font-semibold text-primary">{member.full_name}</p>
+                          <p className="text-sm text-muted-foreground">
+                            {[member.specialty, member.registry_number].filter(Boolean).join(' • ') ||
+                              'Especialidade e registro não informados'}
+                          </p>
+                          <p className="text-xs text-muted-foreground">{member.email}</p>
+                        </div>
+                      </div>
+                      <div className="flex flex-col items-end gap-2">
+                        <div className="flex items-center gap-2">
+                          <Badge variant={member.is_active ? "default" : "secondary"}>
+                            {member.is_active ? "Ativo" : "Inativo"}
+                          </Badge>
+                          <Switch
+                            checked={member.is_active}
+                            onCheckedChange={() => handleToggleActive(member)}
+                          />
+                        </div>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          onClick={() => setEditingMember(member)}
+                        >
+                          <Pencil className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </div>
+                    <div className="mt-3 pl-12 text-xs text-muted-foreground">
+                      {memberHours.length === 0 ? (
+                        <p>Expediente não configurado</p>
+                      ) : (
+                        <div className="grid grid-cols-2 gap-x-4 gap-y-0.5">
+                          {WEEKDAY_LABELS.map((label, weekday) => (
+                            <p key={label}>
+                              <span className="font-medium">{label}:</span> {describeWeekdayHours(memberHours, weekday)}
+                            </p>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })
+          )}
+        </div>
+
+        <StaffProfileDialog
+          member={editingMember}
+          workingHours={workingHours}
+          open={!!editingMember}
+          onOpenChange={(open) => !open && setEditingMember(null)}
+          onSuccess={refetch}
+        />
+      </div>
+    </AdminLayout>
+  );
+}
@@ -0,0 +1,305 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { AdminLayout } from '@/components/admin/AdminLayout';
+import { CreateTreatmentPlanDialog } from '@/components/admin/CreateTreatmentPlanDialog';
+import { useAdmin } from '@/hooks/useAdmin';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+} from '@/components/ui/select';
+import { ArrowLeft, ClipboardList, Calendar, CreditCard, Pill, Trash2 } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { useToast } from '@/hooks/use-toast';
+import { chunk } from '@/lib/pagination';
+
+interface TreatmentPlan {
+  id: string;
+  user_id: string;
+  protocol: string;
+  total_sessions: number;
+  total_price: number;
+  installments: number;
+  start_date: string;
+  status: string;
+  notes: string | null;
+  patient_name?: string;
+  completed_sessions?: number;
+  scheduled_sessions?: number;
+  amount_paid?: number;
+  medications_count?: number;
+}
+
+interface Profile {
+  user_id: string;
+  full_name: string;
+}
+
+const planStatusConfig: Record<string, { label: string; className: string }> = {
+  active: { label: 'Em andamento', className: 'bg-primary/20 text-primary border-primary/30' },
+  completed: { label: 'Concluído', className: 'bg-success/20 text-success border-success/30' },
+  cancelled: { label: 'Cancelado', className: 'bg-destructive/20 text-destructive border-destructive/30' },
+};
+
+export default function AdminTreatmentPlans() {
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const patientFilter = searchParams.get('patient') || undefined;
+  const { hasFinancialAccess } = useAdmin();
+  const [plans, setPlans] = useState<TreatmentPlan[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchPlans = useCallback(async () => {
+    try {
+      let plansQuery = supabase
+        .from('treatment_plans')
+        .select('*')
+        .order('start_date', { ascending: false });
+
+      if (patientFilter) {
+        plansQuery = plansQuery.eq('user_id', patientFilter);
+      }
+
+      const { data: plansData, error: plansError } = await plansQuery;
+      if (plansError) throw plansError;
+
+      const planIds = (plansData || []).map(p => p.id);
+
+      const userIds = [...new Set((plansData || []).map(p => p.user_id))];
+
+      const [profileBatches, appsRes, medsRes] = await Promise.all([
+        Promise.all(
+          chunk(userIds).map(async (ids) => {
+            const { data, error } = await supabase.from('profiles').select('user_id, full_name').in('user_id', ids);
+            if (error) throw error;
+            return data || [];
+          })
+        ),
+        supabase.from('applications').select('treatment_plan_id, status').in('treatment_plan_id', planIds),
+        supabase.from('medications').select('treatment_plan_id').in('treatment_plan_id', planIds),
+      ]);
+
+      if (appsRes.error) throw appsRes.error;
+      if (medsRes.error) throw medsRes.error;
+
+      // Payments are only visible to users with financial access
+      let paymentsData: { treatment_plan_id: string | null; amount_paid: number }[] = [];
+      if (hasFinancialAccess) {
+        const { data, error } = await supabase
+          .from('payments')
+          .select('treatment_plan_id, amount_paid')
+          .in('treatment_plan_id', planIds);
+
+        if (error) throw error;
+        paymentsData = data || [];
+      }
+
+      const profilesMap = new Map<string, string>();
+      profileBatches.flat().forEach((p: Profile) => {
+        profilesMap.set(p.user_id, p.full_name);
+      });
+
+      const combinedData = (plansData || []).map((plan) => {
+        const planApps = (appsRes.data || []).filter(a => a.treatment_plan_id === plan.id);
+        return {
+          ...plan,
+          patient_name: profilesMap.get(plan.user_id) || 'Paciente',
+          completed_sessions: planApps.filter(a => a.status === 'completed').length,
+          scheduled_sessions: planApps.filter(a => a.status === 'scheduled').length,
+          amount_paid: paymentsData
+            .filter(p => p.treatment_plan_id === plan.id)
+            .reduce((sum, p) => sum + Number(p.amount_paid), 0),
+          medications_count: (medsRes.data || []).filter(m => m.treatment_plan_id === plan.id).length,
+        };
+      });
+
+      setPlans(combinedData);
+    } catch (error) {
+      console.error('Error fetching treatment plans:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [patientFilter, hasFinancialAccess]);
+
+  useEffect(() => {
+    fetchPlans();
+  }, [fetchPlans]);
+
+  const handleStatusChange = async (id: string, newStatus: string) => {
+    try {
+      const { error } = await supabase
+        .from('treatment_plans')
+        .update({ status: newStatus })
+        .eq('id', id);
+
+      if (error) throw error;
+
+      toast({ title: 'Status do plano atualizado!' });
+      fetchPlans();
+    } catch (error) {
+      console.error('Error updating treatment plan:', error);
+      toast({ title: 'Erro ao atualizar plano', variant: 'destructive' });
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Excluir este plano? As aplicações, pagamentos e medicações gerados serão mantidos, apenas desvinculados.')) return;
+
+    try {
+      const { error } = await supabase.from('treatment_plans').delete().eq('id', id);
+      if (error) throw error;
+
+      toast({ title: 'Plano excluído!' });
+      fetchPlans();
+    } catch (error) {
+      console.error('Error deleting treatment plan:', error);
+      toast({ title: 'Erro ao excluir plano', variant: 'destructive' });
+    }
+  };
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+  };
+
+  if (loading) {
+    return (
+      <AdminLayout currentPage="/admin/patients">
+        <div className="flex items-center justify-center py-12">
+          <div className="w-12 h-12 rounded-xl gradient-primary animate-pulse" />
+        </div>
+      </AdminLayout>
+    );
+  }
+
+  return (
+    <AdminLayout currentPage="/admin/patients">
+      <div className="space-y-6 animate-fade-in">
+        <div className="flex items-start justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <Button variant="ghost" size="icon" onClick={() => navigate('/admin/patients')}>
+              <ArrowLeft className="w-5 h-5" />
+            </Button>
+            <div className="space-y-1">
+              <h1 className="text-2xl font-bold font-display">Planos de Tratamento</h1>
+              <p className="text-muted-foreground text-sm">
+                {patientFilter && plans[0] ? plans[0].patient_name : `${plans.length} planos cadastrados`}
+              </p>
+            </div>
+          </div>
+          <CreateTreatmentPlanDialog defaultPatientId={patientFilter} onPlanCreated={fetchPlans} />
+        </div>
+
+        <div className="space-y-3">
+          {plans.length === 0 ? (
+            <Card className="card-elevated">
+              <CardContent className="py-8 text-center text-muted-foreground">
+                Nenhum plano de tratamento cadastrado
+              </CardContent>
+            </Card>
+          ) : (
+            plans.map((plan) => {
+              const statusConfig = planStatusConfig[plan.status] || planStatusConfig.active;
+              const sessionsProgress = Math.min(100, ((plan.completed_sessions || 0) / plan.total_sessions) * 100);
+              const paymentProgress = Number(plan.total_price) > 0
+                ? Math.min(100, ((plan.amount_paid || 0) / Number(plan.total_price)) * 100)
+                : 0;
+
+              return (
+                <Card key={plan.id} className="card-elevated">
+                  <CardContent className="p-4 space-y-4">
+                    <div className="flex items-start justify-between gap-4">
+                      <div className="flex items-start gap-3">
+                        <div className="p-2 rounded-lg bg-secondary mt-1">
+                          <ClipboardList className="w-5 h-5 text-primary" />
+                        </div>
+                        <div>
+                          <p className="font-medium">{plan.patient_name}</p>
+                          <p className="text-lg font-semibold text-primary">{plan.protocol}</p>
+                          <p className="text-sm text-muted-foreground">
+                            Início: {format(parseISO(plan.start_date), "dd/MM/yyyy")}
+                          </p>
+                        </div>
+                      </div>
+                      <div className="flex flex-col items-end gap-2">
+                        <Select
+                          value={plan.status}
+                          onValueChange={(value) => handleStatusChange(plan.id, value)}
+                        >
+                          <SelectTrigger className="w-36 h-8">
+                            <Badge variant="outline" className={statusConfig.className}>
+                              {statusConfig.label}
+                            </Badge>
+                          </SelectTrigger>
+                          <SelectContent>
+                            {Object.entries(planStatusConfig).map(([value, config]) => (
+                              <SelectItem key={value} value={value}>{config.label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 text-destructive hover:text-destructive"
+                          onClick={() => handleDelete(plan.id)}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </div>
+
+                    <div className="space-y-1">
+                      <div className="flex items-center justify-between text-sm">
+                        <span className="flex items-center gap-2 text-muted-foreground">
+                          <Calendar className="w-4 h-4" />
+                          Sessões
+                        </span>
+                        <span className="font-medium">
+                          {plan.completed_sessions} de {plan.total_sessions} realizadas
+                          {plan.scheduled_sessions ? ` • ${plan.scheduled_sessions} agendadas` : ''}
+                        </span>
+                      </div>
+                      <Progress value={sessionsProgress} className="h-2" />
+                    </div>
+
+                    {hasFinancialAccess && (
+                      <div className="space-y-1">
+                        <div className="flex items-center justify-between text-sm">
+                          <span className="flex items-center gap-2 text-muted-foreground">
+                            <CreditCard className="w-4 h-4" />
+                            Pagamento ({plan.installments}x)
+                          </span>
+                          <span className="font-medium">
+                            {formatCurrency(plan.amount_paid || 0)} de {formatCurrency(Number(plan.total_price))}
+                          </span>
+                        </div>
+                        <Progress value={paymentProgress} className="h-2" />
+                      </div>
+                    )}
+
+                    {!!plan.medications_count && (
+                      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                        <Pill className="w-4 h-4" />
+                        {plan.medications_count} medicação(ões) prescrita(s)
+                      </div>
+                    )}
+
+                    {plan.notes && (
+                      <p className="text-sm text-muted-foreground">{plan.notes}</p>
+                    )}
+                  </CardContent>
+                </Card>
+              );
+            })
+          )}
+        </div>
+      </div>
+    </AdminLayout>
+  );
+}
@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import { ScheduledMedication } from "@/lib/medicationSchedule";
+import { adherenceBreakdown, dueDoses } from "@/lib/adherence";
+
+const medication = (overrides: Partial<ScheduledMedication & { user_id: string }>) => ({
+  id: "m1",
+  user_id: "u1",
+  medication_name: "Metformina",
+  dosage: "500 mg",
+  start_date: "2026-03-01",
+  end_date: null,
+  suspended_at: null,
+  schedule_type: "times",
+  dose_amount: 500,
+  dose_unit: "mg",
+  times_of_day: ["08:00", "20:00"],
+  interval_hours: null,
+  first_dose_time: null,
+  days_of_week: null,
+  take_with_food: false,
+  duration_days: null,
+  ...overrides,
+});
+
+describe("adherence", () => {
+  const from = new Date(2026, 2, 1, 0, 0);
+  const to = new Date(2026, 2, 2, 12, 0);
+
+  it("only counts doses already due in the window", () => {
+    expect(dueDoses([medication({})], from, to)).toHaveLength(3);
+  });
+
+  it("computes the rate per medication and per patient", () => {
+    const meds = [medication({}), medication({ id: "m2", times_of_day: ["09:00"] })];
+    const intakes = [
+      { medication_id: "m1", scheduled_at: new Date(2026, 2, 1, 8, 0).toISOString(), status: "taken" },
+      { medication_id: "m1", scheduled_at: new Date(2026, 2, 1, 20, 0).toISOString(), status: "skipped" },
+      { medication_id: "m2", scheduled_at: new Date(2026, 2, 1, 9, 0).toISOString(), status: "taken" },
+      { medication_id: "m2", scheduled_at: new Date(2026, 2, 2, 9, 0).toISOString(), status: "taken" },
+    ];
+
+    const { byMedication, byPatient } = adherenceBreakdown(meds, intakes, from, to);
+    expect(byMedication.get("m1")).toEqual({ expected: 3, taken: 1, skipped: 1, missed: 1, rate: 33 });
+    expect(byMedication.get("m2")?.rate).toBe(100);
+    expect(byPatient.get("u1")).toEqual({ expected: 5, taken: 3, skipped: 1, missed: 1, rate: 60 });
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import { format } from "date-fns";
+import { ALL_PROFESSIONALS, agendaDays, filterEventsByProfessional, groupEventsByDay, shiftAnchor } from "@/lib/agenda";
+import { NO_PROFESSIONAL } from "@/lib/staff";
+
+const event = (id: string, date: string, time: string | null, professional_id: string | null = null) => ({
+  kind: "application" as const,
+  id,
+  user_id: "p1",
+  date,
+  time,
+  duration_minutes: 30,
+  status: "scheduled",
+  patient_name: "Paciente",
+  professional_id,
+});
+
+describe("agenda", () => {
+  it("pads the month view to whole weeks starting on Sunday", () => {
+    const days = agendaDays("month", new Date(2026, 2, 15));
+    expect(format(days[0], "yyyy-MM-dd")).toBe("2026-03-01");
+    expect(format(days[days.length - 1], "yyyy-MM-dd")).toBe("2026-04-04");
+    expect(days).toHaveLength(35);
+    expect(agendaDays("week", new Date(2026, 2, 11)).map(day => format(day, "dd"))).toEqual(
+      ["08", "09", "10", "11", "12", "13", "14"]
+    );
+    expect(format(shiftAnchor("month", new Date(2026, 0, 31), 1), "yyyy-MM-dd")).toBe("2026-02-28");
+  });
+
+  it("groups events by day ordered by time", () => {
+    const byDay = groupEventsByDay([
+      event("b", "2026-03-10", "14:00:00"),
+      event("a", "2026-03-10", "09:30:00"),
+      event("c", "2026-03-10", null),
+      event("d", "2026-03-11", "08:00:00"),
+    ]);
+    expect(byDay.get("2026-03-10")?.map(item => item.id)).toEqual(["c", "a", "b"]);
+    expect(byDay.get("2026-03-11")).toHaveLength(1);
+  });
+
+  it("filters events by assigned professional", () => {
+    const events = [event("a", "2026-03-10", null, "s1"), event("b", "2026-03-10", null, "s2"), event("c", "2026-03-10", null)];
+    expect(filterEventsByProfessional(events, ALL_PROFESSIONALS)).toHaveLength(3);
+    expect(filterEventsByProfessional(events, "s1").map(item => item.id)).toEqual(["a"]);
+    expect(filterEventsByProfessional(events, NO_PROFESSIONAL).map(item => item.id)).toEqual(["c"]);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import { AnamnesisSection, cleanSections, formatAnswer, latestResponses, missingAnswers, parseSections } from "@/lib/anamnesis";
+
+const sections: AnamnesisSection[] = [
+  {
+    id: "s1",
+    title: "Histórico",
+    questions: [
+      { id: "q1", label: "Possui diabetes?", type: "yes_no", required: true, options: [] },
+      { id: "q2", label: "Alergias", type: "multiple_choice", required: true, options: ["Dipirona", "Penicilina"] },
+      { id: "q3", label: "Observações", type: "long_text", required: false, options: [] },
+    ],
+  },
+];
+
+describe("anamnesis", () => {
+  it("lists required questions left unanswered", () => {
+    expect(missingAnswers(sections, { q1: "Não", q2: [] }).map(question => question.id)).toEqual(["q2"]);
+    expect(missingAnswers(sections, { q1: "Sim", q2: ["Dipirona"] })).toEqual([]);
+  });
+
+  it("cleans the builder output before saving", () => {
+    const cleaned = cleanSections([
+      {
+        id: "s1",
+        title: " Hábitos ",
+        questions: [
+          { id: "q1", label: " Fuma? ", type: "single_choice", required: false, options: ["Sim", " ", "Não"] },
+          { id: "q2", label: "  ", type: "short_text", required: false, options: [] },
+        ],
+      },
+      { id: "s2", title: "Vazia", questions: [] },
+    ]);
+
+    expect(cleaned).toEqual([
+      {
+        id: "s1",
+        title: "Hábitos",
+        questions: [{ id: "q1", label: "Fuma?", type: "single_choice", required: false, options: ["Sim", "Não"] }],
+      },
+    ]);
+  });
+
+  it("parses stored definitions and formats answers", () => {
+    expect(parseSections(JSON.parse(JSON.stringify(sections)))).toEqual(sections);
+    expect(parseSections(null)).toEqual([]);
+    expect(formatAnswer(sections[0].questions[1], ["Dipirona", "Penicilina"])).toBe("Dipirona, Penicilina");
+    expect(formatAnswer({ ...sections[0].questions[2], type: "date" }, "2026-03-05")).toBe("05/03/2026");
+    expect(formatAnswer(sections[0].questions[2], undefined)).toBe("—");
+  });
+
+  it("keeps the latest version submitted for each form", () => {
+    const latest = latestResponses([
+      { id: "r1", form_id: "f1", version: 1 },
+      { id: "r3", form_id: "f1", version: 2 },
+      { id: "r2", form_id: "f2", version: 1 },
+      { id: "r4", form_id: null, version: 1 },
+    ]);
+
+    expect([...latest.values()].map(response => response.id)).toEqual(["r3", "r2"]);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import { findConflict, findConflicts, formatTimeRange, occupiesSlot, slotCapacity } from "@/lib/applicationSlots";
+
+const app = (id: string, user_id: string, start_time: string | null, overrides = {}) => ({
+  id,
+  user_id,
+  application_date: "2026-03-10",
+  start_time,
+  duration_minutes: 30,
+  status: "scheduled",
+  ...overrides,
+});
+
+const slots = [
+  { start_time: "08:00:00", capacity: 2 },
+  { start_time: "12:00:00", capacity: 1 },
+];
+
+describe("application slots", () => {
+  it("uses the capacity of the slot in effect", () => {
+    expect(slotCapacity(slots, 9 * 60)).toBe(2);
+    expect(slotCapacity(slots, 13 * 60)).toBe(1);
+    expect(slotCapacity([], 9 * 60)).toBe(1);
+    expect(formatTimeRange("09:00:00", 45)).toBe("09:00–09:45");
+  });
+
+  it("detects full slots and double-booked patients", () => {
+    const booked = [app("a", "p1", "09:00:00"), app("b", "p2", "09:15:00")];
+
+    expect(findConflict(app("new", "p3", "09:00"), booked.slice(0, 1), slots)).toBeNull();
+    expect(findConflict(app("new", "p3", "09:10"), booked, slots)).toMatchObject({ reason: "capacity", time: "09:15" });
+    expect(findConflict(app("new", "p1", "09:20"), booked, slots)).toMatchObject({ reason: "patient" });
+    expect(findConflict(app("new", "p3", "09:30"), booked, slots)).toBeNull();
+    expect(findConflict(app("new", "p3", "09:00"), [app("c", "p2", "09:00:00", { status: "cancelled" })], [])).toBeNull();
+    expect(findConflict(app("new", "p3", null), booked, slots)).toBeNull();
+  });
+
+  it("ignores the previous position of moved applications", () => {
+    const booked = [app("a", "p1", "12:00:00")];
+    expect(findConflicts([app("a", "p1", "12:10")], booked, slots)).toEqual([]);
+    expect(findConflicts([app("x", "p2", "12:10")], booked, slots)).toHaveLength(1);
+  });
+
+  it("frees the chair of cancelled and missed applications", () => {
+    expect(occupiesSlot("scheduled")).toBe(true);
+    expect(occupiesSlot("cancelled")).toBe(false);
+    expect(occupiesSlot("missed")).toBe(false);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import { OpenPayment, parseAmount, parseCsv, parseOfx, proposeMatches } from "@/lib/bankStatement";
+
+const OFX = `OFXHEADER:100
+<OFX>
+<BANKMSGSRSV1><STMTTRNRS><STMTRS><BANKTRANLIST>
+<STMTTRN>
+<TRNTYPE>CREDIT
+<DTPOSTED>20260305120000[-3:BRT]
+<TRNAMT>350.00
+<FITID>A1
+<MEMO>PIX RECEBIDO MARIA SILVA SOUZA
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>20260306
+<TRNAMT>-80,00
+<FITID>A2
+<MEMO>TARIFA
+</STMTTRN>
+</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1>
+</OFX>`;
+
+describe("parseAmount", () => {
+  it("reads Brazilian and international formats", () => {
+    expect(parseAmount("1.234,56")).toBe(1234.56);
+    expect(parseAmount("1,234.56")).toBe(1234.56);
+    expect(parseAmount("R$ -80,00")).toBe(-80);
+  });
+});
+
+describe("statement parsers", () => {
+  it("reads OFX transactions", () => {
+    expect(parseOfx(OFX)).toEqual([
+      { id: "A1", date: "2026-03-05", amount: 350, description: "PIX RECEBIDO MARIA SILVA SOUZA" },
+      { id: "A2", date: "2026-03-06", amount: -80, description: "TARIFA" },
+    ]);
+  });
+
+  it("reads CSV with credit and debit columns", () => {
+    const csv = 'Data;Histórico;Crédito;Débito\n05/03/2026;"TED 123.456.789-09";200,00;\n06/03/2026;Tarifa;;15,00';
+    const entries = parseCsv(csv);
+    expect(entries.map((e) => [e.date, e.amount])).toEqual([
+      ["2026-03-05", 200],
+      ["2026-03-06", -15],
+    ]);
+  });
+});
+
+describe("proposeMatches", () => {
+  const payment = (overrides: Partial<OpenPayment>): OpenPayment => ({
+    id: "p1",
+    user_id: "u1",
+    amount: 350,
+    amount_paid: 0,
+    due_date: "2026-03-04",
+    pix_txid: "ABC123",
+    patient_name: "Maria da Silva Souza",
+    cpf: null,
+    ...overrides,
+  });
+
+  it("prefers the payment matching amount, date and name", () => {
+    const [proposal] = proposeMatches(parseOfx(OFX), [
+      payment({ id: "other", patient_name: "João Pereira", due_date: "2026-01-10" }),
+      payment({}),
+    ]);
+    expect(proposal.match?.payment.id).toBe("p1");
+    expect(proposal.match?.reasons).toEqual(["amount", "date", "name"]);
+    expect(proposal.candidates).toHaveLength(2);
+  });
+
+  it("leaves amount-only candidates for manual review", () => {
+    const [proposal] = proposeMatches(parseOfx(OFX), [
+      payment({ patient_name: "João Pereira", due_date: "2026-01-10" }),
+    ]);
+    expect(proposal.match).toBeNull();
+    expect(proposal.candidates).toHaveLength(1);
+  });
+
+  it("treats regex characters in patient names literally", () => {
+    const match = () =>
+      proposeMatches(parseOfx(OFX), [
+        payment({ patient_name: "Maria (Silva Souza" }),
+        payment({ id: "p2", patient_name: "M.... S...." }),
+      ]);
+    expect(match).not.toThrow();
+    const [proposal] = match();
+    expect(proposal.candidates.find(c => c.payment.id === "p2")?.reasons).not.toContain("name");
+  });
+});
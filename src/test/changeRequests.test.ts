@@ -0,0 +1,21 @@
+import { describe, it, expect } from "vitest";
+import { canRequestChange, earliestRescheduleDate, meetsMinNotice } from "@/lib/changeRequests";
+
+const now = new Date(2026, 2, 10, 9, 0);
+
+describe("application change requests", () => {
+  it("requires the minimum notice before the application", () => {
+    expect(meetsMinNotice("2026-03-11", "09:00:00", now)).toBe(true);
+    expect(meetsMinNotice("2026-03-11", "08:59:00", now)).toBe(false);
+    // Untimed applications count from midnight
+    expect(meetsMinNotice("2026-03-11", null, now)).toBe(false);
+    expect(meetsMinNotice("2026-03-12", null, now)).toBe(true);
+  });
+
+  it("only allows changing scheduled applications", () => {
+    const app = { application_date: "2026-03-15", start_time: "10:00:00", status: "scheduled" };
+    expect(canRequestChange(app, now)).toBe(true);
+    expect(canRequestChange({ ...app, status: "cancelled" }, now)).toBe(false);
+    expect(earliestRescheduleDate(now)).toBe("2026-03-11");
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from "vitest";
+import { ClinicalNote, noteVisit, threadClinicalNotes, visitLabel } from "@/lib/clinicalNotes";
+
+const note = (id: string, created_at: string, overrides: Partial<ClinicalNote> = {}): ClinicalNote => ({
+  id,
+  user_id: "u1",
+  application_id: "a1",
+  evaluation_id: null,
+  amends_id: null,
+  content: `Nota ${id}`,
+  author_id: "admin",
+  created_at,
+  ...overrides,
+});
+
+describe("clinical notes", () => {
+  it("threads amendments under the original note chronologically", () => {
+    const threads = threadClinicalNotes([
+      note("n2", "2026-03-05T10:00:00Z"),
+      note("r2", "2026-03-06T09:00:00Z", { amends_id: "n1" }),
+      note("n1", "2026-03-01T10:00:00Z"),
+      note("r1", "2026-03-02T09:00:00Z", { amends_id: "n1" }),
+    ]);
+
+    expect(threads.map(thread => thread.note.id)).toEqual(["n1", "n2"]);
+    expect(threads[0].amendments.map(amendment => amendment.id)).toEqual(["r1", "r2"]);
+    expect(threads[1].amendments).toEqual([]);
+  });
+
+  it("resolves the visit a note belongs to", () => {
+    const visits = [
+      { kind: "application" as const, id: "a1", date: "2026-03-02" },
+      { kind: "evaluation" as const, id: "e1", date: "2026-03-03T14:30:00" },
+    ];
+
+    expect(noteVisit(note("n1", "2026-03-02T10:00:00Z"), visits)).toBe(visits[0]);
+    expect(noteVisit(note("n2", "2026-03-02T10:00:00Z", { application_id: null }), visits)).toBeNull();
+    expect(visitLabel(visits[1])).toBe("Avaliação • 03/03/2026 às 14:30");
+  });
+});
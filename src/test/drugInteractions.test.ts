@@ -0,0 +1,33 @@
+import { describe, it, expect } from "vitest";
+import { DrugInteraction, findDuplicateIngredients, findInteractions } from "@/lib/drugInteractions";
+
+const interactions: DrugInteraction[] = [
+  { id: "i1", substance_a: "Insulina", substance_b: "Semaglutida", severity: "moderate", message: "Hipoglicemia" },
+  { id: "i2", substance_a: "Semaglutida", substance_b: "Tirzepatida", severity: "major", message: "GLP-1 duplicado" },
+];
+
+const active = [
+  { id: "m1", name: "Mounjaro", activeIngredient: "Tirzepatida" },
+  { id: "m2", name: "Insulina glargina", activeIngredient: null },
+  { id: "m3", name: "Insulina glargina", activeIngredient: null },
+  { id: "m4", name: "Wegovy", activeIngredient: "Semaglutida" },
+];
+
+describe("findInteractions", () => {
+  it("matches names or ingredients in either order, most severe first, once per drug", () => {
+    const warnings = findInteractions({ name: "Ozempic", activeIngredient: "Semaglutida" }, active, interactions);
+    expect(warnings.map(w => `${w.interaction.id}:${w.medication.id}`)).toEqual(["i2:m1", "i1:m2"]);
+  });
+
+  it("ignores other rows of the same drug", () => {
+    expect(findInteractions({ name: "Insulina glargina", activeIngredient: null }, active.slice(1, 3), interactions)).toEqual([]);
+  });
+});
+
+describe("findDuplicateIngredients", () => {
+  it("flags different products with the same active ingredient", () => {
+    const duplicates = findDuplicateIngredients({ name: "Ozempic", activeIngredient: "semaglutida" }, active);
+    expect(duplicates.map(d => d.medication.id)).toEqual(["m4"]);
+    expect(findDuplicateIngredients({ name: "Ozempic", activeIngredient: null }, active)).toEqual([]);
+  });
+});
@@ -0,0 +1,21 @@
+import { describe, it, expect } from "vitest";
+import { isUpcomingEvaluation, requiresStatusReason, statusAfterReschedule } from "@/lib/evaluationStatus";
+
+describe("evaluation status lifecycle", () => {
+  it("treats scheduled, confirmed and rescheduled evaluations as upcoming", () => {
+    expect(isUpcomingEvaluation("confirmed")).toBe(true);
+    expect(isUpcomingEvaluation("rescheduled")).toBe(true);
+    expect(isUpcomingEvaluation("missed")).toBe(false);
+  });
+
+  it("asks for a reason when cancelling, rescheduling or marking a no-show", () => {
+    expect(requiresStatusReason("cancelled")).toBe(true);
+    expect(requiresStatusReason("missed")).toBe(true);
+    expect(requiresStatusReason("confirmed")).toBe(false);
+  });
+
+  it("marks only upcoming evaluations as rescheduled when moved", () => {
+    expect(statusAfterReschedule("confirmed")).toBe("rescheduled");
+    expect(statusAfterReschedule("completed")).toBe("completed");
+  });
+});
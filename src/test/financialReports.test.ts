@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import {
+  ReportPayment,
+  agingBuckets,
+  resolvePeriod,
+  revenueByMonth,
+  toCsv,
+  totalsByPatient,
+} from "@/lib/financialReports";
+
+const payment = (overrides: Partial<ReportPayment>): ReportPayment => ({
+  id: "p1",
+  user_id: "u1",
+  amount: 100,
+  amount_paid: 0,
+  due_date: "2026-01-10",
+  paid_date: null,
+  status: "pending",
+  description: null,
+  patient_name: "Ana",
+  ...overrides,
+});
+
+describe("resolvePeriod", () => {
+  it("returns the quarter containing the reference date", () => {
+    expect(resolvePeriod("quarter", new Date(2026, 4, 15))).toEqual({ from: "2026-04-01", to: "2026-06-30" });
+  });
+});
+
+describe("report aggregations", () => {
+  const range = { from: "2026-01-01", to: "2026-02-28" };
+  const payments = [
+    payment({ id: "p1", amount_paid: 40 }),
+    payment({ id: "p2", due_date: "2026-02-05", amount: 200, amount_paid: 200, status: "paid" }),
+  ];
+  const transactions = [
+    { payment_id: "p1", amount: 40, paid_at: "2026-01-12", method: "pix" },
+    { payment_id: "p2", amount: 200, paid_at: "2026-02-05", method: "cash" },
+  ];
+
+  it("splits billed and received by month", () => {
+    expect(revenueByMonth(payments, transactions, range).map((m) => [m.month, m.billed, m.received])).toEqual([
+      ["2026-01", 100, 40],
+      ["2026-02", 200, 200],
+    ]);
+  });
+
+  it("totals per patient", () => {
+    expect(totalsByPatient(payments, transactions, range)).toEqual([
+      { user_id: "u1", name: "Ana", billed: 300, received: 240, open: 60 },
+    ]);
+  });
+
+  it("buckets overdue balances by age", () => {
+    const buckets = agingBuckets(payments, new Date(2026, 2, 20));
+    expect(buckets.find((b) => b.key === "61-90")).toMatchObject({ count: 1, amount: 60 });
+  });
+});
+
+describe("toCsv", () => {
+  it("quotes values containing separators", () => {
+    expect(toCsv([{ a: "x;y", b: 1 }])).toBe('a;b\n"x;y";1');
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, it, expect } from "vitest";
+import { CatalogEntry, findCatalogEntry, searchCatalog } from "@/lib/medicationCatalog";
+
+const entry = (id: string, name: string, activeIngredient: string | null = null, isActive = true): CatalogEntry => ({
+  id,
+  name,
+  active_ingredient: activeIngredient,
+  presentation: null,
+  default_dosage: null,
+  default_frequency: null,
+  contraindications: null,
+  notes: null,
+  is_active: isActive,
+});
+
+const catalog = [
+  entry("1", "Ozempic", "Semaglutida"),
+  entry("2", "Mounjaro", "Tirzepatida"),
+  entry("3", "Semaglutida manipulada", "Semaglutida"),
+  entry("4", "Saxenda", "Liraglutida", false),
+];
+
+describe("searchCatalog", () => {
+  it("ranks name prefixes before ingredient matches and hides archived entries", () => {
+    expect(searchCatalog(catalog, "sema").map(e => e.id)).toEqual(["3", "1"]);
+    expect(searchCatalog(catalog, "glutida").map(e => e.id)).toEqual(["3", "1"]);
+    expect(searchCatalog(catalog, "saxenda")).toEqual([]);
+  });
+
+  it("matches names ignoring case, accents and extra spaces", () => {
+    expect(findCatalogEntry([entry("5", "Vitamina D3 ")], "  vitamína  d3")?.id).toBe("5");
+  });
+});
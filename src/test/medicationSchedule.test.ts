@@ -0,0 +1,88 @@
+import { describe, it, expect } from "vitest";
+import { format } from "date-fns";
+import {
+  ScheduledMedication,
+  defaultSchedule,
+  describeSchedule,
+  dosesForDay,
+  effectiveEndDate,
+} from "@/lib/medicationSchedule";
+
+const medication = (overrides: Partial<ScheduledMedication>): ScheduledMedication => ({
+  id: "m1",
+  medication_name: "Metformina",
+  dosage: "500 mg",
+  start_date: "2026-03-01",
+  end_date: null,
+  suspended_at: null,
+  schedule_type: "times",
+  dose_amount: 500,
+  dose_unit: "mg",
+  times_of_day: ["20:00:00", "08:00:00"],
+  interval_hours: null,
+  first_dose_time: null,
+  days_of_week: null,
+  take_with_food: true,
+  duration_days: null,
+  ...overrides,
+});
+
+const times = (meds: ScheduledMedication[], day: Date) =>
+  dosesForDay(meds, day).map(dose => `${format(dose.time, "HH:mm")} ${dose.medication.medication_name}`);
+
+describe("dosesForDay", () => {
+  it("merges fixed times and intervals in chronological order", () => {
+    const meds = [
+      medication({}),
+      medication({
+        id: "m2",
+        medication_name: "Amoxicilina",
+        schedule_type: "interval",
+        times_of_day: null,
+        interval_hours: 8,
+        first_dose_time: "06:00",
+      }),
+    ];
+
+    expect(times(meds, new Date(2026, 2, 10))).toEqual([
+      "06:00 Amoxicilina",
+      "08:00 Metformina",
+      "14:00 Amoxicilina",
+      "20:00 Metformina",
+      "22:00 Amoxicilina",
+    ]);
+  });
+
+  it("keeps the interval rhythm across days", () => {
+    const med = medication({ schedule_type: "interval", times_of_day: null, interval_hours: 36, first_dose_time: "08:00" });
+
+    expect(times([med], new Date(2026, 2, 1))).toEqual(["08:00 Metformina"]);
+    expect(times([med], new Date(2026, 2, 2))).toEqual(["20:00 Metformina"]);
+    expect(times([med], new Date(2026, 2, 3))).toEqual([]);
+  });
+
+  it("skips suspended, out-of-range and other weekdays", () => {
+    const day = new Date(2026, 2, 10); // terça-feira
+    expect(dosesForDay([medication({ suspended_at: "2026-03-05T10:00:00Z" })], day)).toHaveLength(0);
+    expect(dosesForDay([medication({ duration_days: 7 })], day)).toHaveLength(0);
+    expect(dosesForDay([medication({ days_of_week: [1, 4] })], day)).toHaveLength(0);
+    expect(dosesForDay([medication({ schedule_type: null })], day)).toHaveLength(0);
+  });
+});
+
+describe("schedule helpers", () => {
+  it("uses the earliest of end date and duration", () => {
+    expect(effectiveEndDate({ start_date: "2026-03-01", end_date: "2026-03-20", duration_days: 7 })).toBe("2026-03-07");
+    expect(effectiveEndDate({ start_date: "2026-03-01", end_date: null, duration_days: null })).toBeNull();
+  });
+
+  it("describes a structured schedule", () => {
+    expect(describeSchedule({
+      ...defaultSchedule(),
+      schedule_type: "times",
+      times_of_day: ["20:00", "08:00"],
+      days_of_week: [4, 1],
+      take_with_food: true,
+    })).toBe("2x ao dia (08:00, 20:00) • Seg, Qui • com alimento");
+  });
+});
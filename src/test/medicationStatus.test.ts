@@ -0,0 +1,30 @@
+import { describe, it, expect } from "vitest";
+import { isCurrentMedication, medicationStatus } from "@/lib/medicationStatus";
+
+const med = (overrides: Partial<Parameters<typeof medicationStatus>[0]>) => ({
+  start_date: "2026-03-01",
+  end_date: null,
+  duration_days: null,
+  suspended_at: null,
+  ...overrides,
+});
+
+describe("medicationStatus", () => {
+  const today = "2026-03-10";
+
+  it("derives activity from the treatment dates", () => {
+    expect(medicationStatus(med({}), today)).toBe("active");
+    expect(medicationStatus(med({ start_date: "2026-03-11" }), today)).toBe("scheduled");
+    expect(medicationStatus(med({ end_date: "2026-03-10" }), today)).toBe("active");
+    expect(medicationStatus(med({ end_date: "2026-03-09" }), today)).toBe("ended");
+    expect(medicationStatus(med({ duration_days: 9 }), today)).toBe("ended");
+    expect(isCurrentMedication(med({ start_date: "2026-03-11" }), today)).toBe(true);
+    expect(isCurrentMedication(med({ end_date: "2026-03-09" }), today)).toBe(false);
+  });
+
+  it("gives precedence to a manual suspension", () => {
+    const suspended = med({ start_date: "2026-03-20", suspended_at: "2026-03-05T10:00:00Z" });
+    expect(medicationStatus(suspended, today)).toBe("suspended");
+    expect(isCurrentMedication(suspended, today)).toBe(false);
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, it, expect } from "vitest";
+import { describeSupply, needsRefill, supplyDaysLeft, supplyEndDate } from "@/lib/medicationSupply";
+
+const med = (overrides = {}) => ({
+  start_date: "2026-03-01",
+  quantity_dispensed: 30,
+  daily_dose: 2,
+  dispensed_at: null,
+  ...overrides,
+});
+
+describe("medication supply", () => {
+  it("counts whole days of stock from the dispensing date", () => {
+    expect(supplyEndDate(med())).toBe("2026-03-15");
+    expect(supplyEndDate(med({ dispensed_at: "2026-03-10", quantity_dispensed: 31 }))).toBe("2026-03-24");
+    expect(supplyEndDate(med({ daily_dose: null }))).toBeNull();
+  });
+
+  it("estimates the days left and the refill window", () => {
+    const today = new Date(2026, 2, 10);
+    const status = { supply_end_date: supplyEndDate(med()) };
+    expect(supplyDaysLeft(status, today)).toBe(5);
+    expect(supplyDaysLeft({ supply_end_date: null }, today)).toBeNull();
+    expect(needsRefill(status, 7, today)).toBe(true);
+    expect(needsRefill(status, 3, today)).toBe(false);
+    expect(describeSupply(5)).toBe("Acaba em 5 dias");
+    expect(describeSupply(-1)).toBe("Estoque esgotado");
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, it, expect } from "vitest";
+import { PAGE_SIZE, chunk, fetchAllPages } from "@/lib/pagination";
+
+describe("fetchAllPages", () => {
+  const table = Array.from({ length: PAGE_SIZE * 2 + 5 }, (_, i) => i);
+
+  it("requests ranges until a short page comes back", async () => {
+    const ranges: [number, number][] = [];
+    const rows = await fetchAllPages(async (from, to) => {
+      ranges.push([from, to]);
+      return { data: table.slice(from, to + 1), error: null };
+    });
+
+    expect(rows).toEqual(table);
+    expect(ranges).toEqual([
+      [0, PAGE_SIZE - 1],
+      [PAGE_SIZE, PAGE_SIZE * 2 - 1],
+      [PAGE_SIZE * 2, PAGE_SIZE * 3 - 1],
+    ]);
+  });
+
+  it("rethrows query errors", async () => {
+    const failure = new Error("permission denied");
+    await expect(fetchAllPages(async () => ({ data: null, error: failure }))).rejects.toBe(failure);
+  });
+});
+
+describe("chunk", () => {
+  it("splits lists into batches", () => {
+    expect(chunk([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]]);
+    expect(chunk([])).toEqual([]);
+  });
+});
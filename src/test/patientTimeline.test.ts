@@ -0,0 +1,31 @@
+import { describe, it, expect } from "vitest";
+import { buildPatientTimeline } from "@/lib/patientTimeline";
+
+describe("buildPatientTimeline", () => {
+  it("merges the patient history most recent first", () => {
+    const events = buildPatientTimeline({
+      plans: [{ id: "p1", protocol: "Protocolo 12 semanas", start_date: "2026-03-01", status: "active", total_sessions: 12 }],
+      applications: [
+        { id: "a1", application_date: "2026-03-02", status: "completed", notes: null },
+        { id: "a2", application_date: "2026-03-09", status: "scheduled", notes: null },
+      ],
+      evaluations: [{ id: "e1", evaluation_date: "2026-03-02", evaluation_time: "14:00:00", status: "completed", notes: null }],
+      medications: [],
+    });
+
+    expect(events.map(event => event.id)).toEqual(["application-a2", "evaluation-e1", "application-a1", "plan-p1"]);
+  });
+
+  it("lists a recurring medication series once, at its first occurrence", () => {
+    const occurrence = (id: string, start_date: string) => ({ id, medication_name: "Tirzepatida", dosage: "2,5 mg", start_date });
+    const events = buildPatientTimeline({
+      plans: [],
+      applications: [],
+      evaluations: [],
+      medications: [occurrence("m2", "2026-03-08"), occurrence("m1", "2026-03-01")],
+    });
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ id: "medication-m1", title: "Início de Tirzepatida" });
+  });
+});
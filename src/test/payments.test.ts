@@ -0,0 +1,24 @@
+import { describe, it, expect } from "vitest";
+import { totalsByMethod } from "@/lib/payments";
+
+describe("totalsByMethod", () => {
+  it("sums amounts per method and groups unclassified receipts as other", () => {
+    const totals = totalsByMethod([
+      { amount: 100, method: "pix" },
+      { amount: 50.5, method: "pix" },
+      { amount: 200, method: "credit_card" },
+      { amount: 30, method: null },
+      { amount: 20, method: "cheque" },
+    ]);
+
+    expect(totals.pix).toBe(150.5);
+    expect(totals.credit_card).toBe(200);
+    expect(totals.other).toBe(50);
+    expect(totals.cash).toBe(0);
+  });
+
+  it("accepts numeric strings as returned for numeric columns", () => {
+    const totals = totalsByMethod([{ amount: "12.30" as unknown as number, method: "boleto" }]);
+    expect(totals.boleto).toBe(12.3);
+  });
+});
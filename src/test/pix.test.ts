@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import { buildPixPayload, crc16, toPixTxid } from "@/lib/pix";
+
+describe("buildPixPayload", () => {
+  it("lays out the static example from the Banco Central manual", () => {
+    const payload = buildPixPayload({
+      key: "123e4567-e12b-12d1-a456-426655440000",
+      merchantName: "Fulano de Tal",
+      merchantCity: "BRASILIA",
+    }).replace("br.gov.bcb.pix", "BR.GOV.BCB.PIX");
+
+    expect(payload.slice(0, -4)).toBe(
+      "00020126580014BR.GOV.BCB.PIX0136123e4567-e12b-12d1-a456-4266554400005204000053039865802BR5913Fulano de Tal6008BRASILIA62070503***6304",
+    );
+  });
+
+  it("includes amount and txid and strips accents", () => {
+    const payload = buildPixPayload({
+      key: "pix@clinica.com.br",
+      merchantName: "Clínica São João",
+      merchantCity: "São Paulo",
+      amount: 150.5,
+      txid: "8f2c-41aa-b3",
+    });
+
+    expect(payload).toContain("5406150.50");
+    expect(payload).toContain("5916Clinica Sao Joao");
+    expect(payload).toContain("6009Sao Paulo");
+    expect(payload).toContain("62140510" + "8f2c41aab3");
+    expect(payload.slice(-4)).toBe(crc16(payload.slice(0, -4)));
+  });
+
+  it("keeps the merchant account field within two-digit lengths", () => {
+    const key = "a".repeat(60);
+    const payload = buildPixPayload({
+      key,
+      merchantName: "Clinica",
+      merchantCity: "Sao Paulo",
+      description: "Aplicação de ferro endovenoso — 3ª sessão do plano",
+    });
+
+    // 18 (GUI) + 64 (key) leaves 13 characters for the description sub-field
+    expect(payload).toContain("2699" + "0014br.gov.bcb.pix" + "0160" + key + "0213Aplicacao de ");
+  });
+
+  it("drops descriptions that do not fit or sanitize to nothing", () => {
+    const longKey = buildPixPayload({
+      key: "a".repeat(77),
+      merchantName: "Clinica",
+      merchantCity: "Sao Paulo",
+      description: "Sessão",
+    });
+    expect(longKey).toContain("2699" + "0014br.gov.bcb.pix" + "0177" + "a".repeat(77) + "5204");
+
+    const emptyDescription = buildPixPayload({
+      key: "pix@clinica.com.br",
+      merchantName: "Clinica",
+      merchantCity: "Sao Paulo",
+      description: "✓✓",
+    });
+    expect(emptyDescription).toContain("0118pix@clinica.com.br5204");
+  });
+});
+
+describe("crc16", () => {
+  it("matches the CRC-16/CCITT-FALSE check value", () => {
+    expect(crc16("123456789")).toBe("29B1");
+  });
+});
+
+describe("toPixTxid", () => {
+  it("falls back to *** when empty", () => {
+    expect(toPixTxid("")).toBe("***");
+    expect(toPixTxid("a".repeat(40))).toHaveLength(25);
+  });
+});
@@ -0,0 +1,23 @@
+import { describe, it, expect } from "vitest";
+import { prescriptionFromRecord, prescriptionItemLines } from "@/lib/prescriptions";
+
+describe("prescriptions", () => {
+  it("numbers items and prints posology and notes under the title", () => {
+    expect(prescriptionItemLines(
+      { medication_name: "Ozempic", dosage: "0,5 mg", frequency: "1x/semana", notes: "Aplicar no abdômen" },
+      1,
+    )).toEqual({
+      title: "2. Ozempic 0,5 mg",
+      details: ["Posologia: 1x/semana", "Aplicar no abdômen"],
+    });
+  });
+
+  it("rebuilds a stored prescription for reprinting", () => {
+    const data = prescriptionFromRecord(
+      { professional_name: "Dra. Ana", professional_crm: "CRM/SP 1234", issued_at: "2026-03-10", items: null, notes: null },
+      { full_name: "João", cpf: null, birth_date: null, address: null },
+    );
+    expect(data.items).toEqual([]);
+    expect(data.patientName).toBe("João");
+  });
+});
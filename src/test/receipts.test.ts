@@ -0,0 +1,23 @@
+import { describe, it, expect } from "vitest";
+import { amountInWords, formatCpf } from "@/lib/receipts";
+
+describe("amountInWords", () => {
+  it.each([
+    [1, "um real"],
+    [0.01, "um centavo"],
+    [121, "cento e vinte e um reais"],
+    [350.2, "trezentos e cinquenta reais e vinte centavos"],
+    [1100, "mil e cem reais"],
+    [1250.5, "mil duzentos e cinquenta reais e cinquenta centavos"],
+    [2005, "dois mil e cinco reais"],
+    [1000000, "um milhão de reais"],
+  ])("writes %d in full", (value, words) => {
+    expect(amountInWords(value)).toBe(words);
+  });
+});
+
+describe("formatCpf", () => {
+  it("masks an 11 digit CPF", () => {
+    expect(formatCpf("12345678909")).toBe("123.456.789-09");
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import { format } from "date-fns";
+import { defaultRecurrenceRule, generateOccurrences, isHoliday } from "@/lib/recurrence";
+
+const toIso = (dates: Date[]) => dates.map((d) => format(d, "yyyy-MM-dd"));
+
+describe("generateOccurrences", () => {
+  it("expands weekly rules on several weekdays until the end date", () => {
+    const rule = { ...defaultRecurrenceRule(), weekdays: [1, 4], until: "2026-03-12", skipHolidays: false };
+    expect(toIso(generateOccurrences("2026-03-02", rule))).toEqual([
+      "2026-03-02",
+      "2026-03-05",
+      "2026-03-09",
+      "2026-03-12",
+    ]);
+  });
+
+  it("skips holidays without counting them", () => {
+    const rule = { ...defaultRecurrenceRule("2026-04-14"), count: 3 };
+    // 21/04 is Tiradentes
+    expect(toIso(generateOccurrences("2026-04-14", rule))).toEqual([
+      "2026-04-14",
+      "2026-04-28",
+      "2026-05-05",
+    ]);
+  });
+
+  it("keeps monthly rules anchored to the start day", () => {
+    const rule = { ...defaultRecurrenceRule(), frequency: "monthly" as const, count: 3, skipHolidays: false };
+    expect(toIso(generateOccurrences("2026-01-31", rule))).toEqual([
+      "2026-01-31",
+      "2026-02-28",
+      "2026-03-31",
+    ]);
+  });
+
+  it("returns nothing without an end", () => {
+    expect(generateOccurrences("2026-03-02", defaultRecurrenceRule())).toEqual([]);
+  });
+});
+
+describe("isHoliday", () => {
+  it("knows Easter-based holidays", () => {
+    // Sexta-feira Santa 2026
+    expect(isHoliday(new Date(2026, 3, 3))).toBe(true);
+    expect(isHoliday(new Date(2026, 3, 6))).toBe(false);
+  });
+});
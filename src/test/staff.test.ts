@@ -0,0 +1,33 @@
+import { describe, it, expect } from "vitest";
+import { describeWeekdayHours, isWithinWorkingHours, professionalLabel } from "@/lib/staff";
+
+// Mondays 08:00–12:00 and 14:00–18:00
+const hours = [
+  { user_id: "s1", weekday: 1, start_time: "14:00:00", end_time: "18:00:00" },
+  { user_id: "s1", weekday: 1, start_time: "08:00:00", end_time: "12:00:00" },
+];
+
+describe("staff working hours", () => {
+  it("requires the whole appointment inside one interval", () => {
+    // 2026-03-09 is a Monday
+    expect(isWithinWorkingHours(hours, "2026-03-09", "08:00:00", 30)).toBe(true);
+    expect(isWithinWorkingHours(hours, "2026-03-09", "11:45:00", 30)).toBe(false);
+    expect(isWithinWorkingHours(hours, "2026-03-09", "12:30:00", 30)).toBe(false);
+    expect(isWithinWorkingHours(hours, "2026-03-10", "09:00:00", 30)).toBe(false);
+    // Untimed appointments only need a working day
+    expect(isWithinWorkingHours(hours, "2026-03-09", null, 30)).toBe(true);
+    expect(isWithinWorkingHours(hours, "2026-03-10", null, null)).toBe(false);
+  });
+
+  it("leaves professionals without configured hours unrestricted", () => {
+    expect(isWithinWorkingHours([], "2026-03-08", "22:00:00", 60)).toBe(true);
+  });
+
+  it("describes hours and professionals", () => {
+    expect(describeWeekdayHours(hours, 1)).toBe("08:00–12:00, 14:00–18:00");
+    expect(describeWeekdayHours(hours, 0)).toBe("Sem expediente");
+    expect(professionalLabel({ full_name: "Ana Souza", specialty: "Enfermagem", registry_number: null })).toBe(
+      "Ana Souza • Enfermagem"
+    );
+  });
+});
@@ -0,0 +1,20 @@
+import { describe, it, expect } from "vitest";
+import { buildMonthlyTotals } from "@/lib/taxStatement";
+
+describe("buildMonthlyTotals", () => {
+  it("sums receipts per month of the requested year only", () => {
+    const { monthlyTotals, total } = buildMonthlyTotals(
+      [
+        { amount: 100.1, paid_at: "2025-01-10" },
+        { amount: 50.2, paid_at: "2025-01-25" },
+        { amount: 300, paid_at: "2025-12-31" },
+        { amount: 999, paid_at: "2026-01-01" },
+      ],
+      2025,
+    );
+
+    expect(monthlyTotals[0]).toBe(150.3);
+    expect(monthlyTotals[11]).toBe(300);
+    expect(total).toBe(450.3);
+  });
+});
@@ -1 +1,11 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_PIX_KEY?: string;
+  readonly VITE_PIX_MERCHANT_NAME?: string;
+  readonly VITE_PIX_MERCHANT_CITY?: string;
+  readonly VITE_CLINIC_NAME?: string;
+  readonly VITE_CLINIC_CNPJ?: string;
+  readonly VITE_CLINIC_ADDRESS?: string;
+  readonly VITE_CLINIC_CITY?: string;
+}
@@ -0,0 +1,56 @@
+-- Séries de recorrência compartilhadas por aplicações, pagamentos e avaliações
+CREATE TABLE public.recurrence_series (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('application', 'payment', 'evaluation')),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  start_date DATE NOT NULL,
+  frequency TEXT NOT NULL CHECK (frequency IN ('daily', 'weekly', 'monthly')),
+  interval INTEGER NOT NULL DEFAULT 1 CHECK (interval > 0),
+  weekdays SMALLINT[] NOT NULL DEFAULT '{}',
+  occurrence_count INTEGER CHECK (occurrence_count > 0),
+  until_date DATE,
+  skip_holidays BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (occurrence_count IS NOT NULL OR until_date IS NOT NULL)
+);
+
+ALTER TABLE public.recurrence_series ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own series"
+ON public.recurrence_series
+FOR SELECT
+USING (
+  auth.uid() = user_id
+  OR has_role(auth.uid(), 'admin'::app_role)
+  OR is_master(auth.uid())
+);
+
+CREATE POLICY "Admins can insert series"
+ON public.recurrence_series
+FOR INSERT
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role) OR is_master(auth.uid()));
+
+CREATE POLICY "Admins can update series"
+ON public.recurrence_series
+FOR UPDATE
+USING (has_role(auth.uid(), 'admin'::app_role) OR is_master(auth.uid()));
+
+CREATE POLICY "Admins can delete series"
+ON public.recurrence_series
+FOR DELETE
+USING (has_role(auth.uid(), 'admin'::app_role) OR is_master(auth.uid()));
+
+-- Vincular as ocorrências geradas à série de origem
+ALTER TABLE public.applications
+ADD COLUMN series_id UUID REFERENCES public.recurrence_series(id) ON DELETE SET NULL;
+
+ALTER TABLE public.payments
+ADD COLUMN series_id UUID REFERENCES public.recurrence_series(id) ON DELETE SET NULL;
+
+ALTER TABLE public.medical_evaluations
+ADD COLUMN series_id UUID REFERENCES public.recurrence_series(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_applications_series_id ON public.applications(series_id);
+CREATE INDEX idx_payments_series_id ON public.payments(series_id);
+CREATE INDEX idx_medical_evaluations_series_id ON public.medical_evaluations(series_id);
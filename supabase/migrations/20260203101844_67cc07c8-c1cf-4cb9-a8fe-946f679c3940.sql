@@ -0,0 +1,60 @@
+-- Planos de tratamento: vinculam aplicações, pagamentos e medicações de um protocolo
+CREATE TABLE public.treatment_plans (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  protocol TEXT NOT NULL DEFAULT 'Método 3C',
+  total_sessions INTEGER NOT NULL CHECK (total_sessions > 0),
+  total_price DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (total_price >= 0),
+  installments INTEGER NOT NULL DEFAULT 1 CHECK (installments > 0),
+  start_date DATE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'completed', 'cancelled')),
+  notes TEXT,
+  created_by UUID DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.treatment_plans ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own treatment plans"
+ON public.treatment_plans
+FOR SELECT
+USING (
+  auth.uid() = user_id
+  OR has_role(auth.uid(), 'admin'::app_role)
+  OR is_master(auth.uid())
+);
+
+CREATE POLICY "Admins can insert treatment plans"
+ON public.treatment_plans
+FOR INSERT
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role) OR is_master(auth.uid()));
+
+CREATE POLICY "Admins can update treatment plans"
+ON public.treatment_plans
+FOR UPDATE
+USING (has_role(auth.uid(), 'admin'::app_role) OR is_master(auth.uid()));
+
+CREATE POLICY "Admins can delete treatment plans"
+ON public.treatment_plans
+FOR DELETE
+USING (has_role(auth.uid(), 'admin'::app_role) OR is_master(auth.uid()));
+
+CREATE TRIGGER update_treatment_plans_updated_at
+  BEFORE UPDATE ON public.treatment_plans
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Vincular as linhas geradas ao plano
+ALTER TABLE public.applications
+ADD COLUMN treatment_plan_id UUID REFERENCES public.treatment_plans(id) ON DELETE SET NULL;
+
+ALTER TABLE public.payments
+ADD COLUMN treatment_plan_id UUID REFERENCES public.treatment_plans(id) ON DELETE SET NULL;
+
+ALTER TABLE public.medications
+ADD COLUMN treatment_plan_id UUID REFERENCES public.treatment_plans(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_applications_treatment_plan_id ON public.applications(treatment_plan_id);
+CREATE INDEX idx_payments_treatment_plan_id ON public.payments(treatment_plan_id);
+CREATE INDEX idx_medications_treatment_plan_id ON public.medications(treatment_plan_id);
@@ -0,0 +1,56 @@
+-- Transição de pagamentos vencidos feita no banco, para que todas as telas vejam o mesmo status
+
+-- Ajusta o status conforme o vencimento sempre que um pagamento é criado ou editado
+CREATE OR REPLACE FUNCTION public.sync_payment_overdue_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'pending' AND NEW.due_date < CURRENT_DATE THEN
+    NEW.status := 'overdue';
+  ELSIF NEW.status = 'overdue' AND NEW.due_date >= CURRENT_DATE THEN
+    NEW.status := 'pending';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_payment_overdue_status
+BEFORE INSERT OR UPDATE OF status, due_date ON public.payments
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_payment_overdue_status();
+
+-- Marca como vencidos os pagamentos pendentes cujo vencimento já passou
+CREATE OR REPLACE FUNCTION public.mark_overdue_payments()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  updated_count integer;
+BEGIN
+  UPDATE public.payments
+  SET status = 'overdue'
+  WHERE status = 'pending'
+    AND due_date < CURRENT_DATE;
+
+  GET DIAGNOSTICS updated_count = ROW_COUNT;
+  RETURN updated_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.mark_overdue_payments() FROM PUBLIC, anon, authenticated;
+
+-- Atualiza os registros existentes
+SELECT public.mark_overdue_payments();
+
+-- Executa diariamente logo após a meia-noite de Brasília (03:05 UTC)
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA pg_catalog;
+
+SELECT cron.schedule(
+  'mark-overdue-payments',
+  '5 3 * * *',
+  $$SELECT public.mark_overdue_payments()$$
+);
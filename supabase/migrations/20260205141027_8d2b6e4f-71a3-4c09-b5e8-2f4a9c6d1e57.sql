@@ -0,0 +1,141 @@
+-- Livro de recebimentos: cada pagamento pode ser quitado em uma ou mais transações
+CREATE TABLE public.payment_transactions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  payment_id UUID NOT NULL REFERENCES public.payments(id) ON DELETE CASCADE,
+  amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+  method TEXT,
+  paid_at DATE NOT NULL DEFAULT CURRENT_DATE,
+  receipt_reference TEXT,
+  notes TEXT,
+  created_by UUID DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_payment_transactions_payment_id ON public.payment_transactions(payment_id);
+
+ALTER TABLE public.payment_transactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own payment transactions"
+ON public.payment_transactions
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.payments
+    WHERE payments.id = payment_transactions.payment_id
+      AND payments.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Financial access can view all payment transactions"
+ON public.payment_transactions
+FOR SELECT
+USING (has_permission(auth.uid(), 'financial'));
+
+CREATE POLICY "Financial access can insert payment transactions"
+ON public.payment_transactions
+FOR INSERT
+WITH CHECK (has_permission(auth.uid(), 'financial'));
+
+CREATE POLICY "Financial access can update payment transactions"
+ON public.payment_transactions
+FOR UPDATE
+USING (has_permission(auth.uid(), 'financial'));
+
+CREATE POLICY "Financial access can delete payment transactions"
+ON public.payment_transactions
+FOR DELETE
+USING (has_permission(auth.uid(), 'financial'));
+
+-- Valor já recebido, mantido a partir das transações
+ALTER TABLE public.payments
+ADD COLUMN amount_paid DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+ALTER TABLE public.payments DROP CONSTRAINT IF EXISTS payments_status_check;
+ALTER TABLE public.payments
+ADD CONSTRAINT payments_status_check CHECK (status IN ('pending', 'partial', 'paid', 'overdue'));
+ALTER TABLE public.payments ALTER COLUMN status SET DEFAULT 'pending';
+
+-- O status passa a ser derivado do valor recebido e do vencimento
+DROP TRIGGER IF EXISTS sync_payment_overdue_status ON public.payments;
+DROP FUNCTION IF EXISTS public.sync_payment_overdue_status();
+
+CREATE OR REPLACE FUNCTION public.derive_payment_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.amount_paid >= NEW.amount THEN
+    NEW.status := 'paid';
+  ELSE
+    NEW.paid_date := NULL;
+    IF NEW.due_date < CURRENT_DATE THEN
+      NEW.status := 'overdue';
+    ELSIF NEW.amount_paid > 0 THEN
+      NEW.status := 'partial';
+    ELSE
+      NEW.status := 'pending';
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER derive_payment_status
+BEFORE INSERT OR UPDATE ON public.payments
+FOR EACH ROW
+EXECUTE FUNCTION public.derive_payment_status();
+
+-- Recalcula o total recebido do pagamento a cada alteração no livro
+CREATE OR REPLACE FUNCTION public.sync_payment_amount_paid()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_payment_id UUID := COALESCE(NEW.payment_id, OLD.payment_id);
+BEGIN
+  UPDATE public.payments
+  SET amount_paid = totals.total,
+      paid_date = totals.last_paid_at
+  FROM (
+    SELECT COALESCE(SUM(amount), 0) AS total, MAX(paid_at) AS last_paid_at
+    FROM public.payment_transactions
+    WHERE payment_id = target_payment_id
+  ) AS totals
+  WHERE payments.id = target_payment_id;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_payment_amount_paid
+AFTER INSERT OR UPDATE OR DELETE ON public.payment_transactions
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_payment_amount_paid();
+
+-- Pagamentos já quitados ganham uma transação equivalente no livro
+INSERT INTO public.payment_transactions (payment_id, amount, paid_at, created_by)
+SELECT id, amount, COALESCE(paid_date, created_at::date), NULL
+FROM public.payments
+WHERE status = 'paid' AND amount > 0;
+
+CREATE OR REPLACE FUNCTION public.mark_overdue_payments()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  updated_count integer;
+BEGIN
+  UPDATE public.payments
+  SET status = 'overdue'
+  WHERE status IN ('pending', 'partial')
+    AND due_date < CURRENT_DATE;
+
+  GET DIAGNOSTICS updated_count = ROW_COUNT;
+  RETURN updated_count;
+END;
+$$;
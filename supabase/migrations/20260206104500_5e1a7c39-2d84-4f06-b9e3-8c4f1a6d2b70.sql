@@ -0,0 +1,26 @@
+-- Normaliza as formas de pagamento digitadas livremente (muitas vezes em português) antes
+-- da conversão para o enum payment_method, que descarta os valores não reconhecidos.
+-- Em bancos que já aplicaram a conversão a coluna não é mais texto e nada é feito:
+-- o texto original já não existe para ser recuperado
+DO $$
+BEGIN
+  IF (
+    SELECT data_type FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'payment_transactions' AND column_name = 'method'
+  ) <> 'text' THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.payment_transactions
+  SET method = CASE
+    WHEN lower(trim(method)) IN ('pix', 'credit_card', 'debit_card', 'cash', 'boleto', 'bank_transfer')
+      THEN lower(trim(method))
+    WHEN lower(trim(method)) LIKE '%d_bito%' THEN 'debit_card'
+    WHEN lower(trim(method)) LIKE 'cart_o%' OR lower(trim(method)) LIKE '%cr_dito%' THEN 'credit_card'
+    WHEN lower(trim(method)) IN ('dinheiro', 'espécie', 'especie') THEN 'cash'
+    WHEN lower(trim(method)) LIKE 'transfer_ncia%' OR lower(trim(method)) IN ('ted', 'doc') THEN 'bank_transfer'
+    ELSE method
+  END
+  WHERE method IS NOT NULL;
+END;
+$$;
@@ -0,0 +1,22 @@
+-- Forma de pagamento registrada em cada recebimento
+CREATE TYPE public.payment_method AS ENUM (
+  'pix',
+  'credit_card',
+  'debit_card',
+  'cash',
+  'boleto',
+  'bank_transfer'
+);
+
+-- Recebimentos antigos com forma de pagamento livre ficam sem classificação
+ALTER TABLE public.payment_transactions
+ALTER COLUMN method TYPE public.payment_method
+USING (
+  CASE
+    WHEN method IN ('pix', 'credit_card', 'debit_card', 'cash', 'boleto', 'bank_transfer')
+      THEN method::public.payment_method
+    ELSE NULL
+  END
+);
+
+CREATE INDEX idx_payment_transactions_method ON public.payment_transactions(method);
@@ -0,0 +1,5 @@
+-- Identificador da cobrança PIX (txid do BR Code), usado para conciliar as transferências recebidas
+ALTER TABLE public.payments
+ADD COLUMN pix_txid TEXT NOT NULL DEFAULT upper(substr(replace(gen_random_uuid()::text, '-', ''), 1, 25));
+
+CREATE UNIQUE INDEX idx_payments_pix_txid ON public.payments(pix_txid);
@@ -0,0 +1,48 @@
+-- Numeração sequencial dos recibos, atribuída quando o pagamento é quitado
+CREATE SEQUENCE public.payment_receipt_number_seq;
+
+ALTER TABLE public.payments
+ADD COLUMN receipt_number INTEGER UNIQUE;
+
+-- Recibos dos pagamentos já quitados seguem a ordem de pagamento
+WITH numbered AS (
+  SELECT id, row_number() OVER (ORDER BY paid_date NULLS FIRST, created_at) AS n
+  FROM public.payments
+  WHERE status = 'paid'
+)
+UPDATE public.payments
+SET receipt_number = numbered.n
+FROM numbered
+WHERE payments.id = numbered.id;
+
+SELECT setval(
+  'public.payment_receipt_number_seq',
+  COALESCE((SELECT MAX(receipt_number) FROM public.payments), 0) + 1,
+  false
+);
+
+CREATE OR REPLACE FUNCTION public.derive_payment_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.amount_paid >= NEW.amount THEN
+    NEW.status := 'paid';
+    -- O número do recibo é mantido mesmo se o pagamento for estornado depois
+    IF NEW.receipt_number IS NULL THEN
+      NEW.receipt_number := nextval('public.payment_receipt_number_seq');
+    END IF;
+  ELSE
+    NEW.paid_date := NULL;
+    IF NEW.due_date < CURRENT_DATE THEN
+      NEW.status := 'overdue';
+    ELSIF NEW.amount_paid > 0 THEN
+      NEW.status := 'partial';
+    ELSE
+      NEW.status := 'pending';
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
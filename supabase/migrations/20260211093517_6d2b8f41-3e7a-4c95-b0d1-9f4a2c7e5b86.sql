@@ -0,0 +1,19 @@
+-- Posologia estruturada: dose, horários fixos ou intervalo, dias da semana, uso com alimento e duração.
+-- Medicações sem schedule_type continuam usando apenas os campos de texto livre (dosage/frequency).
+ALTER TABLE public.medications
+ADD COLUMN schedule_type TEXT CHECK (schedule_type IN ('times', 'interval')),
+ADD COLUMN dose_amount NUMERIC(10,2) CHECK (dose_amount > 0),
+ADD COLUMN dose_unit TEXT,
+ADD COLUMN times_of_day TIME[],
+ADD COLUMN interval_hours INTEGER CHECK (interval_hours BETWEEN 1 AND 168),
+ADD COLUMN first_dose_time TIME,
+ADD COLUMN days_of_week SMALLINT[],
+ADD COLUMN take_with_food BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN duration_days INTEGER CHECK (duration_days > 0);
+
+ALTER TABLE public.medications
+ADD CONSTRAINT medications_schedule_check CHECK (
+  schedule_type IS NULL
+  OR (schedule_type = 'times' AND dose_amount IS NOT NULL AND cardinality(times_of_day) > 0)
+  OR (schedule_type = 'interval' AND dose_amount IS NOT NULL AND interval_hours IS NOT NULL AND first_dose_time IS NOT NULL)
+);
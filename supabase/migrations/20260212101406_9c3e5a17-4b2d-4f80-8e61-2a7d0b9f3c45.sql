@@ -0,0 +1,63 @@
+-- Registro de adesão: o paciente marca cada dose programada como tomada ou pulada
+CREATE TABLE public.medication_intakes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  medication_id UUID NOT NULL REFERENCES public.medications(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  scheduled_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('taken', 'skipped')),
+  recorded_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (medication_id, scheduled_at)
+);
+
+CREATE INDEX idx_medication_intakes_user_scheduled ON public.medication_intakes(user_id, scheduled_at);
+
+ALTER TABLE public.medication_intakes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own medication intakes"
+ON public.medication_intakes
+FOR SELECT
+USING (
+  auth.uid() = user_id
+  OR has_role(auth.uid(), 'admin'::app_role)
+  OR is_master(auth.uid())
+);
+
+-- O paciente só registra doses das próprias medicações
+CREATE POLICY "Users can insert own medication intakes"
+ON public.medication_intakes
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.medications m
+    WHERE m.id = medication_id AND m.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can update own medication intakes"
+ON public.medication_intakes
+FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own medication intakes"
+ON public.medication_intakes
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Mantém o horário do registro atualizado quando o paciente muda a resposta
+CREATE OR REPLACE FUNCTION public.touch_medication_intake()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.recorded_at = now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER touch_medication_intake
+  BEFORE UPDATE ON public.medication_intakes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.touch_medication_intake();
@@ -0,0 +1,61 @@
+-- Catálogo de medicações mantido pela clínica, para padronizar nomes e posologias
+CREATE TABLE public.medication_catalog (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  active_ingredient TEXT,
+  presentation TEXT,
+  default_dosage TEXT,
+  default_frequency TEXT,
+  contraindications TEXT,
+  notes TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Evita variações de grafia do mesmo nome (maiúsculas/espaços)
+CREATE UNIQUE INDEX idx_medication_catalog_name ON public.medication_catalog (lower(trim(name)));
+
+ALTER TABLE public.medication_catalog ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view medication catalog"
+ON public.medication_catalog
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role) OR is_master(auth.uid()));
+
+CREATE POLICY "Admins can insert medication catalog"
+ON public.medication_catalog
+FOR INSERT
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role) OR is_master(auth.uid()));
+
+CREATE POLICY "Admins can update medication catalog"
+ON public.medication_catalog
+FOR UPDATE
+USING (has_role(auth.uid(), 'admin'::app_role) OR is_master(auth.uid()));
+
+CREATE POLICY "Admins can delete medication catalog"
+ON public.medication_catalog
+FOR DELETE
+USING (has_role(auth.uid(), 'admin'::app_role) OR is_master(auth.uid()));
+
+CREATE TRIGGER update_medication_catalog_updated_at
+  BEFORE UPDATE ON public.medication_catalog
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.medications
+ADD COLUMN catalog_id UUID REFERENCES public.medication_catalog(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_medications_catalog_id ON public.medications(catalog_id);
+
+-- Popula o catálogo com os nomes já usados, mantendo a posologia mais recente de cada um
+INSERT INTO public.medication_catalog (name, default_dosage, default_frequency)
+SELECT DISTINCT ON (lower(trim(medication_name))) trim(medication_name), dosage, frequency
+FROM public.medications
+ORDER BY lower(trim(medication_name)), created_at DESC;
+
+UPDATE public.medications m
+SET catalog_id = c.id
+FROM public.medication_catalog c
+WHERE lower(trim(m.medication_name)) = lower(trim(c.name));
@@ -0,0 +1,45 @@
+-- Tabela de interações medicamentosas mantida pela clínica.
+-- Cada par pode ser o nome comercial ou o princípio ativo; a ordem dos termos é irrelevante.
+CREATE TABLE public.drug_interactions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  substance_a TEXT NOT NULL CHECK (length(trim(substance_a)) > 0),
+  substance_b TEXT NOT NULL CHECK (length(trim(substance_b)) > 0),
+  severity TEXT NOT NULL DEFAULT 'moderate' CHECK (severity IN ('minor', 'moderate', 'major')),
+  message TEXT NOT NULL,
+  created_by UUID DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_drug_interactions_pair ON public.drug_interactions (
+  least(lower(trim(substance_a)), lower(trim(substance_b))),
+  greatest(lower(trim(substance_a)), lower(trim(substance_b)))
+);
+
+ALTER TABLE public.drug_interactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view drug interactions"
+ON public.drug_interactions
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role) OR is_master(auth.uid()));
+
+CREATE POLICY "Admins can insert drug interactions"
+ON public.drug_interactions
+FOR INSERT
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role) OR is_master(auth.uid()));
+
+CREATE POLICY "Admins can update drug interactions"
+ON public.drug_interactions
+FOR UPDATE
+USING (has_role(auth.uid(), 'admin'::app_role) OR is_master(auth.uid()));
+
+CREATE POLICY "Admins can delete drug interactions"
+ON public.drug_interactions
+FOR DELETE
+USING (has_role(auth.uid(), 'admin'::app_role) OR is_master(auth.uid()));
+
+-- Interações iniciais dos agonistas de GLP-1 usados nos protocolos
+INSERT INTO public.drug_interactions (substance_a, substance_b, severity, message) VALUES
+  ('Semaglutida', 'Tirzepatida', 'major', 'Dois agonistas de GLP-1 simultâneos: efeito duplicado e maior risco gastrointestinal.'),
+  ('Semaglutida', 'Liraglutida', 'major', 'Dois agonistas de GLP-1 simultâneos: efeito duplicado e maior risco gastrointestinal.'),
+  ('Semaglutida', 'Insulina', 'moderate', 'Risco aumentado de hipoglicemia; considerar redução da dose de insulina.'),
+  ('Tirzepatida', 'Insulina', 'moderate', 'Risco aumentado de hipoglicemia; considerar redução da dose de insulina.');
@@ -0,0 +1,38 @@
+-- Receituários emitidos. Os itens guardam uma cópia das medicações no momento da emissão,
+-- para que o documento possa ser reimpresso igual mesmo após alterações na prescrição.
+CREATE TABLE public.prescriptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  professional_name TEXT NOT NULL,
+  professional_crm TEXT NOT NULL,
+  issued_at DATE NOT NULL DEFAULT CURRENT_DATE,
+  items JSONB NOT NULL CHECK (jsonb_typeof(items) = 'array' AND jsonb_array_length(items) > 0),
+  medication_ids UUID[] NOT NULL DEFAULT '{}',
+  notes TEXT,
+  created_by UUID DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_prescriptions_user_id ON public.prescriptions(user_id, issued_at DESC);
+
+ALTER TABLE public.prescriptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own prescriptions"
+ON public.prescriptions
+FOR SELECT
+USING (
+  auth.uid() = user_id
+  OR has_role(auth.uid(), 'admin'::app_role)
+  OR is_master(auth.uid())
+);
+
+CREATE POLICY "Admins can insert prescriptions"
+ON public.prescriptions
+FOR INSERT
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role) OR is_master(auth.uid()));
+
+-- Receituários não são editados; um erro é corrigido excluindo e emitindo outro
+CREATE POLICY "Admins can delete prescriptions"
+ON public.prescriptions
+FOR DELETE
+USING (has_role(auth.uid(), 'admin'::app_role) OR is_master(auth.uid()));
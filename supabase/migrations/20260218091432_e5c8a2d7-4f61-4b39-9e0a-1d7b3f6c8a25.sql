@@ -0,0 +1,54 @@
+-- Situação da medicação derivada das datas. O antigo is_active manual vira uma suspensão
+-- explícita, com data e motivo, separada do término natural do tratamento.
+ALTER TABLE public.medications
+ADD COLUMN suspended_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN suspension_reason TEXT;
+
+-- Desativações manuais de tratamentos ainda vigentes passam a ser suspensões
+UPDATE public.medications
+SET suspended_at = now(),
+    suspension_reason = 'Desativada manualmente'
+WHERE NOT is_active
+  AND (end_date IS NULL OR end_date >= CURRENT_DATE)
+  AND (duration_days IS NULL OR start_date + duration_days - 1 >= CURRENT_DATE);
+
+ALTER TABLE public.medications DROP COLUMN is_active;
+
+-- Último dia de uso: o menor entre a data fim e o fim pela duração (LEAST ignora nulos)
+CREATE OR REPLACE FUNCTION public.medication_effective_end_date(_start_date DATE, _end_date DATE, _duration_days INTEGER)
+RETURNS DATE
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT LEAST(_end_date, _start_date + _duration_days - 1)
+$$;
+
+CREATE OR REPLACE FUNCTION public.medication_status(
+  _start_date DATE,
+  _end_date DATE,
+  _duration_days INTEGER,
+  _suspended_at TIMESTAMP WITH TIME ZONE
+)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT CASE
+    WHEN _suspended_at IS NOT NULL THEN 'suspended'
+    WHEN _start_date > CURRENT_DATE THEN 'scheduled'
+    WHEN public.medication_effective_end_date(_start_date, _end_date, _duration_days) < CURRENT_DATE THEN 'ended'
+    ELSE 'active'
+  END
+$$;
+
+-- security_invoker: a view respeita as políticas RLS de medications de quem consulta
+CREATE VIEW public.medications_with_status
+WITH (security_invoker = true)
+AS
+SELECT
+  m.*,
+  public.medication_effective_end_date(m.start_date, m.end_date, m.duration_days) AS effective_end_date,
+  public.medication_status(m.start_date, m.end_date, m.duration_days, m.suspended_at) AS status
+FROM public.medications m;
+
+GRANT SELECT ON public.medications_with_status TO authenticated;
@@ -0,0 +1,35 @@
+-- Estoque dispensado ao paciente para estimar quando a medicação acaba
+ALTER TABLE public.medications
+ADD COLUMN quantity_dispensed NUMERIC,
+ADD COLUMN daily_dose NUMERIC,
+ADD COLUMN dispensed_at DATE;
+
+ALTER TABLE public.medications
+ADD CONSTRAINT medications_supply_check CHECK (
+  (quantity_dispensed IS NULL OR quantity_dispensed > 0)
+  AND (daily_dose IS NULL OR daily_dose > 0)
+);
+
+-- Último dia coberto pelo estoque, contado a partir da dispensação (ou do início)
+CREATE OR REPLACE FUNCTION public.medication_supply_end_date(_start_date DATE, _dispensed_at DATE, _quantity_dispensed NUMERIC, _daily_dose NUMERIC)
+RETURNS DATE
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(_dispensed_at, _start_date) + floor(_quantity_dispensed / _daily_dose)::INTEGER - 1
+$$;
+
+-- O m.* da view é expandido na criação; recriada para incluir as novas colunas
+DROP VIEW public.medications_with_status;
+
+CREATE VIEW public.medications_with_status
+WITH (security_invoker = true)
+AS
+SELECT
+  m.*,
+  public.medication_effective_end_date(m.start_date, m.end_date, m.duration_days) AS effective_end_date,
+  public.medication_status(m.start_date, m.end_date, m.duration_days, m.suspended_at) AS status,
+  public.medication_supply_end_date(m.start_date, m.dispensed_at, m.quantity_dispensed, m.daily_dose) AS supply_end_date
+FROM public.medications m;
+
+GRANT SELECT ON public.medications_with_status TO authenticated;
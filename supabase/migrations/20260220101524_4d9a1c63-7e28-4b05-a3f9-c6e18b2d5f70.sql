@@ -0,0 +1,65 @@
+-- Prontuário: notas de evolução clínica por atendimento. As notas não são editadas nem
+-- excluídas; correções entram como adendos (amends_id) que apontam para a nota original.
+CREATE TABLE public.clinical_notes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  application_id UUID REFERENCES public.applications(id) ON DELETE SET NULL,
+  evaluation_id UUID REFERENCES public.medical_evaluations(id) ON DELETE SET NULL,
+  amends_id UUID REFERENCES public.clinical_notes(id),
+  content TEXT NOT NULL CHECK (length(trim(content)) > 0),
+  author_id UUID NOT NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT clinical_notes_single_visit CHECK (num_nonnulls(application_id, evaluation_id) <= 1)
+);
+
+CREATE INDEX idx_clinical_notes_user_id ON public.clinical_notes(user_id, created_at);
+CREATE INDEX idx_clinical_notes_amends_id ON public.clinical_notes(amends_id);
+
+ALTER TABLE public.clinical_notes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view clinical notes"
+ON public.clinical_notes
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role) OR is_master(auth.uid()));
+
+-- Sem políticas de UPDATE/DELETE: o prontuário só recebe novas notas
+CREATE POLICY "Admins can insert clinical notes"
+ON public.clinical_notes
+FOR INSERT
+WITH CHECK (
+  author_id = auth.uid()
+  AND (has_role(auth.uid(), 'admin'::app_role) OR is_master(auth.uid()))
+);
+
+-- Adendos herdam paciente e atendimento da nota original e sempre apontam para ela,
+-- nunca para outro adendo
+CREATE OR REPLACE FUNCTION public.inherit_clinical_note_context()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _original public.clinical_notes%ROWTYPE;
+BEGIN
+  IF NEW.amends_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO _original FROM public.clinical_notes WHERE id = NEW.amends_id;
+
+  IF _original.amends_id IS NOT NULL THEN
+    NEW.amends_id = _original.amends_id;
+  END IF;
+
+  NEW.user_id = _original.user_id;
+  NEW.application_id = _original.application_id;
+  NEW.evaluation_id = _original.evaluation_id;
+  NEW.created_at = now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER inherit_clinical_note_context
+  BEFORE INSERT ON public.clinical_notes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.inherit_clinical_note_context();
@@ -0,0 +1,97 @@
+-- Questionários de anamnese configuráveis. As seções e perguntas ficam em JSONB:
+-- [{ id, title, questions: [{ id, label, type, required, options }] }]
+CREATE TABLE public.anamnesis_forms (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  title TEXT NOT NULL,
+  description TEXT,
+  sections JSONB NOT NULL DEFAULT '[]' CHECK (jsonb_typeof(sections) = 'array'),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.anamnesis_forms ENABLE ROW LEVEL SECURITY;
+
+-- Pacientes veem os questionários ativos para preenchê-los no portal
+CREATE POLICY "Authenticated users can view active anamnesis forms"
+ON public.anamnesis_forms
+FOR SELECT
+USING (
+  (auth.uid() IS NOT NULL AND is_active)
+  OR has_role(auth.uid(), 'admin'::app_role)
+  OR is_master(auth.uid())
+);
+
+CREATE POLICY "Admins can insert anamnesis forms"
+ON public.anamnesis_forms
+FOR INSERT
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role) OR is_master(auth.uid()));
+
+CREATE POLICY "Admins can update anamnesis forms"
+ON public.anamnesis_forms
+FOR UPDATE
+USING (has_role(auth.uid(), 'admin'::app_role) OR is_master(auth.uid()));
+
+CREATE POLICY "Admins can delete anamnesis forms"
+ON public.anamnesis_forms
+FOR DELETE
+USING (has_role(auth.uid(), 'admin'::app_role) OR is_master(auth.uid()));
+
+CREATE TRIGGER update_anamnesis_forms_updated_at
+  BEFORE UPDATE ON public.anamnesis_forms
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Respostas versionadas: cada envio gera uma nova versão com a cópia do questionário
+-- respondido, para que alterações posteriores no formulário não mudem o histórico.
+CREATE TABLE public.anamnesis_responses (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  form_id UUID REFERENCES public.anamnesis_forms(id) ON DELETE SET NULL,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL DEFAULT 1,
+  form_title TEXT NOT NULL,
+  form_sections JSONB NOT NULL CHECK (jsonb_typeof(form_sections) = 'array'),
+  answers JSONB NOT NULL DEFAULT '{}' CHECK (jsonb_typeof(answers) = 'object'),
+  submitted_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX anamnesis_responses_version_key
+ON public.anamnesis_responses(user_id, form_id, version);
+
+ALTER TABLE public.anamnesis_responses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own anamnesis responses"
+ON public.anamnesis_responses
+FOR SELECT
+USING (
+  auth.uid() = user_id
+  OR has_role(auth.uid(), 'admin'::app_role)
+  OR is_master(auth.uid())
+);
+
+-- Sem UPDATE/DELETE: uma correção é um novo envio
+CREATE POLICY "Users can insert own anamnesis responses"
+ON public.anamnesis_responses
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION public.set_anamnesis_response_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  SELECT COALESCE(MAX(version), 0) + 1 INTO NEW.version
+  FROM public.anamnesis_responses
+  WHERE user_id = NEW.user_id AND form_id IS NOT DISTINCT FROM NEW.form_id;
+
+  NEW.submitted_at = now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_anamnesis_response_version
+  BEFORE INSERT ON public.anamnesis_responses
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_anamnesis_response_version();
@@ -0,0 +1,43 @@
+-- Horário de início e duração das aplicações (aplicações antigas ficam sem horário)
+ALTER TABLE public.applications
+ADD COLUMN start_time TIME,
+ADD COLUMN duration_minutes INTEGER NOT NULL DEFAULT 30 CHECK (duration_minutes > 0);
+
+CREATE INDEX idx_applications_date_time ON public.applications(application_date, start_time);
+
+-- Capacidade (cadeiras/salas) de cada horário da agenda. O horário vale até o início do próximo;
+-- sem horários cadastrados a agenda comporta uma aplicação por vez
+CREATE TABLE public.application_slots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  start_time TIME NOT NULL UNIQUE,
+  capacity INTEGER NOT NULL DEFAULT 1 CHECK (capacity > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.application_slots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view application slots"
+ON public.application_slots
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role) OR is_master(auth.uid()));
+
+CREATE POLICY "Admins can insert application slots"
+ON public.application_slots
+FOR INSERT
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role) OR is_master(auth.uid()));
+
+CREATE POLICY "Admins can update application slots"
+ON public.application_slots
+FOR UPDATE
+USING (has_role(auth.uid(), 'admin'::app_role) OR is_master(auth.uid()));
+
+CREATE POLICY "Admins can delete application slots"
+ON public.application_slots
+FOR DELETE
+USING (has_role(auth.uid(), 'admin'::app_role) OR is_master(auth.uid()));
+
+CREATE TRIGGER update_application_slots_updated_at
+  BEFORE UPDATE ON public.application_slots
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,257 @@
+-- Pacientes deixam de alterar aplicações diretamente: remarcações e cancelamentos passam
+-- por solicitações aprovadas pela clínica
+DROP POLICY IF EXISTS "Users can insert own applications" ON public.applications;
+DROP POLICY IF EXISTS "Users can update own applications" ON public.applications;
+DROP POLICY IF EXISTS "Users can delete own applications" ON public.applications;
+
+CREATE POLICY "Admins can insert applications"
+ON public.applications
+FOR INSERT
+TO authenticated
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role) OR is_master(auth.uid()));
+
+CREATE POLICY "Admins can update applications"
+ON public.applications
+FOR UPDATE
+TO authenticated
+USING (has_role(auth.uid(), 'admin'::app_role) OR is_master(auth.uid()));
+
+CREATE POLICY "Admins can delete applications"
+ON public.applications
+FOR DELETE
+TO authenticated
+USING (has_role(auth.uid(), 'admin'::app_role) OR is_master(auth.uid()));
+
+-- Motivo da última mudança de status, copiado para o histórico
+ALTER TABLE public.applications
+ADD COLUMN status_reason TEXT;
+
+-- Histórico de status compartilhado entre tipos de atendimento
+CREATE TABLE public.status_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('application')),
+  entity_id UUID NOT NULL,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  previous_status TEXT,
+  status TEXT NOT NULL,
+  scheduled_date DATE NOT NULL,
+  scheduled_time TIME,
+  reason TEXT,
+  changed_by UUID DEFAULT auth.uid(),
+  changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_status_history_entity ON public.status_history(entity_type, entity_id, changed_at);
+
+ALTER TABLE public.status_history ENABLE ROW LEVEL SECURITY;
+
+-- Preenchido apenas pelos gatilhos abaixo
+CREATE POLICY "Users can view own status history"
+ON public.status_history
+FOR SELECT
+USING (
+  auth.uid() = user_id
+  OR has_role(auth.uid(), 'admin'::app_role)
+  OR is_master(auth.uid())
+);
+
+CREATE OR REPLACE FUNCTION public.record_application_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND NEW.status IS NOT DISTINCT FROM OLD.status
+    AND NEW.application_date IS NOT DISTINCT FROM OLD.application_date
+    AND NEW.start_time IS NOT DISTINCT FROM OLD.start_time THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.status_history (
+    entity_type, entity_id, user_id, previous_status, status, scheduled_date, scheduled_time, reason
+  )
+  VALUES (
+    'application',
+    NEW.id,
+    NEW.user_id,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+    NEW.status,
+    NEW.application_date,
+    NEW.start_time,
+    -- Um motivo antigo não se repete em mudanças feitas sem motivo
+    CASE WHEN TG_OP = 'INSERT' OR NEW.status_reason IS DISTINCT FROM OLD.status_reason THEN NEW.status_reason END
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_application_status
+  AFTER INSERT OR UPDATE ON public.applications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_application_status();
+
+-- Estado atual das aplicações já existentes como ponto de partida do histórico
+INSERT INTO public.status_history (entity_type, entity_id, user_id, status, scheduled_date, scheduled_time, changed_by, changed_at)
+SELECT 'application', id, user_id, status, application_date, start_time, NULL, created_at
+FROM public.applications;
+
+-- Solicitações de remarcação/cancelamento feitas pelo paciente
+CREATE TABLE public.application_change_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  application_id UUID NOT NULL REFERENCES public.applications(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('reschedule', 'cancel')),
+  reason TEXT NOT NULL CHECK (length(trim(reason)) > 0),
+  requested_date DATE,
+  requested_time TIME,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'withdrawn')),
+  response_notes TEXT,
+  responded_at TIMESTAMP WITH TIME ZONE,
+  responded_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (kind = 'cancel' OR requested_date IS NOT NULL)
+);
+
+-- Uma solicitação em aberto por aplicação
+CREATE UNIQUE INDEX idx_application_change_requests_pending
+ON public.application_change_requests(application_id)
+WHERE status = 'pending';
+
+CREATE INDEX idx_application_change_requests_user_id ON public.application_change_requests(user_id);
+
+ALTER TABLE public.application_change_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own change requests"
+ON public.application_change_requests
+FOR SELECT
+USING (
+  auth.uid() = user_id
+  OR has_role(auth.uid(), 'admin'::app_role)
+  OR is_master(auth.uid())
+);
+
+CREATE POLICY "Users can insert own change requests"
+ON public.application_change_requests
+FOR INSERT
+WITH CHECK (auth.uid() = user_id AND status = 'pending');
+
+-- O paciente só pode desistir de uma solicitação em aberto
+CREATE POLICY "Users can withdraw own change requests"
+ON public.application_change_requests
+FOR UPDATE
+USING (auth.uid() = user_id AND status = 'pending')
+WITH CHECK (auth.uid() = user_id AND status = 'withdrawn');
+
+CREATE POLICY "Admins can update change requests"
+ON public.application_change_requests
+FOR UPDATE
+USING (has_role(auth.uid(), 'admin'::app_role) OR is_master(auth.uid()));
+
+-- Antecedência mínima para remarcar ou cancelar, espelhada em src/lib/changeRequests.ts
+CREATE OR REPLACE FUNCTION public.application_change_min_notice()
+RETURNS INTERVAL
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT INTERVAL '24 hours';
+$$;
+
+CREATE OR REPLACE FUNCTION public.validate_application_change_request()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _application public.applications%ROWTYPE;
+  _deadline TIMESTAMP := (now() AT TIME ZONE 'America/Sao_Paulo') + application_change_min_notice();
+BEGIN
+  SELECT * INTO _application FROM public.applications WHERE id = NEW.application_id;
+
+  IF _application.user_id IS DISTINCT FROM NEW.user_id OR _application.status <> 'scheduled' THEN
+    RAISE EXCEPTION 'Só é possível alterar aplicações agendadas do próprio paciente';
+  END IF;
+
+  IF _application.application_date + COALESCE(_application.start_time, TIME '00:00') < _deadline THEN
+    RAISE EXCEPTION 'Alterações precisam ser solicitadas com antecedência mínima de %', application_change_min_notice();
+  END IF;
+
+  IF NEW.kind = 'reschedule'
+    AND NEW.requested_date + COALESCE(NEW.requested_time, TIME '00:00') < _deadline THEN
+    RAISE EXCEPTION 'A nova data precisa respeitar a antecedência mínima de %', application_change_min_notice();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_application_change_request
+  BEFORE INSERT ON public.application_change_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_application_change_request();
+
+-- Ao aprovar, a aplicação é remarcada ou cancelada com o motivo do paciente
+CREATE OR REPLACE FUNCTION public.resolve_application_change_request()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status <> 'pending' THEN
+    RAISE EXCEPTION 'Solicitação já respondida';
+  END IF;
+
+  IF NEW.status IN ('approved', 'rejected') THEN
+    NEW.responded_at = now();
+    NEW.responded_by = auth.uid();
+  END IF;
+
+  IF NEW.status = 'approved' AND NEW.kind = 'reschedule' THEN
+    UPDATE public.applications
+    SET application_date = NEW.requested_date,
+        start_time = COALESCE(NEW.requested_time, start_time),
+        status_reason = NEW.reason
+    WHERE id = NEW.application_id;
+  ELSIF NEW.status = 'approved' AND NEW.kind = 'cancel' THEN
+    UPDATE public.applications
+    SET status = 'cancelled',
+        status_reason = NEW.reason
+    WHERE id = NEW.application_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER resolve_application_change_request
+  BEFORE UPDATE ON public.application_change_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.resolve_application_change_request();
+
+-- Horários livres de um dia para o paciente escolher, sem expor as aplicações de outros pacientes.
+-- Conta toda aplicação que se sobrepõe ao horário, sem considerar a ocupação minuto a minuto
+CREATE OR REPLACE FUNCTION public.available_application_slots(_date DATE, _duration_minutes INTEGER)
+RETURNS TABLE (start_time TIME, available INTEGER)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT s.start_time, (s.capacity - count(a.id))::INTEGER AS available
+  FROM public.application_slots s
+  LEFT JOIN public.applications a
+    ON a.application_date = _date
+    AND a.status IN ('scheduled', 'completed')
+    AND a.start_time IS NOT NULL
+    AND a.start_time < s.start_time + make_interval(mins => _duration_minutes)
+    AND s.start_time < a.start_time + make_interval(mins => a.duration_minutes)
+  WHERE auth.uid() IS NOT NULL
+  GROUP BY s.start_time, s.capacity
+  HAVING s.capacity - count(a.id) > 0
+  ORDER BY s.start_time;
+$$;
@@ -0,0 +1,84 @@
+-- Dados profissionais da equipe. A equipe são os usuários com papel admin ou master;
+-- este cadastro complementa com especialidade e registro no conselho (CRM, COREN...)
+CREATE TABLE public.staff_profiles (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  specialty TEXT,
+  registry_number TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.staff_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view staff profiles"
+ON public.staff_profiles
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role) OR is_master(auth.uid()));
+
+CREATE POLICY "Admins can insert staff profiles"
+ON public.staff_profiles
+FOR INSERT
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role) OR is_master(auth.uid()));
+
+CREATE POLICY "Admins can update staff profiles"
+ON public.staff_profiles
+FOR UPDATE
+USING (has_role(auth.uid(), 'admin'::app_role) OR is_master(auth.uid()));
+
+CREATE POLICY "Admins can delete staff profiles"
+ON public.staff_profiles
+FOR DELETE
+USING (has_role(auth.uid(), 'admin'::app_role) OR is_master(auth.uid()));
+
+CREATE TRIGGER update_staff_profiles_updated_at
+  BEFORE UPDATE ON public.staff_profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Expediente de cada profissional por dia da semana (0 = domingo, como na recorrência).
+-- Um dia pode ter vários intervalos, por exemplo manhã e tarde; sem nenhum intervalo
+-- cadastrado o profissional não tem restrição de horário
+CREATE TABLE public.staff_working_hours (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  weekday SMALLINT NOT NULL CHECK (weekday BETWEEN 0 AND 6),
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (end_time > start_time)
+);
+
+CREATE INDEX idx_staff_working_hours_user ON public.staff_working_hours(user_id, weekday);
+
+ALTER TABLE public.staff_working_hours ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view staff working hours"
+ON public.staff_working_hours
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role) OR is_master(auth.uid()));
+
+CREATE POLICY "Admins can insert staff working hours"
+ON public.staff_working_hours
+FOR INSERT
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role) OR is_master(auth.uid()));
+
+CREATE POLICY "Admins can update staff working hours"
+ON public.staff_working_hours
+FOR UPDATE
+USING (has_role(auth.uid(), 'admin'::app_role) OR is_master(auth.uid()));
+
+CREATE POLICY "Admins can delete staff working hours"
+ON public.staff_working_hours
+FOR DELETE
+USING (has_role(auth.uid(), 'admin'::app_role) OR is_master(auth.uid()));
+
+-- Profissional responsável pela aplicação ou avaliação (opcional)
+ALTER TABLE public.applications
+ADD COLUMN professional_id UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+ALTER TABLE public.medical_evaluations
+ADD COLUMN professional_id UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_applications_professional ON public.applications(professional_id, application_date);
+CREATE INDEX idx_medical_evaluations_professional ON public.medical_evaluations(professional_id, evaluation_date);
@@ -0,0 +1,57 @@
+-- Ciclo de vida das avaliações: confirmada, remarcada, cancelada e não compareceu ('missed',
+-- como nas aplicações), com o motivo da última mudança
+ALTER TABLE public.medical_evaluations
+ADD COLUMN status_reason TEXT;
+
+ALTER TABLE public.medical_evaluations
+ADD CONSTRAINT medical_evaluations_status_check
+CHECK (status IN ('scheduled', 'confirmed', 'rescheduled', 'completed', 'cancelled', 'missed'));
+
+-- O histórico de status passa a ser compartilhado com as avaliações
+ALTER TABLE public.status_history
+DROP CONSTRAINT status_history_entity_type_check;
+
+ALTER TABLE public.status_history
+ADD CONSTRAINT status_history_entity_type_check
+CHECK (entity_type IN ('application', 'evaluation'));
+
+CREATE OR REPLACE FUNCTION public.record_evaluation_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND NEW.status IS NOT DISTINCT FROM OLD.status
+    AND NEW.evaluation_date IS NOT DISTINCT FROM OLD.evaluation_date
+    AND NEW.evaluation_time IS NOT DISTINCT FROM OLD.evaluation_time THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.status_history (
+    entity_type, entity_id, user_id, previous_status, status, scheduled_date, scheduled_time, reason
+  )
+  VALUES (
+    'evaluation',
+    NEW.id,
+    NEW.user_id,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+    NEW.status,
+    NEW.evaluation_date,
+    NEW.evaluation_time,
+    CASE WHEN TG_OP = 'INSERT' OR NEW.status_reason IS DISTINCT FROM OLD.status_reason THEN NEW.status_reason END
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_evaluation_status
+  AFTER INSERT OR UPDATE ON public.medical_evaluations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_evaluation_status();
+
+-- Estado atual das avaliações já existentes como ponto de partida do histórico
+INSERT INTO public.status_history (entity_type, entity_id, user_id, status, scheduled_date, scheduled_time, changed_by, changed_at)
+SELECT 'evaluation', id, user_id, status, evaluation_date, evaluation_time, NULL, created_at
+FROM public.medical_evaluations;
@@ -0,0 +1,56 @@
+-- Criação do plano de tratamento em uma única transação: se qualquer etapa falhar
+-- (aplicações, parcelas ou medicações) nada do plano fica gravado pela metade.
+-- Roda com as permissões de quem chama, então as políticas de cada tabela continuam valendo
+CREATE OR REPLACE FUNCTION public.create_treatment_plan(
+  _plan JSONB,
+  _series JSONB,
+  _application_dates DATE[],
+  _payments JSONB DEFAULT '[]'::jsonb,
+  _medications JSONB DEFAULT '[]'::jsonb
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := (_plan->>'user_id')::uuid;
+  _start_date DATE := (_plan->>'start_date')::date;
+  _plan_id UUID;
+  _series_id UUID;
+BEGIN
+  INSERT INTO public.treatment_plans (user_id, protocol, total_sessions, total_price, installments, start_date, notes)
+  VALUES (
+    _user_id,
+    _plan->>'protocol',
+    (_plan->>'total_sessions')::integer,
+    (_plan->>'total_price')::numeric,
+    (_plan->>'installments')::integer,
+    _start_date,
+    _plan->>'notes'
+  )
+  RETURNING id INTO _plan_id;
+
+  INSERT INTO public.recurrence_series (
+    entity_type, user_id, start_date, frequency, interval, weekdays, occurrence_count, until_date, skip_holidays
+  )
+  SELECT 'application', _user_id, _start_date, s.frequency, s.interval, s.weekdays, s.occurrence_count, s.until_date, s.skip_holidays
+  FROM jsonb_to_record(_series) AS s(
+    frequency TEXT, interval INTEGER, weekdays SMALLINT[], occurrence_count INTEGER, until_date DATE, skip_holidays BOOLEAN
+  )
+  RETURNING id INTO _series_id;
+
+  INSERT INTO public.applications (user_id, application_date, status, series_id, treatment_plan_id)
+  SELECT _user_id, application_date, 'scheduled', _series_id, _plan_id
+  FROM unnest(_application_dates) AS application_date;
+
+  INSERT INTO public.payments (user_id, amount, due_date, status, description, treatment_plan_id)
+  SELECT _user_id, p.amount, p.due_date, 'pending', p.description, _plan_id
+  FROM jsonb_to_recordset(_payments) AS p(amount NUMERIC, due_date DATE, description TEXT);
+
+  INSERT INTO public.medications (user_id, medication_name, dosage, frequency, start_date, treatment_plan_id)
+  SELECT _user_id, m.medication_name, m.dosage, m.frequency, _start_date, _plan_id
+  FROM jsonb_to_recordset(_medications) AS m(medication_name TEXT, dosage TEXT, frequency TEXT);
+
+  RETURN _plan_id;
+END;
+$$;
@@ -0,0 +1,46 @@
+-- O vencimento é comparado com a data de São Paulo: CURRENT_DATE segue o fuso do
+-- servidor (UTC) e marcava parcelas como vencidas a partir das 21h do dia do vencimento
+CREATE OR REPLACE FUNCTION public.derive_payment_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.amount_paid >= NEW.amount THEN
+    NEW.status := 'paid';
+    -- O número do recibo é mantido mesmo se o pagamento for estornado depois
+    IF NEW.receipt_number IS NULL THEN
+      NEW.receipt_number := nextval('public.payment_receipt_number_seq');
+    END IF;
+  ELSE
+    NEW.paid_date := NULL;
+    IF NEW.due_date < (now() AT TIME ZONE 'America/Sao_Paulo')::date THEN
+      NEW.status := 'overdue';
+    ELSIF NEW.amount_paid > 0 THEN
+      NEW.status := 'partial';
+    ELSE
+      NEW.status := 'pending';
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.mark_overdue_payments()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  updated_count integer;
+BEGIN
+  UPDATE public.payments
+  SET status = 'overdue'
+  WHERE status IN ('pending', 'partial')
+    AND due_date < (now() AT TIME ZONE 'America/Sao_Paulo')::date;
+
+  GET DIAGNOSTICS updated_count = ROW_COUNT;
+  RETURN updated_count;
+END;
+$$;
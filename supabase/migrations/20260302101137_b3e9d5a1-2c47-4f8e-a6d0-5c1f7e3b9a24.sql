@@ -0,0 +1,33 @@
+-- Uma transação movida para outro pagamento precisa recalcular os dois: o de origem
+-- perde o valor e o de destino ganha
+CREATE OR REPLACE FUNCTION public.sync_payment_amount_paid()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_payment_ids UUID[];
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    target_payment_ids := ARRAY[NEW.payment_id];
+  ELSIF TG_OP = 'DELETE' OR NEW.payment_id IS NOT DISTINCT FROM OLD.payment_id THEN
+    target_payment_ids := ARRAY[OLD.payment_id];
+  ELSE
+    target_payment_ids := ARRAY[OLD.payment_id, NEW.payment_id];
+  END IF;
+
+  UPDATE public.payments
+  SET amount_paid = COALESCE(totals.total, 0),
+      paid_date = totals.last_paid_at
+  FROM (
+    SELECT target.id, SUM(t.amount) AS total, MAX(t.paid_at) AS last_paid_at
+    FROM unnest(target_payment_ids) AS target(id)
+    LEFT JOIN public.payment_transactions t ON t.payment_id = target.id
+    GROUP BY target.id
+  ) AS totals
+  WHERE payments.id = totals.id;
+
+  RETURN NULL;
+END;
+$$;
@@ -0,0 +1,16 @@
+-- Identificador do lançamento do extrato bancário (FITID ou coluna de identificação).
+-- A restrição de unicidade impede que o mesmo lançamento seja conciliado duas vezes,
+-- mesmo com duas importações simultâneas; transações manuais ficam com NULL, que não conflita
+ALTER TABLE public.payment_transactions
+ADD COLUMN bank_entry_id TEXT UNIQUE;
+
+-- Transações já conciliadas guardavam o identificador em receipt_reference
+UPDATE public.payment_transactions
+SET bank_entry_id = receipt_reference
+WHERE id IN (
+  SELECT DISTINCT ON (receipt_reference) id
+  FROM public.payment_transactions
+  WHERE receipt_reference IS NOT NULL
+    AND notes LIKE 'Conciliação bancária:%'
+  ORDER BY receipt_reference, created_at
+);
@@ -0,0 +1,20 @@
+-- A situação é avaliada na data de São Paulo: CURRENT_DATE segue o fuso do servidor (UTC)
+-- e encerrava ou iniciava tratamentos três horas antes da virada do dia na clínica
+CREATE OR REPLACE FUNCTION public.medication_status(
+  _start_date DATE,
+  _end_date DATE,
+  _duration_days INTEGER,
+  _suspended_at TIMESTAMP WITH TIME ZONE
+)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT CASE
+    WHEN _suspended_at IS NOT NULL THEN 'suspended'
+    WHEN _start_date > (now() AT TIME ZONE 'America/Sao_Paulo')::date THEN 'scheduled'
+    WHEN public.medication_effective_end_date(_start_date, _end_date, _duration_days)
+      < (now() AT TIME ZONE 'America/Sao_Paulo')::date THEN 'ended'
+    ELSE 'active'
+  END
+$$;
@@ -0,0 +1,59 @@
+-- Medicações recorrentes passam a ter uma série, como aplicações e pagamentos. O estoque
+-- dispensado para o tratamento todo fica na série, em vez de copiado em cada ocorrência
+-- (cada cópia contava o mesmo estoque de novo a partir do próprio início)
+ALTER TABLE public.recurrence_series
+DROP CONSTRAINT recurrence_series_entity_type_check;
+
+ALTER TABLE public.recurrence_series
+ADD CONSTRAINT recurrence_series_entity_type_check
+CHECK (entity_type IN ('application', 'payment', 'evaluation', 'medication'));
+
+ALTER TABLE public.recurrence_series
+ADD COLUMN quantity_dispensed NUMERIC,
+ADD COLUMN daily_dose NUMERIC,
+ADD COLUMN dispensed_at DATE;
+
+ALTER TABLE public.recurrence_series
+ADD CONSTRAINT recurrence_series_supply_check CHECK (
+  (quantity_dispensed IS NULL OR quantity_dispensed > 0)
+  AND (daily_dose IS NULL OR daily_dose > 0)
+);
+
+ALTER TABLE public.medications
+ADD COLUMN series_id UUID REFERENCES public.recurrence_series(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_medications_series_id ON public.medications(series_id);
+
+-- Ocorrências antigas foram inseridas juntas e compartilham o created_at. Sem a regra
+-- original não dá para criar a série, mas o estoque passa a contar do início do lote,
+-- de modo que todas as cópias apontem para o mesmo fim
+WITH batches AS (
+  SELECT id, MIN(start_date) OVER (PARTITION BY user_id, medication_name, created_at) AS batch_start
+  FROM public.medications
+  WHERE quantity_dispensed IS NOT NULL AND dispensed_at IS NULL
+)
+UPDATE public.medications
+SET dispensed_at = batches.batch_start
+FROM batches
+WHERE medications.id = batches.id
+  AND batches.batch_start < medications.start_date;
+
+-- O fim do estoque vem da série quando a medicação faz parte de uma
+DROP VIEW public.medications_with_status;
+
+CREATE VIEW public.medications_with_status
+WITH (security_invoker = true)
+AS
+SELECT
+  m.*,
+  public.medication_effective_end_date(m.start_date, m.end_date, m.duration_days) AS effective_end_date,
+  public.medication_status(m.start_date, m.end_date, m.duration_days, m.suspended_at) AS status,
+  CASE
+    WHEN s.id IS NOT NULL
+      THEN public.medication_supply_end_date(s.start_date, s.dispensed_at, s.quantity_dispensed, s.daily_dose)
+    ELSE public.medication_supply_end_date(m.start_date, m.dispensed_at, m.quantity_dispensed, m.daily_dose)
+  END AS supply_end_date
+FROM public.medications m
+LEFT JOIN public.recurrence_series s ON s.id = m.series_id;
+
+GRANT SELECT ON public.medications_with_status TO authenticated;
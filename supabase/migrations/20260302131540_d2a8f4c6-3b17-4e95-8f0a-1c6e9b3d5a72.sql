@@ -0,0 +1,41 @@
+-- Data e autoria de toda nota são definidas pelo banco, não só nos adendos, e o
+-- atendimento vinculado precisa ser do mesmo paciente da nota
+CREATE OR REPLACE FUNCTION public.inherit_clinical_note_context()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _original public.clinical_notes%ROWTYPE;
+BEGIN
+  NEW.created_at = now();
+  NEW.author_id = auth.uid();
+
+  IF NEW.amends_id IS NULL THEN
+    IF NEW.application_id IS NOT NULL AND NOT EXISTS (
+      SELECT 1 FROM public.applications WHERE id = NEW.application_id AND user_id = NEW.user_id
+    ) THEN
+      RAISE EXCEPTION 'A aplicação vinculada não pertence ao paciente da nota';
+    END IF;
+
+    IF NEW.evaluation_id IS NOT NULL AND NOT EXISTS (
+      SELECT 1 FROM public.medical_evaluations WHERE id = NEW.evaluation_id AND user_id = NEW.user_id
+    ) THEN
+      RAISE EXCEPTION 'A avaliação vinculada não pertence ao paciente da nota';
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO _original FROM public.clinical_notes WHERE id = NEW.amends_id;
+
+  IF _original.amends_id IS NOT NULL THEN
+    NEW.amends_id = _original.amends_id;
+  END IF;
+
+  NEW.user_id = _original.user_id;
+  NEW.application_id = _original.application_id;
+  NEW.evaluation_id = _original.evaluation_id;
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,29 @@
+-- A cópia do questionário guardada na resposta é tirada do próprio formulário pelo
+-- banco; o paciente envia apenas o formulário escolhido e as respostas. Os valores
+-- padrão só existem para que o envio possa omitir as colunas: o gatilho sempre os substitui
+ALTER TABLE public.anamnesis_responses
+ALTER COLUMN form_title SET DEFAULT '',
+ALTER COLUMN form_sections SET DEFAULT '[]';
+
+CREATE OR REPLACE FUNCTION public.set_anamnesis_response_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  SELECT title, sections INTO NEW.form_title, NEW.form_sections
+  FROM public.anamnesis_forms
+  WHERE id = NEW.form_id AND is_active;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Questionário de anamnese não encontrado ou inativo';
+  END IF;
+
+  SELECT COALESCE(MAX(version), 0) + 1 INTO NEW.version
+  FROM public.anamnesis_responses
+  WHERE user_id = NEW.user_id AND form_id IS NOT DISTINCT FROM NEW.form_id;
+
+  NEW.submitted_at = now();
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,22 @@
+-- A sobreposição é comparada em timestamps: somar um intervalo a um TIME dá a volta
+-- na meia-noite, e uma aplicação às 23:30 parecia terminar antes de começar
+CREATE OR REPLACE FUNCTION public.available_application_slots(_date DATE, _duration_minutes INTEGER)
+RETURNS TABLE (start_time TIME, available INTEGER)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT s.start_time, (s.capacity - count(a.id))::INTEGER AS available
+  FROM public.application_slots s
+  LEFT JOIN public.applications a
+    ON a.application_date = _date
+    AND a.status IN ('scheduled', 'completed')
+    AND a.start_time IS NOT NULL
+    AND _date + a.start_time < _date + s.start_time + make_interval(mins => _duration_minutes)
+    AND _date + s.start_time < _date + a.start_time + make_interval(mins => a.duration_minutes)
+  WHERE auth.uid() IS NOT NULL
+  GROUP BY s.start_time, s.capacity
+  HAVING s.capacity - count(a.id) > 0
+  ORDER BY s.start_time;
+$$;
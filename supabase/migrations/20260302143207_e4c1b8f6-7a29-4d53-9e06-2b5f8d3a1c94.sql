@@ -0,0 +1,21 @@
+-- Ao alterar um registro de dose o paciente também só pode apontá-lo para as próprias
+-- medicações, como na inclusão; antes era possível mover o registro para a medicação de outro
+DROP POLICY "Users can update own medication intakes" ON public.medication_intakes;
+
+CREATE POLICY "Users can update own medication intakes"
+ON public.medication_intakes
+FOR UPDATE
+USING (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.medications m
+    WHERE m.id = medication_id AND m.user_id = auth.uid()
+  )
+)
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.medications m
+    WHERE m.id = medication_id AND m.user_id = auth.uid()
+  )
+);
@@ -0,0 +1,60 @@
+-- A aprovação revalida a aplicação: ela pode ter sido cancelada ou o horário pedido
+-- pode ter lotado desde que o paciente enviou a solicitação
+CREATE OR REPLACE FUNCTION public.resolve_application_change_request()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _application public.applications%ROWTYPE;
+  _start_time TIME;
+BEGIN
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status <> 'pending' THEN
+    RAISE EXCEPTION 'Solicitação já respondida';
+  END IF;
+
+  IF NEW.status IN ('approved', 'rejected') THEN
+    NEW.responded_at = now();
+    NEW.responded_by = auth.uid();
+  END IF;
+
+  IF NEW.status <> 'approved' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO _application FROM public.applications WHERE id = NEW.application_id;
+
+  IF _application.status IS DISTINCT FROM 'scheduled' THEN
+    RAISE EXCEPTION 'A aplicação não está mais agendada';
+  END IF;
+
+  IF NEW.kind = 'reschedule' THEN
+    _start_time := COALESCE(NEW.requested_time, _application.start_time);
+
+    IF _start_time IS NOT NULL AND NOT EXISTS (
+      SELECT 1
+      FROM public.available_application_slots(NEW.requested_date, _application.duration_minutes) slot
+      WHERE slot.start_time = _start_time
+    ) THEN
+      RAISE EXCEPTION 'Não há vaga disponível em % às %', to_char(NEW.requested_date, 'DD/MM/YYYY'), to_char(_start_time, 'HH24:MI');
+    END IF;
+
+    UPDATE public.applications
+    SET application_date = NEW.requested_date,
+        start_time = _start_time,
+        status_reason = NEW.reason
+    WHERE id = NEW.application_id;
+  ELSIF NEW.kind = 'cancel' THEN
+    UPDATE public.applications
+    SET status = 'cancelled',
+        status_reason = NEW.reason
+    WHERE id = NEW.application_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,56 @@
+-- Criação de uma série recorrente junto com as ocorrências em uma única transação:
+-- se alguma ocorrência for recusada, a série não fica gravada sem elas.
+-- Roda com as permissões de quem chama, então as políticas de cada tabela continuam valendo
+CREATE OR REPLACE FUNCTION public.create_recurring_series(_series JSONB, _occurrences JSONB)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _series_id UUID;
+  _table TEXT;
+  _columns TEXT;
+BEGIN
+  _table := CASE _series->>'entity_type'
+    WHEN 'application' THEN 'applications'
+    WHEN 'payment' THEN 'payments'
+    WHEN 'evaluation' THEN 'medical_evaluations'
+    WHEN 'medication' THEN 'medications'
+  END;
+
+  IF _table IS NULL THEN
+    RAISE EXCEPTION 'Tipo de série desconhecido: %', _series->>'entity_type';
+  END IF;
+
+  IF jsonb_typeof(_occurrences) IS DISTINCT FROM 'array' OR jsonb_array_length(_occurrences) = 0 THEN
+    RAISE EXCEPTION 'A série precisa de pelo menos uma ocorrência';
+  END IF;
+
+  INSERT INTO public.recurrence_series (
+    entity_type, user_id, start_date, frequency, interval, weekdays, occurrence_count, until_date, skip_holidays,
+    quantity_dispensed, daily_dose, dispensed_at
+  )
+  SELECT s.entity_type, s.user_id, s.start_date, s.frequency, s.interval, s.weekdays, s.occurrence_count, s.until_date,
+    s.skip_holidays, s.quantity_dispensed, s.daily_dose, s.dispensed_at
+  FROM jsonb_to_record(_series) AS s(
+    entity_type TEXT, user_id UUID, start_date DATE, frequency TEXT, interval INTEGER, weekdays SMALLINT[],
+    occurrence_count INTEGER, until_date DATE, skip_holidays BOOLEAN,
+    quantity_dispensed NUMERIC, daily_dose NUMERIC, dispensed_at DATE
+  )
+  RETURNING id INTO _series_id;
+
+  -- Só as colunas enviadas são gravadas, as demais ficam com o padrão da tabela
+  SELECT string_agg(quote_ident(key), ', ')
+  INTO _columns
+  FROM jsonb_object_keys(_occurrences->0) AS key
+  WHERE key <> 'series_id';
+
+  EXECUTE format(
+    'INSERT INTO public.%1$I (%2$s, series_id) SELECT %2$s, $2 FROM jsonb_populate_recordset(NULL::public.%1$I, $1)',
+    _table, _columns
+  )
+  USING _occurrences, _series_id;
+
+  RETURN _series_id;
+END;
+$$;
@@ -0,0 +1,4 @@
+-- A data padrão do recebimento segue o dia de São Paulo: CURRENT_DATE usa o fuso do
+-- servidor (UTC) e gravava o dia seguinte para recebimentos lançados a partir das 21h
+ALTER TABLE public.payment_transactions
+ALTER COLUMN paid_at SET DEFAULT (now() AT TIME ZONE 'America/Sao_Paulo')::date;
@@ -0,0 +1,4 @@
+-- A data padrão da receita segue o dia de São Paulo: CURRENT_DATE usa o fuso do
+-- servidor (UTC) e datava do dia seguinte as receitas emitidas a partir das 21h
+ALTER TABLE public.prescriptions
+ALTER COLUMN issued_at SET DEFAULT (now() AT TIME ZONE 'America/Sao_Paulo')::date;